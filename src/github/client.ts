@@ -2,15 +2,333 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { Octokit } from "@octokit/rest";
 import { z } from "zod";
 
-import type { GithubConfig } from "./types.js";
+import {
+  type Backlink,
+  type UnlinkedMention,
+  findBacklinks,
+  findUnlinkedMentions,
+} from "../obsidian/backlinks.js";
+import {
+  type Canvas,
+  CanvasError,
+  parseCanvas,
+  renderCanvasMermaid,
+  renderCanvasOutline,
+} from "../obsidian/canvas.js";
+import {
+  DAILY_NOTES_CONFIG,
+  type DailyNoteSettings,
+  PERIODIC_NOTES_CONFIG,
+  dailyNotePath,
+  parseDailyNoteSettings,
+  templatePath,
+} from "../obsidian/daily.js";
+import { formatMomentDate, parseCalendarDate } from "../obsidian/dates.js";
+import { type EmbedReport, expandEmbeds } from "../obsidian/embeds.js";
+import {
+  FrontmatterError,
+  type NoteMetadata,
+  parseFrontmatter,
+  splitFrontmatter,
+} from "../obsidian/frontmatter.js";
+import { matchesGlob } from "../obsidian/glob.js";
+import {
+  type GraphStats,
+  type LinkGraph,
+  buildLinkGraph,
+  graphStats,
+  toAdjacency,
+  toGraphML,
+  toMermaid,
+} from "../obsidian/graph.js";
+import {
+  type LinkIndex,
+  type LinkResolution,
+  type NoteLink,
+  buildLinkIndex,
+  extractLinks,
+  linkKind,
+  normalizePath,
+  noteName,
+  parseLinkTarget,
+  resolveLinkTarget,
+} from "../obsidian/links.js";
+import { LINT_RULES, type LintRule, lintVault } from "../obsidian/lint.js";
+import {
+  type BlockId,
+  findBlockLine,
+  normalizeHeading,
+  parseHeadings,
+} from "../obsidian/markdown.js";
+import {
+  QuerySyntaxError,
+  filterFields,
+  getField,
+  parseFilter,
+  parseSort,
+  relativeDate,
+  runQuery,
+} from "../obsidian/query.js";
+import { planNoteMove } from "../obsidian/rename.js";
+import {
+  type OutlineNode,
+  appendToSection,
+  findBlock,
+  findSection,
+  noteOutline,
+} from "../obsidian/sections.js";
+import {
+  type TagNode,
+  type TagQuery,
+  buildTagTree,
+  matchesTagQuery,
+  normalizeTag,
+  noteTags,
+  tagMatches,
+} from "../obsidian/tags.js";
+import {
+  type Task,
+  type TaskFilter,
+  extractTasks,
+  matchesTaskFilter,
+  setTaskStatus,
+} from "../obsidian/tasks.js";
+import {
+  TEMPLATER_CONFIG,
+  TEMPLATES_CONFIG,
+  type TemplateSettings,
+  parseTemplateSettings,
+  renderTemplate,
+  templateVariables,
+  unresolvedTemplaterCommands,
+} from "../obsidian/templates.js";
+import {
+  filterVaultTree,
+  formatSize,
+  parseUserIgnoreFilters,
+  renderVaultTree,
+} from "../obsidian/tree.js";
+import { type IndexRefresh, LocalSearchEngine } from "../search/engine.js";
+import { type NoteCandidate, rankNotes } from "../search/fuzzy.js";
+import {
+  type Range,
+  clipHighlight,
+  renderHighlight,
+} from "../search/highlight.js";
+import {
+  type RelatedInput,
+  type RelatedNote,
+  findRelatedNotes,
+} from "../search/related.js";
+import { PathPolicy } from "./policy.js";
+import type { FileChange, GithubConfig, RepoTreeEntry } from "./types.js";
+
+// Maximum number of parallel GitHub requests when loading many notes
+const MAX_PARALLEL_REQUESTS = 8;
+
+// An entry of a Git Trees API listing
+type TreeListingEntry = Awaited<
+  ReturnType<Octokit["git"]["getTree"]>
+>["data"]["tree"][number];
+
+// Shared `ref` argument for tools that read repository content
+const refParameter = z
+  .string()
+  .optional()
+  .describe(
+    "Branch, tag or commit SHA to read from (default: the configured default ref, or the repository's default branch)"
+  );
+
+// File operations applied together in one commit
+const fileChangesParameter = z
+  .array(
+    z.discriminatedUnion("action", [
+      z.object({
+        action: z.literal("create"),
+        path: z.string().describe("Path of the new file"),
+        content: z.string().describe("Content of the new file"),
+      }),
+      z.object({
+        action: z.literal("update"),
+        path: z.string().describe("Path of the file to update"),
+        content: z.string().describe("Complete new content"),
+        sha: z
+          .string()
+          .optional()
+          .describe("Blob SHA last read; the commit fails if it changed"),
+      }),
+      z.object({
+        action: z.literal("delete"),
+        path: z.string().describe("Path of the file to delete"),
+        sha: z
+          .string()
+          .optional()
+          .describe("Blob SHA last read; the commit fails if it changed"),
+      }),
+      z.object({
+        action: z.literal("rename"),
+        path: z.string().describe("Current path of the file"),
+        newPath: z.string().describe("New path of the file"),
+        content: z
+          .string()
+          .optional()
+          .describe("New content (default: keep the current content)"),
+        sha: z
+          .string()
+          .optional()
+          .describe("Blob SHA last read; the commit fails if it changed"),
+      }),
+    ])
+  )
+  .min(1)
+  .describe("File operations to apply together");
+
+// Shared `backend` argument of the search tools
+const searchBackendParameter = z
+  .enum(["github", "local"])
+  .optional()
+  .describe(
+    "'github' for GitHub code search, or 'local' for the server's own full-text index of the repository tarball, which searches any ref, ranks by relevance and supports prefix (term*) and \"phrase\" queries (default: the configured search backend, or 'github')"
+  );
+
+// Shared `snippetLength` argument of the search tools
+const snippetLengthParameter = z
+  .number()
+  .optional()
+  .default(200)
+  .describe(
+    "Maximum characters of each matched snippet, with the matches in **bold**; 0 leaves snippets out (default: 200)"
+  );
+
+// Items listed per section of a link graph report
+const MAX_GRAPH_LIST_ITEMS = 20;
+
+// Snippets shown per result from GitHub's text matches
+const MAX_FRAGMENTS_PER_RESULT = 3;
+
+// File extensions searched for a searchCode language on the local backend
+const LANGUAGE_EXTENSIONS: Record<string, string[]> = {
+  markdown: ["md", "markdown"],
+  text: ["txt"],
+  json: ["json"],
+  yaml: ["yml", "yaml"],
+  javascript: ["js", "mjs", "cjs", "jsx"],
+  typescript: ["ts", "mts", "cts", "tsx"],
+  python: ["py"],
+  shell: ["sh", "bash", "zsh"],
+  css: ["css"],
+  html: ["html", "htm"],
+};
+
+// Run an async mapper over items with a bounded number of requests in flight
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  mapper: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from(
+    { length: Math.min(limit, items.length) },
+    async () => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await mapper(items[index]);
+      }
+    }
+  );
+  await Promise.all(workers);
+  return results;
+}
+
+// HTTP status of a failed Octokit request, when there is one
+function errorStatus(error: unknown): number | undefined {
+  if (typeof error === "object" && error !== null && "status" in error) {
+    return typeof error.status === "number" ? error.status : undefined;
+  }
+  return undefined;
+}
+
+// A write rejected because the file changed (or appeared) since it was read
+class WriteConflictError extends Error {}
+
+type ResolvedLink = NoteLink & LinkResolution & { anchorFound?: boolean };
+
+// Markdown table cell for a note property
+function formatTableCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = Array.isArray(value)
+    ? value.map((item) => formatTableCell(item)).join(", ")
+    : typeof value === "object"
+      ? JSON.stringify(value)
+      : String(value);
+  return text.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+// A code search text match, as returned with the text-match media type
+interface TextMatch {
+  property?: string;
+  fragment?: string;
+  matches?: Array<{ text?: string; indices?: number[] }>;
+}
+
+// Quoted, highlighted fragments of the content matches of a search result
+function formatTextMatches(
+  textMatches: TextMatch[] | undefined,
+  maxLength: number,
+  indent: string
+): string {
+  const blocks: string[] = [];
+  const fragments = (textMatches ?? []).filter(
+    (match) => match.property === "content" && match.fragment?.trim()
+  );
+  for (const match of fragments.slice(0, MAX_FRAGMENTS_PER_RESULT)) {
+    const fragment = match.fragment ?? "";
+    const lead = fragment.length - fragment.trimStart().length;
+    const ranges = (match.matches ?? [])
+      .filter((item) => item.indices?.length === 2)
+      .map((item): Range => {
+        const [start, end] = item.indices as number[];
+        return [start - lead, end - lead];
+      });
+    const rendered = renderHighlight(
+      clipHighlight(fragment.trim(), ranges, maxLength)
+    );
+    blocks.push(
+      rendered
+        .split(/\r?\n/)
+        .filter((line) => line.trim() !== "")
+        .map((line) => `${indent}> ${line.trimEnd()}`)
+        .join("\n")
+    );
+  }
+  return blocks.join(`\n${indent}>\n`);
+}
+
+// Footnote on what a local search had to (re)index first
+function formatIndexRefresh(refresh: IndexRefresh): string {
+  if (refresh.mode === "built") {
+    return `\n\n_Indexed ${refresh.added} files from the repository tarball._`;
+  }
+  if (refresh.mode === "updated") {
+    return `\n\n_Local index refreshed: ${refresh.added} added, ${refresh.updated} updated, ${refresh.removed} removed._`;
+  }
+  return "";
+}
 
 export class GithubClient {
   private octokit: Octokit;
+  private policy: PathPolicy;
+  // Branch collecting this session's proposed edits, created on first use
+  private sessionBranch?: string;
+  // Full-text index for the local search backend, created on first use
+  private localSearch?: LocalSearchEngine;
 
   constructor(private config: GithubConfig) {
     this.octokit = new Octokit({
       auth: config.githubToken,
     });
+    this.policy = new PathPolicy(config);
   }
 
   // Check if configuration is complete
@@ -31,379 +349,4138 @@ export class GithubClient {
       const { data } = await request();
       return data;
     } catch (error: unknown) {
-      if (error instanceof Error) {
-        throw new Error(`GitHub API error: ${error.message}`);
-      }
-      throw new Error(`GitHub API error: ${String(error)}`);
+      // Keep the HTTP status so callers can tell a 404 from other failures
+      throw Object.assign(
+        new Error(
+          `GitHub API error: ${error instanceof Error ? error.message : String(error)}`
+        ),
+        { status: errorStatus(error) }
+      );
     }
   }
 
-  // Run diagnostics when search returns no results
-  private async runSearchDiagnostics(_originalQuery: string): Promise<{
-    repoSize?: number;
-    repoSizeGB?: number;
-    isPrivate?: boolean;
-    defaultBranch?: string;
-    basicSearchWorks?: boolean;
-    filesFound?: number;
-    repoIndexed?: boolean;
-    isLarge?: boolean;
-    diagnosticError?: string;
-  }> {
-    try {
-      // Test 1: Repository accessibility
-      const repoInfo = await this.handleRequest(async () => {
-        return this.octokit.repos.get({
-          owner: this.config.owner,
-          repo: this.config.repo,
-        });
+  // Pick the ref to read from: explicit argument, configured default, or
+  // undefined to let GitHub use the repository's default branch
+  private resolveRef(ref?: string): string | undefined {
+    return ref || this.config.defaultRef || undefined;
+  }
+
+  // Fetch a file's raw text content from the repository
+  private async fetchFileText(filePath: string, ref?: string): Promise<string> {
+    this.policy.assertReadable(filePath);
+    const resolvedRef = this.resolveRef(ref);
+    const fileContent = await this.handleRequest(async () => {
+      return this.octokit.repos.getContent({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        path: filePath,
+        ...(resolvedRef ? { ref: resolvedRef } : {}),
+        // Request raw content to avoid base64 decoding complexities for now
+        mediaType: {
+          format: "raw",
+        },
       });
+    });
 
-      // Test 2: Basic search functionality with simple query
-      let basicSearchWorks = false;
-      let basicSearchCount = 0;
-      try {
-        const basicTest = await this.handleRequest(async () => {
-          return this.octokit.search.code({
-            q: `repo:${this.config.owner}/${this.config.repo} extension:md`,
-            per_page: 1,
-          });
-        });
-        basicSearchWorks = true;
-        basicSearchCount = basicTest.total_count;
-      } catch (_error) {
-        basicSearchWorks = false;
-      }
+    // The raw format returns the content directly as a string
+    if (typeof fileContent !== "string") {
+      throw new Error("Received unexpected content format from GitHub API.");
+    }
+    return fileContent;
+  }
 
-      const repoSizeKB = repoInfo.size;
-      const repoSizeGB = repoSizeKB / (1024 * 1024);
-      const isLarge = repoSizeGB > 50;
+  // Fetch a file's text together with its blob SHA, which writes need for
+  // optimistic concurrency
+  private async fetchFile(
+    filePath: string,
+    ref?: string
+  ): Promise<{ text: string; sha: string }> {
+    this.policy.assertReadable(filePath);
+    const resolvedRef = this.resolveRef(ref);
+    const file = await this.handleRequest(async () => {
+      return this.octokit.repos.getContent({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        path: filePath,
+        ...(resolvedRef ? { ref: resolvedRef } : {}),
+      });
+    });
+
+    if (Array.isArray(file) || file.type !== "file") {
+      throw new Error(`"${filePath}" is not a file.`);
+    }
+    // The contents API leaves out the content of files over 1 MB
+    const text =
+      "content" in file && file.encoding === "base64"
+        ? Buffer.from(file.content, "base64").toString("utf8")
+        : await this.fetchFileText(filePath, ref);
+    return { text, sha: file.sha };
+  }
 
+  // Create or update a single file through the contents API. GitHub rejects
+  // the write when `sha` no longer matches, which is surfaced as a conflict.
+  private async writeFile(options: {
+    filePath: string;
+    content: string;
+    sha?: string;
+    message: string;
+    branch?: string;
+  }): Promise<{ sha?: string; commitSha?: string; commitUrl?: string }> {
+    const { filePath, content, sha, message } = options;
+    this.policy.assertWritable(filePath);
+    const branch = this.resolveRef(options.branch);
+    this.checkConfig();
+    try {
+      const { data } = await this.octokit.repos.createOrUpdateFileContents({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        path: filePath,
+        message,
+        content: Buffer.from(content, "utf8").toString("base64"),
+        ...(sha ? { sha } : {}),
+        ...(branch ? { branch } : {}),
+      });
       return {
-        repoSize: repoSizeKB,
-        repoSizeGB: repoSizeGB,
-        isPrivate: repoInfo.private,
-        defaultBranch: repoInfo.default_branch,
-        basicSearchWorks,
-        filesFound: basicSearchCount,
-        repoIndexed: basicSearchWorks && basicSearchCount > 0,
-        isLarge,
+        sha: data.content?.sha,
+        commitSha: data.commit.sha,
+        commitUrl: data.commit.html_url,
       };
     } catch (error) {
-      return {
-        diagnosticError: error instanceof Error ? error.message : String(error),
-      };
+      const status = errorStatus(error);
+      if (status === 409 || (status === 422 && sha)) {
+        throw new WriteConflictError(
+          `Conflict: "${filePath}" has changed since SHA ${sha} was read. Re-read it with getFileContents, reapply your edit to the latest content, and retry with the new sha.`
+        );
+      }
+      if (status === 422) {
+        throw new WriteConflictError(
+          `"${filePath}" already exists. Read it with getFileContents and pass its sha to update it.`
+        );
+      }
+      if (status === 404) {
+        throw new Error(
+          `Cannot write "${filePath}": the branch does not exist, or the token lacks write access (it needs 'repo' or 'contents: write' scope).`
+        );
+      }
+      throw new Error(
+        `GitHub API error: ${error instanceof Error ? error.message : String(error)}`
+      );
     }
   }
 
-  // Format response when no search results are found
-  private formatNoResultsResponse(
-    _searchResults: { total_count: number },
-    diagnostics: {
-      diagnosticError?: string;
-      repoIndexed?: boolean;
-      isLarge?: boolean;
-      repoSizeGB?: number;
-      isPrivate?: boolean;
-      defaultBranch?: string;
-      filesFound?: number;
-    },
-    query: string,
-    searchIn: string
-  ): { content: Array<{ type: "text"; text: string }> } {
-    let resultText = `Found 0 files matching "${query}"`;
-    if (searchIn !== "all") {
-      resultText += ` in ${searchIn}`;
+  // Check every path of a batch against the write policy up front
+  private assertChangesAllowed(changes: FileChange[]): void {
+    if (changes.length === 0) {
+      throw new Error("No changes to commit.");
     }
-    resultText += "\n\n";
-
-    if (diagnostics.diagnosticError) {
-      resultText += `⚠️ **Search System Issue**: ${diagnostics.diagnosticError}\n\n`;
-    } else if (!diagnostics.repoIndexed) {
-      resultText +=
-        "⚠️ **Repository May Not Be Indexed**: GitHub might not have indexed this repository for search.\n";
-      resultText += "This can happen with:\n";
-      resultText += "- New repositories (indexing takes time)\n";
-      if (diagnostics.isLarge) {
-        resultText += `- Large repositories (${diagnostics.repoSizeGB?.toFixed(
-          2
-        )} GB exceeds 50 GB limit)\n`;
+    // Repeating an action on a path is almost always a mistake in the batch,
+    // while chains such as delete-then-create or rename-then-update are fine
+    const seen = new Set<string>();
+    for (const change of changes) {
+      const key = `${change.action} ${change.path}`;
+      if (seen.has(key)) {
+        throw new Error(
+          `Duplicate change: "${change.path}" is given more than one ${change.action}. Combine them into one change.`
+        );
       }
-      if (diagnostics.isPrivate) {
-        resultText += "- Private repositories with indexing issues\n";
+      seen.add(key);
+    }
+    for (const change of changes) {
+      this.policy.assertWritable(change.path);
+      if (change.action === "rename") {
+        this.policy.assertWritable(change.newPath);
       }
-      resultText += "\n**Try**:\n";
-      resultText += "- Search directly on GitHub.com to confirm\n";
-      resultText +=
-        "- Use the diagnoseSearch tool for detailed diagnostics\n\n";
-    } else {
-      resultText += "📊 **Search Debug Info**:\n";
-      resultText += `- Repository: ${
-        diagnostics.isPrivate ? "Private" : "Public"
-      } (${diagnostics.repoSizeGB?.toFixed(3)} GB)\n`;
-      resultText += `- Default branch: ${diagnostics.defaultBranch} (only branch searchable)\n`;
-      resultText += `- Files in repo: ${diagnostics.filesFound} found\n`;
-      resultText += `- Search query used: \`${query}\`\n\n`;
-
-      resultText += "**Possible reasons for no results**:\n";
-      resultText += "- The search term doesn't exist in the repository\n";
-      resultText +=
-        "- Content might be in non-default branches (not searchable)\n";
-      resultText += "- Files might be larger than 384 KB (not indexed)\n\n";
     }
+  }
 
-    // Add search tips
-    resultText += "💡 **Search Tips:**\n";
-    resultText += `- Try \`searchIn: "filename"\` to search only filenames\n`;
-    resultText += `- Try \`searchIn: "path"\` to search file paths\n`;
-    resultText += `- Try \`searchIn: "content"\` to search file contents\n`;
-    resultText += `- Use quotes for exact phrases: "exact phrase"\n`;
-    resultText += "- Use wildcards: `*.md` for markdown files\n";
-    resultText += "- Try simpler or partial search terms";
-
-    return {
-      content: [
-        {
-          type: "text" as const,
-          text: resultText,
-        },
-      ],
-    };
+  // Branch to write to: explicit argument, configured default, or the
+  // repository's default branch
+  private async resolveBranch(branch?: string): Promise<string> {
+    return this.resolveRef(branch) ?? (await this.getDefaultBranch());
   }
 
-  registerGithubResources(server: McpServer) {
-    // Resource for repository information
-    server.resource(
-      "repo-info",
-      `obsidian://vault/${this.config.owner}/${this.config.repo}/info`,
-      {
-        description: "Basic information about your Obsidian vault repository",
-        mimeType: "application/json",
-      },
-      async (uri) => {
-        try {
-          const repoInfo = await this.handleRequest(async () => {
-            return this.octokit.repos.get({
-              owner: this.config.owner,
-              repo: this.config.repo,
-            });
-          });
+  private async getDefaultBranch(): Promise<string> {
+    const repoInfo = await this.handleRequest(async () => {
+      return this.octokit.repos.get({
+        owner: this.config.owner,
+        repo: this.config.repo,
+      });
+    });
+    return repoInfo.default_branch;
+  }
 
-          const info = {
-            name: repoInfo.name,
-            fullName: repoInfo.full_name,
-            description: repoInfo.description,
-            isPrivate: repoInfo.private,
-            defaultBranch: repoInfo.default_branch,
-            size: `${(repoInfo.size / 1024).toFixed(2)} MB`,
-            createdAt: repoInfo.created_at,
-            updatedAt: repoInfo.updated_at,
-            language: repoInfo.language,
-            topics: repoInfo.topics || [],
-            htmlUrl: repoInfo.html_url,
-          };
+  // The ref to search when it is not the default branch, the only one
+  // GitHub code search indexes; undefined when code search covers it
+  private async refOutsideSearchIndex(
+    ref?: string
+  ): Promise<string | undefined> {
+    const resolved = this.resolveRef(ref);
+    if (!resolved) return undefined;
+    const branch = resolved.replace(/^(refs\/)?heads\//, "");
+    return branch === (await this.getDefaultBranch()) ? undefined : resolved;
+  }
 
-          return {
-            contents: [
-              {
-                uri: uri.toString(),
-                mimeType: "application/json",
-                text: JSON.stringify(info, null, 2),
-              },
-            ],
-          };
-        } catch (error) {
-          return {
-            contents: [
-              {
-                uri: uri.toString(),
-                mimeType: "text/plain",
-                text: `Error fetching repository information: ${
-                  error instanceof Error ? error.message : String(error)
-                }`,
-              },
-            ],
-          };
-        }
+  // Create `branch` from the head of `base` unless it already exists
+  private async ensureBranch(branch: string, base: string): Promise<boolean> {
+    this.checkConfig();
+    try {
+      await this.octokit.git.getRef({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        ref: `heads/${branch}`,
+      });
+      return false;
+    } catch (error) {
+      if (errorStatus(error) !== 404) {
+        throw new Error(
+          `GitHub API error: ${error instanceof Error ? error.message : String(error)}`
+        );
       }
-    );
+    }
 
-    // Resource for recent activity summary
-    server.resource(
-      "recent-activity",
-      `obsidian://vault/${this.config.owner}/${this.config.repo}/activity`,
-      {
-        description: "Summary of recent commits and changes to your vault",
-        mimeType: "text/markdown",
-      },
-      async (uri) => {
-        try {
-          const since = new Date();
-          since.setDate(since.getDate() - 7); // Last 7 days
+    // The base may be a branch, a tag or a commit SHA
+    const baseCommit = await this.handleRequest(async () => {
+      return this.octokit.repos.getCommit({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        ref: base,
+      });
+    });
+    await this.handleRequest(async () => {
+      return this.octokit.git.createRef({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        ref: `refs/heads/${branch}`,
+        sha: baseCommit.sha,
+      });
+    });
+    return true;
+  }
 
+  // Remove a branch created for a proposal whose commit failed, so no
+  // empty branch is left behind
+  private async deleteBranch(branch: string): Promise<void> {
+    try {
+      await this.octokit.git.deleteRef({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        ref: `heads/${branch}`,
+      });
+    } catch (error) {
+      console.error(
+        `Could not delete branch "${branch}" after a failed commit:`,
+        error
+      );
+    }
+  }
+
+  // Apply a batch of file changes as a single commit using the Git Data API:
+  // build a tree on top of the branch head, commit it, then fast-forward the
+  // branch. Nothing is written if the branch moves in the meantime.
+  private async commitFileChanges(options: {
+    changes: FileChange[];
+    message: string;
+    branch?: string;
+    expectedHeadSha?: string;
+  }): Promise<{ commitSha: string; commitUrl: string; branch: string }> {
+    const { changes, message, expectedHeadSha } = options;
+    this.assertChangesAllowed(changes);
+    const targetBranch = await this.resolveBranch(options.branch);
+
+    const ref = await this.handleRequest(async () => {
+      return this.octokit.git.getRef({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        ref: `heads/${targetBranch}`,
+      });
+    });
+    const headSha = ref.object.sha;
+    if (expectedHeadSha && expectedHeadSha !== headSha) {
+      throw new Error(
+        `Conflict: branch "${targetBranch}" is at ${headSha.substring(0, 7)}, not the expected ${expectedHeadSha.substring(0, 7)}. Re-read the affected notes and retry.`
+      );
+    }
+
+    const headCommit = await this.handleRequest(async () => {
+      return this.octokit.git.getCommit({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        commit_sha: headSha,
+      });
+    });
+    const existing = new Map(
+      (await this.getRepoTree(headSha))
+        .filter((entry) => entry.type === "blob")
+        .map((entry) => [entry.path, entry])
+    );
+
+    // State of every path the batch touched so far, so later changes see
+    // the files earlier ones created, renamed or deleted. `readSha` is the
+    // blob SHA a caller could have read from the head commit.
+    type WorkingFile = {
+      mode: "100644" | "100755";
+      readSha?: string;
+      content?: string;
+      sha?: string;
+    };
+    const working = new Map<string, WorkingFile | null>();
+    const current = (path: string): WorkingFile | undefined => {
+      if (working.has(path)) return working.get(path) ?? undefined;
+      const entry = existing.get(path);
+      if (!entry) return undefined;
+      return {
+        mode: entry.mode === "100755" ? "100755" : "100644",
+        readSha: entry.sha,
+        sha: entry.sha,
+      };
+    };
+    const requireFile = (path: string, sha?: string) => {
+      const file = current(path);
+      if (!file) {
+        throw new Error(`Cannot change "${path}": file does not exist.`);
+      }
+      if (sha && file.readSha !== sha) {
+        throw new Error(
+          `Conflict: "${path}" has changed since SHA ${sha} was read. Re-read it and retry.`
+        );
+      }
+      return file;
+    };
+    const requireAbsent = (path: string) => {
+      if (current(path)) {
+        throw new Error(`Cannot create "${path}": file already exists.`);
+      }
+    };
+
+    for (const change of changes) {
+      if (change.action === "create") {
+        requireAbsent(change.path);
+        working.set(change.path, { mode: "100644", content: change.content });
+      } else if (change.action === "update") {
+        const file = requireFile(change.path, change.sha);
+        working.set(change.path, {
+          mode: file.mode,
+          readSha: file.readSha,
+          content: change.content,
+        });
+      } else if (change.action === "delete") {
+        requireFile(change.path, change.sha);
+        working.set(change.path, null);
+      } else {
+        const file = requireFile(change.path, change.sha);
+        requireAbsent(change.newPath);
+        working.set(change.path, null);
+        working.set(
+          change.newPath,
+          change.content !== undefined
+            ? {
+                mode: file.mode,
+                readSha: file.readSha,
+                content: change.content,
+              }
+            : file
+        );
+      }
+    }
+
+    // One tree entry per path, with its final state
+    const tree: Array<{
+      path: string;
+      mode: "100644" | "100755" | "040000" | "160000" | "120000";
+      type: "blob";
+      content?: string;
+      sha?: string | null;
+    }> = [];
+    for (const [path, file] of working) {
+      if (file === null) {
+        const entry = existing.get(path);
+        // Files created and deleted again within the batch need no entry
+        if (entry) {
+          tree.push({
+            path,
+            mode: entry.mode === "100755" ? "100755" : "100644",
+            type: "blob",
+            sha: null,
+          });
+        }
+      } else {
+        tree.push({
+          path,
+          mode: file.mode,
+          type: "blob",
+          ...(file.content !== undefined
+            ? { content: file.content }
+            : { sha: file.sha }),
+        });
+      }
+    }
+    if (tree.length === 0) {
+      throw new Error("The changes cancel each other out: nothing to commit.");
+    }
+
+    const newTree = await this.handleRequest(async () => {
+      return this.octokit.git.createTree({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        base_tree: headCommit.tree.sha,
+        tree,
+      });
+    });
+    const commit = await this.handleRequest(async () => {
+      return this.octokit.git.createCommit({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        message,
+        tree: newTree.sha,
+        parents: [headSha],
+      });
+    });
+
+    try {
+      await this.octokit.git.updateRef({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        ref: `heads/${targetBranch}`,
+        sha: commit.sha,
+        force: false,
+      });
+    } catch (error) {
+      if (errorStatus(error) === 422) {
+        throw new Error(
+          `Conflict: branch "${targetBranch}" moved while committing, so nothing was changed. Re-read the affected notes and retry.`
+        );
+      }
+      throw new Error(
+        `GitHub API error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    return {
+      commitSha: commit.sha,
+      commitUrl: `https://github.com/${this.config.owner}/${this.config.repo}/commit/${commit.sha}`,
+      branch: targetBranch,
+    };
+  }
+
+  // Parse frontmatter, reporting malformed YAML as a dedicated error
+  private parseNoteMetadata(filePath: string, content: string): NoteMetadata {
+    try {
+      return parseFrontmatter(content);
+    } catch (error) {
+      if (error instanceof FrontmatterError) {
+        throw new Error(
+          `Malformed frontmatter in "${filePath}": ${error.message}`
+        );
+      }
+      throw error;
+    }
+  }
+
+  // List every entry of the repository tree at a ref (default branch if
+  // unset), leaving out paths the policy does not allow reading
+  private async getRepoTree(ref?: string): Promise<RepoTreeEntry[]> {
+    return (await this.fetchTreeSnapshot(ref)).entries;
+  }
+
+  // The readable tree entries at a ref together with the root tree SHA
+  private async fetchTreeSnapshot(
+    ref?: string
+  ): Promise<{ sha: string; entries: RepoTreeEntry[] }> {
+    const tree = await this.fetchTree(this.resolveRef(ref) ?? "HEAD", true);
+    const entries = tree.truncated
+      ? await this.walkTree(tree.sha, "")
+      : tree.tree;
+    return {
+      sha: tree.sha,
+      entries: this.policy.filterTree(
+        entries
+          .filter((entry) => entry.path && entry.type && entry.sha)
+          .map((entry) => ({
+            path: entry.path as string,
+            type: entry.type as RepoTreeEntry["type"],
+            sha: entry.sha as string,
+            size: entry.size,
+            mode: entry.mode,
+          }))
+      ),
+    };
+  }
+
+  private async fetchTree(treeSha: string, recursive: boolean) {
+    return this.handleRequest(async () => {
+      return this.octokit.git.getTree({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        tree_sha: treeSha,
+        ...(recursive ? { recursive: "true" } : {}),
+      });
+    });
+  }
+
+  // GitHub truncates recursive listings of very large trees (over 100,000
+  // entries or 7 MB). List such a tree one folder at a time instead, still
+  // fetching each folder recursively when it fits.
+  private async walkTree(
+    treeSha: string,
+    prefix: string
+  ): Promise<TreeListingEntry[]> {
+    const tree = await this.fetchTree(treeSha, false);
+    if (tree.truncated) {
+      throw new Error(
+        `The folder "${prefix || "/"}" has too many entries for GitHub to list.`
+      );
+    }
+    const entries: TreeListingEntry[] = [];
+    for (const entry of tree.tree) {
+      const path = `${prefix}${entry.path}`;
+      entries.push({ ...entry, path });
+      if (entry.type !== "tree" || !entry.sha) continue;
+      const subtree = await this.fetchTree(entry.sha, true);
+      entries.push(
+        ...(subtree.truncated
+          ? await this.walkTree(entry.sha, `${path}/`)
+          : subtree.tree.map((child) => ({
+              ...child,
+              path: `${path}/${child.path}`,
+            })))
+      );
+    }
+    return entries;
+  }
+
+  // Fetch a blob's raw bytes by SHA
+  private async fetchBlob(sha: string): Promise<Buffer> {
+    const blob = await this.handleRequest(async () => {
+      return this.octokit.git.getBlob({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        file_sha: sha,
+      });
+    });
+    return Buffer.from(blob.content, "base64");
+  }
+
+  // Fetch a blob by SHA and decode it as UTF-8 text
+  private async fetchBlobText(sha: string): Promise<string> {
+    return (await this.fetchBlob(sha)).toString("utf8");
+  }
+
+  private getLocalSearch(): LocalSearchEngine {
+    if (!this.localSearch) {
+      this.localSearch = new LocalSearchEngine(
+        {
+          // The policy-filtered tree keeps unreadable files out of the index
+          getTree: (ref) => this.fetchTreeSnapshot(ref),
+          downloadTarball: async (ref) => {
+            const archive = await this.handleRequest(async () => {
+              return this.octokit.repos.downloadTarballArchive({
+                owner: this.config.owner,
+                repo: this.config.repo,
+                ref: ref ?? "",
+              });
+            });
+            return Buffer.from(archive as ArrayBuffer);
+          },
+          getBlob: (sha) => this.fetchBlob(sha),
+        },
+        {
+          cacheDir: this.config.searchIndexDir,
+          cacheKey: `${this.config.owner}/${this.config.repo}`,
+        }
+      );
+    }
+    return this.localSearch;
+  }
+
+  private useLocalSearch(backend?: "github" | "local"): boolean {
+    return (backend ?? this.config.searchBackend) === "local";
+  }
+
+  // Load the text of many notes, keyed by path
+  private async loadNoteTexts(
+    entries: RepoTreeEntry[]
+  ): Promise<Map<string, string>> {
+    const texts = await mapWithConcurrency(
+      entries,
+      MAX_PARALLEL_REQUESTS,
+      async (entry) => this.fetchBlobText(entry.sha)
+    );
+    return new Map(entries.map((entry, i) => [entry.path, texts[i]]));
+  }
+
+  // Read a file listed in an already-fetched tree, or undefined if absent
+  private async readTreeFile(
+    tree: RepoTreeEntry[],
+    path: string
+  ): Promise<string | undefined> {
+    const entry = tree.find(
+      (candidate) => candidate.path === path && candidate.type === "blob"
+    );
+    return entry ? this.fetchBlobText(entry.sha) : undefined;
+  }
+
+  // Daily note location from the Periodic Notes or core Daily Notes config
+  private async loadDailyNoteSettings(
+    tree: RepoTreeEntry[]
+  ): Promise<DailyNoteSettings> {
+    const [dailyNotes, periodicNotes] = await Promise.all([
+      this.readTreeFile(tree, DAILY_NOTES_CONFIG),
+      this.readTreeFile(tree, PERIODIC_NOTES_CONFIG),
+    ]);
+    return parseDailyNoteSettings({ dailyNotes, periodicNotes });
+  }
+
+  // Template folders and formats from the Templates and Templater configs
+  private async loadTemplateSettings(
+    tree: RepoTreeEntry[]
+  ): Promise<TemplateSettings> {
+    const [templates, templater] = await Promise.all([
+      this.readTreeFile(tree, TEMPLATES_CONFIG),
+      this.readTreeFile(tree, TEMPLATER_CONFIG),
+    ]);
+    return parseTemplateSettings({ templates, templater });
+  }
+
+  // Markdown files inside the configured template folders
+  private listTemplateEntries(
+    tree: RepoTreeEntry[],
+    settings: TemplateSettings
+  ): Array<RepoTreeEntry & { source: "templates" | "templater" }> {
+    return tree.flatMap((entry) => {
+      if (entry.type !== "blob" || !entry.path.endsWith(".md")) return [];
+      const folder = settings.folders.find((candidate) =>
+        entry.path.startsWith(`${candidate.path}/`)
+      );
+      return folder ? [{ ...entry, source: folder.source }] : [];
+    });
+  }
+
+  // Read Obsidian's "Excluded files" setting from .obsidian/app.json
+  private async loadObsidianIgnoreFilters(
+    tree: RepoTreeEntry[]
+  ): Promise<string[]> {
+    const appConfig = tree.find(
+      (entry) => entry.path === ".obsidian/app.json" && entry.type === "blob"
+    );
+    if (!appConfig) {
+      return [];
+    }
+    return parseUserIgnoreFilters(await this.fetchBlobText(appConfig.sha));
+  }
+
+  // Load every markdown note in the tree together with an alias-aware
+  // link index covering all files
+  private async loadVault(tree: RepoTreeEntry[]): Promise<{
+    notes: Map<string, string>;
+    index: LinkIndex;
+  }> {
+    const files = tree.filter((entry) => entry.type === "blob");
+    const notes = await this.loadNoteTexts(
+      files.filter((entry) => entry.path.endsWith(".md"))
+    );
+    const aliases = new Map<string, string[]>();
+    for (const [path, text] of notes) {
+      try {
+        const { aliases: noteAliases } = parseFrontmatter(text);
+        if (noteAliases.length > 0) aliases.set(path, noteAliases);
+      } catch {
+        // Notes with malformed frontmatter simply contribute no aliases
+      }
+    }
+    const index = buildLinkIndex(
+      files.map((entry) => entry.path),
+      aliases
+    );
+    return { notes, index };
+  }
+
+  // Distinct tags of every note in the tree, keyed by path
+  private async loadNoteTags(
+    tree: RepoTreeEntry[]
+  ): Promise<Map<string, string[]>> {
+    const notes = await this.loadNoteTexts(
+      tree.filter(
+        (entry) => entry.type === "blob" && entry.path.endsWith(".md")
+      )
+    );
+    return new Map([...notes].map(([path, text]) => [path, noteTags(text)]));
+  }
+
+  // Note-to-note link graph of the vault, or of the notes in `folder`.
+  // Links still resolve against the whole vault.
+  private async loadLinkGraph(
+    ref?: string,
+    folder?: string
+  ): Promise<LinkGraph> {
+    const { notes, index } = await this.loadVault(await this.getRepoTree(ref));
+    if (!folder) return buildLinkGraph(notes, index);
+    const prefix = `${normalizePath(folder)}/`;
+    return buildLinkGraph(
+      new Map([...notes].filter(([path]) => path.startsWith(prefix))),
+      index
+    );
+  }
+
+  // Build a link index for the vault, optionally reading frontmatter aliases
+  private async buildVaultLinkIndex(
+    tree: RepoTreeEntry[],
+    withAliases: boolean
+  ): Promise<LinkIndex> {
+    if (withAliases) {
+      return (await this.loadVault(tree)).index;
+    }
+    return buildLinkIndex(
+      tree.filter((entry) => entry.type === "blob").map((entry) => entry.path)
+    );
+  }
+
+  // Resolve links by path and name first, falling back to aliases only
+  // when something is left unresolved (alias lookup reads every note)
+  private async resolveNoteLinks(
+    links: NoteLink[],
+    sourcePath?: string,
+    ref?: string
+  ): Promise<ResolvedLink[]> {
+    const tree = await this.getRepoTree(ref);
+    const resolveAll = (index: LinkIndex) =>
+      links.map((link) => ({
+        ...link,
+        ...resolveLinkTarget(link.target, index, sourcePath, link.syntax),
+      }));
+
+    const resolved = resolveAll(await this.buildVaultLinkIndex(tree, false));
+    if (resolved.every((link) => link.status !== "broken")) {
+      return resolved;
+    }
+    return resolveAll(await this.buildVaultLinkIndex(tree, true));
+  }
+
+  // Format resolved links as a markdown list
+  private formatResolvedLinks(links: ResolvedLink[]): string {
+    return links
+      .map((link) => {
+        const anchor = link.blockId
+          ? `#^${link.blockId}`
+          : link.heading
+            ? `#${link.heading}`
+            : "";
+        let line = `- L${link.line} \`${link.raw}\` (${linkKind(link)}) `;
+        if (link.status === "resolved") {
+          line += `→ ${link.path}${anchor}`;
+          if (link.via === "alias") line += " _(via alias)_";
+          if (link.anchorFound === false) line += " ⚠️ anchor not found";
+        } else if (link.status === "ambiguous") {
+          line += `⚠️ ambiguous: ${link.candidates.join(", ")}`;
+        } else {
+          line += "❌ broken (no matching file)";
+        }
+        return line;
+      })
+      .join("\n");
+  }
+
+  // Format linked and unlinked mentions grouped by source note
+  private formatBacklinks(
+    filePath: string,
+    linked: Backlink[],
+    unlinked: UnlinkedMention[] | null
+  ): string {
+    const groupBySource = <T extends { sourcePath: string }>(items: T[]) => {
+      const groups = new Map<string, T[]>();
+      for (const item of items) {
+        groups.set(item.sourcePath, [
+          ...(groups.get(item.sourcePath) ?? []),
+          item,
+        ]);
+      }
+      return groups;
+    };
+
+    let text = `# Backlinks for ${filePath}\n\n`;
+    const linkedGroups = groupBySource(linked);
+    text += `## Linked mentions (${linked.length} in ${linkedGroups.size} notes)\n\n`;
+    if (linked.length === 0) {
+      text += "_No notes link to this note._\n\n";
+    }
+    for (const [sourcePath, links] of linkedGroups) {
+      text += `### ${sourcePath}\n`;
+      for (const link of links) {
+        text += `- L${link.line} (${link.kind}) \`${link.raw}\`: ${link.context}\n`;
+      }
+      text += "\n";
+    }
+
+    if (unlinked === null) {
+      return text;
+    }
+    const unlinkedGroups = groupBySource(unlinked);
+    text += `## Unlinked mentions (${unlinked.length} in ${unlinkedGroups.size} notes)\n\n`;
+    if (unlinked.length === 0) {
+      text += "_No unlinked mentions of this note's title or aliases._\n";
+    }
+    for (const [sourcePath, mentions] of unlinkedGroups) {
+      text += `### ${sourcePath}\n`;
+      for (const mention of mentions) {
+        text += `- L${mention.line} ("${mention.term}"): ${mention.context}\n`;
+      }
+      text += "\n";
+    }
+    return text;
+  }
+
+  // Format link graph statistics as a markdown report
+  private formatGraphStats(scope: string, stats: GraphStats): string {
+    const list = (items: string[]) => {
+      const shown = items
+        .slice(0, MAX_GRAPH_LIST_ITEMS)
+        .map((item) => `- ${item}\n`)
+        .join("");
+      const more = items.length - MAX_GRAPH_LIST_ITEMS;
+      return more > 0 ? `${shown}- _…and ${more} more_\n` : shown;
+    };
+
+    let text = `# Link graph of ${scope}\n\n`;
+    text += `${stats.notes} notes, ${stats.links} links, ${stats.components.length} connected components`;
+    if (stats.components.length > 1) {
+      const sizes = stats.components.map((component) => component.length);
+      text += ` (sizes ${sizes.slice(0, MAX_GRAPH_LIST_ITEMS).join(", ")}${sizes.length > MAX_GRAPH_LIST_ITEMS ? ", …" : ""})`;
+    }
+    text += ".\n\n";
+    text += `## Hubs (most linked-to)\n\n${
+      stats.hubs.length > 0
+        ? list(
+            stats.hubs.map(
+              (hub) =>
+                `**${noteName(hub.path)}** (${hub.path}) ← ${hub.incoming} note${hub.incoming === 1 ? "" : "s"}`
+            )
+          )
+        : "_No note is linked to._\n"
+    }\n`;
+    text += `## Orphans (${stats.orphans.length})\n\n${
+      stats.orphans.length > 0
+        ? list(stats.orphans)
+        : "_Every note links or is linked._\n"
+    }\n`;
+    text += `## Dead ends (${stats.deadEnds.length})\n\n${
+      stats.deadEnds.length > 0
+        ? list(stats.deadEnds)
+        : "_No linked note is a dead end._\n"
+    }\n`;
+    text += `## Broken links (${stats.broken.length})\n\n${
+      stats.broken.length > 0
+        ? list(
+            stats.broken.map(
+              (link) => `${link.source} L${link.line} \`${link.raw}\``
+            )
+          )
+        : "_No broken links._\n"
+    }`;
+    return text;
+  }
+
+  // Format note metadata as a readable markdown summary
+  private formatNoteMetadata(filePath: string, metadata: NoteMetadata): string {
+    let text = `# Metadata for ${filePath}\n\n`;
+    if (!metadata.hasFrontmatter) {
+      return `${text}_This note has no frontmatter._\n`;
+    }
+
+    text += `- **Tags**: ${
+      metadata.tags.length > 0
+        ? metadata.tags.map((tag) => `#${tag}`).join(", ")
+        : "_none_"
+    }\n`;
+    text += `- **Aliases**: ${
+      metadata.aliases.length > 0 ? metadata.aliases.join(", ") : "_none_"
+    }\n`;
+    if (metadata.cssclasses.length > 0) {
+      text += `- **CSS classes**: ${metadata.cssclasses.join(", ")}\n`;
+    }
+
+    const keys = Object.keys(metadata.properties);
+    text += `\n## Properties (${keys.length})\n`;
+    for (const key of keys) {
+      text += `- **${key}** (${metadata.propertyTypes[key]}): ${JSON.stringify(
+        metadata.properties[key]
+      )}\n`;
+    }
+    return text;
+  }
+
+  // Match filenames or paths against the tree of a non-default ref, since
+  // code search cannot see anything but the default branch
+  private async searchTreeAtRef(
+    query: string,
+    searchIn: string,
+    ref: string,
+    page: number,
+    perPage: number
+  ): Promise<{ content: Array<{ type: "text"; text: string }> }> {
+    if (searchIn === "content") {
+      throw new Error(
+        `Content search is not available for ref "${ref}": GitHub code search only indexes the default branch. Use backend "local", searchIn "filename" or "path", or read notes directly with getFileContents and ref.`
+      );
+    }
+
+    const needle = query.toLowerCase();
+    const matches = (await this.getRepoTree(ref)).filter((entry) => {
+      if (entry.type !== "blob") return false;
+      const haystack =
+        searchIn === "filename"
+          ? entry.path.slice(entry.path.lastIndexOf("/") + 1)
+          : entry.path;
+      return haystack.toLowerCase().includes(needle);
+    });
+    const pageItems = matches.slice(page * perPage, (page + 1) * perPage);
+
+    let resultText = `Found ${matches.length} files at ref ${ref}`;
+    if (searchIn !== "all") {
+      resultText += ` searching in ${searchIn}`;
+    }
+    resultText += ":\n\n";
+    if (searchIn === "all") {
+      resultText += `_Only filenames and paths were matched: GitHub code search only indexes the default branch, so file contents at ref ${ref} were not searched. Use backend "local" to search them._\n\n`;
+    }
+    resultText += pageItems
+      .map((entry) => {
+        const fileName = entry.path.slice(entry.path.lastIndexOf("/") + 1);
+        const matchReason = fileName.toLowerCase().includes(needle)
+          ? "📝 filename match"
+          : "📁 path match";
+        return `- **${fileName}** (${entry.path}) ${matchReason}`;
+      })
+      .join("\n");
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: resultText,
+        },
+      ],
+    };
+  }
+
+  // searchFiles on the local index: filename matches first, then content
+  // matches by relevance, then other path matches
+  private async searchFilesLocally(
+    query: string,
+    searchIn: string,
+    ref: string | undefined,
+    page: number,
+    perPage: number,
+    snippetLength: number
+  ): Promise<{ content: Array<{ type: "text"; text: string }> }> {
+    const resolvedRef = this.resolveRef(ref);
+    const { index, refresh } =
+      await this.getLocalSearch().getIndex(resolvedRef);
+    const needle = query.toLowerCase();
+    // The index can predate the read policy, so check every hit against it
+    const readable = (path: string) => this.policy.canRead(path);
+    const paths = index.paths().filter(readable).sort();
+    const reasons = new Map<string, string>();
+    if (searchIn === "filename" || searchIn === "all") {
+      for (const path of paths) {
+        const fileName = path.slice(path.lastIndexOf("/") + 1);
+        if (fileName.toLowerCase().includes(needle)) {
+          reasons.set(path, "📝 filename match");
+        }
+      }
+    }
+    if (searchIn === "content" || searchIn === "all") {
+      for (const hit of index.search(query, readable)) {
+        if (!reasons.has(hit.path)) reasons.set(hit.path, "📄 content match");
+      }
+    }
+    if (searchIn === "path" || searchIn === "all") {
+      for (const path of paths) {
+        if (!reasons.has(path) && path.toLowerCase().includes(needle)) {
+          reasons.set(path, "📁 path match");
+        }
+      }
+    }
+
+    const where = resolvedRef ? `ref ${resolvedRef}` : "the default branch";
+    const matches = [...reasons];
+    if (matches.length === 0) {
+      let resultText = `Found 0 files matching "${query}" in the local index of ${where}`;
+      if (searchIn !== "all") {
+        resultText += ` searching in ${searchIn}`;
+      }
+      resultText += "\n\n💡 **Search Tips:**\n";
+      resultText +=
+        "- Every term must appear in a file; remove terms to broaden the search\n";
+      resultText +=
+        '- Use `term*` for prefixes and quotes for exact phrases: "exact phrase"';
+      resultText += formatIndexRefresh(refresh);
+      return { content: [{ type: "text" as const, text: resultText }] };
+    }
+
+    let resultText = `Found ${matches.length} files in the local index of ${where}`;
+    if (searchIn !== "all") {
+      resultText += ` searching in ${searchIn}`;
+    }
+    resultText += ":\n\n";
+    resultText += matches
+      .slice(page * perPage, (page + 1) * perPage)
+      .map(([path, reason]) => {
+        const fileName = path.slice(path.lastIndexOf("/") + 1);
+        let line = `- **${fileName}** (${path}) ${reason}`;
+        const snippet =
+          reason === "📄 content match" && snippetLength > 0
+            ? index.snippet(path, query, snippetLength)
+            : undefined;
+        if (snippet) {
+          line += `\n  > Line ${snippet.line}: ${renderHighlight(snippet)}`;
+        }
+        return line;
+      })
+      .join("\n");
+    resultText += formatIndexRefresh(refresh);
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: resultText,
+        },
+      ],
+    };
+  }
+
+  // searchCode on the local index, ranked by BM25 relevance
+  private async searchCodeLocally(
+    query: string,
+    language: string | undefined,
+    ref: string | undefined,
+    page: number,
+    perPage: number,
+    snippetLength: number
+  ): Promise<{ content: Array<{ type: "text"; text: string }> }> {
+    const resolvedRef = this.resolveRef(ref);
+    const { index, refresh } =
+      await this.getLocalSearch().getIndex(resolvedRef);
+    const languageKey = language?.toLowerCase().replace(/^\./, "");
+    const extensions = languageKey
+      ? (LANGUAGE_EXTENSIONS[languageKey] ?? [languageKey])
+      : undefined;
+    // The index can predate the read policy, so check every hit against it
+    const hits = index.search(
+      query,
+      (path) =>
+        this.policy.canRead(path) &&
+        (!extensions ||
+          extensions.some((extension) =>
+            path.toLowerCase().endsWith(`.${extension}`)
+          ))
+    );
+
+    if (hits.length === 0) {
+      let resultText = `No code matches found for "${query}"`;
+      if (language) {
+        resultText += ` in ${language} files`;
+      }
+      resultText += " in the local index.\n\n";
+      resultText += "💡 **Search Tips:**\n";
+      resultText +=
+        "- Every term must appear in a file; remove terms to broaden the search\n";
+      resultText += "- Remove language filters to broaden search\n";
+      resultText +=
+        '- Use `term*` for prefixes and quotes for exact phrases: "exact phrase"';
+      resultText += formatIndexRefresh(refresh);
+      return { content: [{ type: "text" as const, text: resultText }] };
+    }
+
+    let resultText = `Found ${hits.length} code matches for "${query}"`;
+    if (language) {
+      resultText += ` in ${language} files`;
+    }
+    resultText += " in the local index:\n\n";
+    const pageSize = Math.min(perPage, 100);
+    const pageHits = hits.slice((page - 1) * pageSize, page * pageSize);
+    const totalPages = Math.ceil(hits.length / pageSize);
+    if (totalPages > 1) {
+      resultText += `📄 Showing page ${page} of ${totalPages} (${pageHits.length} results on this page)\n\n`;
+    }
+    const blobRef = encodeURIComponent(resolvedRef ?? "HEAD");
+    for (const hit of pageHits) {
+      const fileName = hit.path.slice(hit.path.lastIndexOf("/") + 1);
+      const snippet = index.snippet(hit.path, query, snippetLength);
+      resultText += `### 📄 ${fileName}\n`;
+      resultText += `- **Path**: \`${hit.path}\`\n`;
+      resultText += `- **URL**: https://github.com/${this.config.owner}/${this.config.repo}/blob/${blobRef}/${encodeURI(hit.path)}${snippet ? `#L${snippet.line}` : ""}\n`;
+      if (snippet && snippetLength > 0) {
+        resultText += `- **Line ${snippet.line}**: ${renderHighlight(snippet)}\n`;
+      }
+      resultText += `- **Relevance**: ${hit.score.toFixed(2)}\n`;
+      resultText += "\n";
+    }
+
+    resultText += "\n---\n\n";
+    resultText += "💡 **Next Steps:**\n";
+    resultText +=
+      "- Use `getFileContents` tool with the file path to view full content\n";
+    if (totalPages > page) {
+      resultText += `- Use \`page: ${page + 1}\` to see more results\n`;
+    }
+    resultText += "- Refine your search query for more specific matches";
+    resultText += formatIndexRefresh(refresh);
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: resultText,
+        },
+      ],
+    };
+  }
+
+  // Render a file list with change stats followed by each (truncated)
+  // patch; shared by commit, comparison and pull request views
+  private formatFileChanges(
+    changedFiles: Array<{
+      filename: string;
+      status?: string;
+      previous_filename?: string;
+      additions?: number;
+      deletions?: number;
+      patch?: string;
+    }>,
+    options: { showStatus?: boolean; includePatches?: boolean } = {}
+  ): string {
+    const { showStatus = false, includePatches = true } = options;
+    const files = changedFiles.filter((file) =>
+      this.policy.canRead(file.filename)
+    );
+    const hidden = changedFiles.length - files.length;
+    let output = `### Files Changed (${files.length}):\n`;
+    for (const file of files) {
+      const additions = file.additions || 0;
+      const deletions = file.deletions || 0;
+      let status = "";
+      if (showStatus && file.status) {
+        status =
+          file.status === "renamed" &&
+          file.previous_filename &&
+          this.policy.canRead(file.previous_filename)
+            ? ` **renamed** from ${file.previous_filename}`
+            : ` **${file.status}**`;
+      }
+      output += `- ${file.filename}${status} (+${additions}, -${deletions})\n`;
+    }
+    if (hidden > 0) {
+      output += `_${hidden} file${hidden === 1 ? "" : "s"} hidden by the path policy._\n`;
+    }
+    if (!includePatches) {
+      return `${output}\n`;
+    }
+    output += "\n### File Changes:\n\n";
+
+    for (const file of files) {
+      output += `#### ${file.filename}\n`;
+      if (file.patch) {
+        // Truncate large diffs for readability
+        let patch = file.patch;
+        const maxPatchLength = 8000; // Essay-length for note-taking
+        if (patch.length > maxPatchLength) {
+          patch = `${patch.substring(
+            0,
+            maxPatchLength
+          )}\n\n... (diff truncated for readability) ...`;
+        }
+        output += `\`\`\`diff\n${patch}\n\`\`\`\n\n`;
+      } else {
+        output +=
+          "_No diff available (binary file or no changes to display)_\n\n";
+      }
+    }
+    return output;
+  }
+
+  // Run diagnostics when search returns no results
+  private async runSearchDiagnostics(_originalQuery: string): Promise<{
+    repoSize?: number;
+    repoSizeGB?: number;
+    isPrivate?: boolean;
+    defaultBranch?: string;
+    basicSearchWorks?: boolean;
+    filesFound?: number;
+    repoIndexed?: boolean;
+    isLarge?: boolean;
+    diagnosticError?: string;
+  }> {
+    try {
+      // Test 1: Repository accessibility
+      const repoInfo = await this.handleRequest(async () => {
+        return this.octokit.repos.get({
+          owner: this.config.owner,
+          repo: this.config.repo,
+        });
+      });
+
+      // Test 2: Basic search functionality with simple query
+      let basicSearchWorks = false;
+      let basicSearchCount = 0;
+      try {
+        const basicTest = await this.handleRequest(async () => {
+          return this.octokit.search.code({
+            q: `repo:${this.config.owner}/${this.config.repo} extension:md`,
+            per_page: 1,
+          });
+        });
+        basicSearchWorks = true;
+        basicSearchCount = basicTest.total_count;
+      } catch (_error) {
+        basicSearchWorks = false;
+      }
+
+      const repoSizeKB = repoInfo.size;
+      const repoSizeGB = repoSizeKB / (1024 * 1024);
+      const isLarge = repoSizeGB > 50;
+
+      return {
+        repoSize: repoSizeKB,
+        repoSizeGB: repoSizeGB,
+        isPrivate: repoInfo.private,
+        defaultBranch: repoInfo.default_branch,
+        basicSearchWorks,
+        filesFound: basicSearchCount,
+        repoIndexed: basicSearchWorks && basicSearchCount > 0,
+        isLarge,
+      };
+    } catch (error) {
+      return {
+        diagnosticError: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  // Format response when no search results are found
+  private formatNoResultsResponse(
+    _searchResults: { total_count: number },
+    diagnostics: {
+      diagnosticError?: string;
+      repoIndexed?: boolean;
+      isLarge?: boolean;
+      repoSizeGB?: number;
+      isPrivate?: boolean;
+      defaultBranch?: string;
+      filesFound?: number;
+    },
+    query: string,
+    searchIn: string
+  ): { content: Array<{ type: "text"; text: string }> } {
+    let resultText = `Found 0 files matching "${query}"`;
+    if (searchIn !== "all") {
+      resultText += ` in ${searchIn}`;
+    }
+    resultText += "\n\n";
+
+    if (diagnostics.diagnosticError) {
+      resultText += `⚠️ **Search System Issue**: ${diagnostics.diagnosticError}\n\n`;
+    } else if (!diagnostics.repoIndexed) {
+      resultText +=
+        "⚠️ **Repository May Not Be Indexed**: GitHub might not have indexed this repository for search.\n";
+      resultText += "This can happen with:\n";
+      resultText += "- New repositories (indexing takes time)\n";
+      if (diagnostics.isLarge) {
+        resultText += `- Large repositories (${diagnostics.repoSizeGB?.toFixed(
+          2
+        )} GB exceeds 50 GB limit)\n`;
+      }
+      if (diagnostics.isPrivate) {
+        resultText += "- Private repositories with indexing issues\n";
+      }
+      resultText += "\n**Try**:\n";
+      resultText += "- Search directly on GitHub.com to confirm\n";
+      resultText +=
+        "- Use the diagnoseSearch tool for detailed diagnostics\n\n";
+    } else {
+      resultText += "📊 **Search Debug Info**:\n";
+      resultText += `- Repository: ${
+        diagnostics.isPrivate ? "Private" : "Public"
+      } (${diagnostics.repoSizeGB?.toFixed(3)} GB)\n`;
+      resultText += `- Default branch: ${diagnostics.defaultBranch} (only branch searchable)\n`;
+      resultText += `- Files in repo: ${diagnostics.filesFound} found\n`;
+      resultText += `- Search query used: \`${query}\`\n\n`;
+
+      resultText += "**Possible reasons for no results**:\n";
+      resultText += "- The search term doesn't exist in the repository\n";
+      resultText +=
+        "- Content might be in non-default branches (not searchable)\n";
+      resultText += "- Files might be larger than 384 KB (not indexed)\n\n";
+    }
+
+    // Add search tips
+    resultText += "💡 **Search Tips:**\n";
+    resultText += `- Try \`searchIn: "filename"\` to search only filenames\n`;
+    resultText += `- Try \`searchIn: "path"\` to search file paths\n`;
+    resultText += `- Try \`searchIn: "content"\` to search file contents\n`;
+    resultText += `- Use quotes for exact phrases: "exact phrase"\n`;
+    resultText += "- Use wildcards: `*.md` for markdown files\n";
+    resultText += "- Try simpler or partial search terms";
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: resultText,
+        },
+      ],
+    };
+  }
+
+  registerGithubResources(server: McpServer) {
+    // Resource for repository information
+    server.resource(
+      "repo-info",
+      `obsidian://vault/${this.config.owner}/${this.config.repo}/info`,
+      {
+        description: "Basic information about your Obsidian vault repository",
+        mimeType: "application/json",
+      },
+      async (uri) => {
+        try {
+          const repoInfo = await this.handleRequest(async () => {
+            return this.octokit.repos.get({
+              owner: this.config.owner,
+              repo: this.config.repo,
+            });
+          });
+
+          const info = {
+            name: repoInfo.name,
+            fullName: repoInfo.full_name,
+            description: repoInfo.description,
+            isPrivate: repoInfo.private,
+            defaultBranch: repoInfo.default_branch,
+            size: `${(repoInfo.size / 1024).toFixed(2)} MB`,
+            createdAt: repoInfo.created_at,
+            updatedAt: repoInfo.updated_at,
+            language: repoInfo.language,
+            topics: repoInfo.topics || [],
+            htmlUrl: repoInfo.html_url,
+            readRef: this.config.defaultRef || repoInfo.default_branch,
+            readOnly: this.policy.readOnly,
+          };
+
+          return {
+            contents: [
+              {
+                uri: uri.toString(),
+                mimeType: "application/json",
+                text: JSON.stringify(info, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            contents: [
+              {
+                uri: uri.toString(),
+                mimeType: "text/plain",
+                text: `Error fetching repository information: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    // Resource for recent activity summary
+    server.resource(
+      "recent-activity",
+      `obsidian://vault/${this.config.owner}/${this.config.repo}/activity`,
+      {
+        description: "Summary of recent commits and changes to your vault",
+        mimeType: "text/markdown",
+      },
+      async (uri) => {
+        try {
+          const since = new Date();
+          since.setDate(since.getDate() - 7); // Last 7 days
+
+          const ref = this.resolveRef();
+          const commits = await this.handleRequest(async () => {
+            return this.octokit.repos.listCommits({
+              owner: this.config.owner,
+              repo: this.config.repo,
+              since: since.toISOString(),
+              per_page: 10,
+              ...(ref ? { sha: ref } : {}),
+            });
+          });
+
+          let markdown = `# Recent Activity - ${this.config.owner}/${this.config.repo}${
+            ref ? ` (${ref})` : ""
+          }\n\n`;
+          markdown += "Last 7 days of commits:\n\n";
+
+          if (commits.length === 0) {
+            markdown += "_No commits in the last 7 days_\n";
+          } else {
+            for (const commit of commits) {
+              const date = new Date(
+                commit.commit.author?.date || ""
+              ).toLocaleDateString();
+              const message = commit.commit.message.split("\n")[0];
+              const author = commit.commit.author?.name || "Unknown";
+              markdown += `- **${date}**: ${message} _(by ${author})_\n`;
+            }
+          }
+
+          return {
+            contents: [
+              {
+                uri: uri.toString(),
+                mimeType: "text/markdown",
+                text: markdown,
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            contents: [
+              {
+                uri: uri.toString(),
+                mimeType: "text/plain",
+                text: `Error fetching recent activity: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+          };
+        }
+      }
+    );
+  }
+
+  registerGithubPrompts(server: McpServer) {
+    // Prompt to explore vault structure and recent activity
+    server.prompt(
+      "explore-vault",
+      "Explore your Obsidian vault structure, recent changes, and key content",
+      {},
+      async () => {
+        // Ground the structure question in the vault's file tree; reading
+        // every note for the link graph is left to getLinkGraph
+        let structure: string;
+        try {
+          const files = (await this.getRepoTree()).filter(
+            (entry) => entry.type === "blob"
+          );
+          const notes = files.filter((entry) => entry.path.endsWith(".md"));
+          const canvases = files.filter((entry) =>
+            entry.path.toLowerCase().endsWith(".canvas")
+          ).length;
+          const folders = new Map<string, number>();
+          for (const note of notes) {
+            const slash = note.path.indexOf("/");
+            const folder =
+              slash === -1 ? "(vault root)" : note.path.slice(0, slash);
+            folders.set(folder, (folders.get(folder) ?? 0) + 1);
+          }
+          const largest = [...folders]
+            .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+            .slice(0, 5)
+            .map(([folder, count]) => `${folder} (${count})`)
+            .join(", ");
+          structure = `Here is the current layout of the vault:
+- ${notes.length} notes, ${canvases} canvases and ${files.length - notes.length - canvases} other files
+- Top-level folders by number of notes: ${largest || "none"}`;
+        } catch (error) {
+          structure = `(The vault layout could not be loaded: ${
+            error instanceof Error ? error.message : String(error)
+          })`;
+        }
+
+        return {
+          description: "Comprehensive exploration of your Obsidian vault",
+          messages: [
+            {
+              role: "user" as const,
+              content: {
+                type: "text" as const,
+                text: `Please help me explore my Obsidian vault in the GitHub repository ${this.config.owner}/${this.config.repo}.
+
+I'd like to understand:
+1. What types of notes and content are in my vault
+2. Recent changes and updates (last 7 days)
+3. Key topics or themes in my notes
+4. Overall structure and organization
+
+${structure}
+
+Please use the available tools to:
+- Search for markdown files to understand the content types
+- Check recent commit history to see what's been updated
+- Use getLinkGraph to look into hubs, orphans, broken links and clusters of notes
+- Suggest ways to better organize or explore my knowledge base`,
+              },
+            },
+          ],
+        };
+      }
+    );
+
+    // Prompt to search for specific topics
+    server.prompt(
+      "find-notes-about",
+      "Search your vault for notes related to a specific topic",
+      {
+        topic: z.string().describe("The topic or keyword to search for"),
+      },
+      async ({ topic }) => {
+        return {
+          description: `Search vault for notes about: ${topic}`,
+          messages: [
+            {
+              role: "user" as const,
+              content: {
+                type: "text" as const,
+                text: `Please search my Obsidian vault (${this.config.owner}/${this.config.repo}) for notes related to "${topic}".
+
+Use the searchFiles tool to:
+1. Find files with "${topic}" in the filename
+2. Search for "${topic}" in file contents
+3. Look for related terms or concepts
+
+Then provide:
+- A summary of what you found
+- Key insights from the most relevant notes
+- Suggestions for related topics to explore`,
+              },
+            },
+          ],
+        };
+      }
+    );
+
+    // Prompt to analyze knowledge base evolution
+    server.prompt(
+      "analyze-recent-changes",
+      "Analyze how your knowledge base has evolved recently",
+      {
+        days: z
+          .string()
+          .optional()
+          .describe("Number of days to look back (default: 7)"),
+      },
+      async ({ days }) => {
+        const daysNum = days ? Number.parseInt(days, 10) : 7;
+        return {
+          description: `Analyze vault changes over the last ${daysNum} days`,
+          messages: [
+            {
+              role: "user" as const,
+              content: {
+                type: "text" as const,
+                text: `Please analyze how my Obsidian vault (${this.config.owner}/${this.config.repo}) has evolved over the last ${daysNum} days.
+
+Use the getCommitHistory tool to:
+1. Review all commits from the last ${daysNum} days
+2. Identify which notes were created, modified, or deleted
+3. Analyze the types of changes (new topics, updates to existing notes, etc.)
+
+Then provide:
+- A summary of the main themes or topics you've been working on
+- Patterns in your note-taking or knowledge development
+- Suggestions for areas that might need more attention or organization`,
+              },
+            },
+          ],
+        };
+      }
+    );
+  }
+
+  registerGithubTools(server: McpServer) {
+    server.tool(
+      "getFileContents",
+      `Retrieve the contents of a specific note, document, or file from your Obsidian vault stored in GitHub (${this.config.owner}/${this.config.repo}). Perfect for accessing your knowledge base content.`,
+      {
+        filePath: z
+          .string()
+          .describe("Path to the file within the repository."),
+        parseFrontmatter: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe(
+            "Also parse the note's YAML frontmatter into structuredContent (default: false)"
+          ),
+        resolveLinks: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe(
+            "Also resolve the note's wikilinks and markdown links to repository paths (default: false)"
+          ),
+        expandEmbeds: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe(
+            "Inline the notes, sections and blocks embedded with ![[Note]], ![[Note#Heading]] and ![[Note#^block]], as Obsidian displays them; image, PDF and other attachment embeds become references. Do not write expanded content back with writeNote (default: false)"
+          ),
+        embedDepth: z
+          .number()
+          .int()
+          .min(1)
+          .max(10)
+          .optional()
+          .default(3)
+          .describe(
+            "Levels of nested embeds to expand with expandEmbeds (default: 3)"
+          ),
+        ref: refParameter,
+      },
+      {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      async ({
+        filePath,
+        parseFrontmatter = false,
+        resolveLinks = false,
+        expandEmbeds: expand = false,
+        embedDepth = 3,
+        ref,
+      }) => {
+        const { text: fileContent, sha } = await this.fetchFile(filePath, ref);
+
+        let displayed = fileContent;
+        let embeds: EmbedReport[] | undefined;
+        if (expand) {
+          const tree = await this.getRepoTree(ref);
+          const cache = new Map<string, Promise<string | undefined>>();
+          ({ content: displayed, embeds } = await expandEmbeds(
+            fileContent,
+            normalizePath(filePath),
+            {
+              index: await this.buildVaultLinkIndex(tree, false),
+              readNote: (path) => {
+                if (!cache.has(path)) {
+                  cache.set(path, this.readTreeFile(tree, path));
+                }
+                return cache.get(path) as Promise<string | undefined>;
+              },
+              maxDepth: embedDepth,
+            }
+          ));
+        }
+
+        const content = [
+          { type: "text" as const, text: displayed },
+          {
+            type: "text" as const,
+            text: `_File SHA: ${sha} (pass it as \`sha\` to writeNote to update this file)_`,
+          },
+        ];
+        if (filePath.toLowerCase().endsWith(".canvas")) {
+          content.push({
+            type: "text" as const,
+            text: "_This is an Obsidian canvas: use getCanvas to read it as an outline or Mermaid flowchart._",
+          });
+        }
+        const structuredContent: Record<string, unknown> = {
+          path: filePath,
+          sha,
+        };
+        if (parseFrontmatter) {
+          structuredContent.frontmatter = this.parseNoteMetadata(
+            filePath,
+            fileContent
+          );
+        }
+        if (resolveLinks) {
+          const links = await this.resolveNoteLinks(
+            extractLinks(fileContent),
+            filePath,
+            ref
+          );
+          content.push({
+            type: "text" as const,
+            text:
+              links.length > 0
+                ? `## Resolved links (${links.length})\n\n${this.formatResolvedLinks(links)}`
+                : "## Resolved links\n\n_No links found in this note._",
+          });
+          structuredContent.links = links;
+        }
+        if (embeds) {
+          content.push({
+            type: "text" as const,
+            text:
+              embeds.length > 0
+                ? `## Embeds (${embeds.length})\n\n${embeds
+                    .map(
+                      (embed) =>
+                        `- \`${embed.raw}\` in ${embed.source} L${embed.line}${embed.path ? ` → ${embed.path}` : ""}: ${embed.status}`
+                    )
+                    .join("\n")}`
+                : "## Embeds\n\n_No embeds found in this note._",
+          });
+          structuredContent.embeds = embeds;
+        }
+        return { content, structuredContent };
+      }
+    );
+
+    // getNoteMetadata tool - structured view of a note's frontmatter
+    server.tool(
+      "getNoteMetadata",
+      `Read the frontmatter of a note in your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}) and return its tags, aliases, cssclasses and typed properties as structured data.`,
+      {
+        filePath: z
+          .string()
+          .describe("Path to the note within the repository."),
+        ref: refParameter,
+      },
+      {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      async ({ filePath, ref }) => {
+        const fileContent = await this.fetchFileText(filePath, ref);
+        const metadata = this.parseNoteMetadata(filePath, fileContent);
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: this.formatNoteMetadata(filePath, metadata),
+            },
+          ],
+          structuredContent: { path: filePath, ...metadata },
+        };
+      }
+    );
+
+    // getFileAtDate tool - read a note as it was at a point in time
+    server.tool(
+      "getFileAtDate",
+      `Retrieve a note from your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}) as it looked at a given point in time, by locating the last commit that touched it on or before that date.`,
+      {
+        filePath: z
+          .string()
+          .describe("Path to the file within the repository."),
+        date: z
+          .string()
+          .describe(
+            "Point in time as an ISO 8601 date or timestamp, e.g. '2025-03-31' or '2025-03-31T18:00:00Z'"
+          ),
+        ref: z
+          .string()
+          .optional()
+          .describe(
+            "Branch or tag whose history to search (default: the configured default ref, or the repository's default branch)"
+          ),
+      },
+      {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      async ({ filePath, date, ref }) => {
+        this.policy.assertReadable(filePath);
+        const until = new Date(
+          // A bare date means "as of the end of that day"
+          /^\d{4}-\d{2}-\d{2}$/.test(date) ? `${date}T23:59:59Z` : date
+        );
+        if (Number.isNaN(until.getTime())) {
+          throw new Error(
+            `Invalid date "${date}". Use ISO 8601, e.g. 2025-03-31 or 2025-03-31T18:00:00Z.`
+          );
+        }
+
+        const resolvedRef = this.resolveRef(ref);
+        const commits = await this.handleRequest(async () => {
+          return this.octokit.repos.listCommits({
+            owner: this.config.owner,
+            repo: this.config.repo,
+            path: filePath,
+            until: until.toISOString(),
+            per_page: 1,
+            ...(resolvedRef ? { sha: resolvedRef } : {}),
+          });
+        });
+
+        if (commits.length === 0) {
+          throw new Error(
+            `No version of "${filePath}" exists on or before ${until.toISOString()}.`
+          );
+        }
+
+        const [commit] = commits;
+        const shortSha = commit.sha.substring(0, 7);
+        let fileContent: string;
+        try {
+          fileContent = await this.fetchFileText(filePath, commit.sha);
+        } catch (error) {
+          if (errorStatus(error) !== 404) throw error;
+          // The last commit touching the path before the date removed it
+          throw new Error(
+            `"${filePath}" did not exist on ${until.toISOString()}: it was deleted or renamed by commit ${shortSha} (${
+              commit.commit.author?.date
+            }): ${commit.commit.message.split("\n")[0]}. Use getFileHistory to find where it moved.`
+          );
+        }
+        const header = `_Version of ${filePath} at commit ${shortSha} (${
+          commit.commit.author?.date
+        }): ${commit.commit.message.split("\n")[0]}_\n\n`;
+
+        return {
+          content: [{ type: "text" as const, text: `${header}${fileContent}` }],
+          structuredContent: {
+            path: filePath,
+            commitSha: commit.sha,
+            commitDate: commit.commit.author?.date,
+            commitMessage: commit.commit.message,
+            content: fileContent,
+          },
+        };
+      }
+    );
+
+    // resolveLink tool - maps Obsidian links to repository paths
+    server.tool(
+      "resolveLink",
+      `Resolve an Obsidian link such as [[Note]], [[Note|alias]], [[Note#Heading]], [[Note#^block]] or [text](path.md) to a concrete file path in your vault on GitHub (${this.config.owner}/${this.config.repo}), using shortest-unique-name matching and frontmatter aliases like Obsidian does.`,
+      {
+        link: z
+          .string()
+          .describe(
+            "The link to resolve, either as written in the note (e.g. '[[Note#Heading|alias]]') or as a bare target (e.g. 'Note#Heading')"
+          ),
+        sourcePath: z
+          .string()
+          .optional()
+          .describe(
+            "Path of the note containing the link; used for relative links and to prefer nearby matches"
+          ),
+        ref: refParameter,
+      },
+      {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      async ({ link, sourcePath, ref }) => {
+        const [parsed] = extractLinks(link);
+        const noteLink: NoteLink = parsed ?? {
+          syntax: "wikilink",
+          embed: false,
+          raw: link,
+          ...parseLinkTarget(link),
+          line: 1,
+          column: 0,
+        };
+
+        const [resolved] = await this.resolveNoteLinks(
+          [noteLink],
+          sourcePath,
+          ref
+        );
+        if (
+          resolved.status === "resolved" &&
+          resolved.path?.endsWith(".md") &&
+          (resolved.heading || resolved.blockId)
+        ) {
+          const targetText = await this.fetchFileText(resolved.path, ref);
+          if (resolved.blockId) {
+            resolved.anchorFound =
+              findBlockLine(targetText, resolved.blockId) !== null;
+          } else if (resolved.heading) {
+            // Nested anchors like #Parent#Child match on the last heading
+            const wanted = normalizeHeading(
+              resolved.heading.split("#").pop() ?? ""
+            );
+            resolved.anchorFound = parseHeadings(targetText).some(
+              (heading) => normalizeHeading(heading.text) === wanted
+            );
+          }
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: this.formatResolvedLinks([resolved]),
+            },
+          ],
+          structuredContent: { ...resolved },
+        };
+      }
+    );
+
+    // getBacklinks tool - "what links here?" for a single note
+    server.tool(
+      "getBacklinks",
+      `List every note in your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}) that links to a given note, including aliased links, embeds, heading links and markdown links, plus unlinked mentions of the note's title and aliases. Reads every markdown note in the vault.`,
+      {
+        filePath: z
+          .string()
+          .describe("Path of the note to find backlinks for."),
+        includeUnlinked: z
+          .boolean()
+          .optional()
+          .default(true)
+          .describe(
+            "Also report plain-text mentions of the note's title and aliases (default: true)"
+          ),
+        ref: refParameter,
+      },
+      {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      async ({ filePath, includeUnlinked = true, ref }) => {
+        this.policy.assertReadable(filePath);
+        const tree = await this.getRepoTree(ref);
+        if (!tree.some((entry) => entry.path === filePath)) {
+          throw new Error(`File not found in repository: ${filePath}`);
+        }
+
+        const { notes, index } = await this.loadVault(tree);
+        const linked = findBacklinks(filePath, notes, index);
+
+        let unlinked: UnlinkedMention[] | null = null;
+        if (includeUnlinked) {
+          const aliases: string[] = [];
+          const targetText = notes.get(filePath);
+          if (targetText !== undefined) {
+            try {
+              aliases.push(...parseFrontmatter(targetText).aliases);
+            } catch {
+              // Ignore aliases of notes with malformed frontmatter
+            }
+          }
+          unlinked = findUnlinkedMentions(
+            filePath,
+            [noteName(filePath), ...aliases],
+            notes
+          );
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: this.formatBacklinks(filePath, linked, unlinked),
+            },
+          ],
+          structuredContent: {
+            path: filePath,
+            linked,
+            ...(unlinked !== null ? { unlinked } : {}),
+          },
+        };
+      }
+    );
+
+    // getVaultTree tool - reliable listing via the Git Trees API
+    server.tool(
+      "getVaultTree",
+      `List the folders and files of your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}) using the Git Trees API. Unlike searchFiles, this works on repositories GitHub has not indexed and is not capped at 1000 results. Honours Obsidian's "Excluded files" setting.`,
+      {
+        path: z
+          .string()
+          .optional()
+          .default("")
+          .describe(
+            "Folder to list, relative to the vault root (default: root)"
+          ),
+        maxDepth: z
+          .number()
+          .min(1)
+          .optional()
+          .describe(
+            "Maximum folder depth below `path` to include (1 = direct children only)"
+          ),
+        include: z
+          .array(z.string())
+          .optional()
+          .describe(
+            "Glob patterns files must match, e.g. ['Projects/**', '*.md']"
+          ),
+        exclude: z
+          .array(z.string())
+          .optional()
+          .describe("Glob patterns to leave out, e.g. ['Archive/**']"),
+        extensions: z
+          .array(z.string())
+          .optional()
+          .describe("File extensions to keep, e.g. ['md', 'canvas']"),
+        respectObsidianIgnore: z
+          .boolean()
+          .optional()
+          .default(true)
+          .describe(
+            "Skip paths matching userIgnoreFilters in .obsidian/app.json (default: true)"
+          ),
+        includeHidden: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe(
+            "Include dot-folders such as .obsidian and .git (default: false)"
+          ),
+        ref: refParameter,
+      },
+      {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      async ({
+        path = "",
+        maxDepth,
+        include,
+        exclude,
+        extensions,
+        respectObsidianIgnore = true,
+        includeHidden = false,
+        ref,
+      }) => {
+        const tree = await this.getRepoTree(ref);
+        const ignoreFilters = respectObsidianIgnore
+          ? await this.loadObsidianIgnoreFilters(tree)
+          : [];
+
+        const root = path.replace(/^\/+|\/+$/g, "");
+        if (
+          root &&
+          !tree.some((entry) => entry.path === root && entry.type === "tree")
+        ) {
+          this.policy.assertReadable(`${root}/`);
+          throw new Error(`Folder not found in repository: ${root}`);
+        }
+
+        const entries = filterVaultTree(tree, {
+          path: root,
+          maxDepth,
+          include,
+          exclude,
+          extensions,
+          ignoreFilters,
+          includeHidden,
+        });
+        const files = entries.filter((entry) => entry.type === "file");
+        const totalSize = files.reduce(
+          (sum, entry) => sum + (entry.size ?? 0),
+          0
+        );
+
+        let text = `# Vault tree: ${this.config.owner}/${this.config.repo}${
+          root ? `/${root}` : ""
+        }\n\n`;
+        text += `${entries.length - files.length} folders, ${
+          files.length
+        } files (${formatSize(totalSize)})\n`;
+        if (ignoreFilters.length > 0) {
+          text += `Excluded by Obsidian settings: ${ignoreFilters.join(", ")}\n`;
+        }
+        text += "\n";
+        text +=
+          entries.length > 0
+            ? renderVaultTree(entries, root)
+            : "_No files match the given filters._";
+
+        return {
+          content: [{ type: "text" as const, text }],
+          structuredContent: {
+            path: root,
+            entries,
+            totalFiles: files.length,
+            totalSize,
+          },
+        };
+      }
+    );
+
+    // Enhanced searchFiles tool with filename and content search
+    server.tool(
+      "searchFiles",
+      `Search for notes, documents, and files within your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}). Find specific knowledge base content using GitHub's powerful search syntax. Supports searching in filenames, paths, and content.`,
+      {
+        query: z
+          .string()
+          .describe(
+            "Search query - can be a simple term or use GitHub search qualifiers"
+          ),
+        searchIn: z
+          .enum(["filename", "path", "content", "all"])
+          .optional()
+          .default("all")
+          .describe(
+            "Where to search: 'filename' (exact filename match), 'path' (anywhere in file path), 'content' (file contents), or 'all' (comprehensive search)"
+          ),
+        page: z
+          .number()
+          .optional()
+          .default(0)
+          .describe("Page number to retrieve (0-indexed)"),
+        perPage: z
+          .number()
+          .optional()
+          .default(100)
+          .describe("Number of results per page"),
+        ref: z
+          .string()
+          .optional()
+          .describe(
+            "Branch, tag or commit SHA to search instead of the default branch. GitHub code search only indexes the default branch, so other refs support filename and path matching only unless the local backend is used."
+          ),
+        backend: searchBackendParameter,
+        snippetLength: snippetLengthParameter,
+      },
+      {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      async ({
+        query,
+        searchIn = "all",
+        page = 0,
+        perPage = 100,
+        ref,
+        backend,
+        snippetLength = 200,
+      }) => {
+        if (this.useLocalSearch(backend)) {
+          return this.searchFilesLocally(
+            query,
+            searchIn,
+            ref,
+            page,
+            perPage,
+            snippetLength
+          );
+        }
+        // GitHub code search only covers the default branch, so any other
+        // ref, including a configured default ref, is searched in its tree
+        const searchRef = await this.refOutsideSearchIndex(ref);
+        if (searchRef) {
+          return this.searchTreeAtRef(
+            query,
+            searchIn,
+            searchRef,
+            page,
+            perPage
+          );
+        }
+
+        // Empty query is allowed - useful for listing files
+        const repoQualifier = `repo:${this.config.owner}/${this.config.repo}`;
+
+        // Build search query based on searchIn parameter
+        let qualifiedQuery: string;
+
+        if (searchIn === "filename") {
+          // Search for exact filename matches
+          qualifiedQuery = `filename:${
+            query.includes(" ") ? `"${query}"` : query
+          } ${repoQualifier}`;
+        } else if (searchIn === "path") {
+          // Search anywhere in the file path. The `in:path` qualifier searches for the
+          // query term within the file path.
+          qualifiedQuery = `${query} in:path ${repoQualifier}`;
+        } else if (searchIn === "content") {
+          // Search only in file contents. This is the default behavior without qualifiers.
+          qualifiedQuery = `${query} ${repoQualifier}`;
+        } else {
+          // "all" - comprehensive search. The GitHub search API (legacy) does not
+          // support OR operators. The best we can do in a single query is to search
+          // in file content and file path. The `in:file,path` qualifier does this.
+          // This will match the query term if it appears in the content or anywhere
+          // in the full path of a file, which includes the filename.
+          qualifiedQuery = `${query} in:file,path ${repoQualifier}`;
+        }
+
+        let searchResults: {
+          items: Array<{
+            name: string;
+            path: string;
+            text_matches?: TextMatch[];
+          }>;
+          total_count: number;
+        };
+        try {
+          searchResults = await this.handleRequest(async () => {
+            return this.octokit.search.code({
+              q: qualifiedQuery,
+              page,
+              per_page: perPage,
+              // Ask for the matched fragments alongside each result
+              ...(snippetLength > 0
+                ? { mediaType: { format: "text-match" } }
+                : {}),
+            });
+          });
+        } catch (error) {
+          // Enhanced error messages with specific GitHub search issues
+          const errorMessage =
+            error instanceof Error ? error.message : String(error);
+          if (errorMessage.includes("validation failed")) {
+            throw new Error(
+              `GitHub search query invalid: "${qualifiedQuery}". Try simpler terms or check syntax.`
+            );
+          }
+          if (errorMessage.includes("rate limit")) {
+            throw new Error(
+              "GitHub code search rate limit exceeded. Wait a moment and try again."
+            );
+          }
+          if (
+            errorMessage.includes("Forbidden") ||
+            errorMessage.includes("401")
+          ) {
+            throw new Error(
+              "GitHub API access denied. Check that your token has 'repo' scope for private repositories."
+            );
+          }
+          throw error; // Re-throw other errors
+        }
+
+        // Search results can point into paths the policy keeps private
+        const visibleItems = searchResults.items.filter((item) =>
+          this.policy.canRead(item.path)
+        );
+        const hiddenCount = searchResults.items.length - visibleItems.length;
+
+        // Enhanced formatting with file sizes and relevance indicators
+        const formattedResults = visibleItems
+          .map((item) => {
+            const fileName = item.name;
+            const filePath = item.path;
+            // const score = item.score || 0; // Could be used for relevance ranking in future
+
+            // Determine why this file matched
+            let matchReason = "";
+            if (searchIn === "filename") {
+              matchReason = "📝 filename match";
+            } else if (searchIn === "path") {
+              matchReason = "📁 path match";
+            } else if (searchIn === "content") {
+              matchReason = "📄 content match";
+            } else {
+              // searchIn is 'all', so we deduce the reason
+              if (fileName.toLowerCase().includes(query.toLowerCase())) {
+                matchReason = "📝 filename match";
+              } else if (filePath.toLowerCase().includes(query.toLowerCase())) {
+                matchReason = "📁 path match";
+              } else {
+                matchReason = "📄 content match";
+              }
+            }
+
+            const snippets =
+              snippetLength > 0
+                ? formatTextMatches(item.text_matches, snippetLength, "  ")
+                : "";
+            return `- **${fileName}** (${filePath}) ${matchReason}${snippets ? `\n${snippets}` : ""}`;
+          })
+          .join("\n");
+
+        let resultText = `Found ${searchResults.total_count} files`;
+        if (searchIn !== "all") {
+          resultText += ` searching in ${searchIn}`;
+        }
+        resultText += `:\n\n${formattedResults}`;
+        if (hiddenCount > 0) {
+          resultText += `\n\n_${hiddenCount} result${hiddenCount === 1 ? "" : "s"} hidden by the path policy._`;
+        }
+
+        // If no results, run diagnostics and provide enhanced response
+        if (searchResults.total_count === 0) {
+          const diagnostics = await this.runSearchDiagnostics(query);
+          return this.formatNoResultsResponse(
+            searchResults,
+            diagnostics,
+            query,
+            searchIn
+          );
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: resultText,
+            },
+          ],
+        };
+      }
+    );
+
+    // Placeholder for searchIssues tool
+    server.tool(
+      "searchIssues",
+      `Search for issues and discussions in your Obsidian vault repository (${this.config.owner}/${this.config.repo}). Great for tracking tasks, project management, and collaborative knowledge work.`,
+      {
+        query: z
+          .string()
+          .describe("Search query (uses GitHub Issue Search syntax)"),
+      },
+      {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      async ({ query }) => {
+        const repoQualifier = `repo:${this.config.owner}/${this.config.repo}`;
+        const qualifiedQuery = `${query} is:issue ${repoQualifier}`;
+        const searchResults = await this.handleRequest(async () => {
+          return this.octokit.search.issuesAndPullRequests({
+            q: qualifiedQuery,
+          });
+        });
+        // Format results as a markdown list
+        const formattedResults = searchResults.items
+          .map((item) => `- #${item.number} ${item.title} (${item.html_url})`)
+          .join("\n");
+        return {
+          // Return formatted text instead of raw JSON string
+          content: [
+            {
+              type: "text" as const,
+              text: `Found ${searchResults.total_count} issues:\n${formattedResults}`,
+            },
+          ],
+        };
+      }
+    );
+
+    // getCommitHistory tool - focuses on file changes and diffs
+    server.tool(
+      "getCommitHistory",
+      `Track the evolution of your Obsidian vault knowledge base by retrieving commit history from GitHub (${this.config.owner}/${this.config.repo}). See how your notes and ideas have developed over time with detailed diffs.`,
+      {
+        days: z
+          .number()
+          .min(1)
+          .max(365)
+          .describe("Number of days to look back for commits"),
+        includeDiffs: z
+          .boolean()
+          .optional()
+          .default(true)
+          .describe(
+            "Whether to include actual file changes/diffs (default: true)"
+          ),
+        author: z
+          .string()
+          .optional()
+          .describe("Filter commits by author username"),
+        maxCommits: z
+          .number()
+          .min(1)
+          .max(50)
+          .optional()
+          .default(25)
+          .describe("Maximum number of commits to return"),
+        page: z
+          .number()
+          .optional()
+          .default(0)
+          .describe("Page number for pagination (0-indexed)"),
+        ref: z
+          .string()
+          .optional()
+          .describe(
+            "Branch, tag or commit SHA to list history from (default: the configured default ref, or the repository's default branch)"
+          ),
+      },
+      {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      async ({
+        days,
+        includeDiffs = true,
+        author,
+        maxCommits = 25,
+        page = 0,
+        ref,
+      }) => {
+        // Calculate date range
+        const since = new Date();
+        since.setDate(since.getDate() - days);
+        const sinceISO = since.toISOString();
+
+        console.error("sinceISO", sinceISO);
+
+        // Fetch commits list
+        const resolvedRef = this.resolveRef(ref);
+        const commits = await this.handleRequest(async () => {
+          return this.octokit.repos.listCommits({
+            owner: this.config.owner,
+            repo: this.config.repo,
+            since: sinceISO,
+            ...(resolvedRef ? { sha: resolvedRef } : {}),
+            ...(author ? { author } : {}),
+            page: page,
+            per_page: maxCommits,
+          });
+        });
+
+        if (commits.length === 0) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `No commits found in the last ${days} days since ${sinceISO}${
+                  author ? ` from author ${author}` : ""
+                }.`,
+              },
+            ],
+          };
+        }
+
+        let formattedOutput = `Found ${
+          commits.length
+        } commits in the last ${days} days${
+          author ? ` from ${author}` : ""
+        }:\n\n`;
+
+        if (includeDiffs) {
+          // Fetch detailed commit information with diffs
+          const detailedCommits = await Promise.all(
+            commits.slice(0, maxCommits).map(async (commit) => {
+              const detailed = await this.handleRequest(async () => {
+                return this.octokit.repos.getCommit({
+                  owner: this.config.owner,
+                  repo: this.config.repo,
+                  ref: commit.sha,
+                });
+              });
+              return detailed;
+            })
+          );
+
+          // Format results with diffs
+          for (const commit of detailedCommits) {
+            const shortSha = commit.sha.substring(0, 7);
+            const commitUrl = `https://github.com/${this.config.owner}/${this.config.repo}/commit/${commit.sha}`;
+
+            formattedOutput += `## Commit ${shortSha} (${commit.sha})\n`;
+            formattedOutput += `**${commit.commit.message.split("\n")[0]}**\n`;
+            formattedOutput += `Author: ${commit.commit.author?.name} <${commit.commit.author?.email}>\n`;
+            formattedOutput += `Date: ${commit.commit.author?.date}\n`;
+            formattedOutput += `URL: ${commitUrl}\n\n`;
+
+            if (commit.files && commit.files.length > 0) {
+              formattedOutput += this.formatFileChanges(commit.files);
+            } else {
+              formattedOutput += "No file changes detected.\n\n";
+            }
+            formattedOutput += "---\n\n";
+          }
+        } else {
+          // Just show commit metadata without diffs
+          for (const commit of commits) {
+            const shortSha = commit.sha.substring(0, 7);
+            const commitUrl = `https://github.com/${this.config.owner}/${this.config.repo}/commit/${commit.sha}`;
+
+            formattedOutput += `## Commit ${shortSha}\n`;
+            formattedOutput += `**${commit.commit.message.split("\n")[0]}**\n`;
+            formattedOutput += `Author: ${commit.commit.author?.name} <${commit.commit.author?.email}>\n`;
+            formattedOutput += `Date: ${commit.commit.author?.date}\n`;
+            formattedOutput += `URL: ${commitUrl}\n\n`;
+          }
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: formattedOutput,
+            },
+          ],
+        };
+      }
+    );
+
+    // getFileHistory tool - commits touching a single note, across renames
+    server.tool(
+      "getFileHistory",
+      `List the commits that touched a single note in your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}), following renames, to review how one idea evolved over time.`,
+      {
+        filePath: z
+          .string()
+          .describe("Path to the file within the repository."),
+        maxCommits: z
+          .number()
+          .min(1)
+          .max(100)
+          .optional()
+          .default(30)
+          .describe("Maximum number of commits to return"),
+        followRenames: z
+          .boolean()
+          .optional()
+          .default(true)
+          .describe(
+            "Keep following the note's history through renames and moves (default: true)"
+          ),
+        includeDiffs: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe(
+            "Include the note's diff in each commit (one extra request per commit, default: false)"
+          ),
+        ref: z
+          .string()
+          .optional()
+          .describe(
+            "Branch, tag or commit SHA to start from (default: the configured default ref, or the repository's default branch)"
+          ),
+      },
+      {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      async ({
+        filePath,
+        maxCommits = 30,
+        followRenames = true,
+        includeDiffs = false,
+        ref,
+      }) => {
+        this.policy.assertReadable(filePath);
+        const getCommitDetails = async (sha: string) =>
+          this.handleRequest(async () => {
+            return this.octokit.repos.getCommit({
+              owner: this.config.owner,
+              repo: this.config.repo,
+              ref: sha,
+            });
+          });
+
+        const history: Array<{
+          sha: string;
+          path: string;
+          message: string;
+          authorName?: string;
+          authorEmail?: string;
+          date?: string;
+        }> = [];
+        const renames: Array<{ from: string; to: string; sha: string }> = [];
+        let path = filePath;
+        let startSha = this.resolveRef(ref);
+
+        while (history.length < maxCommits) {
+          const requested = maxCommits - history.length;
           const commits = await this.handleRequest(async () => {
             return this.octokit.repos.listCommits({
               owner: this.config.owner,
               repo: this.config.repo,
-              since: since.toISOString(),
-              per_page: 10,
+              path,
+              per_page: requested,
+              ...(startSha ? { sha: startSha } : {}),
+            });
+          });
+          for (const commit of commits) {
+            history.push({
+              sha: commit.sha,
+              path,
+              message: commit.commit.message,
+              authorName: commit.commit.author?.name,
+              authorEmail: commit.commit.author?.email,
+              date: commit.commit.author?.date,
+            });
+          }
+
+          // A full page means we hit the limit rather than the file's origin
+          if (
+            !followRenames ||
+            commits.length === 0 ||
+            commits.length >= requested
+          ) {
+            break;
+          }
+
+          // The oldest commit either created the file or renamed it here
+          const oldest = await getCommitDetails(
+            commits[commits.length - 1].sha
+          );
+          const file = oldest.files?.find((f) => f.filename === path);
+          const parentSha = oldest.parents[0]?.sha;
+          // History under a path the policy hides is not followed
+          if (
+            file?.status !== "renamed" ||
+            !file.previous_filename ||
+            !this.policy.canRead(file.previous_filename) ||
+            !parentSha
+          ) {
+            break;
+          }
+          renames.push({
+            from: file.previous_filename,
+            to: path,
+            sha: oldest.sha,
+          });
+          path = file.previous_filename;
+          startSha = parentSha;
+        }
+
+        if (history.length === 0) {
+          throw new Error(`No commits found touching "${filePath}".`);
+        }
+
+        let formattedOutput = `# History of ${filePath}\n\n`;
+        formattedOutput += `Found ${history.length} commits`;
+        if (renames.length > 0) {
+          formattedOutput += ` across ${renames.length} rename${
+            renames.length > 1 ? "s" : ""
+          }`;
+        }
+        formattedOutput += ":\n";
+        for (const rename of renames) {
+          formattedOutput += `- Renamed from ${rename.from} to ${rename.to} in ${rename.sha.substring(0, 7)}\n`;
+        }
+        formattedOutput += "\n";
+
+        for (const entry of history) {
+          const shortSha = entry.sha.substring(0, 7);
+          const commitUrl = `https://github.com/${this.config.owner}/${this.config.repo}/commit/${entry.sha}`;
+
+          formattedOutput += `## Commit ${shortSha}\n`;
+          formattedOutput += `**${entry.message.split("\n")[0]}**\n`;
+          formattedOutput += `Author: ${entry.authorName} <${entry.authorEmail}>\n`;
+          formattedOutput += `Date: ${entry.date}\n`;
+          if (entry.path !== filePath) {
+            formattedOutput += `Path at the time: ${entry.path}\n`;
+          }
+          formattedOutput += `URL: ${commitUrl}\n\n`;
+
+          if (includeDiffs) {
+            const detailed = await getCommitDetails(entry.sha);
+            const files = (detailed.files ?? []).filter(
+              (file) => file.filename === entry.path
+            );
+            if (files.length > 0) {
+              formattedOutput += this.formatFileChanges(files, {
+                showStatus: true,
+              });
+            }
+          }
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: formattedOutput,
+            },
+          ],
+          structuredContent: {
+            path: filePath,
+            commits: history,
+            renames,
+          },
+        };
+      }
+    );
+
+    // compareRevisions tool - diff a note or folder between two refs
+    server.tool(
+      "compareRevisions",
+      `Compare two branches, tags or commit SHAs of your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}) and show which notes were added, modified, renamed or removed, with diffs. Can be narrowed to one note or folder.`,
+      {
+        base: z
+          .string()
+          .describe("Older branch, tag or commit SHA to compare from"),
+        head: z
+          .string()
+          .describe("Newer branch, tag or commit SHA to compare to"),
+        path: z
+          .string()
+          .optional()
+          .describe(
+            "Only include this file, or files inside this folder (e.g. 'Projects/')"
+          ),
+        markdownOnly: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Only include markdown (.md) files (default: false)"),
+        includeDiffs: z
+          .boolean()
+          .optional()
+          .default(true)
+          .describe("Whether to include the diff of each file (default: true)"),
+      },
+      {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      async ({
+        base,
+        head,
+        path,
+        markdownOnly = false,
+        includeDiffs = true,
+      }) => {
+        const comparison = await this.handleRequest(async () => {
+          return this.octokit.repos.compareCommitsWithBasehead({
+            owner: this.config.owner,
+            repo: this.config.repo,
+            basehead: `${base}...${head}`,
+          });
+        });
+
+        const scope = path?.replace(/^\/+|\/+$/g, "");
+        const inScope = (filename?: string) =>
+          filename !== undefined &&
+          (!scope || filename === scope || filename.startsWith(`${scope}/`));
+        const files = (comparison.files ?? []).filter(
+          (file) =>
+            (inScope(file.filename) || inScope(file.previous_filename)) &&
+            this.policy.canRead(file.filename) &&
+            (!markdownOnly || file.filename.toLowerCase().endsWith(".md"))
+        );
+
+        const counts = new Map<string, number>();
+        for (const file of files) {
+          counts.set(file.status, (counts.get(file.status) ?? 0) + 1);
+        }
+
+        let formattedOutput = `# Comparing ${base}...${head}\n\n`;
+        formattedOutput += `Status: ${comparison.status} (${comparison.ahead_by} ahead, ${comparison.behind_by} behind, ${comparison.total_commits} commits)\n`;
+        if (scope) {
+          formattedOutput += `Scope: ${scope}\n`;
+        }
+        formattedOutput += `Summary: ${[
+          "added",
+          "modified",
+          "renamed",
+          "removed",
+        ]
+          .map((status) => `${counts.get(status) ?? 0} ${status}`)
+          .join(", ")}\n\n`;
+
+        if (files.length === 0) {
+          formattedOutput +=
+            "No matching file changes between these revisions.\n";
+        } else {
+          formattedOutput += this.formatFileChanges(files, {
+            showStatus: true,
+            includePatches: includeDiffs,
+          });
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: formattedOutput,
+            },
+          ],
+          structuredContent: {
+            base,
+            head,
+            status: comparison.status,
+            aheadBy: comparison.ahead_by,
+            behindBy: comparison.behind_by,
+            totalCommits: comparison.total_commits,
+            files: files.map((file) => ({
+              filename: file.filename,
+              status: file.status,
+              ...(file.previous_filename &&
+              this.policy.canRead(file.previous_filename)
+                ? { previousFilename: file.previous_filename }
+                : {}),
+              additions: file.additions,
+              deletions: file.deletions,
+            })),
+          },
+        };
+      }
+    );
+
+    // searchCode tool - searches for code within file contents
+    server.tool(
+      "searchCode",
+      `Search for code patterns and content within files in your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}). Similar to 'gh search code', this tool finds specific code, text, or patterns within file contents and shows matching snippets.`,
+      {
+        query: z
+          .string()
+          .describe(
+            "Code or text pattern to search for within file contents. Supports GitHub code search syntax."
+          ),
+        language: z
+          .string()
+          .optional()
+          .describe(
+            "Filter by file language/extension (e.g., 'markdown', 'python', 'javascript')"
+          ),
+        page: z
+          .number()
+          .optional()
+          .default(1)
+          .describe(
+            "Page number to retrieve (1-indexed, following GitHub API convention)"
+          ),
+        perPage: z
+          .number()
+          .optional()
+          .default(30)
+          .describe("Number of results per page (max 100)"),
+        ref: z
+          .string()
+          .optional()
+          .describe(
+            "Branch, tag or commit SHA to search (default: the configured default ref, or the repository's default branch). GitHub code search only indexes the default branch, so other refs need the local backend."
+          ),
+        backend: searchBackendParameter,
+        snippetLength: snippetLengthParameter,
+      },
+      {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      async ({
+        query,
+        language,
+        page = 1,
+        perPage = 30,
+        ref,
+        backend,
+        snippetLength = 200,
+      }) => {
+        if (this.useLocalSearch(backend)) {
+          return this.searchCodeLocally(
+            query,
+            language,
+            ref,
+            page,
+            perPage,
+            snippetLength
+          );
+        }
+        const searchRef = await this.refOutsideSearchIndex(ref);
+        if (searchRef) {
+          throw new Error(
+            `GitHub code search only indexes the default branch and cannot search ref "${searchRef}". Retry with backend "local", which indexes any ref.`
+          );
+        }
+
+        // Build search query with repository qualifier
+        const repoQualifier = `repo:${this.config.owner}/${this.config.repo}`;
+        let qualifiedQuery = `${query} ${repoQualifier}`;
+
+        // Add language filter if specified
+        if (language) {
+          qualifiedQuery += ` language:${language}`;
+        }
+
+        // Perform the code search
+        let searchResults: {
+          items: Array<{
+            name: string;
+            path: string;
+            sha: string;
+            html_url: string;
+            repository: {
+              full_name: string;
+            };
+            score: number;
+            text_matches?: TextMatch[];
+          }>;
+          total_count: number;
+          incomplete_results: boolean;
+        };
+
+        try {
+          searchResults = await this.handleRequest(async () => {
+            return this.octokit.search.code({
+              q: qualifiedQuery,
+              page,
+              per_page: Math.min(perPage, 100), // GitHub max is 100
+              ...(snippetLength > 0
+                ? { mediaType: { format: "text-match" } }
+                : {}),
+            });
+          });
+        } catch (error) {
+          // Enhanced error messages
+          const errorMessage =
+            error instanceof Error ? error.message : String(error);
+          if (errorMessage.includes("validation failed")) {
+            throw new Error(
+              `GitHub code search query invalid: "${qualifiedQuery}". Try simpler terms or check syntax.`
+            );
+          }
+          if (errorMessage.includes("rate limit")) {
+            throw new Error(
+              "GitHub code search rate limit exceeded (10 requests/minute). Wait a moment and try again."
+            );
+          }
+          if (
+            errorMessage.includes("Forbidden") ||
+            errorMessage.includes("401")
+          ) {
+            throw new Error(
+              "GitHub API access denied. Check that your token has 'repo' scope for private repositories."
+            );
+          }
+          throw error;
+        }
+
+        // Format the results
+        if (searchResults.total_count === 0) {
+          let resultText = `No code matches found for "${query}"`;
+          if (language) {
+            resultText += ` in ${language} files`;
+          }
+          resultText += ".\n\n";
+          resultText += "💡 **Search Tips:**\n";
+          resultText += "- Try simpler or partial search terms\n";
+          resultText += "- Remove language filters to broaden search\n";
+          resultText += '- Use quotes for exact phrases: "exact phrase"\n';
+          resultText +=
+            "- Remember: only files < 384 KB on default branch are searchable\n";
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: resultText,
+              },
+            ],
+          };
+        }
+
+        // Build formatted response
+        let resultText = `Found ${searchResults.total_count} code matches for "${query}"`;
+        if (language) {
+          resultText += ` in ${language} files`;
+        }
+        resultText += ":\n\n";
+
+        // Add pagination info if there are more results
+        const totalPages = Math.ceil(searchResults.total_count / perPage);
+        if (totalPages > 1) {
+          resultText += `📄 Showing page ${page} of ${totalPages} (${searchResults.items.length} results on this page)\n\n`;
+        }
+
+        // Format each result, leaving out paths the policy keeps private
+        const visibleItems = searchResults.items.filter((item) =>
+          this.policy.canRead(item.path)
+        );
+        const hiddenCount = searchResults.items.length - visibleItems.length;
+        if (hiddenCount > 0) {
+          resultText += `_${hiddenCount} result${hiddenCount === 1 ? "" : "s"} on this page hidden by the path policy._\n\n`;
+        }
+        for (const item of visibleItems) {
+          const fileName = item.name;
+          const filePath = item.path;
+          const fileUrl = item.html_url;
+          const relevanceScore = item.score.toFixed(2);
+
+          resultText += `### 📄 ${fileName}\n`;
+          resultText += `- **Path**: \`${filePath}\`\n`;
+          resultText += `- **URL**: ${fileUrl}\n`;
+          resultText += `- **Relevance**: ${relevanceScore}\n`;
+          const snippets =
+            snippetLength > 0
+              ? formatTextMatches(item.text_matches, snippetLength, "")
+              : "";
+          if (snippets) {
+            resultText += `\n${snippets}\n`;
+          }
+          resultText += "\n";
+        }
+
+        // Add helpful footer
+        resultText += "\n---\n\n";
+        resultText += "💡 **Next Steps:**\n";
+        resultText +=
+          "- Use `getFileContents` tool with the file path to view full content\n";
+        if (totalPages > page) {
+          resultText += `- Use \`page: ${page + 1}\` to see more results\n`;
+        }
+        resultText += "- Refine your search query for more specific matches\n";
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: resultText,
+            },
+          ],
+        };
+      }
+    );
+
+    // diagnoseSearch tool for repository diagnostics
+    server.tool(
+      "diagnoseSearch",
+      `Diagnose search functionality and repository configuration for your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}). Verifies repository connectivity, search capabilities, and checks if repository size is within GitHub's indexing limits.`,
+      {},
+      {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      async () => {
+        try {
+          // Get repository information
+          const repoInfo = await this.handleRequest(async () => {
+            return this.octokit.repos.get({
+              owner: this.config.owner,
+              repo: this.config.repo,
+            });
+          });
+
+          // Test search functionality with a simple query
+          let searchWorks = false;
+          let searchError: string | null = null;
+          let searchResultCount = 0;
+
+          try {
+            const testSearch = await this.handleRequest(async () => {
+              return this.octokit.search.code({
+                q: `repo:${this.config.owner}/${this.config.repo} extension:md`,
+                per_page: 1,
+              });
+            });
+            searchWorks = true;
+            searchResultCount = testSearch.total_count;
+          } catch (error) {
+            searchWorks = false;
+            searchError =
+              error instanceof Error ? error.message : String(error);
+          }
+
+          // GitHub's code search limitations
+          const MAX_INDEXED_SIZE_GB = 50; // GitHub doesn't index repos > ~50GB
+          const repoSizeGB = repoInfo.size / (1024 * 1024); // Convert KB to GB
+          const isWithinSizeLimit = repoSizeGB <= MAX_INDEXED_SIZE_GB;
+
+          // Format diagnostic output
+          let diagnosticOutput = "# Repository Search Diagnostics\n\n";
+          diagnosticOutput += "## Repository Information\n";
+          diagnosticOutput += `- **Repository**: ${this.config.owner}/${this.config.repo}\n`;
+          diagnosticOutput += `- **Visibility**: ${
+            repoInfo.private ? "Private" : "Public"
+          }\n`;
+          diagnosticOutput += `- **Size**: ${repoSizeGB.toFixed(3)} GB (${(
+            repoInfo.size / 1024
+          ).toFixed(2)} MB)\n`;
+          diagnosticOutput += `- **Default Branch**: ${repoInfo.default_branch}\n\n`;
+
+          diagnosticOutput += "## Search Capabilities\n";
+          diagnosticOutput += `- **Search API Access**: ${
+            searchWorks ? "✅ Working" : "❌ Failed"
+          }\n`;
+          diagnosticOutput += `- **Indexed Branch**: Only '${repoInfo.default_branch}' branch is searchable\n`;
+
+          if (searchWorks) {
+            diagnosticOutput += `- **Markdown Files Found**: ${searchResultCount}\n`;
+          } else if (searchError) {
+            diagnosticOutput += `- **Error**: ${searchError}\n`;
+          }
+
+          diagnosticOutput += `- **Within Size Limit**: ${
+            isWithinSizeLimit
+              ? `✅ Yes (${repoSizeGB.toFixed(
+                  3
+                )} GB < ${MAX_INDEXED_SIZE_GB} GB)`
+              : `⚠️ No (${repoSizeGB.toFixed(3)} GB > ${MAX_INDEXED_SIZE_GB} GB)`
+          }\n\n`;
+
+          // Add recommendations
+          diagnosticOutput += "## Recommendations\n";
+
+          if (!searchWorks && repoInfo.private) {
+            diagnosticOutput += `- ⚠️ **Private Repository**: Ensure your GitHub token has the 'repo' scope for full access to private repositories.\n`;
+          }
+
+          if (!isWithinSizeLimit) {
+            diagnosticOutput += `- ⚠️ **Large Repository**: GitHub's code search doesn't index repositories larger than ~${MAX_INDEXED_SIZE_GB} GB. Consider:\n`;
+            diagnosticOutput +=
+              "  - Using file path navigation instead of search for specific files\n";
+            diagnosticOutput +=
+              "  - Splitting your vault into multiple repositories\n";
+            diagnosticOutput +=
+              "  - Using getFileContents tool with known paths\n";
+            diagnosticOutput +=
+              "  - Note: Individual files must be < 384 KB to be searchable\n";
+          }
+
+          if (searchWorks && searchResultCount === 0) {
+            diagnosticOutput +=
+              "- ℹ️ **No Markdown Files**: No .md files found in the default branch. Your vault might be empty, use different file extensions, or have content in other branches.\n";
+          }
+
+          if (searchWorks && isWithinSizeLimit) {
+            diagnosticOutput +=
+              "- ✅ **All Systems Operational**: Repository is properly configured and searchable!\n";
+          }
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: diagnosticOutput,
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Failed to diagnose repository: ${
+                  error instanceof Error ? error.message : String(error)
+                }\n\nPlease check your GITHUB_TOKEN, GITHUB_OWNER, and GITHUB_REPO configuration.`,
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    // writeNote tool - create or update a note with optimistic concurrency
+    server.tool(
+      "writeNote",
+      `Create or update a note in your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}) as a single commit. To update an existing note, pass the \`sha\` returned by getFileContents: if the note changed since (for example through Obsidian Git sync), the write is rejected with a conflict instead of overwriting those changes.`,
+      {
+        filePath: z.string().describe("Path of the note to create or update."),
+        content: z.string().describe("The complete new content of the note."),
+        sha: z
+          .string()
+          .optional()
+          .describe(
+            "Blob SHA of the version you last read (required to update an existing note; omit to create a new one)"
+          ),
+        message: z
+          .string()
+          .optional()
+          .describe(
+            "Commit message (default: 'Create <path>' or 'Update <path>')"
+          ),
+        branch: z
+          .string()
+          .optional()
+          .describe(
+            "Branch to commit to (default: the configured default ref, or the repository's default branch)"
+          ),
+      },
+      {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+      async ({ filePath, content, sha, message, branch }) => {
+        const commitMessage =
+          message || `${sha ? "Update" : "Create"} ${filePath}`;
+
+        const result = await this.writeFile({
+          filePath,
+          content,
+          sha,
+          message: commitMessage,
+          branch,
+        });
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `${sha ? "Updated" : "Created"} ${filePath} in commit ${result.commitSha?.substring(0, 7)}.\nNew file SHA: ${result.sha}\nURL: ${result.commitUrl}`,
+            },
+          ],
+          structuredContent: {
+            path: filePath,
+            created: !sha,
+            ...result,
+          },
+        };
+      }
+    );
+
+    // commitChanges tool - several file operations as one atomic commit
+    server.tool(
+      "commitChanges",
+      `Apply a batch of create, update, delete and rename operations to your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}) as one atomic commit. Either every change lands or none does: if the branch moves while committing, or a file's \`sha\` no longer matches, the commit is rejected.`,
+      {
+        changes: fileChangesParameter,
+        message: z.string().describe("Commit message"),
+        branch: z
+          .string()
+          .optional()
+          .describe(
+            "Branch to commit to (default: the configured default ref, or the repository's default branch)"
+          ),
+        expectedHeadSha: z
+          .string()
+          .optional()
+          .describe(
+            "Commit SHA the branch is expected to point at; the commit is rejected if it has moved"
+          ),
+      },
+      {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+      async ({ changes, message, branch, expectedHeadSha }) => {
+        const result = await this.commitFileChanges({
+          changes,
+          message,
+          branch,
+          expectedHeadSha,
+        });
+
+        let text = `Committed ${changes.length} change${
+          changes.length === 1 ? "" : "s"
+        } to ${result.branch} in ${result.commitSha.substring(0, 7)}:\n`;
+        for (const change of changes) {
+          text +=
+            change.action === "rename"
+              ? `- rename ${change.path} → ${change.newPath}\n`
+              : `- ${change.action} ${change.path}\n`;
+        }
+        text += `URL: ${result.commitUrl}`;
+
+        return {
+          content: [{ type: "text" as const, text }],
+          structuredContent: { ...result, changes: changes.length },
+        };
+      }
+    );
+
+    // moveNote tool - rename a note and update every link to it
+    server.tool(
+      "moveNote",
+      `Move or rename a note in your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}) and rewrite every wikilink, embed and relative markdown link pointing to it, keeping aliases and heading anchors. Everything lands in a single commit. Use dryRun to preview the files and lines that would change.`,
+      {
+        filePath: z.string().describe("Current path of the note"),
+        newPath: z
+          .string()
+          .describe("New path of the note, including its extension"),
+        dryRun: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("List the link changes without committing anything"),
+        message: z
+          .string()
+          .optional()
+          .describe('Commit message (default: "Move <old> to <new>")'),
+        branch: z
+          .string()
+          .optional()
+          .describe(
+            "Branch to commit to (default: the configured default ref, or the repository's default branch)"
+          ),
+      },
+      {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+      async ({ filePath, newPath, dryRun, message, branch }) => {
+        const oldPath = normalizePath(filePath);
+        const targetPath = normalizePath(newPath);
+        if (oldPath === targetPath) {
+          throw new Error("The new path is the same as the current path.");
+        }
+        if (dryRun) {
+          this.policy.assertReadable(oldPath);
+        } else {
+          this.policy.assertWritable(oldPath);
+          this.policy.assertWritable(targetPath);
+        }
+
+        const tree = await this.getRepoTree(branch);
+        const files = new Map(
+          tree
+            .filter((entry) => entry.type === "blob")
+            .map((entry) => [entry.path, entry])
+        );
+        const source = files.get(oldPath);
+        if (!source) {
+          throw new Error(`File not found in repository: ${oldPath}`);
+        }
+        if (files.has(targetPath)) {
+          throw new Error(
+            `Cannot move to "${targetPath}": file already exists.`
+          );
+        }
+
+        const { notes, index } = await this.loadVault(tree);
+        const rewrites = planNoteMove(oldPath, targetPath, notes, index);
+        const linkCount = rewrites.reduce(
+          (sum, rewrite) => sum + rewrite.edits.length,
+          0
+        );
+
+        let text = dryRun
+          ? `Dry run: moving ${oldPath} to ${targetPath} would update ${linkCount} line${linkCount === 1 ? "" : "s"} in ${rewrites.length} file${rewrites.length === 1 ? "" : "s"}.\n`
+          : "";
+        for (const rewrite of rewrites) {
+          text += `\n### ${rewrite.path}\n`;
+          for (const edit of rewrite.edits) {
+            text += `- Line ${edit.line}:\n  - \`${edit.before.trim()}\`\n  + \`${edit.after.trim()}\`\n`;
+          }
+        }
+        const structured = {
+          from: oldPath,
+          to: targetPath,
+          dryRun,
+          files: rewrites.map((rewrite) => ({
+            path: rewrite.path,
+            edits: rewrite.edits,
+          })),
+        };
+        if (dryRun) {
+          return {
+            content: [{ type: "text" as const, text }],
+            structuredContent: structured,
+          };
+        }
+
+        const moved = rewrites.find((rewrite) => rewrite.path === oldPath);
+        const changes: FileChange[] = [
+          {
+            action: "rename",
+            path: oldPath,
+            newPath: targetPath,
+            sha: source.sha,
+            ...(moved ? { content: moved.content } : {}),
+          },
+          ...rewrites
+            .filter((rewrite) => rewrite.path !== oldPath)
+            .map((rewrite) => ({
+              action: "update" as const,
+              path: rewrite.path,
+              content: rewrite.content,
+              sha: files.get(rewrite.path)?.sha,
+            })),
+        ];
+        const result = await this.commitFileChanges({
+          changes,
+          message: message || `Move ${oldPath} to ${targetPath}`,
+          branch,
+        });
+
+        text = `Moved ${oldPath} to ${targetPath} and updated ${linkCount} line${linkCount === 1 ? "" : "s"} in ${rewrites.length} file${rewrites.length === 1 ? "" : "s"} in commit ${result.commitSha.substring(0, 7)}.\nURL: ${result.commitUrl}\n${text}`;
+        return {
+          content: [{ type: "text" as const, text }],
+          structuredContent: { ...structured, ...result },
+        };
+      }
+    );
+
+    // getDailyNote tool - locate a daily note using the vault's own settings
+    server.tool(
+      "getDailyNote",
+      `Read the daily note for a date from your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}). The folder and filename format come from the vault's Daily Notes or Periodic Notes settings, so there is no need to guess paths.`,
+      {
+        date: z
+          .string()
+          .optional()
+          .default("today")
+          .describe(
+            '"today", "yesterday", "tomorrow" or YYYY-MM-DD (default: today)'
+          ),
+        ref: refParameter,
+      },
+      {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      async ({ date = "today", ref }) => {
+        const day = parseCalendarDate(date);
+        if (!day) {
+          throw new Error(
+            `Invalid date "${date}". Use "today", "yesterday", "tomorrow" or YYYY-MM-DD.`
+          );
+        }
+        const tree = await this.getRepoTree(ref);
+        const settings = await this.loadDailyNoteSettings(tree);
+        const path = dailyNotePath(settings, day);
+        const entry = tree.find(
+          (candidate) => candidate.path === path && candidate.type === "blob"
+        );
+
+        if (!entry) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `No daily note exists yet for ${date} (expected at ${path}). Use appendToDailyNote to create it.`,
+              },
+            ],
+            structuredContent: { path, exists: false, settings },
+          };
+        }
+
+        const text = await this.fetchBlobText(entry.sha);
+        return {
+          content: [
+            { type: "text" as const, text },
+            {
+              type: "text" as const,
+              text: `_Daily note: ${path} (SHA ${entry.sha})_`,
+            },
+          ],
+          structuredContent: { path, exists: true, sha: entry.sha, settings },
+        };
+      }
+    );
+
+    // appendToDailyNote tool - capture text in a daily note
+    server.tool(
+      "appendToDailyNote",
+      `Append text to the daily note for a date in your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}), optionally under a heading (created if missing). The note is created from the configured daily note template when it does not exist yet. Concurrent edits are detected and the append is retried on the latest version.`,
+      {
+        content: z.string().describe("Markdown to append"),
+        heading: z
+          .string()
+          .optional()
+          .describe(
+            'Heading to append under, e.g. "Meetings" or "## Meetings" (default: end of the note)'
+          ),
+        date: z
+          .string()
+          .optional()
+          .default("today")
+          .describe(
+            '"today", "yesterday", "tomorrow" or YYYY-MM-DD (default: today)'
+          ),
+        createIfMissing: z
+          .boolean()
+          .optional()
+          .default(true)
+          .describe(
+            "Create the daily note when it does not exist yet (default: true)"
+          ),
+        message: z
+          .string()
+          .optional()
+          .describe('Commit message (default: "Append to <path>")'),
+        branch: z
+          .string()
+          .optional()
+          .describe(
+            "Branch to commit to (default: the configured default ref, or the repository's default branch)"
+          ),
+      },
+      {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+      async ({
+        content,
+        heading,
+        date = "today",
+        createIfMissing = true,
+        message,
+        branch,
+      }) => {
+        this.policy.assertWritesEnabled();
+        const day = parseCalendarDate(date);
+        if (!day) {
+          throw new Error(
+            `Invalid date "${date}". Use "today", "yesterday", "tomorrow" or YYYY-MM-DD.`
+          );
+        }
+
+        // Someone else may write the same note in between; retry on the
+        // latest version rather than overwriting their change
+        const maxAttempts = 3;
+        for (let attempt = 1; ; attempt++) {
+          const tree = await this.getRepoTree(branch);
+          const settings = await this.loadDailyNoteSettings(tree);
+          const path = dailyNotePath(settings, day);
+          const entry = tree.find(
+            (candidate) => candidate.path === path && candidate.type === "blob"
+          );
+
+          let current: string;
+          if (entry) {
+            current = await this.fetchBlobText(entry.sha);
+          } else if (!createIfMissing) {
+            throw new Error(
+              `No daily note exists for ${date} (expected at ${path}).`
+            );
+          } else {
+            const template = settings.template
+              ? await this.readTreeFile(tree, templatePath(settings.template))
+              : undefined;
+            current = template
+              ? renderTemplate(template, {
+                  title: noteName(path),
+                  date: day,
+                  now: new Date(),
+                  dateFormat: settings.format,
+                })
+              : "";
+          }
+
+          try {
+            const result = await this.writeFile({
+              filePath: path,
+              content: appendToSection(current, content, heading),
+              sha: entry?.sha,
+              message: message || `Append to ${path}`,
+              branch,
             });
-          });
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: `${entry ? "Appended to" : "Created"} ${path}${heading ? ` under "${heading}"` : ""} in commit ${result.commitSha?.substring(0, 7)}.\nURL: ${result.commitUrl}`,
+                },
+              ],
+              structuredContent: {
+                path,
+                created: !entry,
+                sha: result.sha,
+                commitSha: result.commitSha,
+                commitUrl: result.commitUrl,
+              },
+            };
+          } catch (error) {
+            if (
+              !(error instanceof WriteConflictError) ||
+              attempt >= maxAttempts
+            ) {
+              throw error;
+            }
+          }
+        }
+      }
+    );
+
+    // listTemplates tool - discover the vault's note templates
+    server.tool(
+      "listTemplates",
+      `List the note templates in your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}), from the folders configured for the core Templates plugin and Templater, with the {{variables}} each template expects.`,
+      {
+        ref: refParameter,
+      },
+      {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      async ({ ref }) => {
+        const tree = await this.getRepoTree(ref);
+        const settings = await this.loadTemplateSettings(tree);
+        if (settings.folders.length === 0) {
+          throw new Error(
+            `No template folder is configured. Set one in Obsidian's Templates or Templater settings (${TEMPLATES_CONFIG}).`
+          );
+        }
+
+        const entries = this.listTemplateEntries(tree, settings);
+        const texts = await this.loadNoteTexts(entries);
+        const templates = entries
+          .map((entry) => ({
+            path: entry.path,
+            name: noteName(entry.path),
+            source: entry.source,
+            variables: templateVariables(texts.get(entry.path) ?? ""),
+          }))
+          .sort((a, b) => a.path.localeCompare(b.path));
+
+        let text = `Found ${templates.length} template${templates.length === 1 ? "" : "s"} in ${settings.folders.map((folder) => folder.path).join(", ")}:\n\n`;
+        for (const template of templates) {
+          text += `- **${template.name}** (${template.path})`;
+          if (template.variables.length > 0) {
+            text += ` — variables: ${template.variables.join(", ")}`;
+          }
+          text += "\n";
+        }
+
+        return {
+          content: [{ type: "text" as const, text }],
+          structuredContent: { folders: settings.folders, templates },
+        };
+      }
+    );
+
+    // createNoteFromTemplate tool - write a new note from a template
+    server.tool(
+      "createNoteFromTemplate",
+      `Create a note in your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}) from one of its templates. Fills in {{title}}, {{date}}, {{date:FORMAT}}, {{time}}, caller-supplied {{variables}} and Templater's tp.file and tp.date commands. Refuses to overwrite an existing note unless overwrite is set.`,
+      {
+        template: z
+          .string()
+          .describe("Template name or path, as returned by listTemplates"),
+        targetPath: z
+          .string()
+          .describe("Path of the note to create; .md is added if missing"),
+        variables: z
+          .record(z.string())
+          .optional()
+          .describe("Values for the template's custom {{variables}}"),
+        overwrite: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Replace the note if it already exists (default: false)"),
+        message: z
+          .string()
+          .optional()
+          .describe(
+            'Commit message (default: "Create <path> from <template>")'
+          ),
+        branch: z
+          .string()
+          .optional()
+          .describe(
+            "Branch to commit to (default: the configured default ref, or the repository's default branch)"
+          ),
+      },
+      {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+      async ({
+        template,
+        targetPath,
+        variables,
+        overwrite = false,
+        message,
+        branch,
+      }) => {
+        const path = normalizePath(
+          /\.md$/i.test(targetPath) ? targetPath : `${targetPath}.md`
+        );
+        this.policy.assertWritable(path);
+        const tree = await this.getRepoTree(branch);
+        const settings = await this.loadTemplateSettings(tree);
+        const candidates = this.listTemplateEntries(tree, settings);
+        const wanted = normalizePath(template).toLowerCase();
+        const source =
+          candidates.find(
+            (entry) =>
+              entry.path.toLowerCase() === wanted ||
+              entry.path.toLowerCase() === `${wanted}.md`
+          ) ??
+          candidates.find(
+            (entry) => noteName(entry.path).toLowerCase() === wanted
+          );
+        if (!source) {
+          throw new Error(
+            `Template not found: ${template}. Use listTemplates to see the available templates.`
+          );
+        }
 
-          let markdown = `# Recent Activity - ${this.config.owner}/${this.config.repo}\n\n`;
-          markdown += "Last 7 days of commits:\n\n";
+        const existing = tree.find(
+          (entry) => entry.path === path && entry.type === "blob"
+        );
+        if (existing && !overwrite) {
+          throw new Error(
+            `"${path}" already exists. Pass overwrite: true to replace it.`
+          );
+        }
 
-          if (commits.length === 0) {
-            markdown += "_No commits in the last 7 days_\n";
-          } else {
-            for (const commit of commits) {
-              const date = new Date(
-                commit.commit.author?.date || ""
-              ).toLocaleDateString();
-              const message = commit.commit.message.split("\n")[0];
-              const author = commit.commit.author?.name || "Unknown";
-              markdown += `- **${date}**: ${message} _(by ${author})_\n`;
-            }
-          }
+        const now = new Date();
+        const content = renderTemplate(await this.fetchBlobText(source.sha), {
+          title: noteName(path),
+          date: now,
+          dateFormat: settings.dateFormat,
+          timeFormat: settings.timeFormat,
+          path,
+          variables,
+        });
+        const result = await this.writeFile({
+          filePath: path,
+          content,
+          sha: existing?.sha,
+          message: message || `Create ${path} from ${noteName(source.path)}`,
+          branch,
+        });
 
-          return {
-            contents: [
-              {
-                uri: uri.toString(),
-                mimeType: "text/markdown",
-                text: markdown,
-              },
-            ],
-          };
+        const missing = templateVariables(content);
+        const unresolved = unresolvedTemplaterCommands(content);
+        let text = `${existing ? "Replaced" : "Created"} ${path} from template ${source.path} in commit ${result.commitSha?.substring(0, 7)}.\nURL: ${result.commitUrl}`;
+        if (missing.length > 0) {
+          text += `\nUnfilled variables: ${missing.join(", ")}`;
+        }
+        if (unresolved.length > 0) {
+          text += `\nTemplater commands left for Obsidian to run: ${unresolved.join(", ")}`;
+        }
+
+        return {
+          content: [{ type: "text" as const, text }],
+          structuredContent: {
+            path,
+            template: source.path,
+            created: !existing,
+            sha: result.sha,
+            commitSha: result.commitSha,
+            commitUrl: result.commitUrl,
+            unfilledVariables: missing,
+            unresolvedCommands: unresolved,
+          },
+        };
+      }
+    );
+
+    // proposeNoteChanges tool - commit edits to a branch and open a PR
+    server.tool(
+      "proposeNoteChanges",
+      `Propose edits to your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}) for human review: the changes are committed to a branch for this session and a pull request is opened, or updated if one is already open, with a summary of the touched notes. Nothing lands on the base branch until the pull request is merged.`,
+      {
+        changes: fileChangesParameter,
+        title: z
+          .string()
+          .optional()
+          .describe(
+            "Pull request title (default: generated from the touched notes; kept when updating an open pull request)"
+          ),
+        description: z
+          .string()
+          .optional()
+          .describe("Why these changes are proposed, shown above the summary"),
+        message: z
+          .string()
+          .optional()
+          .describe("Commit message (default: the pull request title)"),
+        branch: z
+          .string()
+          .optional()
+          .describe(
+            "Branch to collect the edits on (default: one branch per session)"
+          ),
+        base: z
+          .string()
+          .optional()
+          .describe(
+            "Branch the pull request targets (default: the configured default ref, or the repository's default branch)"
+          ),
+      },
+      {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+      async ({ changes, title, description, message, branch, base }) => {
+        this.assertChangesAllowed(changes);
+        const baseBranch = await this.resolveBranch(base);
+        if (!branch && !this.sessionBranch) {
+          const stamp = new Date()
+            .toISOString()
+            .replace(/\D/g, "")
+            .slice(0, 14);
+          const suffix = Math.random().toString(36).slice(2, 6);
+          this.sessionBranch = `vault-edits/${stamp}-${suffix}`;
+        }
+        const headBranch = branch || (this.sessionBranch as string);
+        if (headBranch === baseBranch) {
+          throw new Error(
+            `The proposal branch must differ from the base branch "${baseBranch}".`
+          );
+        }
+
+        const defaultTitle =
+          changes.length === 1
+            ? `Update ${changes[0].action === "rename" ? changes[0].newPath : changes[0].path}`
+            : `Update ${changes.length} notes`;
+        const branchCreated = await this.ensureBranch(headBranch, baseBranch);
+        let commit: Awaited<ReturnType<GithubClient["commitFileChanges"]>>;
+        try {
+          commit = await this.commitFileChanges({
+            changes,
+            message: message || title || defaultTitle,
+            branch: headBranch,
+          });
         } catch (error) {
+          if (branchCreated) await this.deleteBranch(headBranch);
+          throw error;
+        }
+
+        // Summarize everything on the branch, not just this commit
+        const comparison = await this.handleRequest(async () => {
+          return this.octokit.repos.compareCommitsWithBasehead({
+            owner: this.config.owner,
+            repo: this.config.repo,
+            basehead: `${baseBranch}...${headBranch}`,
+          });
+        });
+        const touched = (comparison.files ?? []).filter((file) =>
+          this.policy.canRead(file.filename)
+        );
+        let body = description ? `${description}\n\n` : "";
+        body += `### Notes touched (${touched.length})\n\n`;
+        for (const file of touched) {
+          body +=
+            file.status === "renamed" &&
+            file.previous_filename &&
+            this.policy.canRead(file.previous_filename)
+              ? `- \`${file.previous_filename}\` → \`${file.filename}\` — renamed (+${file.additions}, -${file.deletions})\n`
+              : `- \`${file.filename}\` — ${file.status} (+${file.additions}, -${file.deletions})\n`;
+        }
+        body += `\n_${comparison.total_commits} commit${comparison.total_commits === 1 ? "" : "s"} on \`${headBranch}\`. Review the changes before merging._\n`;
+
+        const open = await this.handleRequest(async () => {
+          return this.octokit.pulls.list({
+            owner: this.config.owner,
+            repo: this.config.repo,
+            state: "open",
+            head: `${this.config.owner}:${headBranch}`,
+            base: baseBranch,
+          });
+        });
+        const pullRequest = open[0]
+          ? await this.handleRequest(async () => {
+              return this.octokit.pulls.update({
+                owner: this.config.owner,
+                repo: this.config.repo,
+                pull_number: open[0].number,
+                body,
+                ...(title ? { title } : {}),
+              });
+            })
+          : await this.handleRequest(async () => {
+              return this.octokit.pulls.create({
+                owner: this.config.owner,
+                repo: this.config.repo,
+                title: title || defaultTitle,
+                head: headBranch,
+                base: baseBranch,
+                body,
+              });
+            });
+
+        const text = `${open[0] ? "Updated" : "Opened"} pull request #${pullRequest.number} (${pullRequest.html_url}) from ${headBranch}${branchCreated ? " (new branch)" : ""} into ${baseBranch} with commit ${commit.commitSha.substring(0, 7)}.\n\n${body}`;
+        return {
+          content: [{ type: "text" as const, text }],
+          structuredContent: {
+            number: pullRequest.number,
+            url: pullRequest.html_url,
+            created: !open[0],
+            branch: headBranch,
+            base: baseBranch,
+            commitSha: commit.commitSha,
+            files: touched.map((file) => ({
+              filename: file.filename,
+              status: file.status,
+            })),
+          },
+        };
+      }
+    );
+
+    // listVaultPullRequests tool - pull requests proposing vault changes
+    server.tool(
+      "listVaultPullRequests",
+      `List pull requests of your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}), such as edits proposed with proposeNoteChanges that are waiting for review.`,
+      {
+        state: z
+          .enum(["open", "closed", "all"])
+          .optional()
+          .default("open")
+          .describe("Which pull requests to list (default: open)"),
+        page: z
+          .number()
+          .optional()
+          .default(1)
+          .describe("Page number to retrieve (1-indexed)"),
+        perPage: z
+          .number()
+          .optional()
+          .default(30)
+          .describe("Number of results per page (max 100)"),
+      },
+      {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      async ({ state = "open", page = 1, perPage = 30 }) => {
+        const pullRequests = await this.handleRequest(async () => {
+          return this.octokit.pulls.list({
+            owner: this.config.owner,
+            repo: this.config.repo,
+            state,
+            sort: "updated",
+            direction: "desc",
+            page,
+            per_page: Math.min(perPage, 100),
+          });
+        });
+
+        if (pullRequests.length === 0) {
           return {
-            contents: [
+            content: [
               {
-                uri: uri.toString(),
-                mimeType: "text/plain",
-                text: `Error fetching recent activity: ${
-                  error instanceof Error ? error.message : String(error)
-                }`,
+                type: "text" as const,
+                text: `No ${state === "all" ? "" : `${state} `}pull requests found.`,
               },
             ],
           };
         }
-      }
-    );
-  }
-
-  registerGithubPrompts(server: McpServer) {
-    // Prompt to explore vault structure and recent activity
-    server.prompt(
-      "explore-vault",
-      "Explore your Obsidian vault structure, recent changes, and key content",
-      {},
-      async () => {
-        return {
-          description: "Comprehensive exploration of your Obsidian vault",
-          messages: [
-            {
-              role: "user" as const,
-              content: {
-                type: "text" as const,
-                text: `Please help me explore my Obsidian vault in the GitHub repository ${this.config.owner}/${this.config.repo}.
 
-I'd like to understand:
-1. What types of notes and content are in my vault
-2. Recent changes and updates (last 7 days)
-3. Key topics or themes in my notes
-4. Overall structure and organization
+        let text = `Found ${pullRequests.length} ${state === "all" ? "" : `${state} `}pull request${pullRequests.length === 1 ? "" : "s"}:\n\n`;
+        for (const pr of pullRequests) {
+          const status = pr.merged_at
+            ? "merged"
+            : pr.draft
+              ? "draft"
+              : pr.state;
+          text += `- #${pr.number} **${pr.title}** (${status}) — ${pr.head.ref} → ${pr.base.ref}, by ${pr.user?.login ?? "unknown"}, updated ${pr.updated_at}\n  ${pr.html_url}\n`;
+        }
 
-Please use the available tools to:
-- Search for markdown files to understand the content types
-- Check recent commit history to see what's been updated
-- Suggest ways to better organize or explore my knowledge base`,
-              },
-            },
-          ],
+        return {
+          content: [{ type: "text" as const, text }],
+          structuredContent: {
+            pullRequests: pullRequests.map((pr) => ({
+              number: pr.number,
+              title: pr.title,
+              state: pr.state,
+              draft: pr.draft ?? false,
+              merged: Boolean(pr.merged_at),
+              head: pr.head.ref,
+              base: pr.base.ref,
+              author: pr.user?.login,
+              updatedAt: pr.updated_at,
+              url: pr.html_url,
+            })),
+          },
         };
       }
     );
 
-    // Prompt to search for specific topics
-    server.prompt(
-      "find-notes-about",
-      "Search your vault for notes related to a specific topic",
+    // getPullRequestChanges tool - note diffs of a pull request
+    server.tool(
+      "getPullRequestChanges",
+      `Show the notes changed by a pull request in your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}), with per-file status and diffs, rendered like getCommitHistory.`,
       {
-        topic: z.string().describe("The topic or keyword to search for"),
+        pullNumber: z.number().describe("Pull request number"),
+        includeDiffs: z
+          .boolean()
+          .optional()
+          .default(true)
+          .describe("Whether to include the diff of each file (default: true)"),
       },
-      async ({ topic }) => {
-        return {
-          description: `Search vault for notes about: ${topic}`,
-          messages: [
-            {
-              role: "user" as const,
-              content: {
-                type: "text" as const,
-                text: `Please search my Obsidian vault (${this.config.owner}/${this.config.repo}) for notes related to "${topic}".
+      {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      async ({ pullNumber, includeDiffs = true }) => {
+        const pr = await this.handleRequest(async () => {
+          return this.octokit.pulls.get({
+            owner: this.config.owner,
+            repo: this.config.repo,
+            pull_number: pullNumber,
+          });
+        });
 
-Use the searchFiles tool to:
-1. Find files with "${topic}" in the filename
-2. Search for "${topic}" in file contents
-3. Look for related terms or concepts
+        // GitHub returns at most 100 files per page and 3000 in total
+        const pages = [];
+        for (let page = 1; page <= 30; page++) {
+          const batch = await this.handleRequest(async () => {
+            return this.octokit.pulls.listFiles({
+              owner: this.config.owner,
+              repo: this.config.repo,
+              pull_number: pullNumber,
+              per_page: 100,
+              page,
+            });
+          });
+          pages.push(batch);
+          if (batch.length < 100) break;
+        }
+        const files = pages.flat();
 
-Then provide:
-- A summary of what you found
-- Key insights from the most relevant notes
-- Suggestions for related topics to explore`,
-              },
-            },
-          ],
+        const status = pr.merged ? "merged" : pr.draft ? "draft" : pr.state;
+        let formattedOutput = `## Pull Request #${pr.number}: ${pr.title}\n`;
+        formattedOutput += `Status: ${status} (${pr.head.ref} → ${pr.base.ref}, ${pr.commits} commit${pr.commits === 1 ? "" : "s"})\n`;
+        formattedOutput += `Author: ${pr.user?.login ?? "unknown"}\n`;
+        formattedOutput += `Updated: ${pr.updated_at}\n`;
+        formattedOutput += `URL: ${pr.html_url}\n\n`;
+        if (pr.body) {
+          formattedOutput += `${pr.body.trim()}\n\n`;
+        }
+        formattedOutput +=
+          files.length > 0
+            ? this.formatFileChanges(files, {
+                showStatus: true,
+                includePatches: includeDiffs,
+              })
+            : "No file changes detected.\n";
+
+        return {
+          content: [{ type: "text" as const, text: formattedOutput }],
+          structuredContent: {
+            number: pr.number,
+            title: pr.title,
+            state: status,
+            head: pr.head.ref,
+            base: pr.base.ref,
+            files: files
+              .filter((file) => this.policy.canRead(file.filename))
+              .map((file) => ({
+                filename: file.filename,
+                status: file.status,
+                additions: file.additions,
+                deletions: file.deletions,
+              })),
+          },
         };
       }
     );
 
-    // Prompt to analyze knowledge base evolution
-    server.prompt(
-      "analyze-recent-changes",
-      "Analyze how your knowledge base has evolved recently",
+    // listTags tool - the vault's tag hierarchy with note counts
+    server.tool(
+      "listTags",
+      `List the tags used in your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}) as a nested hierarchy with note counts, combining frontmatter tags and inline #tags (ignoring code blocks and inline code).`,
       {
-        days: z
+        prefix: z
           .string()
           .optional()
-          .describe("Number of days to look back (default: 7)"),
+          .describe(
+            "Only list this tag and the tags nested below it, e.g. 'project'"
+          ),
+        sort: z
+          .enum(["name", "count"])
+          .optional()
+          .default("name")
+          .describe("Order tags by name or by note count (default: name)"),
+        ref: refParameter,
       },
-      async ({ days }) => {
-        const daysNum = days ? Number.parseInt(days, 10) : 7;
-        return {
-          description: `Analyze vault changes over the last ${daysNum} days`,
-          messages: [
-            {
-              role: "user" as const,
-              content: {
-                type: "text" as const,
-                text: `Please analyze how my Obsidian vault (${this.config.owner}/${this.config.repo}) has evolved over the last ${daysNum} days.
+      {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      async ({ prefix, sort = "name", ref }) => {
+        const tagsByNote = await this.loadNoteTags(await this.getRepoTree(ref));
+        let nodes = buildTagTree(tagsByNote);
+        if (prefix) {
+          const wanted = normalizeTag(prefix).toLowerCase();
+          const find = (list: TagNode[]): TagNode | undefined => {
+            for (const node of list) {
+              if (node.tag.toLowerCase() === wanted) return node;
+              const found = find(node.children);
+              if (found) return found;
+            }
+            return undefined;
+          };
+          const root = find(nodes);
+          if (!root) {
+            throw new Error(`Tag not found in the vault: #${wanted}`);
+          }
+          nodes = [root];
+        }
 
-Use the getCommitHistory tool to:
-1. Review all commits from the last ${daysNum} days
-2. Identify which notes were created, modified, or deleted
-3. Analyze the types of changes (new topics, updates to existing notes, etc.)
+        const order = (list: TagNode[]): TagNode[] =>
+          (sort === "count"
+            ? [...list].sort(
+                (a, b) => b.notes - a.notes || a.tag.localeCompare(b.tag)
+              )
+            : list
+          ).map((node) => ({ ...node, children: order(node.children) }));
+        nodes = order(nodes);
 
-Then provide:
-- A summary of the main themes or topics you've been working on
-- Patterns in your note-taking or knowledge development
-- Suggestions for areas that might need more attention or organization`,
-              },
-            },
-          ],
+        const lines: string[] = [];
+        let tagCount = 0;
+        const render = (list: TagNode[], depth: number) => {
+          for (const node of list) {
+            tagCount++;
+            let line = `${"  ".repeat(depth)}- #${node.tag} (${node.notes} note${node.notes === 1 ? "" : "s"}`;
+            if (node.direct > 0 && node.direct !== node.notes) {
+              line += `, ${node.direct} tagged directly`;
+            }
+            lines.push(`${line})`);
+            render(node.children, depth + 1);
+          }
+        };
+        render(nodes, 0);
+
+        const taggedNotes = [...tagsByNote.values()].filter(
+          (tags) => tags.length > 0
+        ).length;
+        const text =
+          tagCount === 0
+            ? "No tags found in the vault."
+            : `Found ${tagCount} tag${tagCount === 1 ? "" : "s"} in ${taggedNotes} note${taggedNotes === 1 ? "" : "s"}:\n\n${lines.join("\n")}`;
+
+        return {
+          content: [{ type: "text" as const, text }],
+          structuredContent: { tags: nodes },
         };
       }
     );
-  }
 
-  registerGithubTools(server: McpServer) {
+    // findNotesByTag tool - tag search with AND/OR/NOT
     server.tool(
-      "getFileContents",
-      `Retrieve the contents of a specific note, document, or file from your Obsidian vault stored in GitHub (${this.config.owner}/${this.config.repo}). Perfect for accessing your knowledge base content.`,
+      "findNotesByTag",
+      `Find notes in your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}) by tag, combining required (AND), alternative (OR) and excluded (NOT) tags. Reads frontmatter tags and inline #tags, ignoring code, and matches nested tags: 'project' also finds #project/alpha.`,
       {
-        filePath: z
-          .string()
-          .describe("Path to the file within the repository."),
+        all: z
+          .array(z.string())
+          .optional()
+          .describe(
+            "Tags every note must have, e.g. ['project', 'status/active']"
+          ),
+        any: z
+          .array(z.string())
+          .optional()
+          .describe("Tags of which each note must have at least one"),
+        none: z
+          .array(z.string())
+          .optional()
+          .describe("Tags the notes must not have"),
+        includeNested: z
+          .boolean()
+          .optional()
+          .default(true)
+          .describe(
+            "Match tags nested below the given ones, so 'project' finds #project/alpha (default: true)"
+          ),
+        ref: refParameter,
       },
       {
         readOnlyHint: true,
@@ -411,59 +4488,94 @@ Then provide:
         idempotentHint: true,
         openWorldHint: true,
       },
-      async ({ filePath }) => {
-        const fileContent = await this.handleRequest(async () => {
-          return this.octokit.repos.getContent({
-            owner: this.config.owner,
-            repo: this.config.repo,
-            path: filePath,
-            // Request raw content to avoid base64 decoding complexities for now
-            mediaType: {
-              format: "raw",
-            },
-          });
-        });
-
-        // The raw format returns the content directly as a string
-        if (typeof fileContent !== "string") {
+      async ({ all = [], any = [], none = [], includeNested = true, ref }) => {
+        if (all.length === 0 && any.length === 0) {
           throw new Error(
-            "Received unexpected content format from GitHub API."
+            "Give at least one tag in `all` or `any` to search for."
           );
         }
+        const query: TagQuery = { all, any, none, includeNested };
+        const tagsByNote = await this.loadNoteTags(await this.getRepoTree(ref));
+        const wanted = [...all, ...any];
+        const notes = [...tagsByNote]
+          .filter(([, tags]) => matchesTagQuery(tags, query))
+          .map(([path, tags]) => ({
+            path,
+            tags: tags.filter((tag) =>
+              wanted.some((queryTag) =>
+                tagMatches(tag, queryTag, includeNested)
+              )
+            ),
+          }))
+          .sort((a, b) => a.path.localeCompare(b.path));
+
+        const format = (tags: string[]) =>
+          tags.map((tag) => `#${normalizeTag(tag)}`);
+        const parts = [...format(all)];
+        if (any.length > 0) {
+          parts.push(
+            any.length === 1 && parts.length === 0
+              ? format(any)[0]
+              : `(${format(any).join(" OR ")})`
+          );
+        }
+        let description = parts.join(" AND ");
+        if (none.length > 0) {
+          description += ` NOT ${format(none).join(" NOT ")}`;
+        }
+
+        let text = `Found ${notes.length} note${notes.length === 1 ? "" : "s"} tagged ${description}`;
+        text += notes.length > 0 ? ":\n\n" : ".";
+        for (const note of notes) {
+          text += `- **${noteName(note.path)}** (${note.path}) — ${note.tags.map((tag) => `#${tag}`).join(", ")}\n`;
+        }
 
         return {
-          content: [{ type: "text" as const, text: fileContent }],
+          content: [{ type: "text" as const, text }],
+          structuredContent: { query, notes },
         };
       }
     );
 
-    // Enhanced searchFiles tool with filename and content search
+    // queryNotes tool - Dataview-style filter/sort/limit over properties
     server.tool(
-      "searchFiles",
-      `Search for notes, documents, and files within your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}). Find specific knowledge base content using GitHub's powerful search syntax. Supports searching in filenames, paths, and content.`,
+      "queryNotes",
+      `Query notes in your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}) by their properties, like a Dataview table: filter, sort and limit on frontmatter properties, inline \`key:: value\` fields and file.name, file.path, file.folder and file.tags, optionally within a folder or tag. Returns a markdown table plus structured rows.`,
       {
-        query: z
+        where: z
           .string()
+          .optional()
           .describe(
-            "Search query - can be a simple term or use GitHub search qualifiers"
+            "Filter with =, !=, <, <=, >, >=, contains, AND, OR, NOT and parentheses, e.g. 'type = project AND status = active AND owner = \"me\" AND due >= som AND due <= eom'. A bare field name checks it is set. Values are strings, numbers, true/false, null, dates (2024-06-01) or relative dates: today, now, yesterday, tomorrow, sow/eow, som/eom, soy/eoy, shifted like today+7d or som-1m. Comparisons with lists match any item."
           ),
-        searchIn: z
-          .enum(["filename", "path", "content", "all"])
+        sort: z
+          .string()
           .optional()
-          .default("all")
           .describe(
-            "Where to search: 'filename' (exact filename match), 'path' (anywhere in file path), 'content' (file contents), or 'all' (comprehensive search)"
+            "Comma-separated sort keys with optional asc/desc, e.g. 'due asc, priority desc' (default: by path)"
           ),
-        page: z
+        limit: z
           .number()
           .optional()
-          .default(0)
-          .describe("Page number to retrieve (0-indexed)"),
-        perPage: z
-          .number()
+          .default(50)
+          .describe("Maximum number of notes to return (default: 50)"),
+        fields: z
+          .array(z.string())
           .optional()
-          .default(100)
-          .describe("Number of results per page"),
+          .describe(
+            "Columns to show (default: the fields used in where and sort)"
+          ),
+        folder: z
+          .string()
+          .optional()
+          .describe("Only query notes in this folder and its subfolders"),
+        tag: z
+          .string()
+          .optional()
+          .describe(
+            "Only query notes with this tag or a tag nested below it, e.g. 'project'"
+          ),
+        ref: refParameter,
       },
       {
         readOnlyHint: true,
@@ -471,201 +4583,336 @@ Then provide:
         idempotentHint: true,
         openWorldHint: true,
       },
-      async ({ query, searchIn = "all", page = 0, perPage = 100 }) => {
-        // Empty query is allowed - useful for listing files
-        const repoQualifier = `repo:${this.config.owner}/${this.config.repo}`;
-
-        // Build search query based on searchIn parameter
-        let qualifiedQuery: string;
+      async ({ where, sort, limit = 50, fields, folder, tag, ref }) => {
+        let filter: ReturnType<typeof parseFilter> | undefined;
+        let sortKeys: ReturnType<typeof parseSort> = [];
+        try {
+          filter = where?.trim() ? parseFilter(where) : undefined;
+          sortKeys = sort ? parseSort(sort) : [];
+        } catch (error) {
+          if (error instanceof QuerySyntaxError) {
+            throw new Error(`Invalid query: ${error.message}`);
+          }
+          throw error;
+        }
 
-        if (searchIn === "filename") {
-          // Search for exact filename matches
-          qualifiedQuery = `filename:${
-            query.includes(" ") ? `"${query}"` : query
-          } ${repoQualifier}`;
-        } else if (searchIn === "path") {
-          // Search anywhere in the file path. The `in:path` qualifier searches for the
-          // query term within the file path.
-          qualifiedQuery = `${query} in:path ${repoQualifier}`;
-        } else if (searchIn === "content") {
-          // Search only in file contents. This is the default behavior without qualifiers.
-          qualifiedQuery = `${query} ${repoQualifier}`;
-        } else {
-          // "all" - comprehensive search. The GitHub search API (legacy) does not
-          // support OR operators. The best we can do in a single query is to search
-          // in file content and file path. The `in:file,path` qualifier does this.
-          // This will match the query term if it appears in the content or anywhere
-          // in the full path of a file, which includes the filename.
-          qualifiedQuery = `${query} in:file,path ${repoQualifier}`;
+        const folderPrefix = folder ? `${normalizePath(folder)}/` : "";
+        const entries = (await this.getRepoTree(ref)).filter(
+          (entry) =>
+            entry.type === "blob" &&
+            entry.path.endsWith(".md") &&
+            entry.path.startsWith(folderPrefix)
+        );
+        let notes = await this.loadNoteTexts(entries);
+        if (tag) {
+          notes = new Map(
+            [...notes].filter(([, text]) =>
+              noteTags(text).some((noteTag) => tagMatches(noteTag, tag))
+            )
+          );
         }
+        const { rows, total } = runQuery(notes, {
+          filter,
+          sort: sortKeys,
+          limit,
+        });
 
-        let searchResults: {
-          items: Array<{ name: string; path: string }>;
-          total_count: number;
-        };
-        try {
-          searchResults = await this.handleRequest(async () => {
-            return this.octokit.search.code({
-              q: qualifiedQuery,
-              page,
-              per_page: perPage,
-            });
-          });
-        } catch (error) {
-          // Enhanced error messages with specific GitHub search issues
-          const errorMessage =
-            error instanceof Error ? error.message : String(error);
-          if (errorMessage.includes("validation failed")) {
-            throw new Error(
-              `GitHub search query invalid: "${qualifiedQuery}". Try simpler terms or check syntax.`
-            );
+        const columns =
+          fields ??
+          [
+            ...new Set([
+              ...(filter ? filterFields(filter) : []),
+              ...sortKeys.map((key) => key.field),
+            ]),
+          ].filter((field) => field !== "file.path");
+
+        let scope = "";
+        if (folder) scope += ` in ${normalizePath(folder)}`;
+        if (tag) scope += ` tagged #${normalizeTag(tag)}`;
+        let text: string;
+        if (total === 0) {
+          text = `No notes${scope} match the query.`;
+        } else {
+          text = `Found ${total} note${total === 1 ? "" : "s"}${scope}`;
+          if (rows.length < total) {
+            text += ` (showing the first ${rows.length})`;
           }
-          if (errorMessage.includes("rate limit")) {
-            throw new Error(
-              "GitHub code search rate limit exceeded. Wait a moment and try again."
+          text += ":\n\n";
+          text += `| File | ${columns.map(formatTableCell).join(" | ")} |\n`;
+          text += `| --- |${" --- |".repeat(columns.length)}\n`;
+          for (const row of rows) {
+            const cells = columns.map((column) =>
+              formatTableCell(getField(row.fields, column))
             );
+            text += `| ${formatTableCell(row.path)} | ${cells.join(" | ")} |\n`;
           }
-          if (
-            errorMessage.includes("Forbidden") ||
-            errorMessage.includes("401")
-          ) {
+        }
+
+        return {
+          content: [{ type: "text" as const, text }],
+          structuredContent: {
+            total,
+            columns,
+            rows: rows.map((row) => ({
+              path: row.path,
+              values: Object.fromEntries(
+                columns.map((column) => [
+                  column,
+                  getField(row.fields, column) ?? null,
+                ])
+              ),
+            })),
+          },
+        };
+      }
+    );
+
+    // listTasks tool - checkbox tasks across the vault
+    server.tool(
+      "listTasks",
+      `List checkbox tasks (\`- [ ]\`, \`- [x]\` and custom statuses like \`[/]\` and \`[-]\`) across your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}), with the Tasks plugin's emoji metadata (📅 due, ⏳ scheduled, 🛫 start, ✅ done, 🔁 recurrence, 🔺⏫🔼🔽⏬ priority). Filter by status, date range, path and tag. Each task comes with its file, line and file SHA for toggleTask.`,
+      {
+        status: z
+          .array(z.enum(["todo", "in-progress", "done", "cancelled", "other"]))
+          .optional()
+          .describe(
+            "Statuses to include: todo [ ], in-progress [/], done [x], cancelled [-], other for any other symbol (default: todo and in-progress)"
+          ),
+        dateField: z
+          .enum(["due", "scheduled", "start", "created", "done", "cancelled"])
+          .optional()
+          .default("due")
+          .describe("Task date that from and to apply to (default: due)"),
+        from: z
+          .string()
+          .optional()
+          .describe(
+            "Earliest date, inclusive: YYYY-MM-DD or a relative date like today, tomorrow, sow, som or today+7d. Tasks without the date are left out."
+          ),
+        to: z
+          .string()
+          .optional()
+          .describe(
+            "Latest date, inclusive, in the same formats as from. Tasks without the date are left out."
+          ),
+        path: z
+          .string()
+          .optional()
+          .describe(
+            "Only search this folder or note, or paths matching a glob like 'Daily/**/*.md'"
+          ),
+        tag: z
+          .string()
+          .optional()
+          .describe(
+            "Only tasks carrying this tag or a tag nested below it, e.g. 'work'"
+          ),
+        limit: z
+          .number()
+          .optional()
+          .default(100)
+          .describe("Maximum number of tasks to return (default: 100)"),
+        ref: refParameter,
+      },
+      {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      async ({
+        status = ["todo", "in-progress"],
+        dateField = "due",
+        from,
+        to,
+        path,
+        tag,
+        limit = 100,
+        ref,
+      }) => {
+        const resolveDate = (name: string, value?: string) => {
+          if (!value) return undefined;
+          const date = parseCalendarDate(value) ?? relativeDate(value.trim());
+          if (!date) {
             throw new Error(
-              "GitHub API access denied. Check that your token has 'repo' scope for private repositories."
+              `Invalid ${name} date "${value}". Use YYYY-MM-DD or a relative date like today, som or today+7d.`
             );
           }
-          throw error; // Re-throw other errors
-        }
-
-        // Enhanced formatting with file sizes and relevance indicators
-        const formattedResults = searchResults.items
-          .map((item) => {
-            const fileName = item.name;
-            const filePath = item.path;
-            // const score = item.score || 0; // Could be used for relevance ranking in future
+          return formatMomentDate(date, "YYYY-MM-DD");
+        };
+        const filter: TaskFilter = {
+          status,
+          dateField,
+          from: resolveDate("from", from),
+          to: resolveDate("to", to),
+          tag,
+        };
 
-            // Determine why this file matched
-            let matchReason = "";
-            if (searchIn === "filename") {
-              matchReason = "📝 filename match";
-            } else if (searchIn === "path") {
-              matchReason = "📁 path match";
-            } else if (searchIn === "content") {
-              matchReason = "📄 content match";
-            } else {
-              // searchIn is 'all', so we deduce the reason
-              if (fileName.toLowerCase().includes(query.toLowerCase())) {
-                matchReason = "📝 filename match";
-              } else if (filePath.toLowerCase().includes(query.toLowerCase())) {
-                matchReason = "📁 path match";
-              } else {
-                matchReason = "📄 content match";
-              }
+        const scope = path ? normalizePath(path) : "";
+        const inScope = (entryPath: string) =>
+          !scope ||
+          (/[*?[{]/.test(scope)
+            ? matchesGlob(entryPath, scope)
+            : entryPath === scope || entryPath.startsWith(`${scope}/`));
+        const entries = (await this.getRepoTree(ref)).filter(
+          (entry) =>
+            entry.type === "blob" &&
+            entry.path.endsWith(".md") &&
+            inScope(entry.path)
+        );
+        const notes = await this.loadNoteTexts(entries);
+        const found: Array<Task & { path: string; sha: string }> = [];
+        for (const entry of entries) {
+          for (const task of extractTasks(notes.get(entry.path) ?? "")) {
+            if (matchesTaskFilter(task, filter)) {
+              found.push({ path: entry.path, sha: entry.sha, ...task });
             }
-
-            return `- **${fileName}** (${filePath}) ${matchReason}`;
-          })
-          .join("\n");
-
-        let resultText = `Found ${searchResults.total_count} files`;
-        if (searchIn !== "all") {
-          resultText += ` searching in ${searchIn}`;
+          }
         }
-        resultText += `:\n\n${formattedResults}`;
+        found.sort((a, b) => a.path.localeCompare(b.path) || a.line - b.line);
+        const tasks = found.slice(0, limit);
 
-        // If no results, run diagnostics and provide enhanced response
-        if (searchResults.total_count === 0) {
-          const diagnostics = await this.runSearchDiagnostics(query);
-          return this.formatNoResultsResponse(
-            searchResults,
-            diagnostics,
-            query,
-            searchIn
-          );
+        let text: string;
+        if (found.length === 0) {
+          text = "No tasks match.";
+        } else {
+          text = `Found ${found.length} task${found.length === 1 ? "" : "s"}`;
+          if (tasks.length < found.length) {
+            text += ` (showing the first ${tasks.length})`;
+          }
+          text += ":\n";
+          let currentPath: string | undefined;
+          for (const task of tasks) {
+            if (task.path !== currentPath) {
+              currentPath = task.path;
+              text += `\n**${task.path}**\n`;
+            }
+            text += `- [${task.symbol}] ${task.text} (line ${task.line})\n`;
+          }
         }
 
         return {
-          content: [
-            {
-              type: "text" as const,
-              text: resultText,
-            },
-          ],
+          content: [{ type: "text" as const, text }],
+          structuredContent: { total: found.length, tasks },
         };
       }
     );
 
-    // Placeholder for searchIssues tool
+    // toggleTask tool - flip one checkbox in place
     server.tool(
-      "searchIssues",
-      `Search for issues and discussions in your Obsidian vault repository (${this.config.owner}/${this.config.repo}). Great for tracking tasks, project management, and collaborative knowledge work.`,
+      "toggleTask",
+      `Flip a single checkbox task in your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}) in place, by file and line as returned by listTasks, and commit the change. Completing a task adds a ✅ done date like the Tasks plugin; reopening it removes the date. Pass the file \`sha\` from listTasks: if the note changed since, the toggle is rejected with a conflict instead of touching the wrong line.`,
       {
-        query: z
+        filePath: z.string().describe("Path of the note holding the task"),
+        line: z.number().int().min(1).describe("1-based line of the task"),
+        sha: z
           .string()
-          .describe("Search query (uses GitHub Issue Search syntax)"),
+          .optional()
+          .describe(
+            "Blob SHA of the note from listTasks or getFileContents, to detect changes since it was read"
+          ),
+        status: z
+          .string()
+          .optional()
+          .describe(
+            'Checkbox symbol to set, e.g. "x", " ", "/" or "-" (default: toggle between done and todo)'
+          ),
+        doneDate: z
+          .boolean()
+          .optional()
+          .default(true)
+          .describe("Add a ✅ date when the task becomes done (default: true)"),
+        message: z
+          .string()
+          .optional()
+          .describe('Commit message (default: "Toggle task in <path>")'),
+        branch: z
+          .string()
+          .optional()
+          .describe(
+            "Branch to commit to (default: the configured default ref, or the repository's default branch)"
+          ),
       },
       {
-        readOnlyHint: true,
+        readOnlyHint: false,
         destructiveHint: false,
-        idempotentHint: true,
+        idempotentHint: false,
         openWorldHint: true,
       },
-      async ({ query }) => {
-        const repoQualifier = `repo:${this.config.owner}/${this.config.repo}`;
-        const qualifiedQuery = `${query} is:issue ${repoQualifier}`;
-        const searchResults = await this.handleRequest(async () => {
-          return this.octokit.search.issuesAndPullRequests({
-            q: qualifiedQuery,
+      async ({
+        filePath,
+        line,
+        sha,
+        status,
+        doneDate = true,
+        message,
+        branch,
+      }) => {
+        this.policy.assertWritable(filePath);
+        const current = await this.fetchFile(filePath, branch);
+        if (sha && current.sha !== sha) {
+          throw new WriteConflictError(
+            `Conflict: "${filePath}" has changed since SHA ${sha} was read, so line ${line} may no longer hold the task. Run listTasks again and retry with the new line and sha.`
+          );
+        }
+        let change: ReturnType<typeof setTaskStatus>;
+        try {
+          change = setTaskStatus(current.text, line, {
+            symbol: status,
+            today: doneDate
+              ? formatMomentDate(new Date(), "YYYY-MM-DD")
+              : undefined,
           });
+        } catch (error) {
+          throw new Error(
+            `Cannot toggle ${filePath}:${line}: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+
+        const result = await this.writeFile({
+          filePath,
+          content: change.content,
+          sha: current.sha,
+          message: message || `Toggle task in ${filePath}`,
+          branch,
         });
-        // Format results as a markdown list
-        const formattedResults = searchResults.items
-          .map((item) => `- #${item.number} ${item.title} (${item.html_url})`)
-          .join("\n");
         return {
-          // Return formatted text instead of raw JSON string
           content: [
             {
               type: "text" as const,
-              text: `Found ${searchResults.total_count} issues:\n${formattedResults}`,
+              text: `Changed the task on line ${line} of ${filePath} from [${change.before.symbol}] to [${change.after.symbol}] in commit ${result.commitSha?.substring(0, 7)}:\n- [${change.after.symbol}] ${change.after.text}\nNew file SHA: ${result.sha}`,
             },
           ],
+          structuredContent: {
+            path: filePath,
+            line,
+            before: change.before.symbol,
+            after: change.after,
+            ...result,
+          },
         };
       }
     );
 
-    // getCommitHistory tool - focuses on file changes and diffs
+    // findNote tool - quick-switcher style fuzzy lookup
     server.tool(
-      "getCommitHistory",
-      `Track the evolution of your Obsidian vault knowledge base by retrieving commit history from GitHub (${this.config.owner}/${this.config.repo}). See how your notes and ideas have developed over time with detailed diffs.`,
+      "findNote",
+      `Find notes in your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}) like Obsidian's quick switcher: fuzzy, typo-tolerant matching of a rough title ("okr 2025", "weekly reveiw") against note names and folder paths, plus frontmatter aliases and first H1 headings with readNotes. Works from the repository tree, so it needs no code search and works on unindexed vaults and any ref. Returns the best candidates with scores.`,
       {
-        days: z
+        query: z.string().describe("Rough note title, alias or path"),
+        limit: z
           .number()
-          .min(1)
-          .max(365)
-          .describe("Number of days to look back for commits"),
-        includeDiffs: z
+          .optional()
+          .default(10)
+          .describe("Maximum number of candidates to return (default: 10)"),
+        readNotes: z
           .boolean()
           .optional()
-          .default(true)
+          .default(false)
           .describe(
-            "Whether to include actual file changes/diffs (default: true)"
+            "Also match aliases and first H1 headings, which reads every note in the vault (default: false, names and paths from the tree alone)"
           ),
-        author: z
-          .string()
-          .optional()
-          .describe("Filter commits by author username"),
-        maxCommits: z
-          .number()
-          .min(1)
-          .max(50)
-          .optional()
-          .default(25)
-          .describe("Maximum number of commits to return"),
-        page: z
-          .number()
-          .optional()
-          .default(0)
-          .describe("Page number for pagination (0-indexed)"),
+        ref: refParameter,
       },
       {
         readOnlyHint: true,
@@ -673,162 +4920,70 @@ Then provide:
         idempotentHint: true,
         openWorldHint: true,
       },
-      async ({
-        days,
-        includeDiffs = true,
-        author,
-        maxCommits = 25,
-        page = 0,
-      }) => {
-        // Calculate date range
-        const since = new Date();
-        since.setDate(since.getDate() - days);
-        const sinceISO = since.toISOString();
-
-        console.error("sinceISO", sinceISO);
-
-        // Fetch commits list
-        const commits = await this.handleRequest(async () => {
-          return this.octokit.repos.listCommits({
-            owner: this.config.owner,
-            repo: this.config.repo,
-            since: sinceISO,
-            // author: author,
-            page: page,
-            per_page: maxCommits,
-          });
+      async ({ query, limit = 10, readNotes = false, ref }) => {
+        const entries = (await this.getRepoTree(ref)).filter(
+          (entry) => entry.type === "blob" && entry.path.endsWith(".md")
+        );
+        const texts = readNotes
+          ? await this.loadNoteTexts(entries)
+          : new Map<string, string>();
+        const candidates: NoteCandidate[] = entries.map((entry) => {
+          const text = texts.get(entry.path);
+          if (text === undefined) return { path: entry.path };
+          let aliases: string[] = [];
+          try {
+            aliases = parseFrontmatter(text).aliases;
+          } catch {
+            // Notes with malformed frontmatter are matched without aliases
+          }
+          const heading = parseHeadings(text).find(
+            (candidate) => candidate.level === 1
+          )?.text;
+          return { path: entry.path, aliases, heading };
         });
+        const matches = rankNotes(query, candidates, { limit });
 
-        if (commits.length === 0) {
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text: `No commits found in the last ${days} days since ${sinceISO}${
-                  author ? ` from author ${author}` : ""
-                }.`,
-              },
-            ],
-          };
-        }
-
-        let formattedOutput = `Found ${
-          commits.length
-        } commits in the last ${days} days${
-          author ? ` from ${author}` : ""
-        }:\n\n`;
-
-        if (includeDiffs) {
-          // Fetch detailed commit information with diffs
-          const detailedCommits = await Promise.all(
-            commits.slice(0, maxCommits).map(async (commit) => {
-              const detailed = await this.handleRequest(async () => {
-                return this.octokit.repos.getCommit({
-                  owner: this.config.owner,
-                  repo: this.config.repo,
-                  ref: commit.sha,
-                });
-              });
-              return detailed;
-            })
-          );
-
-          // Format results with diffs
-          for (const commit of detailedCommits) {
-            const shortSha = commit.sha.substring(0, 7);
-            const commitUrl = `https://github.com/${this.config.owner}/${this.config.repo}/commit/${commit.sha}`;
-
-            formattedOutput += `## Commit ${shortSha} (${commit.sha})\n`;
-            formattedOutput += `**${commit.commit.message.split("\n")[0]}**\n`;
-            formattedOutput += `Author: ${commit.commit.author?.name} <${commit.commit.author?.email}>\n`;
-            formattedOutput += `Date: ${commit.commit.author?.date}\n`;
-            formattedOutput += `URL: ${commitUrl}\n\n`;
-
-            if (commit.files && commit.files.length > 0) {
-              formattedOutput += `### Files Changed (${commit.files.length}):\n`;
-              for (const file of commit.files) {
-                const additions = file.additions || 0;
-                const deletions = file.deletions || 0;
-                formattedOutput += `- ${file.filename} (+${additions}, -${deletions})\n`;
-              }
-              formattedOutput += "\n### File Changes:\n\n";
-
-              for (const file of commit.files) {
-                formattedOutput += `#### ${file.filename}\n`;
-                if (file.patch) {
-                  // Truncate large diffs for readability
-                  let patch = file.patch;
-                  const maxPatchLength = 8000; // Essay-length for note-taking
-                  if (patch.length > maxPatchLength) {
-                    patch = `${patch.substring(
-                      0,
-                      maxPatchLength
-                    )}\n\n... (diff truncated for readability) ...`;
-                  }
-                  formattedOutput += `\`\`\`diff\n${patch}\n\`\`\`\n\n`;
-                } else {
-                  formattedOutput +=
-                    "_No diff available (binary file or no changes to display)_\n\n";
-                }
-              }
-            } else {
-              formattedOutput += "No file changes detected.\n\n";
-            }
-            formattedOutput += "---\n\n";
-          }
+        let text: string;
+        if (matches.length === 0) {
+          text = `No notes match "${query}". Try fewer or different words, or getVaultTree to browse the vault.`;
         } else {
-          // Just show commit metadata without diffs
-          for (const commit of commits) {
-            const shortSha = commit.sha.substring(0, 7);
-            const commitUrl = `https://github.com/${this.config.owner}/${this.config.repo}/commit/${commit.sha}`;
-
-            formattedOutput += `## Commit ${shortSha}\n`;
-            formattedOutput += `**${commit.commit.message.split("\n")[0]}**\n`;
-            formattedOutput += `Author: ${commit.commit.author?.name} <${commit.commit.author?.email}>\n`;
-            formattedOutput += `Date: ${commit.commit.author?.date}\n`;
-            formattedOutput += `URL: ${commitUrl}\n\n`;
+          text = `Best matches for "${query}":\n\n`;
+          for (const [i, match] of matches.entries()) {
+            text += `${i + 1}. **${noteName(match.path)}** (${match.path}) — score ${match.score.toFixed(2)}`;
+            if (match.field !== "name") {
+              text += `, ${match.field} "${match.value}"`;
+            }
+            text += "\n";
           }
         }
 
         return {
-          content: [
-            {
-              type: "text" as const,
-              text: formattedOutput,
-            },
-          ],
+          content: [{ type: "text" as const, text }],
+          structuredContent: {
+            query,
+            notes: matches.map((match) => ({
+              ...match,
+              score: Math.round(match.score * 1000) / 1000,
+            })),
+          },
         };
       }
     );
 
-    // searchCode tool - searches for code within file contents
+    // findRelatedNotes tool - local recommendations from links, tags and text
     server.tool(
-      "searchCode",
-      `Search for code patterns and content within files in your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}). Similar to 'gh search code', this tool finds specific code, text, or patterns within file contents and shows matching snippets.`,
+      "findRelatedNotes",
+      `Suggest notes related to a note in your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}), scored locally (no external embedding service) by direct links, links both notes share (outgoing and incoming), shared tags and TF-IDF cosine similarity of their content. Each suggestion explains why it was made.`,
       {
-        query: z
-          .string()
-          .describe(
-            "Code or text pattern to search for within file contents. Supports GitHub code search syntax."
-          ),
-        language: z
+        filePath: z
           .string()
-          .optional()
-          .describe(
-            "Filter by file language/extension (e.g., 'markdown', 'python', 'javascript')"
-          ),
-        page: z
-          .number()
-          .optional()
-          .default(1)
-          .describe(
-            "Page number to retrieve (1-indexed, following GitHub API convention)"
-          ),
-        perPage: z
+          .describe("Path of the note to find related notes for"),
+        limit: z
           .number()
           .optional()
-          .default(30)
-          .describe("Number of results per page (max 100)"),
+          .default(10)
+          .describe("Maximum number of notes to suggest (default: 10)"),
+        ref: refParameter,
       },
       {
         readOnlyHint: true,
@@ -836,264 +4991,538 @@ Then provide:
         idempotentHint: true,
         openWorldHint: true,
       },
-      async ({ query, language, page = 1, perPage = 30 }) => {
-        // Build search query with repository qualifier
-        const repoQualifier = `repo:${this.config.owner}/${this.config.repo}`;
-        let qualifiedQuery = `${query} ${repoQualifier}`;
-
-        // Add language filter if specified
-        if (language) {
-          qualifiedQuery += ` language:${language}`;
+      async ({ filePath, limit = 10, ref }) => {
+        const path = normalizePath(filePath);
+        const { notes, index } = await this.loadVault(
+          await this.getRepoTree(ref)
+        );
+        if (!notes.has(path)) {
+          throw new Error(`File not found in repository: ${path}`);
         }
 
-        // Perform the code search
-        let searchResults: {
-          items: Array<{
-            name: string;
-            path: string;
-            sha: string;
-            html_url: string;
-            repository: {
-              full_name: string;
-            };
-            score: number;
-          }>;
-          total_count: number;
-          incomplete_results: boolean;
-        };
-
-        try {
-          searchResults = await this.handleRequest(async () => {
-            return this.octokit.search.code({
-              q: qualifiedQuery,
-              page,
-              per_page: Math.min(perPage, 100), // GitHub max is 100
-            });
-          });
-        } catch (error) {
-          // Enhanced error messages
-          const errorMessage =
-            error instanceof Error ? error.message : String(error);
-          if (errorMessage.includes("validation failed")) {
-            throw new Error(
-              `GitHub code search query invalid: "${qualifiedQuery}". Try simpler terms or check syntax.`
-            );
-          }
-          if (errorMessage.includes("rate limit")) {
-            throw new Error(
-              "GitHub code search rate limit exceeded (10 requests/minute). Wait a moment and try again."
+        const inputs = new Map<string, RelatedInput>();
+        for (const [notePath, text] of notes) {
+          const links: string[] = [];
+          for (const link of extractLinks(text)) {
+            const resolution = resolveLinkTarget(
+              link.target,
+              index,
+              notePath,
+              link.syntax
             );
+            if (resolution.status === "resolved" && resolution.path) {
+              links.push(resolution.path);
+            }
           }
-          if (
-            errorMessage.includes("Forbidden") ||
-            errorMessage.includes("401")
-          ) {
-            throw new Error(
-              "GitHub API access denied. Check that your token has 'repo' scope for private repositories."
-            );
+          let body = text;
+          try {
+            body = splitFrontmatter(text).body;
+          } catch {
+            // Malformed frontmatter is compared as part of the text
           }
-          throw error;
+          inputs.set(notePath, { links, tags: noteTags(text), text: body });
         }
+        const related = findRelatedNotes(path, inputs, { limit });
 
-        // Format the results
-        if (searchResults.total_count === 0) {
-          let resultText = `No code matches found for "${query}"`;
-          if (language) {
-            resultText += ` in ${language} files`;
+        const reasons = (note: RelatedNote): string[] => {
+          const list: string[] = [];
+          if (note.direct === "mutual")
+            list.push("links to and from this note");
+          if (note.direct === "outgoing") list.push("linked from this note");
+          if (note.direct === "incoming") list.push("links to this note");
+          const names = (paths: string[]) => paths.map(noteName).join(", ");
+          if (note.sharedLinks.length > 0) {
+            list.push(`both link to ${names(note.sharedLinks)}`);
           }
-          resultText += ".\n\n";
-          resultText += "💡 **Search Tips:**\n";
-          resultText += "- Try simpler or partial search terms\n";
-          resultText += "- Remove language filters to broaden search\n";
-          resultText += '- Use quotes for exact phrases: "exact phrase"\n';
-          resultText +=
-            "- Remember: only files < 384 KB on default branch are searchable\n";
-
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text: resultText,
-              },
-            ],
-          };
-        }
-
-        // Build formatted response
-        let resultText = `Found ${searchResults.total_count} code matches for "${query}"`;
-        if (language) {
-          resultText += ` in ${language} files`;
-        }
-        resultText += ":\n\n";
-
-        // Add pagination info if there are more results
-        const totalPages = Math.ceil(searchResults.total_count / perPage);
-        if (totalPages > 1) {
-          resultText += `📄 Showing page ${page} of ${totalPages} (${searchResults.items.length} results on this page)\n\n`;
-        }
-
-        // Format each result
-        for (const item of searchResults.items) {
-          const fileName = item.name;
-          const filePath = item.path;
-          const fileUrl = item.html_url;
-          const relevanceScore = item.score.toFixed(2);
-
-          resultText += `### 📄 ${fileName}\n`;
-          resultText += `- **Path**: \`${filePath}\`\n`;
-          resultText += `- **URL**: ${fileUrl}\n`;
-          resultText += `- **Relevance**: ${relevanceScore}\n`;
-          resultText += "\n";
-        }
+          if (note.sharedBacklinks.length > 0) {
+            list.push(`both linked from ${names(note.sharedBacklinks)}`);
+          }
+          if (note.sharedTags.length > 0) {
+            list.push(
+              `shared tags ${note.sharedTags.map((tag) => `#${tag}`).join(", ")}`
+            );
+          }
+          if (note.similarity > 0) {
+            list.push(
+              `similar content (${note.similarity.toFixed(2)}): ${note.terms.join(", ")}`
+            );
+          }
+          return list;
+        };
 
-        // Add helpful footer
-        resultText += "\n---\n\n";
-        resultText += "💡 **Next Steps:**\n";
-        resultText +=
-          "- Use `getFileContents` tool with the file path to view full content\n";
-        if (totalPages > page) {
-          resultText += `- Use \`page: ${page + 1}\` to see more results\n`;
+        let text: string;
+        if (related.length === 0) {
+          text = `No notes share links, tags or content with ${path}.`;
+        } else {
+          text = `Notes related to ${path}:\n\n`;
+          for (const [i, note] of related.entries()) {
+            text += `${i + 1}. **${noteName(note.path)}** (${note.path}) — score ${note.score.toFixed(2)}\n`;
+            text += `   ${reasons(note).join("; ")}\n`;
+          }
         }
-        resultText += "- Refine your search query for more specific matches\n";
+
+        return {
+          content: [{ type: "text" as const, text }],
+          structuredContent: {
+            path,
+            related: related.map((note) => ({
+              ...note,
+              score: Math.round(note.score * 1000) / 1000,
+              similarity: Math.round(note.similarity * 1000) / 1000,
+              reasons: reasons(note),
+            })),
+          },
+        };
+      }
+    );
+
+    // getLinkGraph tool - vault link graph with structure statistics
+    server.tool(
+      "getLinkGraph",
+      `Build the note-to-note link graph of your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}), or of one folder, with statistics: orphan notes, dead ends (linked to but linking nowhere), broken links, the most linked-to hubs and connected components. Exports the graph as JSON adjacency, GraphML or a Mermaid diagram.`,
+      {
+        folder: z
+          .string()
+          .optional()
+          .describe("Only graph the notes in this folder and its subfolders"),
+        format: z
+          .enum(["json", "graphml", "mermaid"])
+          .optional()
+          .default("json")
+          .describe(
+            "Export format: json adjacency lists, graphml for tools like Gephi or yEd, or a mermaid flowchart (default: json)"
+          ),
+        hubs: z
+          .number()
+          .optional()
+          .default(10)
+          .describe("Number of most linked-to notes to report (default: 10)"),
+        ref: refParameter,
+      },
+      {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      async ({ folder, format = "json", hubs = 10, ref }) => {
+        const graph = await this.loadLinkGraph(ref, folder);
+        const stats = graphStats(graph, hubs);
+        const scope = folder ? normalizePath(folder) : "the vault";
+        const adjacency = toAdjacency(graph);
+
+        const exported =
+          format === "graphml"
+            ? `\`\`\`xml\n${toGraphML(graph)}\n\`\`\``
+            : format === "mermaid"
+              ? `\`\`\`mermaid\n${toMermaid(graph)}\n\`\`\``
+              : `\`\`\`json\n${JSON.stringify(adjacency, null, 2)}\n\`\`\``;
 
         return {
           content: [
             {
               type: "text" as const,
-              text: resultText,
+              text: `${this.formatGraphStats(scope, stats)}\n## Graph (${format})\n\n${exported}\n`,
             },
           ],
+          structuredContent: {
+            ...(folder ? { folder: normalizePath(folder) } : {}),
+            stats,
+            adjacency,
+          },
         };
       }
     );
 
-    // diagnoseSearch tool for repository diagnostics
+    // lintVault tool - health check of the vault's content
     server.tool(
-      "diagnoseSearch",
-      `Diagnose search functionality and repository configuration for your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}). Verifies repository connectivity, search capabilities, and checks if repository size is within GitHub's indexing limits.`,
-      {},
+      "lintVault",
+      `Check your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}) for problems: broken links, attachments no note links to, duplicate note names that make links ambiguous, invalid frontmatter or missing required properties, empty notes and file names with characters Obsidian forbids. Only files the read policy allows are checked. Returns a report grouped by rule with file and line locations, or JSON for CI-style checks.`,
+      {
+        rules: z
+          .array(
+            z.enum([
+              "broken-links",
+              "unreferenced-attachments",
+              "duplicate-names",
+              "frontmatter",
+              "empty-notes",
+              "forbidden-characters",
+            ])
+          )
+          .optional()
+          .describe("Rules to run (default: all)"),
+        requiredProperties: z
+          .array(z.string())
+          .optional()
+          .describe(
+            "Frontmatter properties every note must have, checked by the frontmatter rule, e.g. ['tags', 'created']"
+          ),
+        folder: z
+          .string()
+          .optional()
+          .describe(
+            "Only report issues of files in this folder and its subfolders; links still resolve against the whole vault"
+          ),
+        format: z
+          .enum(["markdown", "json"])
+          .optional()
+          .default("markdown")
+          .describe(
+            "markdown for a readable report, or json for a machine-readable one (default: markdown)"
+          ),
+        ref: refParameter,
+      },
       {
         readOnlyHint: true,
         destructiveHint: false,
         idempotentHint: true,
         openWorldHint: true,
       },
-      async () => {
-        try {
-          // Get repository information
-          const repoInfo = await this.handleRequest(async () => {
-            return this.octokit.repos.get({
-              owner: this.config.owner,
-              repo: this.config.repo,
-            });
-          });
+      async ({
+        rules,
+        requiredProperties,
+        folder,
+        format = "markdown",
+        ref,
+      }) => {
+        const tree = await this.getRepoTree(ref);
+        const { notes, index } = await this.loadVault(tree);
+        const blobs = tree.filter((entry) => entry.type === "blob");
+        const canvases = await this.loadNoteTexts(
+          blobs.filter((entry) => entry.path.endsWith(".canvas"))
+        );
+        const prefix = folder ? `${normalizePath(folder)}/` : "";
+        const issues = lintVault(
+          blobs.map((entry) => entry.path),
+          notes,
+          index,
+          { rules, requiredProperties, canvases }
+        ).filter((issue) => issue.path.startsWith(prefix));
 
-          // Test search functionality with a simple query
-          let searchWorks = false;
-          let searchError: string | null = null;
-          let searchResultCount = 0;
+        const ruleNames = rules ?? LINT_RULES;
+        const counts = Object.fromEntries(
+          ruleNames.map((rule) => [
+            rule,
+            issues.filter((issue) => issue.rule === rule).length,
+          ])
+        );
+        const fileCount = new Set(issues.map((issue) => issue.path)).size;
+        // Links into unreadable files resolve like links to missing ones,
+        // so lint results never reveal which hidden files exist
+        const note = this.policy.restrictsReads
+          ? "Only files the read policy allows were checked: links to other files count as broken, and references from them are not seen."
+          : undefined;
+        const summary = {
+          ...(folder ? { folder: normalizePath(folder) } : {}),
+          total: issues.length,
+          files: fileCount,
+          counts,
+          ...(note ? { note } : {}),
+        };
 
-          try {
-            const testSearch = await this.handleRequest(async () => {
-              return this.octokit.search.code({
-                q: `repo:${this.config.owner}/${this.config.repo} extension:md`,
-                per_page: 1,
-              });
-            });
-            searchWorks = true;
-            searchResultCount = testSearch.total_count;
-          } catch (error) {
-            searchWorks = false;
-            searchError =
-              error instanceof Error ? error.message : String(error);
+        let text: string;
+        if (format === "json") {
+          text = JSON.stringify({ ...summary, issues }, null, 2);
+        } else {
+          const titles: Record<LintRule, string> = {
+            "broken-links": "Broken links",
+            "unreferenced-attachments": "Unreferenced attachments",
+            "duplicate-names": "Duplicate note names",
+            frontmatter: "Frontmatter",
+            "empty-notes": "Empty notes",
+            "forbidden-characters": "Forbidden characters in file names",
+          };
+          text = `# Vault lint report${folder ? ` for ${normalizePath(folder)}` : ""}\n\n`;
+          text +=
+            issues.length === 0
+              ? "No issues found.\n"
+              : `Found ${issues.length} issue${issues.length === 1 ? "" : "s"} in ${fileCount} file${fileCount === 1 ? "" : "s"}.\n`;
+          if (note) text += `\n_${note}_\n`;
+          for (const rule of ruleNames) {
+            const ruleIssues = issues.filter((issue) => issue.rule === rule);
+            if (ruleIssues.length === 0) continue;
+            text += `\n## ${titles[rule]} (${ruleIssues.length})\n\n`;
+            for (const issue of ruleIssues) {
+              text += `- ${issue.path}${issue.line ? ` L${issue.line}` : ""}: ${issue.message}\n`;
+            }
           }
+        }
 
-          // GitHub's code search limitations
-          const MAX_INDEXED_SIZE_GB = 50; // GitHub doesn't index repos > ~50GB
-          const repoSizeGB = repoInfo.size / (1024 * 1024); // Convert KB to GB
-          const isWithinSizeLimit = repoSizeGB <= MAX_INDEXED_SIZE_GB;
+        return {
+          content: [{ type: "text" as const, text }],
+          structuredContent: { ...summary, issues },
+        };
+      }
+    );
 
-          // Format diagnostic output
-          let diagnosticOutput = "# Repository Search Diagnostics\n\n";
-          diagnosticOutput += "## Repository Information\n";
-          diagnosticOutput += `- **Repository**: ${this.config.owner}/${this.config.repo}\n`;
-          diagnosticOutput += `- **Visibility**: ${
-            repoInfo.private ? "Private" : "Public"
-          }\n`;
-          diagnosticOutput += `- **Size**: ${repoSizeGB.toFixed(3)} GB (${(
-            repoInfo.size / 1024
-          ).toFixed(2)} MB)\n`;
-          diagnosticOutput += `- **Default Branch**: ${repoInfo.default_branch}\n\n`;
+    // getCanvas tool - readable view of an Obsidian canvas
+    server.tool(
+      "getCanvas",
+      `Read an Obsidian canvas (.canvas, JSON Canvas format) from your vault on GitHub (${this.config.owner}/${this.config.repo}) as a readable outline or a Mermaid flowchart. Text, file, link and group nodes are listed by group with the labelled connections between them; file nodes are resolved to note paths and can have their contents inlined.`,
+      {
+        filePath: z.string().describe("Path to the .canvas file."),
+        format: z
+          .enum(["outline", "mermaid"])
+          .optional()
+          .default("outline")
+          .describe(
+            "outline: markdown with groups as headings and a list of connections; mermaid: flowchart with groups as subgraphs (default: outline)"
+          ),
+        inlineFiles: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe(
+            "Inline the contents of the notes that file nodes point to, or just the #heading or #^block they reference, in the outline (default: false)"
+          ),
+        ref: refParameter,
+      },
+      {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      async ({ filePath, format = "outline", inlineFiles = false, ref }) => {
+        const tree = await this.getRepoTree(ref);
+        const path = normalizePath(filePath);
+        const json = await this.readTreeFile(tree, path);
+        if (json === undefined) {
+          throw new Error(`File not found in repository: ${path}`);
+        }
+        let canvas: Canvas;
+        try {
+          canvas = parseCanvas(json);
+        } catch (error) {
+          if (error instanceof CanvasError) {
+            throw new Error(`Cannot read canvas ${path}: ${error.message}`);
+          }
+          throw error;
+        }
 
-          diagnosticOutput += "## Search Capabilities\n";
-          diagnosticOutput += `- **Search API Access**: ${
-            searchWorks ? "✅ Working" : "❌ Failed"
-          }\n`;
-          diagnosticOutput += `- **Indexed Branch**: Only '${repoInfo.default_branch}' branch is searchable\n`;
+        // Canvas file nodes store vault paths; fall back to link resolution
+        // for paths written without their extension
+        const index = buildLinkIndex(
+          tree
+            .filter((entry) => entry.type === "blob")
+            .map((entry) => entry.path)
+        );
+        const files = new Map<string, string>();
+        for (const node of canvas.nodes) {
+          if (node.type !== "file" || !node.file) continue;
+          const resolution = resolveLinkTarget(
+            normalizePath(node.file),
+            index,
+            path
+          );
+          if (resolution.path) files.set(node.id, resolution.path);
+        }
 
-          if (searchWorks) {
-            diagnosticOutput += `- **Markdown Files Found**: ${searchResultCount}\n`;
-          } else if (searchError) {
-            diagnosticOutput += `- **Error**: ${searchError}\n`;
+        const contents = new Map<string, string>();
+        if (inlineFiles && format === "outline") {
+          for (const node of canvas.nodes) {
+            const notePath = files.get(node.id);
+            if (!notePath?.endsWith(".md")) continue;
+            const text = await this.readTreeFile(tree, notePath);
+            if (text === undefined) continue;
+            const lines = text.split(/\r?\n/);
+            const anchor = node.subpath?.replace(/^#/, "");
+            if (!anchor) {
+              contents.set(node.id, text);
+            } else if (anchor.startsWith("^")) {
+              const block = findBlock(text, anchor.slice(1));
+              contents.set(
+                node.id,
+                block
+                  ? lines.slice(block.startLine - 1, block.endLine).join("\n")
+                  : `_Block ${node.subpath} not found._`
+              );
+            } else {
+              const section = findSection(text, anchor);
+              contents.set(
+                node.id,
+                section
+                  ? lines
+                      .slice(section.startLine - 1, section.endLine)
+                      .join("\n")
+                  : `_Heading ${node.subpath} not found._`
+              );
+            }
           }
+        }
 
-          diagnosticOutput += `- **Within Size Limit**: ${
-            isWithinSizeLimit
-              ? `✅ Yes (${repoSizeGB.toFixed(
-                  3
-                )} GB < ${MAX_INDEXED_SIZE_GB} GB)`
-              : `⚠️ No (${repoSizeGB.toFixed(3)} GB > ${MAX_INDEXED_SIZE_GB} GB)`
-          }\n\n`;
+        const text =
+          format === "mermaid"
+            ? `# Canvas ${path}\n\n\`\`\`mermaid\n${renderCanvasMermaid(canvas, { files })}\n\`\`\`\n`
+            : `# Canvas ${path}\n\n${renderCanvasOutline(canvas, { files, contents })}`;
+        return {
+          content: [{ type: "text" as const, text }],
+          structuredContent: {
+            path,
+            nodes: canvas.nodes.map((node) =>
+              files.has(node.id) ? { ...node, path: files.get(node.id) } : node
+            ),
+            edges: canvas.edges,
+          },
+        };
+      }
+    );
 
-          // Add recommendations
-          diagnosticOutput += "## Recommendations\n";
+    // getNoteOutline tool - heading tree of a note without its full text
+    server.tool(
+      "getNoteOutline",
+      `Outline a note in your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}): its heading tree with the line range of every section and the ^block IDs under each heading, so long notes can be read piece by piece with getNoteSection.`,
+      {
+        filePath: z.string().describe("Path to the note."),
+        ref: refParameter,
+      },
+      {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      async ({ filePath, ref }) => {
+        const { text: note, sha } = await this.fetchFile(filePath, ref);
+        const outline = noteOutline(note);
 
-          if (!searchWorks && repoInfo.private) {
-            diagnosticOutput += `- ⚠️ **Private Repository**: Ensure your GitHub token has the 'repo' scope for full access to private repositories.\n`;
+        const formatBlocks = (blocks: BlockId[]) =>
+          blocks.map((block) => `^${block.id} (line ${block.line})`).join(", ");
+        let text = `# Outline of ${filePath}\n\n${outline.lineCount} lines.\n\n`;
+        if (outline.blocks.length > 0) {
+          text += `Blocks before the first heading: ${formatBlocks(outline.blocks)}\n\n`;
+        }
+        const renderNodes = (nodes: OutlineNode[], indent: string) => {
+          for (const node of nodes) {
+            text += `${indent}- ${"#".repeat(node.heading.level)} ${node.heading.text} (lines ${node.startLine}–${node.endLine})`;
+            if (node.blocks.length > 0) {
+              text += ` — blocks: ${formatBlocks(node.blocks)}`;
+            }
+            text += "\n";
+            renderNodes(node.children, `${indent}  `);
           }
+        };
+        renderNodes(outline.headings, "");
+        if (outline.headings.length === 0) {
+          text += "_No headings in this note._\n";
+        }
 
-          if (!isWithinSizeLimit) {
-            diagnosticOutput += `- ⚠️ **Large Repository**: GitHub's code search doesn't index repositories larger than ~${MAX_INDEXED_SIZE_GB} GB. Consider:\n`;
-            diagnosticOutput +=
-              "  - Using file path navigation instead of search for specific files\n";
-            diagnosticOutput +=
-              "  - Splitting your vault into multiple repositories\n";
-            diagnosticOutput +=
-              "  - Using getFileContents tool with known paths\n";
-            diagnosticOutput +=
-              "  - Note: Individual files must be < 384 KB to be searchable\n";
-          }
+        return {
+          content: [{ type: "text" as const, text }],
+          structuredContent: { path: filePath, sha, ...outline },
+        };
+      }
+    );
 
-          if (searchWorks && searchResultCount === 0) {
-            diagnosticOutput +=
-              "- ℹ️ **No Markdown Files**: No .md files found in the default branch. Your vault might be empty, use different file extensions, or have content in other branches.\n";
-          }
+    // getNoteSection tool - read one section, block or line range of a note
+    server.tool(
+      "getNoteSection",
+      `Read part of a note in your Obsidian vault on GitHub (${this.config.owner}/${this.config.repo}) instead of the whole file: the section under one heading (with its subheadings), the paragraph or list item carrying a ^block ID, or a range of lines. Use getNoteOutline to find headings, block IDs and line numbers.`,
+      {
+        filePath: z.string().describe("Path to the note."),
+        heading: z
+          .string()
+          .optional()
+          .describe(
+            'Heading of the section, with or without its hashes, e.g. "Goals" or "## Goals"'
+          ),
+        blockId: z
+          .string()
+          .optional()
+          .describe('Block ID, with or without its caret, e.g. "^key-point"'),
+        startLine: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe("First line to read (1-based), when reading by line range"),
+        endLine: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe(
+            "Last line to read, inclusive (default: the end of the note)"
+          ),
+        ref: refParameter,
+      },
+      {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      async ({ filePath, heading, blockId, startLine, endLine, ref }) => {
+        const selectors = [heading, blockId, startLine].filter(
+          (selector) => selector !== undefined
+        );
+        if (selectors.length !== 1) {
+          throw new Error(
+            "Pass exactly one of heading, blockId or startLine (with an optional endLine)."
+          );
+        }
+        const { text: note, sha } = await this.fetchFile(filePath, ref);
+        const lines = note.split(/\r?\n/);
 
-          if (searchWorks && isWithinSizeLimit) {
-            diagnosticOutput +=
-              "- ✅ **All Systems Operational**: Repository is properly configured and searchable!\n";
+        let range: { startLine: number; endLine: number };
+        if (heading !== undefined) {
+          const section = findSection(note, heading);
+          if (!section) {
+            throw new Error(
+              `Heading "${heading}" not found in ${filePath}. Use getNoteOutline to list its headings.`
+            );
           }
-
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text: diagnosticOutput,
-              },
-            ],
-          };
-        } catch (error) {
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text: `Failed to diagnose repository: ${
-                  error instanceof Error ? error.message : String(error)
-                }\n\nPlease check your GITHUB_TOKEN, GITHUB_OWNER, and GITHUB_REPO configuration.`,
-              },
-            ],
+          range = section;
+        } else if (blockId !== undefined) {
+          const id = blockId.replace(/^\^/, "");
+          const block = findBlock(note, id);
+          if (!block) {
+            throw new Error(
+              `Block ^${id} not found in ${filePath}. Use getNoteOutline to list its block IDs.`
+            );
+          }
+          range = block;
+        } else {
+          const first = startLine as number;
+          if (first > lines.length) {
+            throw new Error(
+              `Line ${first} is past the end of ${filePath}, which has ${lines.length} lines.`
+            );
+          }
+          if (endLine !== undefined && endLine < first) {
+            throw new Error(
+              `endLine (${endLine}) must not be before startLine (${first}).`
+            );
+          }
+          range = {
+            startLine: first,
+            endLine: Math.min(endLine ?? lines.length, lines.length),
           };
         }
+
+        const text = lines.slice(range.startLine - 1, range.endLine).join("\n");
+        return {
+          content: [
+            { type: "text" as const, text },
+            {
+              type: "text" as const,
+              text: `_Lines ${range.startLine}–${range.endLine} of ${lines.length} in ${filePath} (file SHA: ${sha})_`,
+            },
+          ],
+          structuredContent: {
+            path: filePath,
+            sha,
+            ...(heading !== undefined ? { heading } : {}),
+            ...(blockId !== undefined
+              ? { blockId: blockId.replace(/^\^/, "") }
+              : {}),
+            startLine: range.startLine,
+            endLine: range.endLine,
+            lineCount: lines.length,
+            text,
+          },
+        };
       }
     );
   }
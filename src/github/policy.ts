@@ -0,0 +1,131 @@
+import { matchesAnyGlob, matchesGlob } from "../obsidian/glob.js";
+import { normalizePath } from "../obsidian/links.js";
+import type { GithubConfig, RepoTreeEntry } from "./types.js";
+
+// An operation blocked by the configured path policy
+export class PolicyError extends Error {}
+
+// Collapse `.`/`..` segments, keeping the trailing slash of folder paths
+function normalize(path: string): string {
+  return `${normalizePath(path)}${path.endsWith("/") ? "/" : ""}`;
+}
+
+/**
+ * Decides which vault paths the server may read and write, based on the
+ * readOnly switch and the allow/deny glob lists in the config. Deny lists
+ * win over allow lists, and an empty allow list allows everything. A path
+ * must be readable to be writable.
+ */
+export class PathPolicy {
+  constructor(
+    private config: Pick<
+      GithubConfig,
+      "readOnly" | "readAllow" | "readDeny" | "writeAllow" | "writeDeny"
+    >
+  ) {}
+
+  get readOnly(): boolean {
+    return this.config.readOnly === true;
+  }
+
+  // Whether some paths may not be read
+  get restrictsReads(): boolean {
+    return (
+      (this.config.readDeny ?? []).length > 0 ||
+      (this.config.readAllow ?? []).length > 0
+    );
+  }
+
+  // Why `path` may not be read, or null when it may
+  readDenial(path: string): string | null {
+    const normalized = normalize(path);
+    const deny = this.config.readDeny ?? [];
+    const denied = deny.find((glob) => matchesGlob(normalized, glob));
+    if (denied) {
+      return `it matches the readDeny pattern "${denied}"`;
+    }
+    const allow = this.config.readAllow ?? [];
+    if (allow.length > 0 && !matchesAnyGlob(normalized, allow)) {
+      return `it is outside the readAllow patterns (${allow.join(", ")})`;
+    }
+    return null;
+  }
+
+  // Why `path` may not be written, or null when it may
+  writeDenial(path: string): string | null {
+    if (this.readOnly) {
+      return "the server is configured as read-only";
+    }
+    const readDenial = this.readDenial(path);
+    if (readDenial) return readDenial;
+    const normalized = normalize(path);
+    const deny = this.config.writeDeny ?? [];
+    const denied = deny.find((glob) => matchesGlob(normalized, glob));
+    if (denied) {
+      return `it matches the writeDeny pattern "${denied}"`;
+    }
+    const allow = this.config.writeAllow ?? [];
+    if (allow.length > 0 && !matchesAnyGlob(normalized, allow)) {
+      return `it is outside the writeAllow patterns (${allow.join(", ")})`;
+    }
+    return null;
+  }
+
+  canRead(path: string): boolean {
+    return this.readDenial(path) === null;
+  }
+
+  canWrite(path: string): boolean {
+    return this.writeDenial(path) === null;
+  }
+
+  assertReadable(path: string): void {
+    const denial = this.readDenial(path);
+    if (denial) {
+      throw new PolicyError(
+        `Access denied: "${path}" cannot be read because ${denial}.`
+      );
+    }
+  }
+
+  assertWritable(path: string): void {
+    const denial = this.writeDenial(path);
+    if (denial) {
+      throw new PolicyError(
+        `Write denied: "${path}" cannot be changed because ${denial}.`
+      );
+    }
+  }
+
+  assertWritesEnabled(): void {
+    if (this.readOnly) {
+      throw new PolicyError(
+        "Write denied: the server is configured as read-only."
+      );
+    }
+  }
+
+  /**
+   * Drop unreadable files from a repository tree. Folders stay when they
+   * are readable themselves or still contain a readable file.
+   */
+  filterTree(entries: RepoTreeEntry[]): RepoTreeEntry[] {
+    const files = new Set(
+      entries.filter(
+        (entry) => entry.type !== "tree" && this.canRead(entry.path)
+      )
+    );
+    const foldersWithFiles = new Set<string>();
+    for (const file of files) {
+      const parts = file.path.split("/");
+      for (let i = 1; i < parts.length; i++) {
+        foldersWithFiles.add(parts.slice(0, i).join("/"));
+      }
+    }
+    return entries.filter((entry) =>
+      entry.type === "tree"
+        ? foldersWithFiles.has(entry.path) || this.canRead(`${entry.path}/`)
+        : files.has(entry)
+    );
+  }
+}
@@ -2,4 +2,41 @@ export interface GithubConfig {
   githubToken: string;
   owner: string;
   repo: string;
+  // Branch, tag or SHA read by default instead of the repository's default branch
+  defaultRef?: string;
+  // Refuse every write, whatever the path
+  readOnly?: boolean;
+  // Glob patterns (e.g. "Private/**") for paths the server may read or write.
+  // Deny patterns win; an empty or missing allow list allows everything.
+  readAllow?: string[];
+  readDeny?: string[];
+  writeAllow?: string[];
+  writeDeny?: string[];
+  // Backend used by searchFiles and searchCode when a call does not pick one:
+  // GitHub code search, or the local full-text index of the repo tarball
+  searchBackend?: "github" | "local";
+  // Folder where the local search index is persisted between runs
+  searchIndexDir?: string;
 }
+
+export interface RepoTreeEntry {
+  path: string;
+  type: "blob" | "tree" | "commit";
+  sha: string;
+  size?: number;
+  mode?: string;
+}
+
+// One change in an atomic multi-file commit. `sha` is the blob SHA the
+// caller last read; when given, the commit fails if the file has changed.
+export type FileChange =
+  | { action: "create"; path: string; content: string }
+  | { action: "update"; path: string; content: string; sha?: string }
+  | { action: "delete"; path: string; sha?: string }
+  | {
+      action: "rename";
+      path: string;
+      newPath: string;
+      content?: string;
+      sha?: string;
+    };
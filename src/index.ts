@@ -24,6 +24,52 @@ export const configSchema = z.object({
   githubToken: z.string().describe("GitHub API token"),
   owner: z.string().describe("GitHub repository owner"),
   repo: z.string().describe("GitHub repository name"),
+  defaultRef: z
+    .string()
+    .optional()
+    .describe(
+      "Branch, tag or commit SHA to read notes from (default: the repository's default branch)"
+    ),
+  readOnly: z
+    .boolean()
+    .optional()
+    .describe("Refuse every write operation (default: false)"),
+  readAllow: z
+    .array(z.string())
+    .optional()
+    .describe(
+      "Glob patterns of paths that may be read, e.g. 'Public/**' (default: everything)"
+    ),
+  readDeny: z
+    .array(z.string())
+    .optional()
+    .describe(
+      "Glob patterns of paths that may never be read or searched, e.g. 'Private/**'"
+    ),
+  writeAllow: z
+    .array(z.string())
+    .optional()
+    .describe(
+      "Glob patterns of paths that may be written (default: every readable path)"
+    ),
+  writeDeny: z
+    .array(z.string())
+    .optional()
+    .describe(
+      "Glob patterns of paths that may never be written, e.g. '.obsidian/**'"
+    ),
+  searchBackend: z
+    .enum(["github", "local"])
+    .optional()
+    .describe(
+      "Default backend of searchFiles and searchCode: GitHub code search, or a local full-text index of the repository tarball (default: github)"
+    ),
+  searchIndexDir: z
+    .string()
+    .optional()
+    .describe(
+      "Folder to persist the local search index in between runs (default: memory only)"
+    ),
 });
 
 export default function createServer({
@@ -60,6 +106,15 @@ function logMessage(level: "info" | "warn" | "error", message: string) {
   console.error(`[${level.toUpperCase()}] ${message}`);
 }
 
+// Parse a comma-separated list of glob patterns from an environment variable
+function globList(value: string | undefined): string[] | undefined {
+  const globs = (value ?? "")
+    .split(",")
+    .map((glob) => glob.trim())
+    .filter(Boolean);
+  return globs.length > 0 ? globs : undefined;
+}
+
 /**
  * Main server startup function
  */
@@ -69,6 +124,14 @@ async function main() {
     const githubToken = process.env.GITHUB_TOKEN || "";
     const owner = process.env.GITHUB_OWNER || "";
     const repo = process.env.GITHUB_REPO || "";
+    const defaultRef = process.env.GITHUB_DEFAULT_REF || undefined;
+    const readOnly = ["1", "true", "yes"].includes(
+      (process.env.GITHUB_READ_ONLY || "").toLowerCase()
+    );
+    const searchBackend =
+      process.env.GITHUB_SEARCH_BACKEND?.toLowerCase() === "local"
+        ? "local"
+        : "github";
 
     // Server starts without required configuration
     // Configuration can be provided via environment variables or set later
@@ -84,6 +147,14 @@ async function main() {
         githubToken,
         owner,
         repo,
+        defaultRef,
+        readOnly,
+        readAllow: globList(process.env.GITHUB_READ_ALLOW),
+        readDeny: globList(process.env.GITHUB_READ_DENY),
+        writeAllow: globList(process.env.GITHUB_WRITE_ALLOW),
+        writeDeny: globList(process.env.GITHUB_WRITE_DENY),
+        searchBackend,
+        searchIndexDir: process.env.GITHUB_SEARCH_INDEX_DIR || undefined,
       },
     });
 
@@ -0,0 +1,129 @@
+import { splitFrontmatter } from "./frontmatter.js";
+import {
+  type LinkIndex,
+  type LinkKind,
+  extractLinks,
+  linkKind,
+  resolveLinkTarget,
+} from "./links.js";
+import { markCodeLines, maskInlineCode, splitLines } from "./markdown.js";
+
+export interface Backlink {
+  sourcePath: string;
+  kind: LinkKind;
+  raw: string;
+  heading?: string;
+  blockId?: string;
+  line: number;
+  context: string;
+}
+
+export interface UnlinkedMention {
+  sourcePath: string;
+  term: string;
+  line: number;
+  context: string;
+}
+
+const ANY_LINK_PATTERN =
+  /!?\[\[[^[\]\n]+?\]\]|!?\[[^\]\n]*\]\([^)\n]*\)|https?:\/\/\S+/g;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Number of lines taken up by frontmatter, tolerating malformed blocks
+function frontmatterLineCount(content: string): number {
+  try {
+    return splitFrontmatter(content).bodyStartLine - 1;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Find every link in `notes` that resolves to `targetPath`.
+ */
+export function findBacklinks(
+  targetPath: string,
+  notes: Map<string, string>,
+  index: LinkIndex
+): Backlink[] {
+  const backlinks: Backlink[] = [];
+  for (const [sourcePath, content] of notes) {
+    if (sourcePath === targetPath) continue;
+    const lines = splitLines(content);
+    for (const link of extractLinks(content)) {
+      const resolution = resolveLinkTarget(
+        link.target,
+        index,
+        sourcePath,
+        link.syntax
+      );
+      if (resolution.status !== "resolved" || resolution.path !== targetPath) {
+        continue;
+      }
+      backlinks.push({
+        sourcePath,
+        kind: linkKind(link),
+        raw: link.raw,
+        ...(link.heading ? { heading: link.heading } : {}),
+        ...(link.blockId ? { blockId: link.blockId } : {}),
+        line: link.line,
+        context: lines[link.line - 1].trim(),
+      });
+    }
+  }
+  return backlinks.sort(
+    (a, b) => a.sourcePath.localeCompare(b.sourcePath) || a.line - b.line
+  );
+}
+
+/**
+ * Find plain-text mentions of any of `terms` (a note's title and aliases)
+ * that are not already part of a link, code or the frontmatter.
+ */
+export function findUnlinkedMentions(
+  targetPath: string,
+  terms: string[],
+  notes: Map<string, string>
+): UnlinkedMention[] {
+  const patterns = [...new Set(terms.filter((term) => term.trim()))]
+    // Longer terms first so "Project Alpha" wins over "Alpha"
+    .sort((a, b) => b.length - a.length)
+    .map((term) => ({
+      term,
+      pattern: new RegExp(
+        `(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`,
+        "iu"
+      ),
+    }));
+  if (patterns.length === 0) return [];
+
+  const mentions: UnlinkedMention[] = [];
+  for (const [sourcePath, content] of notes) {
+    if (sourcePath === targetPath) continue;
+    const lines = splitLines(content);
+    const inCode = markCodeLines(lines);
+    const skip = frontmatterLineCount(content);
+
+    lines.forEach((rawLine, i) => {
+      if (i < skip || inCode[i]) return;
+      const line = maskInlineCode(rawLine).replace(ANY_LINK_PATTERN, (link) =>
+        " ".repeat(link.length)
+      );
+      const match = patterns.find(({ pattern }) => pattern.test(line));
+      if (match) {
+        mentions.push({
+          sourcePath,
+          term: match.term,
+          line: i + 1,
+          context: rawLine.trim(),
+        });
+      }
+    });
+  }
+  return mentions.sort(
+    (a, b) => a.sourcePath.localeCompare(b.sourcePath) || a.line - b.line
+  );
+}
@@ -0,0 +1,329 @@
+import { basename } from "./links.js";
+
+/**
+ * Obsidian Canvas files in the JSON Canvas format (https://jsoncanvas.org):
+ * positioned text, file, link and group nodes joined by edges.
+ */
+
+export type CanvasNodeType = "text" | "file" | "link" | "group";
+export type CanvasEnd = "none" | "arrow";
+
+export interface CanvasNode {
+  id: string;
+  type: CanvasNodeType;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color?: string;
+  // Markdown of a text node
+  text?: string;
+  // Vault path of a file node, plus an optional #heading or #^block
+  file?: string;
+  subpath?: string;
+  // URL of a link node
+  url?: string;
+  // Label of a group node
+  label?: string;
+}
+
+export interface CanvasEdge {
+  id: string;
+  fromNode: string;
+  toNode: string;
+  // Arrowheads; by default edges point from fromNode to toNode
+  fromEnd: CanvasEnd;
+  toEnd: CanvasEnd;
+  label?: string;
+  color?: string;
+}
+
+export interface Canvas {
+  nodes: CanvasNode[];
+  edges: CanvasEdge[];
+}
+
+export interface CanvasRenderOptions {
+  // Vault paths that file nodes resolved to, keyed by node ID; file nodes
+  // without an entry are shown as missing
+  files?: Map<string, string>;
+  // Text to inline under file nodes, keyed by node ID
+  contents?: Map<string, string>;
+}
+
+export class CanvasError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CanvasError";
+  }
+}
+
+const NODE_TYPES = new Set(["text", "file", "link", "group"]);
+const MAX_LABEL_LENGTH = 60;
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value !== "" ? value : undefined;
+}
+
+/**
+ * Parse the JSON of a .canvas file. Nodes of unknown types and edges
+ * between unknown nodes are dropped; malformed JSON throws a CanvasError.
+ */
+export function parseCanvas(json: string): Canvas {
+  let data: unknown;
+  try {
+    data = json.trim() === "" ? {} : JSON.parse(json);
+  } catch (error) {
+    throw new CanvasError(
+      `Invalid canvas JSON: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new CanvasError("A canvas must be a JSON object");
+  }
+  const { nodes: rawNodes = [], edges: rawEdges = [] } = data as {
+    nodes?: unknown;
+    edges?: unknown;
+  };
+  if (!Array.isArray(rawNodes) || !Array.isArray(rawEdges)) {
+    throw new CanvasError("Canvas nodes and edges must be arrays");
+  }
+
+  const nodes: CanvasNode[] = [];
+  for (const raw of rawNodes as Array<Record<string, unknown>>) {
+    if (
+      typeof raw?.id !== "string" ||
+      typeof raw.type !== "string" ||
+      !NODE_TYPES.has(raw.type)
+    ) {
+      continue;
+    }
+    const number = (value: unknown) =>
+      typeof value === "number" && Number.isFinite(value) ? value : 0;
+    nodes.push({
+      id: raw.id,
+      type: raw.type as CanvasNodeType,
+      x: number(raw.x),
+      y: number(raw.y),
+      width: number(raw.width),
+      height: number(raw.height),
+      ...(optionalString(raw.color) ? { color: raw.color as string } : {}),
+      ...(raw.type === "text" ? { text: String(raw.text ?? "") } : {}),
+      ...(optionalString(raw.file) ? { file: raw.file as string } : {}),
+      ...(optionalString(raw.subpath)
+        ? { subpath: raw.subpath as string }
+        : {}),
+      ...(optionalString(raw.url) ? { url: raw.url as string } : {}),
+      ...(optionalString(raw.label) ? { label: raw.label as string } : {}),
+    });
+  }
+
+  const ids = new Set(nodes.map((node) => node.id));
+  const edges: CanvasEdge[] = [];
+  for (const raw of rawEdges as Array<Record<string, unknown>>) {
+    if (
+      typeof raw?.fromNode !== "string" ||
+      typeof raw.toNode !== "string" ||
+      !ids.has(raw.fromNode) ||
+      !ids.has(raw.toNode)
+    ) {
+      continue;
+    }
+    edges.push({
+      id: typeof raw.id === "string" ? raw.id : `${raw.fromNode}-${raw.toNode}`,
+      fromNode: raw.fromNode,
+      toNode: raw.toNode,
+      fromEnd: raw.fromEnd === "arrow" ? "arrow" : "none",
+      toEnd: raw.toEnd === "none" ? "none" : "arrow",
+      ...(optionalString(raw.label) ? { label: raw.label as string } : {}),
+      ...(optionalString(raw.color) ? { color: raw.color as string } : {}),
+    });
+  }
+  return { nodes, edges };
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_LABEL_LENGTH
+    ? `${text.slice(0, MAX_LABEL_LENGTH - 1)}…`
+    : text;
+}
+
+// Short name of a node, as used for edges and Mermaid labels
+export function canvasNodeLabel(node: CanvasNode): string {
+  switch (node.type) {
+    case "text": {
+      const line = (node.text ?? "")
+        .split(/\r?\n/)
+        .map((part) => part.replace(/^#+\s*/, "").trim())
+        .find((part) => part !== "");
+      return truncate(line ?? "(empty text)");
+    }
+    case "file":
+      return `${basename(node.file ?? "").replace(/\.md$/i, "")}${node.subpath ?? ""}`;
+    case "link":
+      return truncate(node.url ?? "(link)");
+    case "group":
+      return node.label ?? "Group";
+  }
+}
+
+// Innermost group whose box contains each node, keyed by node ID
+function parentGroups(canvas: Canvas): Map<string, string> {
+  const groups = canvas.nodes.filter((node) => node.type === "group");
+  const contains = (group: CanvasNode, node: CanvasNode) =>
+    group.id !== node.id &&
+    node.x >= group.x &&
+    node.y >= group.y &&
+    node.x + node.width <= group.x + group.width &&
+    node.y + node.height <= group.y + group.height;
+  const parents = new Map<string, string>();
+  for (const node of canvas.nodes) {
+    let best: CanvasNode | undefined;
+    for (const group of groups) {
+      if (!contains(group, node)) continue;
+      // A group cannot sit inside a group of the same size it contains
+      if (node.type === "group" && contains(node, group)) continue;
+      if (!best || group.width * group.height < best.width * best.height) {
+        best = group;
+      }
+    }
+    if (best) parents.set(node.id, best.id);
+  }
+  return parents;
+}
+
+// Top to bottom, then left to right
+function byPosition(a: CanvasNode, b: CanvasNode): number {
+  return a.y - b.y || a.x - b.x;
+}
+
+/**
+ * Render a canvas as a markdown outline: groups become headings holding
+ * the nodes placed inside them, followed by the list of connections.
+ */
+export function renderCanvasOutline(
+  canvas: Canvas,
+  options: CanvasRenderOptions = {}
+): string {
+  const parents = parentGroups(canvas);
+  const children = (parent: string | undefined) =>
+    canvas.nodes
+      .filter((node) => parents.get(node.id) === parent)
+      .sort(byPosition);
+
+  const renderNode = (node: CanvasNode): string => {
+    if (node.type === "text") {
+      const [first, ...rest] = (node.text ?? "").trim().split(/\r?\n/);
+      const more = rest.map((line) => (line ? `  ${line}` : "")).join("\n");
+      return `- ${first || "(empty text)"}${more ? `\n${more}` : ""}\n`;
+    }
+    if (node.type === "link") {
+      return `- 🔗 ${node.url ?? "(no URL)"}\n`;
+    }
+    const path = options.files?.get(node.id);
+    let line = `- 📄 ${path ? `[[${path}${node.subpath ?? ""}]]` : `${node.file ?? "(no file)"} _(missing)_`}\n`;
+    const content = options.contents?.get(node.id);
+    if (content !== undefined) {
+      line += `${content
+        .trimEnd()
+        .split(/\r?\n/)
+        .map((contentLine) => `  > ${contentLine}`.trimEnd())
+        .join("\n")}\n`;
+    }
+    return line;
+  };
+
+  const renderLevel = (parent: string | undefined, depth: number): string => {
+    let text = "";
+    const nodes = children(parent);
+    for (const node of nodes.filter((child) => child.type !== "group")) {
+      text += renderNode(node);
+    }
+    for (const group of nodes.filter((child) => child.type === "group")) {
+      text += `${text ? "\n" : ""}${"#".repeat(Math.min(depth, 6))} ${canvasNodeLabel(group)}\n\n`;
+      text += renderLevel(group.id, depth + 1) || "_Empty group._\n";
+    }
+    return text;
+  };
+
+  let text = renderLevel(undefined, 2);
+  if (canvas.nodes.length === 0) text = "_Empty canvas._\n";
+  if (canvas.edges.length > 0) {
+    const labels = new Map(
+      canvas.nodes.map((node) => [node.id, canvasNodeLabel(node)])
+    );
+    text += "\n## Connections\n\n";
+    for (const edge of canvas.edges) {
+      const arrow =
+        edge.fromEnd === "arrow" && edge.toEnd === "arrow"
+          ? "↔"
+          : edge.fromEnd === "arrow"
+            ? "←"
+            : edge.toEnd === "arrow"
+              ? "→"
+              : "—";
+      text += `- ${labels.get(edge.fromNode)} ${arrow} ${labels.get(edge.toNode)}${edge.label ? ` (${edge.label})` : ""}\n`;
+    }
+  }
+  return text;
+}
+
+function mermaidText(text: string): string {
+  return text.replace(/"/g, "#quot;");
+}
+
+// Mermaid flowchart of a canvas, with groups as subgraphs. With `files`,
+// file nodes show the vault path they resolved to, or are flagged missing.
+export function renderCanvasMermaid(
+  canvas: Canvas,
+  options: Pick<CanvasRenderOptions, "files"> = {}
+): string {
+  const ids = new Map(canvas.nodes.map((node, i) => [node.id, `n${i}`]));
+  const parents = parentGroups(canvas);
+  const lines = ["flowchart LR"];
+
+  const renderLevel = (parent: string | undefined, indent: string) => {
+    const nodes = canvas.nodes
+      .filter((node) => parents.get(node.id) === parent)
+      .sort(byPosition);
+    for (const node of nodes) {
+      const path = options.files?.get(node.id);
+      let label = canvasNodeLabel(node);
+      if (node.type === "file" && options.files) {
+        label = path
+          ? `${path}${node.subpath ?? ""}`
+          : `${node.file ?? "(no file)"} (missing)`;
+      }
+      label = mermaidText(label);
+      if (node.type === "group") {
+        lines.push(`${indent}subgraph ${ids.get(node.id)}["${label}"]`);
+        renderLevel(node.id, `${indent}  `);
+        lines.push(`${indent}end`);
+      } else if (node.type === "file") {
+        lines.push(`${indent}${ids.get(node.id)}[["${label}"]]`);
+      } else if (node.type === "link") {
+        lines.push(`${indent}${ids.get(node.id)}(["${label}"])`);
+      } else {
+        lines.push(`${indent}${ids.get(node.id)}["${label}"]`);
+      }
+    }
+  };
+  renderLevel(undefined, "  ");
+
+  for (const edge of canvas.edges) {
+    let from = ids.get(edge.fromNode);
+    let to = ids.get(edge.toNode);
+    let arrow = "---";
+    if (edge.fromEnd === "arrow" && edge.toEnd === "arrow") {
+      arrow = "<-->";
+    } else if (edge.toEnd === "arrow") {
+      arrow = "-->";
+    } else if (edge.fromEnd === "arrow") {
+      [from, to] = [to, from];
+      arrow = "-->";
+    }
+    const label = edge.label ? `|"${mermaidText(edge.label)}"|` : "";
+    lines.push(`  ${from} ${arrow}${label} ${to}`);
+  }
+  return lines.join("\n");
+}
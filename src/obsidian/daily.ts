@@ -0,0 +1,76 @@
+import { formatMomentDate } from "./dates.js";
+
+export const DAILY_NOTES_CONFIG = ".obsidian/daily-notes.json";
+export const PERIODIC_NOTES_CONFIG =
+  ".obsidian/plugins/periodic-notes/data.json";
+
+export interface DailyNoteSettings {
+  folder: string;
+  // Moment.js format of the filename, which may contain folders
+  format: string;
+  // Path of the template note, or "" for none
+  template: string;
+  source: "periodic-notes" | "daily-notes" | "default";
+}
+
+interface RawSettings {
+  folder?: unknown;
+  format?: unknown;
+  template?: unknown;
+}
+
+function parseJson(text: string | undefined): unknown {
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function toSettings(
+  raw: RawSettings,
+  source: DailyNoteSettings["source"]
+): DailyNoteSettings {
+  const text = (value: unknown) =>
+    typeof value === "string" ? value.trim() : "";
+  return {
+    folder: text(raw.folder).replace(/^\/+|\/+$/g, ""),
+    format: text(raw.format) || "YYYY-MM-DD",
+    template: text(raw.template),
+    source,
+  };
+}
+
+/**
+ * Work out where daily notes live. An enabled Periodic Notes plugin takes
+ * precedence over the core Daily Notes plugin; both fall back to Obsidian's
+ * defaults (vault root, YYYY-MM-DD, no template).
+ */
+export function parseDailyNoteSettings(configs: {
+  dailyNotes?: string;
+  periodicNotes?: string;
+}): DailyNoteSettings {
+  const periodic = parseJson(configs.periodicNotes) as
+    | { daily?: RawSettings & { enabled?: unknown } }
+    | undefined;
+  if (periodic?.daily?.enabled === true) {
+    return toSettings(periodic.daily, "periodic-notes");
+  }
+  const daily = parseJson(configs.dailyNotes) as RawSettings | undefined;
+  if (daily && typeof daily === "object") {
+    return toSettings(daily, "daily-notes");
+  }
+  return toSettings({}, "default");
+}
+
+export function dailyNotePath(settings: DailyNoteSettings, date: Date): string {
+  const name = `${formatMomentDate(date, settings.format)}.md`;
+  return settings.folder ? `${settings.folder}/${name}` : name;
+}
+
+// Template settings name the note without its extension
+export function templatePath(template: string): string {
+  const path = template.replace(/^\/+/, "");
+  return /\.md$/i.test(path) ? path : `${path}.md`;
+}
@@ -0,0 +1,216 @@
+/**
+ * Moment.js-style date formatting, as used by Obsidian's Daily Notes,
+ * Periodic Notes and Templates settings. Dates are formatted in the
+ * server's local time zone, like Obsidian does.
+ */
+
+const MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+// Longest tokens first so "YYYY" wins over "YY". Locale week tokens (w, gggg)
+// follow ISO weeks.
+const TOKEN_PATTERN =
+  /\[([^\]]*)\]|YYYY|YY|GGGG|gggg|Qo|Q|MMMM|MMM|Mo|MM|M|DDDD|DDD|Do|DD|D|dddd|ddd|dd|do|d|E|e|WW|Wo|W|ww|wo|w|HH|H|hh|h|kk|k|mm|m|ss|s|SSS|A|a|X|x|ZZ|Z/g;
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, "0");
+}
+
+function ordinal(value: number): string {
+  const tens = value % 100;
+  if (tens >= 11 && tens <= 13) return `${value}th`;
+  const suffix = ["th", "st", "nd", "rd"][value % 10] ?? "th";
+  return `${value}${suffix}`;
+}
+
+// ISO 8601 week number and week-numbering year
+function isoWeek(date: Date): { week: number; year: number } {
+  const thursday = new Date(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate() + 3 - ((date.getDay() + 6) % 7)
+  );
+  const firstThursday = new Date(thursday.getFullYear(), 0, 4);
+  const week =
+    1 +
+    Math.round(
+      ((thursday.getTime() - firstThursday.getTime()) / 86400000 -
+        3 +
+        ((firstThursday.getDay() + 6) % 7)) /
+        7
+    );
+  return { week, year: thursday.getFullYear() };
+}
+
+function dayOfYear(date: Date): number {
+  const start = new Date(date.getFullYear(), 0, 1);
+  return (
+    Math.round(
+      (new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime() -
+        start.getTime()) /
+        86400000
+    ) + 1
+  );
+}
+
+function timezoneOffset(date: Date, separator: string): string {
+  const offset = -date.getTimezoneOffset();
+  const sign = offset >= 0 ? "+" : "-";
+  const absolute = Math.abs(offset);
+  return `${sign}${pad(Math.floor(absolute / 60))}${separator}${pad(absolute % 60)}`;
+}
+
+/**
+ * Format `date` with a Moment.js format string such as "YYYY-MM-DD" or
+ * "dddd, MMMM Do [at] HH:mm". Text in square brackets is kept literally.
+ */
+export function formatMomentDate(date: Date, format: string): string {
+  const hours = date.getHours();
+  return format.replace(TOKEN_PATTERN, (token, literal?: string) => {
+    if (literal !== undefined) return literal;
+    switch (token) {
+      case "YYYY":
+        return pad(date.getFullYear(), 4);
+      case "YY":
+        return pad(date.getFullYear() % 100);
+      case "GGGG":
+      case "gggg":
+        return pad(isoWeek(date).year, 4);
+      case "Q":
+        return String(Math.floor(date.getMonth() / 3) + 1);
+      case "Qo":
+        return ordinal(Math.floor(date.getMonth() / 3) + 1);
+      case "MMMM":
+        return MONTHS[date.getMonth()];
+      case "MMM":
+        return MONTHS[date.getMonth()].slice(0, 3);
+      case "MM":
+        return pad(date.getMonth() + 1);
+      case "Mo":
+        return ordinal(date.getMonth() + 1);
+      case "M":
+        return String(date.getMonth() + 1);
+      case "DDDD":
+        return pad(dayOfYear(date), 3);
+      case "DDD":
+        return String(dayOfYear(date));
+      case "DD":
+        return pad(date.getDate());
+      case "Do":
+        return ordinal(date.getDate());
+      case "D":
+        return String(date.getDate());
+      case "dddd":
+        return WEEKDAYS[date.getDay()];
+      case "ddd":
+        return WEEKDAYS[date.getDay()].slice(0, 3);
+      case "dd":
+        return WEEKDAYS[date.getDay()].slice(0, 2);
+      case "do":
+        return ordinal(date.getDay());
+      case "d":
+      case "e":
+        return String(date.getDay());
+      case "E":
+        return String(((date.getDay() + 6) % 7) + 1);
+      case "WW":
+      case "ww":
+        return pad(isoWeek(date).week);
+      case "Wo":
+      case "wo":
+        return ordinal(isoWeek(date).week);
+      case "W":
+      case "w":
+        return String(isoWeek(date).week);
+      case "HH":
+        return pad(hours);
+      case "H":
+        return String(hours);
+      case "hh":
+        return pad(hours % 12 || 12);
+      case "h":
+        return String(hours % 12 || 12);
+      case "kk":
+        return pad(hours || 24);
+      case "k":
+        return String(hours || 24);
+      case "mm":
+        return pad(date.getMinutes());
+      case "m":
+        return String(date.getMinutes());
+      case "ss":
+        return pad(date.getSeconds());
+      case "s":
+        return String(date.getSeconds());
+      case "SSS":
+        return pad(date.getMilliseconds(), 3);
+      case "A":
+        return hours < 12 ? "AM" : "PM";
+      case "a":
+        return hours < 12 ? "am" : "pm";
+      case "X":
+        return String(Math.floor(date.getTime() / 1000));
+      case "x":
+        return String(date.getTime());
+      case "ZZ":
+        return timezoneOffset(date, "");
+      case "Z":
+        return timezoneOffset(date, ":");
+      default:
+        return token;
+    }
+  });
+}
+
+/**
+ * Parse a calendar day given as "today", "yesterday", "tomorrow" or
+ * YYYY-MM-DD into a local Date at midnight. Returns null when invalid.
+ */
+export function parseCalendarDate(
+  input: string,
+  now = new Date()
+): Date | null {
+  const value = input.trim().toLowerCase();
+  const offsets: Record<string, number> = {
+    today: 0,
+    yesterday: -1,
+    tomorrow: 1,
+  };
+  if (value in offsets) {
+    return new Date(
+      now.getFullYear(),
+      now.getMonth(),
+      now.getDate() + offsets[value]
+    );
+  }
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year &&
+    date.getMonth() === month - 1 &&
+    date.getDate() === day
+    ? date
+    : null;
+}
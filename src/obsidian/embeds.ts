@@ -0,0 +1,238 @@
+import { FrontmatterError, splitFrontmatter } from "./frontmatter.js";
+import {
+  type LinkIndex,
+  type NoteLink,
+  basename,
+  extractLinks,
+  resolveLinkTarget,
+} from "./links.js";
+import { splitLines } from "./markdown.js";
+import { findBlock, findSection } from "./sections.js";
+
+/**
+ * Transclusion of `![[Note]]`, `![[Note#Heading]]` and `![[Note#^block]]`
+ * embeds, so a note reads the way Obsidian displays it. Attachments are
+ * not inlined but replaced by a reference such as `[image: diagram.png]`.
+ */
+
+export type EmbedStatus =
+  | "expanded"
+  | "attachment"
+  | "broken"
+  | "ambiguous"
+  | "missing-anchor"
+  | "cycle"
+  | "depth-limit";
+
+export interface EmbedReport {
+  // Note containing the embed
+  source: string;
+  // 1-based line of the embed within `source`
+  line: number;
+  // The embed exactly as written
+  raw: string;
+  path?: string;
+  status: EmbedStatus;
+  // 1 for embeds in the note itself, 2 for embeds inside those, ...
+  depth: number;
+}
+
+export interface ExpandEmbedsOptions {
+  index: LinkIndex;
+  // Text of a vault file, or undefined when it cannot be read
+  readNote: (path: string) => Promise<string | undefined>;
+  // Levels of nested embeds to expand (default: 3)
+  maxDepth?: number;
+}
+
+const DEFAULT_MAX_DEPTH = 3;
+const ATTACHMENT_KINDS: Record<string, string> = {
+  png: "image",
+  jpg: "image",
+  jpeg: "image",
+  gif: "image",
+  bmp: "image",
+  svg: "image",
+  webp: "image",
+  avif: "image",
+  mp3: "audio",
+  wav: "audio",
+  m4a: "audio",
+  ogg: "audio",
+  "3gp": "audio",
+  flac: "audio",
+  mp4: "video",
+  webm: "video",
+  ogv: "video",
+  mov: "video",
+  mkv: "video",
+  pdf: "PDF",
+};
+
+function attachmentKind(path: string): string | undefined {
+  if (path.toLowerCase().endsWith(".md")) return undefined;
+  const name = basename(path);
+  const dot = name.lastIndexOf(".");
+  return ATTACHMENT_KINDS[name.slice(dot + 1).toLowerCase()] ?? "file";
+}
+
+function anchorOf(link: NoteLink): string {
+  if (link.blockId) return `#^${link.blockId}`;
+  return link.heading ? `#${link.heading}` : "";
+}
+
+// The part of a note an embed shows, with the 1-based line it starts on;
+// null when the heading or block does not exist
+function embeddedPart(
+  content: string,
+  link: NoteLink
+): { text: string; firstLine: number } | null {
+  const lines = splitLines(content);
+  if (link.blockId) {
+    const block = findBlock(content, link.blockId);
+    if (!block) return null;
+    const text = lines
+      .slice(block.startLine - 1, block.endLine)
+      .join("\n")
+      .replace(/\s+\^[A-Za-z0-9-]+\s*$/, "");
+    return { text, firstLine: block.startLine };
+  }
+  if (link.heading) {
+    const section = findSection(content, link.heading);
+    if (!section) return null;
+    return {
+      text: lines
+        .slice(section.startLine - 1, section.endLine)
+        .join("\n")
+        .trimEnd(),
+      firstLine: section.startLine,
+    };
+  }
+  // Whole-note embeds leave out the frontmatter and surrounding blank lines
+  let body = content;
+  let firstLine = 1;
+  try {
+    ({ body, bodyStartLine: firstLine } = splitFrontmatter(content));
+  } catch (error) {
+    if (!(error instanceof FrontmatterError)) throw error;
+  }
+  const leading = body.match(/^(?:[ \t]*\r?\n)*/)?.[0] ?? "";
+  return {
+    text: body.slice(leading.length).trimEnd(),
+    firstLine: firstLine + splitLines(leading).length - 1,
+  };
+}
+
+/**
+ * Replace the embeds of `content`, a note at `sourcePath`, by the notes,
+ * sections and blocks they show, recursively up to `maxDepth` levels.
+ * Expanded text is wrapped in `<!-- embed: path#anchor -->` and
+ * `<!-- /embed -->` comments. Embeds that cannot be expanded (broken,
+ * ambiguous, cyclic or too deep) are left as written; every embed is
+ * listed in `embeds`.
+ */
+export async function expandEmbeds(
+  content: string,
+  sourcePath: string,
+  options: ExpandEmbedsOptions
+): Promise<{ content: string; embeds: EmbedReport[] }> {
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const embeds: EmbedReport[] = [];
+
+  // `lineOffset` maps lines of a section or block back to its note, and
+  // `stack` holds the notes and anchors being expanded, to catch cycles
+  const expand = async (
+    text: string,
+    path: string,
+    lineOffset: number,
+    depth: number,
+    stack: string[]
+  ): Promise<string> => {
+    const links = extractLinks(text).filter((link) => link.embed);
+    if (links.length === 0) return text;
+    const lines = splitLines(text);
+    // Attachment references stay inline, expanded text goes on lines of
+    // its own
+    const replacements = new Map<NoteLink, { text: string; block: boolean }>();
+
+    for (const link of links) {
+      const report: EmbedReport = {
+        source: path,
+        line: link.line + lineOffset,
+        raw: link.raw,
+        status: "broken",
+        depth,
+      };
+      embeds.push(report);
+      const resolution = resolveLinkTarget(
+        link.target,
+        options.index,
+        path,
+        link.syntax
+      );
+      if (!resolution.path) {
+        report.status =
+          resolution.status === "ambiguous" ? "ambiguous" : "broken";
+        continue;
+      }
+      report.path = resolution.path;
+
+      const kind = attachmentKind(resolution.path);
+      if (kind) {
+        report.status = "attachment";
+        replacements.set(link, {
+          text: `[${kind}: ${resolution.path}${anchorOf(link)}]`,
+          block: false,
+        });
+        continue;
+      }
+
+      const key = `${resolution.path}${anchorOf(link)}`;
+      if (stack.includes(key)) {
+        report.status = "cycle";
+        continue;
+      }
+      if (depth > maxDepth) {
+        report.status = "depth-limit";
+        continue;
+      }
+      const note = await options.readNote(resolution.path);
+      if (note === undefined) continue;
+      const part = embeddedPart(note, link);
+      if (!part) {
+        report.status = "missing-anchor";
+        continue;
+      }
+      report.status = "expanded";
+      const inner = await expand(
+        part.text,
+        resolution.path,
+        part.firstLine - 1,
+        depth + 1,
+        [...stack, key]
+      );
+      replacements.set(link, {
+        text: `<!-- embed: ${key} -->\n${inner}\n<!-- /embed -->`,
+        block: true,
+      });
+    }
+
+    // Replace from the end so earlier columns stay valid
+    for (const link of [...links].reverse()) {
+      const replacement = replacements.get(link);
+      if (replacement === undefined) continue;
+      const line = lines[link.line - 1];
+      const before = line.slice(0, link.column);
+      const after = line.slice(link.column + link.raw.length);
+      lines[link.line - 1] = replacement.block
+        ? [before.trimEnd(), replacement.text, after.trimStart()]
+            .filter((part) => part !== "")
+            .join("\n")
+        : `${before}${replacement.text}${after}`;
+    }
+    return lines.join("\n");
+  };
+
+  const expanded = await expand(content, sourcePath, 0, 1, [sourcePath]);
+  return { content: expanded, embeds };
+}
@@ -0,0 +1,182 @@
+import { parseDocument } from "yaml";
+
+/**
+ * Obsidian property types, mirroring the types offered by the Properties view.
+ */
+export type PropertyType =
+  | "text"
+  | "number"
+  | "checkbox"
+  | "date"
+  | "datetime"
+  | "list"
+  | "object"
+  | "null";
+
+export interface NoteMetadata {
+  hasFrontmatter: boolean;
+  tags: string[];
+  aliases: string[];
+  cssclasses: string[];
+  properties: Record<string, unknown>;
+  propertyTypes: Record<string, PropertyType>;
+  // 1-based line number where the note body starts (after the closing ---)
+  bodyStartLine: number;
+}
+
+/**
+ * Raised when a note starts a frontmatter block that cannot be parsed.
+ * `line` is 1-based and relative to the whole note, when known.
+ */
+export class FrontmatterError extends Error {
+  constructor(
+    message: string,
+    public readonly line?: number
+  ) {
+    super(message);
+    this.name = "FrontmatterError";
+  }
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME_PATTERN =
+  /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+// Split a note into its raw frontmatter block and body. `raw` is null when
+// the note has no frontmatter at all.
+export function splitFrontmatter(content: string): {
+  raw: string | null;
+  body: string;
+  bodyStartLine: number;
+} {
+  const lines = content.split(/\r?\n/);
+  if (lines[0]?.trimEnd() !== "---") {
+    return { raw: null, body: content, bodyStartLine: 1 };
+  }
+
+  for (let i = 1; i < lines.length; i++) {
+    if (lines[i].trimEnd() === "---") {
+      return {
+        raw: lines.slice(1, i).join("\n"),
+        body: lines.slice(i + 1).join("\n"),
+        bodyStartLine: i + 2,
+      };
+    }
+  }
+
+  throw new FrontmatterError(
+    "Frontmatter block opened with '---' on line 1 is never closed",
+    1
+  );
+}
+
+function isValidDate(value: string): boolean {
+  return !Number.isNaN(new Date(value.replace(" ", "T")).getTime());
+}
+
+export function inferPropertyType(value: unknown): PropertyType {
+  if (value === null || value === undefined) return "null";
+  if (Array.isArray(value)) return "list";
+  if (typeof value === "boolean") return "checkbox";
+  if (typeof value === "number") return "number";
+  if (value instanceof Date) return "datetime";
+  if (typeof value === "object") return "object";
+  const text = String(value);
+  if (DATE_PATTERN.test(text) && isValidDate(text)) return "date";
+  if (DATETIME_PATTERN.test(text) && isValidDate(text)) return "datetime";
+  return "text";
+}
+
+// Obsidian accepts both YAML lists and comma/space separated strings for
+// tags, aliases and cssclasses, as well as the singular legacy keys.
+function toStringList(value: unknown, splitOnSpaces: boolean): string[] {
+  if (value === null || value === undefined) return [];
+  const items = Array.isArray(value) ? value : [value];
+  const separator = splitOnSpaces ? /[,\s]+/ : /,/;
+  return items
+    .filter((item) => item !== null && item !== undefined)
+    .flatMap((item) =>
+      Array.isArray(item) ? item.map(String) : String(item).split(separator)
+    )
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+function normalizeTags(value: unknown): string[] {
+  return toStringList(value, true).map((tag) => tag.replace(/^#/, ""));
+}
+
+/**
+ * Parse the YAML frontmatter of a note into structured metadata.
+ * Throws a FrontmatterError when the frontmatter block is malformed.
+ */
+export function parseFrontmatter(content: string): NoteMetadata {
+  const { raw, bodyStartLine } = splitFrontmatter(content);
+  const metadata: NoteMetadata = {
+    hasFrontmatter: raw !== null,
+    tags: [],
+    aliases: [],
+    cssclasses: [],
+    properties: {},
+    propertyTypes: {},
+    bodyStartLine,
+  };
+  if (raw === null || raw.trim() === "") {
+    return metadata;
+  }
+
+  const document = parseDocument(raw);
+  if (document.errors.length > 0) {
+    const error = document.errors[0];
+    // +1 for the opening --- line
+    const line = error.linePos ? error.linePos[0].line + 1 : undefined;
+    throw new FrontmatterError(
+      `Invalid YAML in frontmatter${line ? ` at line ${line}` : ""}: ${
+        // Drop the parser's own position, which is relative to the block
+        error.message
+          .split("\n")[0]
+          .replace(/ at line \d+, column \d+:?$/, "")
+      }`,
+      line
+    );
+  }
+
+  const parsed: unknown = document.toJS();
+  if (parsed === null || parsed === undefined) {
+    return metadata;
+  }
+  if (typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new FrontmatterError(
+      "Frontmatter must be a set of key: value properties",
+      2
+    );
+  }
+
+  const properties = parsed as Record<string, unknown>;
+  for (const [key, value] of Object.entries(properties)) {
+    metadata.properties[key] =
+      value instanceof Date ? value.toISOString() : value;
+    metadata.propertyTypes[key] = inferPropertyType(value);
+  }
+
+  metadata.tags = [
+    ...new Set([
+      ...normalizeTags(properties.tags),
+      ...normalizeTags(properties.tag),
+    ]),
+  ];
+  metadata.aliases = [
+    ...new Set([
+      ...toStringList(properties.aliases, false),
+      ...toStringList(properties.alias, false),
+    ]),
+  ];
+  metadata.cssclasses = [
+    ...new Set([
+      ...toStringList(properties.cssclasses, true),
+      ...toStringList(properties.cssclass, true),
+    ]),
+  ];
+
+  return metadata;
+}
@@ -0,0 +1,76 @@
+/**
+ * Minimal glob matching for vault paths.
+ *
+ * Supports `**` (any number of folders), `*` (anything but `/`), `?`,
+ * character classes like `[abc]` and alternatives like `{md,canvas}`.
+ * Patterns without a `/` match against the basename, like .gitignore.
+ */
+
+const cache = new Map<string, RegExp>();
+
+export function globToRegExp(glob: string): RegExp {
+  const cached = cache.get(glob);
+  if (cached) return cached;
+
+  let source = "";
+  let inGroup = false;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        // `**/` matches zero or more folders, a trailing `**` matches anything
+        if (glob[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 1);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        const body = glob.slice(i + 1, end).replace(/^!/, "^");
+        source += `[${body.replace(/\\/g, "\\\\")}]`;
+        i = end;
+      }
+    } else if (char === "{") {
+      inGroup = true;
+      source += "(?:";
+    } else if (char === "}" && inGroup) {
+      inGroup = false;
+      source += ")";
+    } else if (char === "," && inGroup) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, "\\$&");
+    }
+  }
+
+  const regExp = new RegExp(`^${source}$`);
+  cache.set(glob, regExp);
+  return regExp;
+}
+
+export function matchesGlob(path: string, glob: string): boolean {
+  const pattern = glob.replace(/^\.?\//, "");
+  // A folder pattern like `Private/` covers everything inside it
+  if (pattern.endsWith("/")) {
+    return globToRegExp(`${pattern}**`).test(path);
+  }
+  if (!pattern.includes("/")) {
+    const name = path.slice(path.lastIndexOf("/") + 1);
+    return globToRegExp(pattern).test(name);
+  }
+  return globToRegExp(pattern).test(path);
+}
+
+export function matchesAnyGlob(path: string, globs: string[]): boolean {
+  return globs.some((glob) => matchesGlob(path, glob));
+}
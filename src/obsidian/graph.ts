@@ -0,0 +1,201 @@
+import {
+  type LinkIndex,
+  extractLinks,
+  noteName,
+  resolveLinkTarget,
+} from "./links.js";
+
+export interface GraphEdge {
+  source: string;
+  target: string;
+  // Number of links from source to target
+  count: number;
+}
+
+export interface BrokenLink {
+  source: string;
+  // The link exactly as written
+  raw: string;
+  // 1-based line of the link
+  line: number;
+}
+
+export interface LinkGraph {
+  // Note paths, sorted
+  nodes: string[];
+  edges: GraphEdge[];
+  broken: BrokenLink[];
+}
+
+export interface GraphStats {
+  notes: number;
+  links: number;
+  // Notes without links in either direction
+  orphans: string[];
+  // Notes that are linked to but link nowhere
+  deadEnds: string[];
+  // Most linked-to notes, by number of distinct linking notes
+  hubs: Array<{ path: string; incoming: number }>;
+  // Groups of notes connected by links in any direction, largest first
+  components: string[][];
+  broken: BrokenLink[];
+}
+
+/**
+ * Build the note-to-note link graph of `notes`. Links to attachments and
+ * to notes outside `notes` are left out, ambiguous links are skipped and
+ * links that resolve to nothing are reported as broken.
+ */
+export function buildLinkGraph(
+  notes: Map<string, string>,
+  index: LinkIndex
+): LinkGraph {
+  const counts = new Map<string, Map<string, number>>();
+  const broken: BrokenLink[] = [];
+  for (const [source, content] of notes) {
+    for (const link of extractLinks(content)) {
+      const resolution = resolveLinkTarget(
+        link.target,
+        index,
+        source,
+        link.syntax
+      );
+      if (resolution.status === "broken") {
+        broken.push({ source, raw: link.raw, line: link.line });
+        continue;
+      }
+      const target = resolution.path;
+      if (!target || target === source || !notes.has(target)) continue;
+      const targets = counts.get(source) ?? new Map<string, number>();
+      targets.set(target, (targets.get(target) ?? 0) + 1);
+      counts.set(source, targets);
+    }
+  }
+
+  const edges: GraphEdge[] = [];
+  for (const [source, targets] of counts) {
+    for (const [target, count] of targets) {
+      edges.push({ source, target, count });
+    }
+  }
+  edges.sort(
+    (a, b) =>
+      a.source.localeCompare(b.source) || a.target.localeCompare(b.target)
+  );
+  broken.sort((a, b) => a.source.localeCompare(b.source) || a.line - b.line);
+  return {
+    nodes: [...notes.keys()].sort((a, b) => a.localeCompare(b)),
+    edges,
+    broken,
+  };
+}
+
+export function graphStats(graph: LinkGraph, maxHubs = 10): GraphStats {
+  const incoming = new Map<string, number>();
+  const outgoing = new Map<string, number>();
+  const neighbours = new Map<string, string[]>();
+  for (const { source, target } of graph.edges) {
+    incoming.set(target, (incoming.get(target) ?? 0) + 1);
+    outgoing.set(source, (outgoing.get(source) ?? 0) + 1);
+    for (const [from, to] of [
+      [source, target],
+      [target, source],
+    ]) {
+      const list = neighbours.get(from) ?? [];
+      list.push(to);
+      neighbours.set(from, list);
+    }
+  }
+
+  const components: string[][] = [];
+  const seen = new Set<string>();
+  for (const start of graph.nodes) {
+    if (seen.has(start)) continue;
+    const component: string[] = [];
+    const stack = [start];
+    seen.add(start);
+    while (stack.length > 0) {
+      const node = stack.pop() as string;
+      component.push(node);
+      for (const next of neighbours.get(node) ?? []) {
+        if (!seen.has(next)) {
+          seen.add(next);
+          stack.push(next);
+        }
+      }
+    }
+    components.push(component.sort((a, b) => a.localeCompare(b)));
+  }
+  components.sort((a, b) => b.length - a.length || a[0].localeCompare(b[0]));
+
+  return {
+    notes: graph.nodes.length,
+    links: graph.edges.reduce((sum, edge) => sum + edge.count, 0),
+    orphans: graph.nodes.filter(
+      (node) => !incoming.has(node) && !outgoing.has(node)
+    ),
+    deadEnds: graph.nodes.filter(
+      (node) => incoming.has(node) && !outgoing.has(node)
+    ),
+    hubs: [...incoming]
+      .map(([path, count]) => ({ path, incoming: count }))
+      .sort((a, b) => b.incoming - a.incoming || a.path.localeCompare(b.path))
+      .slice(0, maxHubs),
+    components,
+    broken: graph.broken,
+  };
+}
+
+// Targets of every note, including notes without links
+export function toAdjacency(graph: LinkGraph): Record<string, string[]> {
+  const adjacency: Record<string, string[]> = {};
+  for (const node of graph.nodes) adjacency[node] = [];
+  for (const { source, target } of graph.edges) {
+    adjacency[source].push(target);
+  }
+  return adjacency;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function toGraphML(graph: LinkGraph): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="name" for="node" attr.name="name" attr.type="string"/>',
+    '  <key id="weight" for="edge" attr.name="weight" attr.type="int"/>',
+    '  <graph id="vault" edgedefault="directed">',
+  ];
+  for (const node of graph.nodes) {
+    lines.push(
+      `    <node id="${escapeXml(node)}"><data key="name">${escapeXml(noteName(node))}</data></node>`
+    );
+  }
+  for (const { source, target, count } of graph.edges) {
+    lines.push(
+      `    <edge source="${escapeXml(source)}" target="${escapeXml(target)}"><data key="weight">${count}</data></edge>`
+    );
+  }
+  lines.push("  </graph>", "</graphml>");
+  return lines.join("\n");
+}
+
+// Mermaid flowchart with one node per note, labelled by note name
+export function toMermaid(graph: LinkGraph): string {
+  const ids = new Map(graph.nodes.map((node, i) => [node, `n${i}`]));
+  const lines = ["graph LR"];
+  for (const node of graph.nodes) {
+    const label = noteName(node).replace(/"/g, "#quot;");
+    lines.push(`  ${ids.get(node)}["${label}"]`);
+  }
+  for (const { source, target } of graph.edges) {
+    lines.push(`  ${ids.get(source)} --> ${ids.get(target)}`);
+  }
+  return lines.join("\n");
+}
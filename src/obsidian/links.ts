@@ -0,0 +1,307 @@
+import { markCodeLines, maskInlineCode, splitLines } from "./markdown.js";
+
+export type LinkSyntax = "wikilink" | "markdown";
+export type LinkKind = "wikilink" | "embed" | "markdown";
+
+export interface NoteLink {
+  syntax: LinkSyntax;
+  embed: boolean;
+  // The link exactly as written, e.g. `![[Note#Heading|alias]]`
+  raw: string;
+  // Linked file without anchor; empty for same-note links like [[#Heading]]
+  target: string;
+  heading?: string;
+  blockId?: string;
+  // Display text: the wikilink alias or the markdown link text
+  alias?: string;
+  // 1-based line and 0-based column of the link within the note
+  line: number;
+  column: number;
+}
+
+export interface LinkIndex {
+  paths: Set<string>;
+  byLowerPath: Map<string, string>;
+  byName: Map<string, string[]>;
+  byAlias: Map<string, string[]>;
+}
+
+export type LinkStatus = "resolved" | "ambiguous" | "broken";
+
+export interface LinkResolution {
+  status: LinkStatus;
+  path?: string;
+  candidates: string[];
+  via?: "self" | "path" | "name" | "alias";
+}
+
+const WIKILINK_PATTERN = /(!?)\[\[([^[\]\n]+?)\]\]/g;
+const MARKDOWN_LINK_PATTERN =
+  /(!?)\[([^\]\n]*)\]\(\s*(<[^>\n]+>|[^)\s]+)(?:\s+"[^"\n]*")?\s*\)/g;
+const URL_SCHEME_PATTERN = /^[a-z][a-z0-9+.-]*:/i;
+
+export function linkKind(link: NoteLink): LinkKind {
+  if (link.embed) return "embed";
+  return link.syntax;
+}
+
+/**
+ * Split a link target such as `Folder/Note#Heading` or `Note#^block` into
+ * its file and anchor parts.
+ */
+export function parseLinkTarget(text: string): {
+  target: string;
+  heading?: string;
+  blockId?: string;
+} {
+  const hashIndex = text.indexOf("#");
+  if (hashIndex === -1) {
+    return { target: text.trim() };
+  }
+  const target = text.slice(0, hashIndex).trim();
+  const anchor = text.slice(hashIndex + 1).trim();
+  if (anchor.startsWith("^")) {
+    return { target, blockId: anchor.slice(1) };
+  }
+  return anchor ? { target, heading: anchor } : { target };
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Extract wikilinks, embeds and internal markdown links from a note,
+ * skipping code blocks, inline code and external URLs.
+ */
+export function extractLinks(content: string): NoteLink[] {
+  const lines = splitLines(content);
+  const inCode = markCodeLines(lines);
+  const links: NoteLink[] = [];
+
+  lines.forEach((rawLine, index) => {
+    if (inCode[index]) return;
+    const line = maskInlineCode(rawLine);
+
+    for (const match of line.matchAll(WIKILINK_PATTERN)) {
+      // Inside tables the alias pipe is escaped as `\|`
+      const inner = match[2].replace(/\\\|/g, "|");
+      const pipeIndex = inner.indexOf("|");
+      const linkText = pipeIndex === -1 ? inner : inner.slice(0, pipeIndex);
+      const alias =
+        pipeIndex === -1 ? undefined : inner.slice(pipeIndex + 1).trim();
+      links.push({
+        syntax: "wikilink",
+        embed: match[1] === "!",
+        raw: match[0],
+        ...parseLinkTarget(linkText.replace(/\\$/, "")),
+        ...(alias ? { alias } : {}),
+        line: index + 1,
+        column: match.index ?? 0,
+      });
+    }
+
+    for (const match of line.matchAll(MARKDOWN_LINK_PATTERN)) {
+      let href = match[3];
+      if (href.startsWith("<") && href.endsWith(">")) {
+        href = href.slice(1, -1);
+      }
+      if (URL_SCHEME_PATTERN.test(href)) continue;
+      links.push({
+        syntax: "markdown",
+        embed: match[1] === "!",
+        raw: match[0],
+        ...parseLinkTarget(safeDecode(href)),
+        ...(match[2] ? { alias: match[2] } : {}),
+        line: index + 1,
+        column: match.index ?? 0,
+      });
+    }
+  });
+
+  return links.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+export function dirname(path: string): string {
+  const slashIndex = path.lastIndexOf("/");
+  return slashIndex === -1 ? "" : path.slice(0, slashIndex);
+}
+
+export function basename(path: string): string {
+  return path.slice(path.lastIndexOf("/") + 1);
+}
+
+// Note name as Obsidian displays it: basename without the .md extension
+export function noteName(path: string): string {
+  return basename(path).replace(/\.md$/i, "");
+}
+
+// Collapse `.` and `..` segments of a repository-relative path
+export function normalizePath(path: string): string {
+  const parts: string[] = [];
+  for (const part of path.split("/")) {
+    if (part === "" || part === ".") continue;
+    if (part === "..") {
+      parts.pop();
+    } else {
+      parts.push(part);
+    }
+  }
+  return parts.join("/");
+}
+
+// Path of `toPath` relative to the folder `fromFolder`, e.g. "../Ideas/A.md"
+export function relativePath(fromFolder: string, toPath: string): string {
+  const from = fromFolder ? fromFolder.split("/") : [];
+  const to = toPath.split("/");
+  let common = 0;
+  while (
+    common < from.length &&
+    common < to.length - 1 &&
+    from[common] === to[common]
+  ) {
+    common++;
+  }
+  return [...from.slice(common).map(() => ".."), ...to.slice(common)].join("/");
+}
+
+function addToMultiMap(map: Map<string, string[]>, key: string, value: string) {
+  const existing = map.get(key);
+  if (existing) {
+    if (!existing.includes(value)) existing.push(value);
+  } else {
+    map.set(key, [value]);
+  }
+}
+
+/**
+ * Build the lookup tables used to resolve links the way Obsidian does:
+ * by exact path, by (shortest unique) note name and by frontmatter alias.
+ */
+export function buildLinkIndex(
+  paths: Iterable<string>,
+  aliases: Map<string, string[]> = new Map()
+): LinkIndex {
+  const index: LinkIndex = {
+    paths: new Set(),
+    byLowerPath: new Map(),
+    byName: new Map(),
+    byAlias: new Map(),
+  };
+  for (const path of paths) {
+    index.paths.add(path);
+    index.byLowerPath.set(path.toLowerCase(), path);
+    const name = basename(path).toLowerCase();
+    addToMultiMap(index.byName, name, path);
+    if (name.endsWith(".md")) {
+      addToMultiMap(index.byName, name.slice(0, -3), path);
+    }
+  }
+  for (const [path, noteAliases] of aliases) {
+    for (const alias of noteAliases) {
+      addToMultiMap(index.byAlias, alias.toLowerCase(), path);
+    }
+  }
+  return index;
+}
+
+function pickCandidate(
+  candidates: string[],
+  sourcePath: string | undefined,
+  via: LinkResolution["via"]
+): LinkResolution {
+  if (candidates.length === 1) {
+    return { status: "resolved", path: candidates[0], candidates, via };
+  }
+  // Obsidian prefers the match that lives next to the linking note
+  if (sourcePath !== undefined) {
+    const sourceFolder = dirname(sourcePath);
+    const sibling = candidates.filter((c) => dirname(c) === sourceFolder);
+    if (sibling.length === 1) {
+      return { status: "resolved", path: sibling[0], candidates, via };
+    }
+  }
+  return { status: "ambiguous", candidates: [...candidates].sort(), via };
+}
+
+/**
+ * Resolve a link target (without anchor) to a repository path.
+ */
+export function resolveLinkTarget(
+  target: string,
+  index: LinkIndex,
+  sourcePath?: string,
+  syntax: LinkSyntax = "wikilink"
+): LinkResolution {
+  if (target === "") {
+    return sourcePath !== undefined
+      ? {
+          status: "resolved",
+          path: sourcePath,
+          candidates: [sourcePath],
+          via: "self",
+        }
+      : { status: "broken", candidates: [] };
+  }
+
+  const lookupPath = (path: string): string | undefined => {
+    const lower = normalizePath(path).toLowerCase();
+    return index.byLowerPath.get(lower) ?? index.byLowerPath.get(`${lower}.md`);
+  };
+
+  // Markdown links are relative to the linking note first
+  if (
+    syntax === "markdown" &&
+    sourcePath !== undefined &&
+    !target.startsWith("/")
+  ) {
+    const relative = lookupPath(`${dirname(sourcePath)}/${target}`);
+    if (relative) {
+      return {
+        status: "resolved",
+        path: relative,
+        candidates: [relative],
+        via: "path",
+      };
+    }
+  }
+
+  const absolute = lookupPath(target);
+  if (absolute) {
+    return {
+      status: "resolved",
+      path: absolute,
+      candidates: [absolute],
+      via: "path",
+    };
+  }
+
+  const lowerTarget = normalizePath(target).toLowerCase();
+  if (lowerTarget.includes("/")) {
+    // Partial paths like [[Folder/Note]] match any path ending with them
+    const suffixes = [`/${lowerTarget}`, `/${lowerTarget}.md`];
+    const matches = [...index.paths].filter((path) => {
+      const lower = path.toLowerCase();
+      return suffixes.some((suffix) => lower.endsWith(suffix));
+    });
+    if (matches.length > 0) {
+      return pickCandidate(matches, sourcePath, "path");
+    }
+  } else {
+    const matches = index.byName.get(lowerTarget);
+    if (matches && matches.length > 0) {
+      return pickCandidate(matches, sourcePath, "name");
+    }
+  }
+
+  const byAlias = index.byAlias.get(target.toLowerCase());
+  if (byAlias && byAlias.length > 0) {
+    return pickCandidate(byAlias, sourcePath, "alias");
+  }
+
+  return { status: "broken", candidates: [] };
+}
@@ -0,0 +1,235 @@
+import { CanvasError, type CanvasNode, parseCanvas } from "./canvas.js";
+import {
+  FrontmatterError,
+  parseFrontmatter,
+  splitFrontmatter,
+} from "./frontmatter.js";
+import {
+  type LinkIndex,
+  basename,
+  extractLinks,
+  normalizePath,
+  resolveLinkTarget,
+} from "./links.js";
+
+export type LintRule =
+  | "broken-links"
+  | "unreferenced-attachments"
+  | "duplicate-names"
+  | "frontmatter"
+  | "empty-notes"
+  | "forbidden-characters";
+
+export const LINT_RULES: LintRule[] = [
+  "broken-links",
+  "unreferenced-attachments",
+  "duplicate-names",
+  "frontmatter",
+  "empty-notes",
+  "forbidden-characters",
+];
+
+export interface LintIssue {
+  rule: LintRule;
+  path: string;
+  // 1-based line, when the issue sits on one
+  line?: number;
+  message: string;
+}
+
+export interface LintOptions {
+  // Rules to run (default: all)
+  rules?: LintRule[];
+  // Frontmatter keys every note must have
+  requiredProperties?: string[];
+  // JSON of the vault's .canvas files, whose file nodes reference notes and
+  // attachments too
+  canvases?: Map<string, string>;
+}
+
+// File types Obsidian opens as attachments
+const ATTACHMENT_EXTENSIONS = new Set([
+  "png",
+  "jpg",
+  "jpeg",
+  "gif",
+  "bmp",
+  "svg",
+  "webp",
+  "avif",
+  "mp3",
+  "wav",
+  "m4a",
+  "ogg",
+  "3gp",
+  "flac",
+  "mp4",
+  "webm",
+  "ogv",
+  "mov",
+  "mkv",
+  "pdf",
+]);
+// Characters Obsidian rejects in file names, and those that break links
+const FORBIDDEN_CHARACTERS = /[*"\\<>:|?#^[\]]/g;
+
+function extension(path: string): string {
+  const name = basename(path);
+  const dot = name.lastIndexOf(".");
+  return dot === -1 ? "" : name.slice(dot + 1).toLowerCase();
+}
+
+// Files in hidden folders such as .obsidian are not part of the vault
+function isHidden(path: string): boolean {
+  return path.split("/").some((part) => part.startsWith("."));
+}
+
+/**
+ * Check a vault for common problems. `files` lists every readable file of
+ * the vault, `notes` the text of its notes and `index` resolves links the
+ * way Obsidian does. Issues are sorted by rule, path and line.
+ */
+export function lintVault(
+  files: string[],
+  notes: Map<string, string>,
+  index: LinkIndex,
+  options: LintOptions = {}
+): LintIssue[] {
+  const rules = new Set(options.rules ?? LINT_RULES);
+  const issues: LintIssue[] = [];
+  const linked = new Set<string>();
+
+  for (const [path, content] of notes) {
+    for (const link of extractLinks(content)) {
+      const resolution = resolveLinkTarget(
+        link.target,
+        index,
+        path,
+        link.syntax
+      );
+      for (const candidate of resolution.candidates) linked.add(candidate);
+      if (resolution.status === "broken" && rules.has("broken-links")) {
+        issues.push({
+          rule: "broken-links",
+          path,
+          line: link.line,
+          message: `Broken link \`${link.raw}\`: no file matches "${link.target}"`,
+        });
+      }
+    }
+
+    if (rules.has("frontmatter")) {
+      try {
+        const metadata = parseFrontmatter(content);
+        const missing = (options.requiredProperties ?? []).filter(
+          (key) =>
+            !Object.prototype.hasOwnProperty.call(metadata.properties, key)
+        );
+        if (missing.length > 0) {
+          issues.push({
+            rule: "frontmatter",
+            path,
+            line: 1,
+            message: `Missing required propert${missing.length === 1 ? "y" : "ies"}: ${missing.join(", ")}`,
+          });
+        }
+      } catch (error) {
+        issues.push({
+          rule: "frontmatter",
+          path,
+          line: error instanceof FrontmatterError ? (error.line ?? 1) : 1,
+          message: `Invalid frontmatter: ${error instanceof Error ? error.message : String(error)}`,
+        });
+      }
+    }
+
+    if (rules.has("empty-notes")) {
+      let body = content;
+      try {
+        body = splitFrontmatter(content).body;
+      } catch {
+        // An unclosed frontmatter block still counts as content
+      }
+      if (body.trim() === "") {
+        issues.push({ rule: "empty-notes", path, message: "Note is empty" });
+      }
+    }
+  }
+
+  // Canvas file nodes store vault paths; paths written without their
+  // extension resolve like links
+  for (const [path, json] of options.canvases ?? []) {
+    let nodes: CanvasNode[];
+    try {
+      ({ nodes } = parseCanvas(json));
+    } catch (error) {
+      if (error instanceof CanvasError) continue;
+      throw error;
+    }
+    for (const node of nodes) {
+      if (node.type !== "file" || !node.file) continue;
+      const resolution = resolveLinkTarget(
+        normalizePath(node.file),
+        index,
+        path
+      );
+      for (const candidate of resolution.candidates) linked.add(candidate);
+    }
+  }
+
+  const vaultFiles = files.filter((path) => !isHidden(path));
+
+  if (rules.has("unreferenced-attachments")) {
+    for (const path of vaultFiles) {
+      if (ATTACHMENT_EXTENSIONS.has(extension(path)) && !linked.has(path)) {
+        issues.push({
+          rule: "unreferenced-attachments",
+          path,
+          message: "Attachment is not linked or embedded by any note or canvas",
+        });
+      }
+    }
+  }
+
+  if (rules.has("duplicate-names")) {
+    const byName = new Map<string, string[]>();
+    for (const path of notes.keys()) {
+      const name = basename(path).toLowerCase();
+      byName.set(name, [...(byName.get(name) ?? []), path]);
+    }
+    for (const paths of byName.values()) {
+      if (paths.length < 2) continue;
+      for (const path of paths) {
+        const others = paths.filter((other) => other !== path);
+        issues.push({
+          rule: "duplicate-names",
+          path,
+          message: `Same name as ${others.join(", ")}, so links by name alone are ambiguous`,
+        });
+      }
+    }
+  }
+
+  if (rules.has("forbidden-characters")) {
+    for (const path of vaultFiles) {
+      const characters = [
+        ...new Set(basename(path).match(FORBIDDEN_CHARACTERS) ?? []),
+      ];
+      if (characters.length > 0) {
+        issues.push({
+          rule: "forbidden-characters",
+          path,
+          message: `File name contains ${characters.map((c) => `"${c}"`).join(", ")}, which Obsidian does not allow or cannot link to`,
+        });
+      }
+    }
+  }
+
+  const order = new Map(LINT_RULES.map((rule, i) => [rule, i]));
+  return issues.sort(
+    (a, b) =>
+      (order.get(a.rule) ?? 0) - (order.get(b.rule) ?? 0) ||
+      a.path.localeCompare(b.path) ||
+      (a.line ?? 0) - (b.line ?? 0)
+  );
+}
@@ -0,0 +1,104 @@
+/**
+ * Line-level markdown helpers shared by the Obsidian parsers.
+ */
+
+export interface Heading {
+  level: number;
+  text: string;
+  // 1-based line number of the heading
+  line: number;
+}
+
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const BLOCK_ID_PATTERN = /(?:^|\s)\^([A-Za-z0-9-]+)\s*$/;
+
+export function splitLines(content: string): string[] {
+  return content.split(/\r?\n/);
+}
+
+// Flag every line that sits inside (or delimits) a fenced code block
+export function markCodeLines(lines: string[]): boolean[] {
+  const inCode: boolean[] = [];
+  let fence: string | null = null;
+  for (const line of lines) {
+    const match = line.match(FENCE_PATTERN);
+    if (fence === null && match) {
+      fence = match[1];
+      inCode.push(true);
+    } else if (fence !== null) {
+      inCode.push(true);
+      if (
+        match &&
+        match[1][0] === fence[0] &&
+        match[1].length >= fence.length
+      ) {
+        fence = null;
+      }
+    } else {
+      inCode.push(false);
+    }
+  }
+  return inCode;
+}
+
+// Blank out inline code spans, keeping column positions intact
+export function maskInlineCode(line: string): string {
+  return line.replace(/(`+)[^`]*?\1/g, (span) => " ".repeat(span.length));
+}
+
+/**
+ * List the ATX headings of a note, ignoring anything inside code blocks.
+ */
+export function parseHeadings(content: string): Heading[] {
+  const lines = splitLines(content);
+  const inCode = markCodeLines(lines);
+  const headings: Heading[] = [];
+  lines.forEach((line, index) => {
+    if (inCode[index]) return;
+    const match = line.match(HEADING_PATTERN);
+    if (match) {
+      headings.push({
+        level: match[1].length,
+        text: match[2],
+        line: index + 1,
+      });
+    }
+  });
+  return headings;
+}
+
+export interface BlockId {
+  id: string;
+  // 1-based line carrying the `^id`
+  line: number;
+}
+
+// List the `^block-id`s of a note, ignoring anything inside code blocks
+export function listBlockIds(content: string): BlockId[] {
+  const lines = splitLines(content);
+  const inCode = markCodeLines(lines);
+  const blocks: BlockId[] = [];
+  lines.forEach((line, index) => {
+    if (inCode[index]) return;
+    const match = line.match(BLOCK_ID_PATTERN);
+    if (match) blocks.push({ id: match[1], line: index + 1 });
+  });
+  return blocks;
+}
+
+// Return the 1-based line carrying a `^block-id`, or null when absent
+export function findBlockLine(content: string, blockId: string): number | null {
+  return (
+    listBlockIds(content).find((block) => block.id === blockId)?.line ?? null
+  );
+}
+
+// Obsidian compares headings ignoring case and most punctuation
+export function normalizeHeading(text: string): string {
+  return text
+    .replace(/[#^|[\]:*_`]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+}
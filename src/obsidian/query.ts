@@ -0,0 +1,555 @@
+/**
+ * A small Dataview-style query language over note properties. Fields come
+ * from YAML frontmatter, inline `key:: value` fields and the implicit
+ * file.name, file.path, file.folder and file.tags.
+ *
+ * Filters combine comparisons with AND, OR, NOT and parentheses:
+ *
+ *   status = active AND (owner = "me" OR type != project) AND due <= eom
+ *
+ * Operators are =, !=, <, <=, >, >= and contains; a bare field checks that
+ * it is set. Values are quoted or bare strings, numbers, true/false, null,
+ * dates (2024-06-01) and the relative dates today, now, yesterday,
+ * tomorrow, sow/eow, som/eom and soy/eoy (start/end of week, month, year),
+ * optionally shifted like today+7d or som-1m.
+ */
+
+import { formatMomentDate } from "./dates.js";
+import { parseFrontmatter, splitFrontmatter } from "./frontmatter.js";
+import { markCodeLines, splitLines } from "./markdown.js";
+import { noteTags } from "./tags.js";
+
+export type Comparison = "=" | "!=" | "<" | "<=" | ">" | ">=" | "contains";
+
+export type QueryValue = string | number | boolean | Date | null;
+
+export type Filter =
+  | { kind: "and" | "or"; left: Filter; right: Filter }
+  | { kind: "not"; filter: Filter }
+  | { kind: "exists"; field: string }
+  | { kind: "compare"; field: string; op: Comparison; value: QueryValue };
+
+export interface SortKey {
+  field: string;
+  direction: "asc" | "desc";
+}
+
+export interface QueryRow {
+  path: string;
+  fields: Record<string, unknown>;
+}
+
+// Raised for filters and sort orders that cannot be parsed
+export class QuerySyntaxError extends Error {}
+
+const INLINE_KEY = "[\\p{L}\\p{N}_][\\p{L}\\p{N}_ \\-]*?";
+// `key:: value` on its own line, also inside list items and quotes
+const LINE_FIELD_PATTERN = new RegExp(
+  `^\\s*(?:>\\s*)?(?:[-*+]\\s+(?:\\[.\\]\\s+)?|\\d+[.)]\\s+)?(${INLINE_KEY})::\\s*(.*)$`,
+  "u"
+);
+// `[key:: value]` and `(key:: value)` anywhere in a line
+const BRACKET_FIELD_PATTERN = new RegExp(
+  `[[(](${INLINE_KEY})::\\s*([^\\])]*)[\\])]`,
+  "gu"
+);
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/;
+const RELATIVE_DATE_PATTERN =
+  /^(today|now|yesterday|tomorrow|sow|eow|som|eom|soy|eoy)(?:([+-])(\d+)([dwmy]))?$/i;
+const TOKEN_PATTERN =
+  /\s*(?:(\()|(\))|(<=|>=|!=|=|<|>)|"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|([^\s()<>=!"']+|!))/gy;
+
+function inlineValue(text: string): unknown {
+  const value = text.trim();
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  if (value === "true" || value === "false") return value === "true";
+  return value;
+}
+
+function addField(
+  fields: Record<string, unknown>,
+  key: string,
+  value: unknown
+): void {
+  if (!Object.prototype.hasOwnProperty.call(fields, key)) {
+    fields[key] = value;
+    return;
+  }
+  const existing = fields[key];
+  fields[key] = [
+    ...(Array.isArray(existing) ? existing : [existing]),
+    ...(Array.isArray(value) ? value : [value]),
+  ];
+}
+
+/**
+ * Inline `key:: value` fields of a note body, outside code blocks. Repeated
+ * keys collect their values into a list.
+ */
+export function extractInlineFields(content: string): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  const lines = splitLines(content);
+  const inCode = markCodeLines(lines);
+  let start = 0;
+  try {
+    start = splitFrontmatter(content).bodyStartLine - 1;
+  } catch {
+    // An unclosed frontmatter block is read as body text
+  }
+  for (let i = start; i < lines.length; i++) {
+    if (inCode[i]) continue;
+    const line = lines[i];
+    let bracketed = false;
+    for (const match of line.matchAll(BRACKET_FIELD_PATTERN)) {
+      addField(fields, match[1].trim(), inlineValue(match[2]));
+      bracketed = true;
+    }
+    if (bracketed) continue;
+    const match = line.match(LINE_FIELD_PATTERN);
+    if (match) addField(fields, match[1].trim(), inlineValue(match[2]));
+  }
+  return fields;
+}
+
+/**
+ * Every queryable field of a note: frontmatter properties, inline fields
+ * (merged into lists when both set a key) and the implicit file.* fields.
+ */
+export function noteFields(
+  path: string,
+  content: string
+): Record<string, unknown> {
+  let fields: Record<string, unknown> = {};
+  try {
+    fields = { ...parseFrontmatter(content).properties };
+  } catch {
+    // Malformed frontmatter contributes no properties
+  }
+  for (const [key, value] of Object.entries(extractInlineFields(content))) {
+    addField(fields, key, value);
+  }
+  const name = path.slice(path.lastIndexOf("/") + 1).replace(/\.md$/i, "");
+  fields["file.name"] = name;
+  fields["file.path"] = path;
+  fields["file.folder"] = path.includes("/")
+    ? path.slice(0, path.lastIndexOf("/"))
+    : "";
+  fields["file.tags"] = noteTags(content);
+  return fields;
+}
+
+// Dataview normalizes "Due Date" to "due-date"; match either spelling and
+// ignore case
+function normalizeKey(key: string): string {
+  return key.trim().toLowerCase().replace(/\s+/g, "-");
+}
+
+export function getField(
+  fields: Record<string, unknown>,
+  name: string
+): unknown {
+  if (Object.prototype.hasOwnProperty.call(fields, name)) return fields[name];
+  const wanted = normalizeKey(name);
+  const key = Object.keys(fields).find((key) => normalizeKey(key) === wanted);
+  return key === undefined ? undefined : fields[key];
+}
+
+function shiftDate(date: Date, amount: number, unit: string): Date {
+  const shifted = new Date(date);
+  if (unit === "d") shifted.setDate(shifted.getDate() + amount);
+  if (unit === "w") shifted.setDate(shifted.getDate() + amount * 7);
+  if (unit === "m") shifted.setMonth(shifted.getMonth() + amount);
+  if (unit === "y") shifted.setFullYear(shifted.getFullYear() + amount);
+  return shifted;
+}
+
+// Resolve today, som, eow+1d and friends against `now`, in local time
+export function relativeDate(text: string, now = new Date()): Date | null {
+  const match = text.match(RELATIVE_DATE_PATTERN);
+  if (!match) return null;
+  const [, name, sign, amount, unit] = match;
+  const year = now.getFullYear();
+  const month = now.getMonth();
+  const day = now.getDate();
+  // Weeks start on Monday
+  const weekday = (now.getDay() + 6) % 7;
+  const dates: Record<string, Date> = {
+    now,
+    today: new Date(year, month, day),
+    yesterday: new Date(year, month, day - 1),
+    tomorrow: new Date(year, month, day + 1),
+    sow: new Date(year, month, day - weekday),
+    eow: new Date(year, month, day - weekday + 6),
+    som: new Date(year, month, 1),
+    eom: new Date(year, month + 1, 0),
+    soy: new Date(year, 0, 1),
+    eoy: new Date(year, 11, 31),
+  };
+  const date = dates[name.toLowerCase()];
+  return sign
+    ? shiftDate(date, (sign === "-" ? -1 : 1) * Number(amount), unit)
+    : date;
+}
+
+// Parse a property value as a date: YYYY-MM-DD at local midnight, or an
+// ISO date-time
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return value;
+  if (typeof value !== "string") return null;
+  const text = value.trim();
+  if (DATE_PATTERN.test(text)) {
+    const [year, month, day] = text.split("-").map(Number);
+    return new Date(year, month - 1, day);
+  }
+  if (DATETIME_PATTERN.test(text)) {
+    const date = new Date(text.replace(" ", "T"));
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
+
+// Plain text of a value, with [[links]] reduced to their note name
+function toText(value: unknown): string {
+  const text = String(value).trim();
+  const link = text.match(/^\[\[([^\]|#]+)(?:[#|][^\]]*)?\]\]$/);
+  if (!link) return text;
+  const target = link[1].trim();
+  return target.slice(target.lastIndexOf("/") + 1).replace(/\.md$/i, "");
+}
+
+function literal(text: string, quoted: boolean, now: Date): QueryValue {
+  if (quoted) return text;
+  if (text === "null") return null;
+  if (text === "true" || text === "false") return text === "true";
+  if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+  return toDate(text) ?? relativeDate(text, now) ?? text;
+}
+
+interface Token {
+  type: "open" | "close" | "op" | "word" | "string";
+  text: string;
+}
+
+function tokenizeFilter(filter: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+  while (position < filter.length) {
+    if (filter.slice(position).trim() === "") break;
+    TOKEN_PATTERN.lastIndex = position;
+    const match = TOKEN_PATTERN.exec(filter);
+    if (!match) {
+      throw new QuerySyntaxError(
+        `Unexpected "${filter.slice(position).trim()}"`
+      );
+    }
+    position = TOKEN_PATTERN.lastIndex;
+    if (match[1]) tokens.push({ type: "open", text: "(" });
+    else if (match[2]) tokens.push({ type: "close", text: ")" });
+    else if (match[3]) tokens.push({ type: "op", text: match[3] });
+    else if (match[4] !== undefined || match[5] !== undefined) {
+      tokens.push({
+        type: "string",
+        text: (match[4] ?? match[5]).replace(/\\(.)/g, "$1"),
+      });
+    } else if (match[6] === "!") {
+      tokens.push({ type: "word", text: "NOT" });
+    } else {
+      tokens.push({ type: "word", text: match[6] });
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Parse a filter such as `status = active AND due < today`. Relative dates
+ * are resolved against `now`.
+ */
+export function parseFilter(filter: string, now = new Date()): Filter {
+  const tokens = tokenizeFilter(filter);
+  let index = 0;
+  const peek = () => tokens[index];
+  const isKeyword = (token: Token | undefined, keyword: string) =>
+    token?.type === "word" && token.text.toUpperCase() === keyword;
+  const describe = (token: Token | undefined) =>
+    token ? `"${token.text}"` : "the end of the filter";
+
+  const parseOr = (): Filter => {
+    let left = parseAnd();
+    while (isKeyword(peek(), "OR")) {
+      index++;
+      left = { kind: "or", left, right: parseAnd() };
+    }
+    return left;
+  };
+  const parseAnd = (): Filter => {
+    let left = parseUnary();
+    while (isKeyword(peek(), "AND")) {
+      index++;
+      left = { kind: "and", left, right: parseUnary() };
+    }
+    return left;
+  };
+  const parseUnary = (): Filter => {
+    const token = peek();
+    if (isKeyword(token, "NOT")) {
+      index++;
+      return { kind: "not", filter: parseUnary() };
+    }
+    if (token?.type === "open") {
+      index++;
+      const inner = parseOr();
+      if (peek()?.type !== "close") {
+        throw new QuerySyntaxError(
+          `Expected ")" but found ${describe(peek())}`
+        );
+      }
+      index++;
+      return inner;
+    }
+    if (token?.type !== "word" && token?.type !== "string") {
+      throw new QuerySyntaxError(
+        `Expected a field name but found ${describe(token)}`
+      );
+    }
+    index++;
+    const field = token.text;
+    const next = peek();
+    let op: Comparison | undefined;
+    if (next?.type === "op") op = next.text as Comparison;
+    else if (isKeyword(next, "CONTAINS")) op = "contains";
+    if (!op) return { kind: "exists", field };
+    index++;
+    const value = peek();
+    if (value?.type !== "word" && value?.type !== "string") {
+      throw new QuerySyntaxError(
+        `Expected a value after "${field} ${op}" but found ${describe(value)}`
+      );
+    }
+    index++;
+    return {
+      kind: "compare",
+      field,
+      op,
+      value: literal(value.text, value.type === "string", now),
+    };
+  };
+
+  const result = parseOr();
+  if (index < tokens.length) {
+    throw new QuerySyntaxError(
+      `Unexpected ${describe(tokens[index])}; join conditions with AND or OR`
+    );
+  }
+  return result;
+}
+
+function isSet(value: unknown): boolean {
+  if (value === undefined || value === null || value === "") return false;
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== false;
+}
+
+function order(a: number | string, b: number | string): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b), undefined, {
+    numeric: true,
+    sensitivity: "base",
+  });
+}
+
+// Compare one scalar property value with a filter value, coercing the
+// property to the filter value's type; undefined when they cannot compare
+function compareScalar(value: unknown, target: QueryValue): number | undefined {
+  if (target instanceof Date) {
+    const date = toDate(value);
+    return date ? date.getTime() - target.getTime() : undefined;
+  }
+  if (typeof target === "number") {
+    const number =
+      typeof value === "number"
+        ? value
+        : typeof value === "string" && value.trim() !== ""
+          ? Number(value)
+          : Number.NaN;
+    return Number.isNaN(number) ? undefined : number - target;
+  }
+  if (typeof target === "boolean") {
+    const bool =
+      typeof value === "boolean"
+        ? value
+        : value === "true"
+          ? true
+          : value === "false"
+            ? false
+            : undefined;
+    return bool === undefined ? undefined : Number(bool) - Number(target);
+  }
+  if (typeof value === "object" && value !== null) return undefined;
+  return order(toText(value), String(target));
+}
+
+function matchesComparison(
+  value: unknown,
+  op: Comparison,
+  target: QueryValue
+): boolean {
+  if (target === null) {
+    if (op === "=") return !isSet(value);
+    if (op === "!=") return isSet(value);
+    return false;
+  }
+  if (value === undefined || value === null) return op === "!=";
+  if (Array.isArray(value)) {
+    // Lists match when any item does; != requires that none is equal
+    if (op === "!=") {
+      return value.every((item) => matchesComparison(item, "!=", target));
+    }
+    const itemOp = op === "contains" ? "=" : op;
+    return value.some((item) => matchesComparison(item, itemOp, target));
+  }
+  if (op === "contains") {
+    // Dates are looked for as the YYYY-MM-DD text notes write them in
+    const needle =
+      target instanceof Date
+        ? formatMomentDate(target, "YYYY-MM-DD")
+        : String(target);
+    return toText(value).toLowerCase().includes(needle.toLowerCase());
+  }
+  const difference = compareScalar(value, target);
+  if (difference === undefined) return op === "!=";
+  switch (op) {
+    case "=":
+      return difference === 0;
+    case "!=":
+      return difference !== 0;
+    case "<":
+      return difference < 0;
+    case "<=":
+      return difference <= 0;
+    case ">":
+      return difference > 0;
+    case ">=":
+      return difference >= 0;
+  }
+}
+
+export function matchesFilter(
+  filter: Filter,
+  fields: Record<string, unknown>
+): boolean {
+  switch (filter.kind) {
+    case "and":
+      return (
+        matchesFilter(filter.left, fields) &&
+        matchesFilter(filter.right, fields)
+      );
+    case "or":
+      return (
+        matchesFilter(filter.left, fields) ||
+        matchesFilter(filter.right, fields)
+      );
+    case "not":
+      return !matchesFilter(filter.filter, fields);
+    case "exists":
+      return isSet(getField(fields, filter.field));
+    case "compare":
+      return matchesComparison(
+        getField(fields, filter.field),
+        filter.op,
+        filter.value
+      );
+  }
+}
+
+// Fields a filter refers to, in order of appearance
+export function filterFields(filter: Filter): string[] {
+  switch (filter.kind) {
+    case "and":
+    case "or":
+      return [
+        ...new Set([
+          ...filterFields(filter.left),
+          ...filterFields(filter.right),
+        ]),
+      ];
+    case "not":
+      return filterFields(filter.filter);
+    default:
+      return [filter.field];
+  }
+}
+
+/**
+ * Parse a sort order such as "due asc, priority desc". Keys sort
+ * ascending unless followed by desc.
+ */
+export function parseSort(sort: string): SortKey[] {
+  return sort
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const match = part.match(/^(.+?)(?:\s+(asc|desc))?$/i);
+      if (!match) throw new QuerySyntaxError(`Invalid sort key "${part}"`);
+      return {
+        field: match[1].trim(),
+        direction: (match[2]?.toLowerCase() ?? "asc") as SortKey["direction"],
+      };
+    });
+}
+
+// Sortable form of a value: numbers and dates as numbers, the rest as text
+function sortValue(value: unknown): number | string | undefined {
+  if (!isSet(value) && value !== false) return undefined;
+  const first = Array.isArray(value) ? value[0] : value;
+  if (typeof first === "number") return first;
+  if (typeof first === "boolean") return Number(first);
+  const date = toDate(first);
+  if (date) return date.getTime();
+  return toText(first);
+}
+
+/**
+ * Filter, sort and limit notes. Notes without a sort field come last.
+ * Returns the matching rows and how many matched before the limit.
+ */
+export function runQuery(
+  notes: Map<string, string>,
+  options: {
+    filter?: Filter;
+    sort?: SortKey[];
+    limit?: number;
+  }
+): { rows: QueryRow[]; total: number } {
+  const rows: QueryRow[] = [];
+  for (const [path, content] of notes) {
+    const fields = noteFields(path, content);
+    if (!options.filter || matchesFilter(options.filter, fields)) {
+      rows.push({ path, fields });
+    }
+  }
+  const keys = options.sort ?? [];
+  rows.sort((a, b) => {
+    for (const key of keys) {
+      const left = sortValue(getField(a.fields, key.field));
+      const right = sortValue(getField(b.fields, key.field));
+      if (left === undefined || right === undefined) {
+        if (left !== right) return left === undefined ? 1 : -1;
+        continue;
+      }
+      const difference =
+        typeof left === typeof right
+          ? order(left, right)
+          : order(String(left), String(right));
+      if (difference !== 0) {
+        return key.direction === "desc" ? -difference : difference;
+      }
+    }
+    return a.path.localeCompare(b.path);
+  });
+  return {
+    rows: options.limit === undefined ? rows : rows.slice(0, options.limit),
+    total: rows.length,
+  };
+}
@@ -0,0 +1,192 @@
+import {
+  type LinkIndex,
+  type NoteLink,
+  buildLinkIndex,
+  dirname,
+  extractLinks,
+  normalizePath,
+  noteName,
+  relativePath,
+  resolveLinkTarget,
+} from "./links.js";
+import { splitLines } from "./markdown.js";
+
+export interface LinkEdit {
+  // 1-based line number within the note
+  line: number;
+  before: string;
+  after: string;
+}
+
+export interface NoteRewrite {
+  // Path of the note before the move
+  path: string;
+  content: string;
+  edits: LinkEdit[];
+}
+
+// The same index with one file moved, keeping its aliases
+export function moveInIndex(
+  index: LinkIndex,
+  oldPath: string,
+  newPath: string
+): LinkIndex {
+  const rename = (path: string) => (path === oldPath ? newPath : path);
+  const aliases = new Map<string, string[]>();
+  for (const [alias, paths] of index.byAlias) {
+    for (const path of paths) {
+      aliases.set(rename(path), [...(aliases.get(rename(path)) ?? []), alias]);
+    }
+  }
+  return buildLinkIndex([...index.paths].map(rename), aliases);
+}
+
+// Wikilink target for `newPath`: keep the short name form when it still
+// resolves uniquely from the linking note, otherwise spell out the path
+function wikilinkTarget(
+  written: string,
+  newPath: string,
+  newSource: string,
+  newIndex: LinkIndex
+): string {
+  const keepExtension = /\.md$/i.test(written) || !/\.md$/i.test(newPath);
+  const fullPath = keepExtension ? newPath : newPath.replace(/\.md$/i, "");
+  if (written.includes("/")) {
+    return fullPath;
+  }
+  const name = keepExtension
+    ? fullPath.slice(fullPath.lastIndexOf("/") + 1)
+    : noteName(newPath);
+  const resolution = resolveLinkTarget(name, newIndex, newSource);
+  return resolution.status === "resolved" && resolution.path === newPath
+    ? name
+    : fullPath;
+}
+
+function rewriteWikilink(link: NoteLink, target: string): string {
+  const prefix = link.embed ? "![[" : "[[";
+  const inner = link.raw.slice(prefix.length, -2);
+  // Keep the anchor and alias exactly as written, including escaped pipes
+  const end = inner.search(/#|\\?\|/);
+  return `${prefix}${target}${end === -1 ? "" : inner.slice(end)}]]`;
+}
+
+function rewriteMarkdownLink(link: NoteLink, path: string): string {
+  const match = link.raw.match(
+    /^(!?\[[^\]\n]*\]\(\s*)(<[^>\n]+>|[^)\s]+)([\s\S]*)$/
+  );
+  if (!match) return link.raw;
+  const [, head, href, tail] = match;
+  const angled = href.startsWith("<");
+  const written = angled ? href.slice(1, -1) : href;
+  const hashIndex = written.indexOf("#");
+  const anchor = hashIndex === -1 ? "" : written.slice(hashIndex);
+  const encoded = angled ? path : path.replace(/ /g, "%20");
+  return `${head}${angled ? `<${encoded}${anchor}>` : `${encoded}${anchor}`}${tail}`;
+}
+
+// Whether a markdown link was written relative to its note rather than
+// from the vault root
+function isRelativeLink(
+  link: NoteLink,
+  sourcePath: string,
+  index: LinkIndex
+): boolean {
+  if (link.target.startsWith("/")) return false;
+  const candidate = normalizePath(
+    `${dirname(sourcePath)}/${link.target}`
+  ).toLowerCase();
+  return (
+    index.byLowerPath.has(candidate) || index.byLowerPath.has(`${candidate}.md`)
+  );
+}
+
+/**
+ * Plan the link rewrites needed to move `oldPath` to `newPath`: links to
+ * the moved file from every note, plus relative markdown links inside the
+ * moved note itself. Aliases, anchors and link style are preserved.
+ */
+export function planNoteMove(
+  oldPath: string,
+  newPath: string,
+  notes: Map<string, string>,
+  index: LinkIndex
+): NoteRewrite[] {
+  const newIndex = moveInIndex(index, oldPath, newPath);
+  const rewrites: NoteRewrite[] = [];
+
+  for (const [sourcePath, content] of notes) {
+    const newSource = sourcePath === oldPath ? newPath : sourcePath;
+    const lines = splitLines(content);
+    const edits: LinkEdit[] = [];
+    // Replace right to left so earlier columns stay valid
+    const links = extractLinks(content).sort(
+      (a, b) => a.line - b.line || b.column - a.column
+    );
+
+    for (const link of links) {
+      if (link.target === "") continue;
+      const resolution = resolveLinkTarget(
+        link.target,
+        index,
+        sourcePath,
+        link.syntax
+      );
+      if (resolution.status !== "resolved" || !resolution.path) continue;
+      const linksToMoved = resolution.path === oldPath;
+      // Links found through an alias keep working wherever the note lives
+      if (linksToMoved && resolution.via === "alias") continue;
+      if (!linksToMoved && sourcePath !== oldPath) continue;
+
+      let replacement: string;
+      if (link.syntax === "wikilink") {
+        if (!linksToMoved) continue;
+        replacement = rewriteWikilink(
+          link,
+          wikilinkTarget(link.target, newPath, newSource, newIndex)
+        );
+      } else {
+        let targetPath = linksToMoved ? newPath : resolution.path;
+        if (!/\.md$/i.test(link.target)) {
+          targetPath = targetPath.replace(/\.md$/i, "");
+        }
+        const relative = isRelativeLink(link, sourcePath, index);
+        if (!linksToMoved && !relative) continue;
+        const path = relative
+          ? relativePath(dirname(newSource), targetPath)
+          : link.target.startsWith("/")
+            ? `/${targetPath}`
+            : targetPath;
+        replacement = rewriteMarkdownLink(link, path);
+      }
+      if (replacement === link.raw) continue;
+
+      const line = lines[link.line - 1];
+      if (line.slice(link.column, link.column + link.raw.length) !== link.raw) {
+        continue;
+      }
+      const after =
+        line.slice(0, link.column) +
+        replacement +
+        line.slice(link.column + link.raw.length);
+      const existing = edits.find((edit) => edit.line === link.line);
+      if (existing) {
+        existing.after = after;
+      } else {
+        edits.push({ line: link.line, before: line, after });
+      }
+      lines[link.line - 1] = after;
+    }
+
+    if (edits.length > 0) {
+      const eol = content.includes("\r\n") ? "\r\n" : "\n";
+      rewrites.push({
+        path: sourcePath,
+        content: lines.join(eol),
+        edits,
+      });
+    }
+  }
+
+  return rewrites.sort((a, b) => a.path.localeCompare(b.path));
+}
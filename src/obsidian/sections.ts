@@ -0,0 +1,201 @@
+import {
+  type BlockId,
+  type Heading,
+  findBlockLine,
+  listBlockIds,
+  normalizeHeading,
+  parseHeadings,
+  splitLines,
+} from "./markdown.js";
+
+export interface Section {
+  heading: Heading;
+  // 1-based, inclusive line range from the heading to the end of its content
+  startLine: number;
+  endLine: number;
+}
+
+export interface BlockRange {
+  blockId: string;
+  // 1-based, inclusive line range of the block, without a `^id` line of
+  // its own
+  startLine: number;
+  endLine: number;
+}
+
+export interface OutlineNode extends Section {
+  // Block IDs in the section's own text, before its first subheading
+  blocks: BlockId[];
+  children: OutlineNode[];
+}
+
+export interface NoteOutline {
+  lineCount: number;
+  // Block IDs before the first heading
+  blocks: BlockId[];
+  headings: OutlineNode[];
+}
+
+const LIST_ITEM_PATTERN = /^(\s*)(?:[-*+]|\d+[.)])\s/;
+
+// Accept headings written with or without their leading hashes
+function parseHeadingQuery(query: string): { level?: number; text: string } {
+  const match = query.trim().match(/^(#{1,6})\s+(.+)$/);
+  return match
+    ? { level: match[1].length, text: match[2] }
+    : { text: query.trim() };
+}
+
+/**
+ * Find the section under a heading. It runs until the next heading of the
+ * same or a higher level, so nested subheadings belong to it.
+ */
+export function findSection(content: string, heading: string): Section | null {
+  const query = parseHeadingQuery(heading);
+  const target = normalizeHeading(query.text);
+  const headings = parseHeadings(content);
+  const index = headings.findIndex(
+    (candidate) =>
+      normalizeHeading(candidate.text) === target &&
+      (query.level === undefined || candidate.level === query.level)
+  );
+  if (index === -1) return null;
+
+  const start = headings[index];
+  const next = headings
+    .slice(index + 1)
+    .find((candidate) => candidate.level <= start.level);
+  return {
+    heading: start,
+    startLine: start.line,
+    endLine: next ? next.line - 1 : splitLines(content).length,
+  };
+}
+
+/**
+ * Build the heading tree of a note, each heading with the line range of
+ * its section and the block IDs directly under it.
+ */
+export function noteOutline(content: string): NoteOutline {
+  const lineCount = splitLines(content).length;
+  const headings = parseHeadings(content);
+  const blocks = listBlockIds(content);
+  const outline: NoteOutline = {
+    lineCount,
+    blocks: blocks.filter(
+      (block) => headings.length === 0 || block.line < headings[0].line
+    ),
+    headings: [],
+  };
+
+  const stack: OutlineNode[] = [];
+  headings.forEach((heading, i) => {
+    const next = headings
+      .slice(i + 1)
+      .find((candidate) => candidate.level <= heading.level);
+    const ownEnd =
+      i + 1 < headings.length ? headings[i + 1].line : lineCount + 1;
+    const node: OutlineNode = {
+      heading,
+      startLine: heading.line,
+      endLine: next ? next.line - 1 : lineCount,
+      blocks: blocks.filter(
+        (block) => block.line >= heading.line && block.line < ownEnd
+      ),
+      children: [],
+    };
+    while (
+      stack.length > 0 &&
+      stack[stack.length - 1].heading.level >= heading.level
+    ) {
+      stack.pop();
+    }
+    (stack.length > 0
+      ? stack[stack.length - 1].children
+      : outline.headings
+    ).push(node);
+    stack.push(node);
+  });
+  return outline;
+}
+
+/**
+ * Find the block carrying `^blockId` the way Obsidian delimits it: a list
+ * item with its nested items, the paragraph ending in the ID, or the table,
+ * quote or other block right above an ID written on a line of its own.
+ */
+export function findBlock(content: string, blockId: string): BlockRange | null {
+  const line = findBlockLine(content, blockId);
+  if (line === null) return null;
+  const lines = splitLines(content);
+  const isBlank = (index: number) => lines[index - 1].trim() === "";
+
+  let endLine = line;
+  if (lines[line - 1].trim() === `^${blockId}`) {
+    endLine = line - 1;
+    while (endLine > 0 && isBlank(endLine)) endLine--;
+    if (endLine === 0) return { blockId, startLine: line, endLine: line };
+  }
+
+  const item = lines[endLine - 1].match(LIST_ITEM_PATTERN);
+  if (item) {
+    // Nested items and continuation lines are indented further
+    let last = endLine;
+    while (
+      last < lines.length &&
+      !isBlank(last + 1) &&
+      (lines[last].match(/^\s*/)?.[0].length ?? 0) > item[1].length
+    ) {
+      last++;
+    }
+    return { blockId, startLine: endLine, endLine: last };
+  }
+
+  let startLine = endLine;
+  while (
+    startLine > 1 &&
+    !isBlank(startLine - 1) &&
+    !/^#{1,6}\s/.test(lines[startLine - 2])
+  ) {
+    startLine--;
+  }
+  return { blockId, startLine, endLine };
+}
+
+/**
+ * Append `text` at the end of the section under `heading`, after its last
+ * non-blank line. The heading is added at the end of the note when it does
+ * not exist yet; without a heading the text goes at the end of the note.
+ */
+export function appendToSection(
+  content: string,
+  text: string,
+  heading?: string
+): string {
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  const lines = splitLines(content);
+  const block = splitLines(text.replace(/\s+$/, ""));
+  const section = heading ? findSection(content, heading) : null;
+
+  if (!section) {
+    while (lines.length > 0 && lines[lines.length - 1].trim() === "") {
+      lines.pop();
+    }
+    if (heading) {
+      const query = parseHeadingQuery(heading);
+      if (lines.length > 0) lines.push("");
+      lines.push(`${"#".repeat(query.level ?? 2)} ${query.text}`);
+    } else if (lines.length > 0 && block.length > 0) {
+      lines.push("");
+    }
+    return [...lines, ...block, ""].join(eol);
+  }
+
+  let insertAt = section.endLine;
+  while (insertAt > section.startLine && lines[insertAt - 1].trim() === "") {
+    insertAt--;
+  }
+  lines.splice(insertAt, 0, ...block);
+  if (insertAt === lines.length - block.length) lines.push("");
+  return lines.join(eol);
+}
@@ -0,0 +1,179 @@
+import { parseFrontmatter, splitFrontmatter } from "./frontmatter.js";
+import { markCodeLines, maskInlineCode, splitLines } from "./markdown.js";
+
+export interface TagOccurrence {
+  // Tag without the leading #, as written
+  tag: string;
+  // 1-based line number, or undefined for frontmatter tags
+  line?: number;
+}
+
+export interface TagNode {
+  // Full tag path, e.g. "project/alpha"
+  tag: string;
+  // Notes tagged with exactly this tag
+  direct: number;
+  // Notes tagged with this tag or any tag nested below it
+  notes: number;
+  children: TagNode[];
+}
+
+export interface TagQuery {
+  // Every one of these tags must be present
+  all?: string[];
+  // At least one of these tags must be present
+  any?: string[];
+  // None of these tags may be present
+  none?: string[];
+  // Whether "project" also matches "project/alpha" (default: true)
+  includeNested?: boolean;
+}
+
+// A # at the start of a line or after whitespace, followed by letters,
+// digits, _, - and / for nesting
+const INLINE_TAG_PATTERN = /(^|\s)#([\p{L}\p{N}_\-/]+)/gu;
+
+// Obsidian rejects purely numeric tags such as #2024 and empty segments
+function isValidTag(tag: string): boolean {
+  return (
+    /[^\p{N}/]/u.test(tag) && tag.split("/").every((part) => part.length > 0)
+  );
+}
+
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, "").replace(/\/+$/, "");
+}
+
+// Inline #tags of a single line outside code, in order of appearance
+export function lineTags(line: string): string[] {
+  const tags: string[] = [];
+  for (const match of maskInlineCode(line).matchAll(INLINE_TAG_PATTERN)) {
+    const tag = normalizeTag(match[2]);
+    if (isValidTag(tag)) tags.push(tag);
+  }
+  return tags;
+}
+
+/**
+ * Every tag of a note: frontmatter `tags` first, then inline #tags in the
+ * body. Tags inside code blocks and inline code are ignored.
+ */
+export function extractTags(content: string): TagOccurrence[] {
+  const occurrences: TagOccurrence[] = [];
+  let bodyStartLine = 1;
+  try {
+    const metadata = parseFrontmatter(content);
+    bodyStartLine = metadata.bodyStartLine;
+    for (const tag of metadata.tags.map(normalizeTag)) {
+      if (isValidTag(tag)) occurrences.push({ tag });
+    }
+  } catch {
+    // Malformed frontmatter contributes no tags, but still hides its lines
+    try {
+      bodyStartLine = splitFrontmatter(content).bodyStartLine;
+    } catch {
+      bodyStartLine = 1;
+    }
+  }
+
+  const lines = splitLines(content);
+  const inCode = markCodeLines(lines);
+  for (let i = bodyStartLine - 1; i < lines.length; i++) {
+    if (inCode[i]) continue;
+    for (const tag of lineTags(lines[i])) {
+      occurrences.push({ tag, line: i + 1 });
+    }
+  }
+  return occurrences;
+}
+
+// Distinct tags of a note, compared case-insensitively like Obsidian does
+export function noteTags(content: string): string[] {
+  const tags = new Map<string, string>();
+  for (const { tag } of extractTags(content)) {
+    const key = tag.toLowerCase();
+    if (!tags.has(key)) tags.set(key, tag);
+  }
+  return [...tags.values()];
+}
+
+// Whether a note tag satisfies a query tag, optionally through nesting
+export function tagMatches(
+  noteTag: string,
+  queryTag: string,
+  includeNested = true
+): boolean {
+  const tag = noteTag.toLowerCase();
+  const wanted = normalizeTag(queryTag).toLowerCase();
+  return tag === wanted || (includeNested && tag.startsWith(`${wanted}/`));
+}
+
+/**
+ * Whether a note with `tags` satisfies every part of `query`. A query with
+ * no tags at all matches nothing.
+ */
+export function matchesTagQuery(tags: string[], query: TagQuery): boolean {
+  const nested = query.includeNested ?? true;
+  const has = (wanted: string) =>
+    tags.some((tag) => tagMatches(tag, wanted, nested));
+  const all = query.all ?? [];
+  const any = query.any ?? [];
+  const none = query.none ?? [];
+  if (all.length === 0 && any.length === 0) return false;
+  return (
+    all.every(has) && (any.length === 0 || any.some(has)) && !none.some(has)
+  );
+}
+
+/**
+ * Build the nested tag hierarchy of a vault from each note's tags. Parent
+ * tags appear even when no note uses them directly, counting the notes
+ * tagged below them. Siblings are sorted by name.
+ */
+export function buildTagTree(tagsByNote: Map<string, string[]>): TagNode[] {
+  // lowercased tag -> display name, notes tagged exactly, notes below
+  const nodes = new Map<
+    string,
+    { tag: string; direct: Set<string>; notes: Set<string> }
+  >();
+  const node = (tag: string) => {
+    const key = tag.toLowerCase();
+    let existing = nodes.get(key);
+    if (!existing) {
+      existing = { tag, direct: new Set(), notes: new Set() };
+      nodes.set(key, existing);
+    }
+    return existing;
+  };
+
+  for (const [path, tags] of tagsByNote) {
+    for (const tag of tags) {
+      node(tag).direct.add(path);
+      const parts = tag.split("/");
+      for (let i = 1; i <= parts.length; i++) {
+        node(parts.slice(0, i).join("/")).notes.add(path);
+      }
+    }
+  }
+
+  const byParent = new Map<string, TagNode[]>();
+  for (const [key, { tag, direct, notes }] of nodes) {
+    const parent = key.includes("/") ? key.slice(0, key.lastIndexOf("/")) : "";
+    const siblings = byParent.get(parent) ?? [];
+    siblings.push({
+      tag,
+      direct: direct.size,
+      notes: notes.size,
+      children: [],
+    });
+    byParent.set(parent, siblings);
+  }
+  const attach = (parent: string): TagNode[] =>
+    (byParent.get(parent) ?? [])
+      .sort((a, b) => a.tag.localeCompare(b.tag))
+      .map((child) => ({
+        ...child,
+        children: attach(child.tag.toLowerCase()),
+      }));
+  return attach("");
+}
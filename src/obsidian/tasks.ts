@@ -0,0 +1,244 @@
+import { splitFrontmatter } from "./frontmatter.js";
+import { markCodeLines, splitLines } from "./markdown.js";
+import { lineTags, tagMatches } from "./tags.js";
+
+// Meaning of a checkbox symbol: " " todo, "x" done, "/" in progress and
+// "-" cancelled, as in the Tasks plugin; any other symbol is "other"
+export type TaskStatus =
+  | "todo"
+  | "in-progress"
+  | "done"
+  | "cancelled"
+  | "other";
+
+export type TaskPriority = "highest" | "high" | "medium" | "low" | "lowest";
+
+export type TaskDateField =
+  | "due"
+  | "scheduled"
+  | "start"
+  | "created"
+  | "done"
+  | "cancelled";
+
+export interface Task {
+  // 1-based line number
+  line: number;
+  // Character between the brackets, e.g. " ", "x" or "/"
+  symbol: string;
+  status: TaskStatus;
+  // Text after the checkbox, as written
+  text: string;
+  // Text without the Tasks plugin metadata and block ID
+  description: string;
+  priority?: TaskPriority;
+  // YYYY-MM-DD dates keyed by field
+  dates: Partial<Record<TaskDateField, string>>;
+  // Recurrence rule, e.g. "every week on Monday"
+  recurrence?: string;
+  tags: string[];
+  blockId?: string;
+}
+
+export interface TaskFilter {
+  // Statuses to include (default: all)
+  status?: TaskStatus[];
+  // Date the range applies to (default: due)
+  dateField?: TaskDateField;
+  // Inclusive YYYY-MM-DD bounds; tasks without the date are left out
+  from?: string;
+  to?: string;
+  // Tag of the task itself, including nested tags
+  tag?: string;
+}
+
+// Bullet or numbered list item (optionally in a quote or callout) with a
+// one-character checkbox
+const TASK_PATTERN =
+  /^(\s*(?:>\s*)*(?:[-*+]|\d+[.)])\s+\[)(.)\](?:(\s+)(.*))?$/;
+const DATE_EMOJI: Record<TaskDateField, string> = {
+  due: "📅",
+  scheduled: "⏳",
+  start: "🛫",
+  created: "➕",
+  done: "✅",
+  cancelled: "❌",
+};
+const PRIORITY_EMOJI: Record<string, TaskPriority> = {
+  "🔺": "highest",
+  "⏫": "high",
+  "🔼": "medium",
+  "🔽": "low",
+  "⏬": "lowest",
+};
+const METADATA_EMOJI = "📅⏳🛫➕✅❌🔁🔺⏫🔼🔽⏬";
+// A recurrence rule runs until the next metadata emoji or block ID
+const RECURRENCE_PATTERN = new RegExp(
+  `🔁\\uFE0F?\\s*([^${METADATA_EMOJI}]*?)\\s*(?=[${METADATA_EMOJI}]|\\^[A-Za-z0-9-]+\\s*$|$)`,
+  "u"
+);
+const BLOCK_ID_PATTERN = /\s*\^([A-Za-z0-9-]+)\s*$/;
+
+export function taskStatus(symbol: string): TaskStatus {
+  switch (symbol) {
+    case " ":
+      return "todo";
+    case "x":
+    case "X":
+      return "done";
+    case "/":
+      return "in-progress";
+    case "-":
+      return "cancelled";
+    default:
+      return "other";
+  }
+}
+
+function datePattern(field: TaskDateField): RegExp {
+  return new RegExp(
+    `${DATE_EMOJI[field]}\\uFE0F?\\s*(\\d{4}-\\d{2}-\\d{2})`,
+    "u"
+  );
+}
+
+// Parse the text after a checkbox into its description and metadata
+function parseTaskText(
+  text: string
+): Omit<Task, "line" | "symbol" | "status" | "text"> {
+  let description = text;
+  const dates: Task["dates"] = {};
+  for (const field of Object.keys(DATE_EMOJI) as TaskDateField[]) {
+    const pattern = datePattern(field);
+    const match = description.match(pattern);
+    if (match) {
+      dates[field] = match[1];
+      description = description.replace(pattern, " ");
+    }
+  }
+
+  let priority: TaskPriority | undefined;
+  for (const [emoji, level] of Object.entries(PRIORITY_EMOJI)) {
+    if (description.includes(emoji)) {
+      priority ??= level;
+      description = description.split(emoji).join(" ");
+    }
+  }
+
+  const recurrence = description.match(RECURRENCE_PATTERN);
+  if (recurrence) description = description.replace(RECURRENCE_PATTERN, " ");
+
+  const blockId = description.match(BLOCK_ID_PATTERN)?.[1];
+  if (blockId) description = description.replace(BLOCK_ID_PATTERN, "");
+
+  return {
+    description: description.replace(/\s+/g, " ").trim(),
+    ...(priority ? { priority } : {}),
+    dates,
+    ...(recurrence?.[1] ? { recurrence: recurrence[1] } : {}),
+    tags: lineTags(text),
+    ...(blockId ? { blockId } : {}),
+  };
+}
+
+// Parse one line as a task, or return null when it is not one
+function parseTaskLine(line: string, lineNumber: number): Task | null {
+  const match = line.match(TASK_PATTERN);
+  if (!match) return null;
+  const [, , symbol, , text = ""] = match;
+  return {
+    line: lineNumber,
+    symbol,
+    status: taskStatus(symbol),
+    text,
+    ...parseTaskText(text),
+  };
+}
+
+// Index of the first body line, skipping frontmatter (even malformed)
+function bodyStartIndex(content: string): number {
+  try {
+    return splitFrontmatter(content).bodyStartLine - 1;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Every checkbox task of a note, outside frontmatter and code blocks, with
+ * the Tasks plugin's emoji metadata: 📅 due, ⏳ scheduled, 🛫 start,
+ * ➕ created, ✅ done, ❌ cancelled, 🔁 recurrence and 🔺⏫🔼🔽⏬ priority.
+ */
+export function extractTasks(content: string): Task[] {
+  const lines = splitLines(content);
+  const inCode = markCodeLines(lines);
+  const tasks: Task[] = [];
+  for (let i = bodyStartIndex(content); i < lines.length; i++) {
+    if (inCode[i]) continue;
+    const task = parseTaskLine(lines[i], i + 1);
+    if (task) tasks.push(task);
+  }
+  return tasks;
+}
+
+export function matchesTaskFilter(task: Task, filter: TaskFilter): boolean {
+  if (filter.status && !filter.status.includes(task.status)) return false;
+  if (filter.from || filter.to) {
+    const date = task.dates[filter.dateField ?? "due"];
+    if (!date) return false;
+    if (filter.from && date < filter.from) return false;
+    if (filter.to && date > filter.to) return false;
+  }
+  if (filter.tag) {
+    const tag = filter.tag;
+    if (!task.tags.some((taskTag) => tagMatches(taskTag, tag))) return false;
+  }
+  return true;
+}
+
+/**
+ * Set the checkbox of the task on `line` to `symbol`, by default toggling
+ * between done and todo. Completing a task stamps ✅ with `today`
+ * (YYYY-MM-DD) unless it has a done date; reopening it removes the stamp.
+ * Throws when the line is not a task.
+ */
+export function setTaskStatus(
+  content: string,
+  line: number,
+  options: { symbol?: string; today?: string } = {}
+): { content: string; before: Task; after: Task } {
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  const lines = splitLines(content);
+  const index = line - 1;
+  const before =
+    index >= bodyStartIndex(content) &&
+    index < lines.length &&
+    !markCodeLines(lines)[index]
+      ? parseTaskLine(lines[index], line)
+      : null;
+  if (!before) {
+    throw new Error(`Line ${line} is not a task.`);
+  }
+
+  const symbol = options.symbol ?? (before.status === "done" ? " " : "x");
+  if (symbol.length !== 1 || symbol === "]") {
+    throw new Error(`Invalid task status symbol "${symbol}".`);
+  }
+  const match = lines[index].match(TASK_PATTERN) as RegExpMatchArray;
+  const [, prefix, , space = " "] = match;
+  let text = before.text;
+  const done = taskStatus(symbol) === "done";
+  if (done && !before.dates.done && options.today) {
+    // Keep a trailing block ID at the end of the line
+    const blockId = text.match(BLOCK_ID_PATTERN);
+    const stamp = `✅ ${options.today}`;
+    const rest = blockId ? text.slice(0, blockId.index) : text.trimEnd();
+    text = `${rest ? `${rest} ` : ""}${stamp}${blockId?.[0] ?? ""}`;
+  } else if (!done && before.dates.done) {
+    text = text.replace(/\s*✅\uFE0F?\s*\d{4}-\d{2}-\d{2}/u, "");
+  }
+
+  lines[index] = `${prefix}${symbol}]${text ? `${space}${text}` : ""}`;
+  const after = parseTaskLine(lines[index], line) as Task;
+  return { content: lines.join(eol), before, after };
+}
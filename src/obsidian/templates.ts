@@ -0,0 +1,211 @@
+import { formatMomentDate } from "./dates.js";
+
+export const TEMPLATES_CONFIG = ".obsidian/templates.json";
+export const TEMPLATER_CONFIG =
+  ".obsidian/plugins/templater-obsidian/data.json";
+
+export interface TemplateSettings {
+  // Template folders of the core Templates plugin and of Templater
+  folders: { path: string; source: "templates" | "templater" }[];
+  dateFormat: string;
+  timeFormat: string;
+}
+
+export interface TemplateContext {
+  title: string;
+  // Date the note is for; also used for {{time}} unless `now` is given
+  date: Date;
+  now?: Date;
+  dateFormat?: string;
+  timeFormat?: string;
+  // Path of the note being created, for Templater's tp.file helpers
+  path?: string;
+  // Caller-supplied values for {{name}} placeholders
+  variables?: Record<string, string>;
+}
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*(?::([^}]*))?\}\}/g;
+const TEMPLATER_PATTERN = /<%([-_]?)(\*?)([\s\S]*?)[-_]?%>/g;
+const TEMPLATER_CALL_PATTERN = /^tp\.(file|date)\.(\w+)(?:\((.*)\))?$/;
+const BUILTIN_VARIABLES = new Set(["title", "date", "time"]);
+
+function parseJson(text: string | undefined): Record<string, unknown> {
+  if (!text) return {};
+  try {
+    const value = JSON.parse(text);
+    return typeof value === "object" && value !== null ? value : {};
+  } catch {
+    return {};
+  }
+}
+
+function folderSetting(value: unknown): string {
+  return typeof value === "string"
+    ? value.trim().replace(/^\/+|\/+$/g, "")
+    : "";
+}
+
+/**
+ * Read the template folders and date/time formats from the core Templates
+ * plugin (.obsidian/templates.json) and Templater's settings.
+ */
+export function parseTemplateSettings(configs: {
+  templates?: string;
+  templater?: string;
+}): TemplateSettings {
+  const core = parseJson(configs.templates);
+  const templater = parseJson(configs.templater);
+  const folders: TemplateSettings["folders"] = [];
+  const coreFolder = folderSetting(core.folder);
+  if (coreFolder) folders.push({ path: coreFolder, source: "templates" });
+  const templaterFolder = folderSetting(templater.templates_folder);
+  if (templaterFolder && templaterFolder !== coreFolder) {
+    folders.push({ path: templaterFolder, source: "templater" });
+  }
+  return {
+    folders,
+    dateFormat:
+      typeof core.dateFormat === "string" && core.dateFormat
+        ? core.dateFormat
+        : "YYYY-MM-DD",
+    timeFormat:
+      typeof core.timeFormat === "string" && core.timeFormat
+        ? core.timeFormat
+        : "HH:mm",
+  };
+}
+
+/**
+ * Names of the caller-supplied {{placeholders}} a template expects, i.e.
+ * everything except the built-in title, date and time.
+ */
+export function templateVariables(template: string): string[] {
+  const names = new Set<string>();
+  for (const match of template.matchAll(VARIABLE_PATTERN)) {
+    if (!BUILTIN_VARIABLES.has(match[1].toLowerCase())) names.add(match[1]);
+  }
+  return [...names];
+}
+
+// Split simple Templater arguments: quoted strings, numbers and booleans
+function parseArguments(
+  text: string | undefined
+): Array<string | number | boolean> {
+  if (!text?.trim()) return [];
+  const args: Array<string | number | boolean> = [];
+  for (const match of text.matchAll(
+    /"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|([^,\s]+)/g
+  )) {
+    if (match[1] !== undefined || match[2] !== undefined) {
+      args.push((match[1] ?? match[2]).replace(/\\(.)/g, "$1"));
+    } else if (match[3] === "true" || match[3] === "false") {
+      args.push(match[3] === "true");
+    } else {
+      const number = Number(match[3]);
+      args.push(Number.isNaN(number) ? match[3] : number);
+    }
+  }
+  return args;
+}
+
+function shiftDays(date: Date, days: number): Date {
+  const shifted = new Date(date);
+  shifted.setDate(shifted.getDate() + days);
+  return shifted;
+}
+
+// Evaluate the Templater commands that need no JavaScript runtime; anything
+// else returns undefined and is left in place
+function evaluateTemplaterCommand(
+  command: string,
+  context: TemplateContext
+): string | undefined {
+  const match = command.trim().match(TEMPLATER_CALL_PATTERN);
+  if (!match) return undefined;
+  const [, module, name, rawArgs] = match;
+  const args = parseArguments(rawArgs);
+  const format = (fallback: string) =>
+    typeof args[0] === "string" && args[0] ? args[0] : fallback;
+  const now = context.now ?? context.date;
+  const path = context.path ?? `${context.title}.md`;
+  const folder = path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+
+  if (module === "file") {
+    switch (name) {
+      case "title":
+        return context.title;
+      case "path":
+        return path;
+      case "folder":
+        return args[0] === true
+          ? folder
+          : folder.slice(folder.lastIndexOf("/") + 1);
+      case "creation_date":
+      case "last_modified_date":
+        return formatMomentDate(now, format("YYYY-MM-DD HH:mm"));
+      default:
+        return undefined;
+    }
+  }
+
+  switch (name) {
+    case "now": {
+      const offset = typeof args[1] === "number" ? args[1] : 0;
+      return formatMomentDate(shiftDays(now, offset), format("YYYY-MM-DD"));
+    }
+    case "today":
+      return formatMomentDate(now, format("YYYY-MM-DD"));
+    case "tomorrow":
+      return formatMomentDate(shiftDays(now, 1), format("YYYY-MM-DD"));
+    case "yesterday":
+      return formatMomentDate(shiftDays(now, -1), format("YYYY-MM-DD"));
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Fill in the variables understood by Obsidian's core Templates and Daily
+ * Notes plugins ({{title}}, {{date}}, {{time}}, {{date:FORMAT}} and
+ * {{time:FORMAT}}), caller-supplied {{variables}}, and the Templater
+ * commands for file names and dates. Other placeholders are left as is.
+ */
+export function renderTemplate(
+  template: string,
+  context: TemplateContext
+): string {
+  const variables = context.variables ?? {};
+  return template
+    .replace(VARIABLE_PATTERN, (placeholder, name: string, format?: string) => {
+      switch (name.toLowerCase()) {
+        case "title":
+          return context.title;
+        case "date":
+          return formatMomentDate(
+            context.date,
+            format?.trim() || context.dateFormat || "YYYY-MM-DD"
+          );
+        case "time":
+          return formatMomentDate(
+            context.now ?? context.date,
+            format?.trim() || context.timeFormat || "HH:mm"
+          );
+        default:
+          return Object.prototype.hasOwnProperty.call(variables, name)
+            ? variables[name]
+            : placeholder;
+      }
+    })
+    .replace(
+      TEMPLATER_PATTERN,
+      (command, _trim, script: string, body: string) =>
+        script ? command : (evaluateTemplaterCommand(body, context) ?? command)
+    );
+}
+
+/**
+ * Templater commands left after rendering, which need Obsidian to run.
+ */
+export function unresolvedTemplaterCommands(rendered: string): string[] {
+  return [...rendered.matchAll(TEMPLATER_PATTERN)].map((match) => match[0]);
+}
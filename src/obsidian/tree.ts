@@ -0,0 +1,167 @@
+import type { RepoTreeEntry } from "../github/types.js";
+import { matchesAnyGlob } from "./glob.js";
+
+export interface VaultTreeOptions {
+  // Folder to list, relative to the repository root ("" for the root)
+  path?: string;
+  // Maximum depth below `path`; 1 lists only direct children
+  maxDepth?: number;
+  include?: string[];
+  exclude?: string[];
+  // File extensions to keep, with or without the leading dot
+  extensions?: string[];
+  // Obsidian's `userIgnoreFilters` from .obsidian/app.json
+  ignoreFilters?: string[];
+  // Keep dot-folders such as .obsidian and .git
+  includeHidden?: boolean;
+}
+
+export interface VaultTreeEntry {
+  path: string;
+  type: "file" | "folder";
+  size?: number;
+  depth: number;
+}
+
+/**
+ * Read `userIgnoreFilters` ("Excluded files") from .obsidian/app.json.
+ */
+export function parseUserIgnoreFilters(appJson: string): string[] {
+  try {
+    const config = JSON.parse(appJson) as { userIgnoreFilters?: unknown };
+    return Array.isArray(config.userIgnoreFilters)
+      ? config.userIgnoreFilters.filter(
+          (filter): filter is string => typeof filter === "string"
+        )
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+// Obsidian filters are path prefixes, or regular expressions wrapped in /.../
+export function isIgnoredByObsidian(path: string, filters: string[]): boolean {
+  return filters.some((filter) => {
+    const regExp = filter.match(/^\/(.+)\/([a-z]*)$/);
+    if (regExp) {
+      try {
+        return new RegExp(regExp[1], regExp[2]).test(path);
+      } catch {
+        return false;
+      }
+    }
+    // `${path}/` lets a filter like "Archive/" hide the folder itself
+    return path.startsWith(filter) || `${path}/`.startsWith(filter);
+  });
+}
+
+function isHidden(path: string): boolean {
+  return path.split("/").some((segment) => segment.startsWith("."));
+}
+
+/**
+ * Filter a recursive repository tree down to the entries of one vault
+ * folder, applying depth, glob, extension and Obsidian ignore filters.
+ */
+export function filterVaultTree(
+  entries: RepoTreeEntry[],
+  options: VaultTreeOptions = {}
+): VaultTreeEntry[] {
+  const root = (options.path ?? "").replace(/^\/+|\/+$/g, "");
+  const prefix = root ? `${root}/` : "";
+  const extensions = (options.extensions ?? []).map((extension) =>
+    extension.replace(/^\./, "").toLowerCase()
+  );
+  const hasFileFilters =
+    (options.include?.length ?? 0) > 0 || extensions.length > 0;
+
+  const depthOf = (path: string) => path.slice(prefix.length).split("/").length;
+  const withinScope = (path: string) =>
+    path.startsWith(prefix) &&
+    (options.maxDepth === undefined || depthOf(path) <= options.maxDepth) &&
+    (options.includeHidden || !isHidden(path.slice(prefix.length))) &&
+    !isIgnoredByObsidian(path, options.ignoreFilters ?? []) &&
+    !matchesAnyGlob(path, options.exclude ?? []);
+
+  const files = entries.filter((entry) => {
+    if (entry.type !== "blob" || !withinScope(entry.path)) return false;
+    if (
+      options.include?.length &&
+      !matchesAnyGlob(entry.path, options.include)
+    ) {
+      return false;
+    }
+    if (extensions.length > 0) {
+      const dotIndex = entry.path.lastIndexOf(".");
+      const extension =
+        dotIndex === -1 ? "" : entry.path.slice(dotIndex + 1).toLowerCase();
+      if (!extensions.includes(extension)) return false;
+    }
+    return true;
+  });
+
+  // With file filters active, only keep folders that lead to a kept file
+  const neededFolders = new Set<string>();
+  for (const file of files) {
+    const parts = file.path.split("/");
+    for (let i = 1; i < parts.length; i++) {
+      neededFolders.add(parts.slice(0, i).join("/"));
+    }
+  }
+  const folders = entries.filter(
+    (entry) =>
+      entry.type === "tree" &&
+      withinScope(entry.path) &&
+      (!hasFileFilters || neededFolders.has(entry.path))
+  );
+
+  return [...folders, ...files]
+    .map((entry) => ({
+      path: entry.path,
+      type: entry.type === "tree" ? ("folder" as const) : ("file" as const),
+      ...(entry.type === "blob" ? { size: entry.size ?? 0 } : {}),
+      depth: depthOf(entry.path),
+    }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Render filtered entries as an indented outline, folders before files.
+ */
+export function renderVaultTree(entries: VaultTreeEntry[], root = ""): string {
+  const prefix = root ? `${root.replace(/\/+$/, "")}/` : "";
+  const children = new Map<string, VaultTreeEntry[]>();
+  for (const entry of entries) {
+    const relative = entry.path.slice(prefix.length);
+    const parent = relative.includes("/")
+      ? relative.slice(0, relative.lastIndexOf("/"))
+      : "";
+    children.set(parent, [...(children.get(parent) ?? []), entry]);
+  }
+
+  const lines: string[] = [];
+  const walk = (folder: string, indent: string) => {
+    const items = [...(children.get(folder) ?? [])].sort(
+      (a, b) =>
+        (a.type === b.type ? 0 : a.type === "folder" ? -1 : 1) ||
+        a.path.localeCompare(b.path)
+    );
+    for (const item of items) {
+      const name = item.path.slice(item.path.lastIndexOf("/") + 1);
+      if (item.type === "folder") {
+        lines.push(`${indent}📁 ${name}/`);
+        walk(item.path.slice(prefix.length), `${indent}  `);
+      } else {
+        lines.push(`${indent}📄 ${name} (${formatSize(item.size ?? 0)})`);
+      }
+    }
+  };
+  walk("", "");
+  return lines.join("\n");
+}
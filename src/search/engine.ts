@@ -0,0 +1,306 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { RepoTreeEntry } from "../github/types.js";
+import { FullTextIndex, type SerializedIndex } from "./fulltext.js";
+import { readTarball } from "./tar.js";
+
+// Where the engine gets repository contents from; GithubClient supplies
+// the GitHub-backed implementation
+export interface SearchSource {
+  // Root tree SHA of a ref and the files the index may contain
+  getTree(ref?: string): Promise<{ sha: string; entries: RepoTreeEntry[] }>;
+  // Gzipped tarball of a ref, with every path under one top-level folder
+  downloadTarball(ref?: string): Promise<Buffer>;
+  getBlob(sha: string): Promise<Buffer>;
+}
+
+export interface LocalSearchOptions {
+  // Folder to persist indexes in between runs (default: memory only)
+  cacheDir?: string;
+  // Distinguishes repositories sharing a cache folder, e.g. "owner/repo"
+  cacheKey: string;
+  // Skip the tree check when the index was checked this recently
+  refreshIntervalMs?: number;
+  // Download a fresh tarball instead of single blobs above this many changes
+  maxIncrementalFiles?: number;
+  // Larger files are left out of the index
+  maxFileSize?: number;
+}
+
+export interface IndexRefresh {
+  mode: "built" | "updated" | "unchanged";
+  added: number;
+  updated: number;
+  removed: number;
+}
+
+interface IndexState {
+  index: FullTextIndex;
+  treeSha: string;
+  checkedAt: number;
+}
+
+interface PersistedIndex {
+  treeSha: string;
+  index: SerializedIndex;
+}
+
+const DEFAULT_REFRESH_INTERVAL_MS = 30_000;
+const DEFAULT_MAX_INCREMENTAL_FILES = 200;
+const DEFAULT_MAX_FILE_SIZE = 1024 * 1024;
+const BLOB_BATCH_SIZE = 8;
+const BINARY_EXTENSIONS = new Set([
+  "png",
+  "jpg",
+  "jpeg",
+  "gif",
+  "webp",
+  "bmp",
+  "ico",
+  "tif",
+  "tiff",
+  "heic",
+  "pdf",
+  "zip",
+  "gz",
+  "tar",
+  "7z",
+  "mp3",
+  "wav",
+  "m4a",
+  "ogg",
+  "flac",
+  "mp4",
+  "mov",
+  "webm",
+  "mkv",
+  "woff",
+  "woff2",
+  "ttf",
+  "otf",
+  "exe",
+  "dll",
+  "so",
+  "dylib",
+]);
+
+// SHA git gives a blob with this content, to compare with tree entries
+export function gitBlobSha(content: Buffer): string {
+  return createHash("sha1")
+    .update(`blob ${content.length}\0`)
+    .update(content)
+    .digest("hex");
+}
+
+// Text of a file, or "" for binary content that is indexed without terms
+function decodeText(content: Buffer): string {
+  return content.subarray(0, 8000).includes(0) ? "" : content.toString("utf8");
+}
+
+/**
+ * Full-text search over a repository without GitHub code search: the first
+ * search of a ref downloads its tarball and indexes every text file, later
+ * searches diff the tree against the indexed blob SHAs and fetch only the
+ * files that changed. Indexes can be persisted to disk between runs.
+ */
+export class LocalSearchEngine {
+  private states = new Map<string, IndexState>();
+  private pending = new Map<
+    string,
+    Promise<{ state: IndexState; refresh: IndexRefresh }>
+  >();
+
+  constructor(
+    private source: SearchSource,
+    private options: LocalSearchOptions
+  ) {}
+
+  /**
+   * The index of `ref` (default branch if unset), built or refreshed as
+   * needed. Concurrent calls for the same ref share one refresh.
+   */
+  async getIndex(ref?: string): Promise<{
+    index: FullTextIndex;
+    treeSha: string;
+    refresh: IndexRefresh;
+  }> {
+    const key = ref ?? "";
+    let pending = this.pending.get(key);
+    if (!pending) {
+      pending = this.refresh(key, ref).finally(() => this.pending.delete(key));
+      this.pending.set(key, pending);
+    }
+    const { state, refresh } = await pending;
+    return { index: state.index, treeSha: state.treeSha, refresh };
+  }
+
+  private async refresh(
+    key: string,
+    ref?: string
+  ): Promise<{ state: IndexState; refresh: IndexRefresh }> {
+    const unchanged: IndexRefresh = {
+      mode: "unchanged",
+      added: 0,
+      updated: 0,
+      removed: 0,
+    };
+    const known = this.states.get(key) ?? (await this.load(key));
+    const interval =
+      this.options.refreshIntervalMs ?? DEFAULT_REFRESH_INTERVAL_MS;
+    if (known && Date.now() - known.checkedAt < interval) {
+      return { state: known, refresh: unchanged };
+    }
+
+    const tree = await this.source.getTree(ref);
+    const files = tree.entries.filter((entry) => entry.type === "blob");
+    let state: IndexState;
+    let refresh: IndexRefresh;
+
+    const wanted = new Set(files.map((entry) => entry.path));
+
+    if (known?.treeSha === tree.sha) {
+      // The tree SHA covers the whole repository, but the entries are
+      // filtered: drop paths a stricter read policy no longer returns
+      const hidden = known.index.paths().filter((path) => !wanted.has(path));
+      for (const path of hidden) known.index.remove(path);
+      state = { ...known, checkedAt: Date.now() };
+      refresh =
+        hidden.length > 0
+          ? { mode: "updated", added: 0, updated: 0, removed: hidden.length }
+          : unchanged;
+      if (hidden.length > 0) await this.save(key, state);
+    } else {
+      const changed = files.filter(
+        (entry) => known?.index.sha(entry.path) !== entry.sha
+      );
+      const maxIncremental =
+        this.options.maxIncrementalFiles ?? DEFAULT_MAX_INCREMENTAL_FILES;
+      if (!known || changed.length > maxIncremental) {
+        const index = await this.buildFromTarball(files, ref);
+        // Content that differs from the tree (the branch moved meanwhile)
+        // leaves the tree SHA unset so the next search diffs again
+        const consistent = files.every(
+          (entry) => index.sha(entry.path) === entry.sha
+        );
+        state = {
+          index,
+          treeSha: consistent ? tree.sha : "",
+          checkedAt: Date.now(),
+        };
+        refresh = { mode: "built", added: index.size, updated: 0, removed: 0 };
+      } else {
+        const index = known.index;
+        const removed = index.paths().filter((path) => !wanted.has(path));
+        for (const path of removed) index.remove(path);
+        let added = 0;
+        for (let i = 0; i < changed.length; i += BLOB_BATCH_SIZE) {
+          const batch = changed.slice(i, i + BLOB_BATCH_SIZE);
+          const texts = await Promise.all(
+            batch.map(async (entry) =>
+              this.hasText(entry)
+                ? decodeText(await this.source.getBlob(entry.sha))
+                : ""
+            )
+          );
+          for (const [j, entry] of batch.entries()) {
+            if (index.sha(entry.path) === undefined) added++;
+            index.add(entry.path, entry.sha, texts[j]);
+          }
+        }
+        state = { index, treeSha: tree.sha, checkedAt: Date.now() };
+        refresh = {
+          mode: "updated",
+          added,
+          updated: changed.length - added,
+          removed: removed.length,
+        };
+      }
+      await this.save(key, state);
+    }
+
+    this.states.set(key, state);
+    return { state, refresh };
+  }
+
+  // Whether a file's content is indexed; other files are listed by path only
+  private hasText(entry: RepoTreeEntry): boolean {
+    const maxSize = this.options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+    if ((entry.size ?? 0) > maxSize) return false;
+    const name = entry.path.slice(entry.path.lastIndexOf("/") + 1);
+    const dot = name.lastIndexOf(".");
+    return (
+      dot === -1 || !BINARY_EXTENSIONS.has(name.slice(dot + 1).toLowerCase())
+    );
+  }
+
+  // Index the text of `files` from the ref's tarball, with blob SHAs
+  // computed from the archived content rather than taken from the tree
+  private async buildFromTarball(
+    files: RepoTreeEntry[],
+    ref?: string
+  ): Promise<FullTextIndex> {
+    const archive = await this.source.downloadTarball(ref);
+    const contents = new Map(
+      readTarball(archive, { stripComponents: 1 }).map((entry) => [
+        entry.path,
+        entry.content,
+      ])
+    );
+    const index = new FullTextIndex();
+    for (const entry of files) {
+      if (!this.hasText(entry)) {
+        index.add(entry.path, entry.sha, "");
+        continue;
+      }
+      const content =
+        contents.get(entry.path) ?? (await this.source.getBlob(entry.sha));
+      index.add(entry.path, gitBlobSha(content), decodeText(content));
+    }
+    return index;
+  }
+
+  private cacheFile(key: string): string | undefined {
+    if (!this.options.cacheDir) return undefined;
+    const name = `${this.options.cacheKey}@${key || "HEAD"}`.replace(
+      /[^\w.-]+/g,
+      "_"
+    );
+    return join(this.options.cacheDir, `${name}.json`);
+  }
+
+  private async load(key: string): Promise<IndexState | undefined> {
+    const file = this.cacheFile(key);
+    if (!file) return undefined;
+    try {
+      const data = JSON.parse(await readFile(file, "utf8")) as PersistedIndex;
+      return {
+        index: FullTextIndex.fromJSON(data.index),
+        treeSha: data.treeSha,
+        checkedAt: 0,
+      };
+    } catch {
+      // Missing or unreadable caches are rebuilt
+      return undefined;
+    }
+  }
+
+  private async save(key: string, state: IndexState): Promise<void> {
+    const file = this.cacheFile(key);
+    if (!file || !this.options.cacheDir) return;
+    const data: PersistedIndex = {
+      treeSha: state.treeSha,
+      index: state.index.toJSON(),
+    };
+    try {
+      await mkdir(this.options.cacheDir, { recursive: true });
+      await writeFile(file, JSON.stringify(data));
+    } catch (error) {
+      console.error(
+        `Could not save the search index to ${file}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+}
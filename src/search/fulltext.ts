@@ -0,0 +1,339 @@
+/**
+ * In-memory inverted index over file texts with BM25 ranking. Queries are
+ * whitespace-separated clauses that must all match: plain terms, prefixes
+ * (`meet*`) and quoted phrases (`"weekly review"`).
+ */
+
+import { type Highlight, type Range, clipHighlight } from "./highlight.js";
+
+export interface SearchHit {
+  path: string;
+  score: number;
+}
+
+export interface Snippet extends Highlight {
+  // 1-based line number
+  line: number;
+}
+
+export interface SerializedIndex {
+  version: 1;
+  documents: Array<{ path: string; sha: string; text: string }>;
+}
+
+type QueryClause =
+  | { kind: "term"; term: string }
+  | { kind: "prefix"; prefix: string }
+  | { kind: "phrase"; terms: string[] };
+
+interface IndexedDocument {
+  sha: string;
+  text: string;
+  length: number;
+  terms: string[];
+}
+
+// BM25 parameters: term frequency saturation and document length weight
+const K1 = 1.2;
+const B = 0.75;
+const SNIPPET_LENGTH = 200;
+const TOKEN_PATTERN = /[\p{L}\p{N}_]+/gu;
+
+/**
+ * Split text into lowercase terms, folding accents so "café" matches
+ * "cafe".
+ */
+export function tokenize(text: string): string[] {
+  return (
+    text
+      .normalize("NFKD")
+      .replace(/\p{M}/gu, "")
+      .toLowerCase()
+      .match(TOKEN_PATTERN) ?? []
+  );
+}
+
+function parseQuery(query: string): QueryClause[] {
+  const clauses: QueryClause[] = [];
+  for (const match of query.matchAll(/"([^"]*)"?|(\S+)/g)) {
+    const quoted = match[1] !== undefined;
+    const word = quoted ? match[1] : match[2];
+    const terms = tokenize(word);
+    if (terms.length === 0) continue;
+    if (terms.length > 1) {
+      clauses.push({ kind: "phrase", terms });
+    } else if (!quoted && word.endsWith("*")) {
+      clauses.push({ kind: "prefix", prefix: terms[0] });
+    } else {
+      clauses.push({ kind: "term", term: terms[0] });
+    }
+  }
+  return clauses;
+}
+
+// Start positions of `terms` as consecutive tokens
+function phraseStarts(positions: number[][]): number[] {
+  const rest = positions.slice(1).map((list) => new Set(list));
+  return positions[0].filter((start) =>
+    rest.every((set, i) => set.has(start + i + 1))
+  );
+}
+
+export class FullTextIndex {
+  private documents = new Map<string, IndexedDocument>();
+  // term -> path -> token positions
+  private postings = new Map<string, Map<string, number[]>>();
+  private totalLength = 0;
+  private sortedTerms?: string[];
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  paths(): string[] {
+    return [...this.documents.keys()];
+  }
+
+  // Blob SHA the indexed text of `path` came from
+  sha(path: string): string | undefined {
+    return this.documents.get(path)?.sha;
+  }
+
+  text(path: string): string | undefined {
+    return this.documents.get(path)?.text;
+  }
+
+  add(path: string, sha: string, text: string): void {
+    this.remove(path);
+    const tokens = tokenize(text);
+    for (const [position, term] of tokens.entries()) {
+      let byPath = this.postings.get(term);
+      if (!byPath) {
+        byPath = new Map();
+        this.postings.set(term, byPath);
+      }
+      const positions = byPath.get(path);
+      if (positions) {
+        positions.push(position);
+      } else {
+        byPath.set(path, [position]);
+      }
+    }
+    this.documents.set(path, {
+      sha,
+      text,
+      length: tokens.length,
+      terms: [...new Set(tokens)],
+    });
+    this.totalLength += tokens.length;
+    this.sortedTerms = undefined;
+  }
+
+  remove(path: string): void {
+    const document = this.documents.get(path);
+    if (!document) return;
+    for (const term of document.terms) {
+      const byPath = this.postings.get(term);
+      byPath?.delete(path);
+      if (byPath?.size === 0) this.postings.delete(term);
+    }
+    this.documents.delete(path);
+    this.totalLength -= document.length;
+    this.sortedTerms = undefined;
+  }
+
+  /**
+   * Rank the documents matching every clause of `query` by BM25, best
+   * first. `filter` limits the search to some paths.
+   */
+  search(query: string, filter?: (path: string) => boolean): SearchHit[] {
+    const clauses = parseQuery(query);
+    if (clauses.length === 0) return [];
+    let scores: Map<string, number> | undefined;
+    for (const clause of clauses) {
+      const clauseScores = this.scoreClause(clause, filter);
+      if (scores) {
+        for (const [path, score] of scores) {
+          const clauseScore = clauseScores.get(path);
+          if (clauseScore === undefined) {
+            scores.delete(path);
+          } else {
+            scores.set(path, score + clauseScore);
+          }
+        }
+      } else {
+        scores = clauseScores;
+      }
+    }
+    return [...(scores ?? [])]
+      .map(([path, score]) => ({ path, score }))
+      .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+  }
+
+  /**
+   * The first line of `path` that matches the most clauses of `query`,
+   * cut to `maxLength` characters around the first match, with the
+   * ranges of every match on it.
+   */
+  snippet(
+    path: string,
+    query: string,
+    maxLength = SNIPPET_LENGTH
+  ): Snippet | undefined {
+    const text = this.text(path);
+    if (text === undefined) return undefined;
+    const clauses = parseQuery(query);
+    let best: { line: number; matched: number; ranges: Range[] } | undefined;
+    const lines = text.split(/\r?\n/);
+    for (const [i, line] of lines.entries()) {
+      const words = [...line.matchAll(TOKEN_PATTERN)];
+      const tokens = words.map((word) => tokenize(word[0])[0] ?? "");
+      let matched = 0;
+      const ranges: Range[] = [];
+      for (const clause of clauses) {
+        const found = this.matchesInLine(clause, tokens).map(
+          ([first, last]): Range => [
+            words[first].index ?? 0,
+            (words[last].index ?? 0) + words[last][0].length,
+          ]
+        );
+        if (found.length > 0) matched++;
+        ranges.push(...found);
+      }
+      if (matched > (best?.matched ?? 0)) {
+        best = { line: i + 1, matched, ranges };
+        if (matched === clauses.length) break;
+      }
+    }
+    if (!best) return undefined;
+    const raw = lines[best.line - 1];
+    const lead = raw.length - raw.trimStart().length;
+    const highlight = clipHighlight(
+      raw.trim(),
+      best.ranges.map(([start, end]): Range => [start - lead, end - lead]),
+      maxLength
+    );
+    return { line: best.line, ...highlight };
+  }
+
+  toJSON(): SerializedIndex {
+    return {
+      version: 1,
+      documents: [...this.documents].map(([path, document]) => ({
+        path,
+        sha: document.sha,
+        text: document.text,
+      })),
+    };
+  }
+
+  static fromJSON(data: SerializedIndex): FullTextIndex {
+    if (data?.version !== 1 || !Array.isArray(data.documents)) {
+      throw new Error("Unsupported search index format");
+    }
+    const index = new FullTextIndex();
+    for (const document of data.documents) {
+      index.add(document.path, document.sha, document.text);
+    }
+    return index;
+  }
+
+  private bm25(termFrequency: number, matches: number, path: string): number {
+    const count = this.documents.size;
+    const idf = Math.log(1 + (count - matches + 0.5) / (matches + 0.5));
+    const length = this.documents.get(path)?.length ?? 0;
+    const averageLength = this.totalLength / count || 1;
+    return (
+      (idf * termFrequency * (K1 + 1)) /
+      (termFrequency + K1 * (1 - B + (B * length) / averageLength))
+    );
+  }
+
+  // Terms of the index starting with `prefix`, found by binary search
+  private expandPrefix(prefix: string): string[] {
+    if (!this.sortedTerms) {
+      this.sortedTerms = [...this.postings.keys()].sort();
+    }
+    const terms = this.sortedTerms;
+    let low = 0;
+    let high = terms.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (terms[middle] < prefix) low = middle + 1;
+      else high = middle;
+    }
+    const expanded: string[] = [];
+    for (let i = low; i < terms.length && terms[i].startsWith(prefix); i++) {
+      expanded.push(terms[i]);
+    }
+    return expanded;
+  }
+
+  private scoreClause(
+    clause: QueryClause,
+    filter?: (path: string) => boolean
+  ): Map<string, number> {
+    const scores = new Map<string, number>();
+    const accept = (path: string) => !filter || filter(path);
+
+    if (clause.kind === "phrase") {
+      const lists = clause.terms.map((term) => this.postings.get(term));
+      if (lists.some((list) => !list)) return scores;
+      const frequencies = new Map<string, number>();
+      for (const [path, positions] of lists[0] ?? []) {
+        if (!accept(path)) continue;
+        const all = [positions];
+        for (const list of lists.slice(1)) {
+          const more = list?.get(path);
+          if (!more) break;
+          all.push(more);
+        }
+        if (all.length < lists.length) continue;
+        const starts = phraseStarts(all);
+        if (starts.length > 0) frequencies.set(path, starts.length);
+      }
+      for (const [path, frequency] of frequencies) {
+        scores.set(path, this.bm25(frequency, frequencies.size, path));
+      }
+      return scores;
+    }
+
+    // A prefix scores as its best-scoring completion in each document
+    const terms =
+      clause.kind === "term" ? [clause.term] : this.expandPrefix(clause.prefix);
+    for (const term of terms) {
+      const byPath = this.postings.get(term);
+      if (!byPath) continue;
+      for (const [path, positions] of byPath) {
+        if (!accept(path)) continue;
+        const score = this.bm25(positions.length, byPath.size, path);
+        scores.set(path, Math.max(scores.get(path) ?? 0, score));
+      }
+    }
+    return scores;
+  }
+
+  // First and last token index of every match of `clause` in `tokens`
+  private matchesInLine(
+    clause: QueryClause,
+    tokens: string[]
+  ): Array<[number, number]> {
+    const matches: Array<[number, number]> = [];
+    for (let i = 0; i < tokens.length; i++) {
+      if (clause.kind === "term" && tokens[i] === clause.term) {
+        matches.push([i, i]);
+      } else if (
+        clause.kind === "prefix" &&
+        tokens[i].startsWith(clause.prefix)
+      ) {
+        matches.push([i, i]);
+      } else if (
+        clause.kind === "phrase" &&
+        clause.terms.every((term, j) => tokens[i + j] === term)
+      ) {
+        matches.push([i, i + clause.terms.length - 1]);
+      }
+    }
+    return matches;
+  }
+}
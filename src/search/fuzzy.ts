@@ -0,0 +1,173 @@
+/**
+ * Typo-tolerant note lookup in the spirit of Obsidian's quick switcher:
+ * a query is scored against each note's name, aliases, first H1 heading
+ * and path, and notes are ranked by their best-matching field.
+ */
+
+import { noteName } from "../obsidian/links.js";
+
+export type NoteMatchField = "name" | "alias" | "heading" | "path";
+
+export interface NoteCandidate {
+  path: string;
+  aliases?: string[];
+  // Text of the first H1 heading
+  heading?: string;
+}
+
+export interface NoteMatch {
+  path: string;
+  // 0 to 1, higher is better
+  score: number;
+  field: NoteMatchField;
+  // Field value the query matched, e.g. the alias
+  value: string;
+}
+
+// A match on the name beats the same match on an alias, heading or path
+const FIELD_WEIGHTS: Record<NoteMatchField, number> = {
+  name: 1,
+  alias: 0.95,
+  heading: 0.9,
+  path: 0.8,
+};
+const DEFAULT_MIN_SCORE = 0.35;
+
+// Lowercase without accents, so "Réunion" matches "reunion"
+function fold(text: string): string {
+  return text.normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase().trim();
+}
+
+function words(text: string): string[] {
+  return text.match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+// Edit distance counting insertions, deletions, substitutions and swaps
+// of adjacent characters
+function editDistance(a: string, b: string): number {
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], previous2[j - 2] + 1);
+      }
+    }
+    previous2 = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// How well one query word matches one word of the text, 0 to 1
+function wordSimilarity(query: string, word: string): number {
+  if (query === word) return 1;
+  if (word.startsWith(query)) return 0.9;
+  // Allow one typo per four characters, also in a prefix of the word
+  const allowed = Math.floor(query.length / 4);
+  if (allowed === 0) return 0;
+  const distance = Math.min(
+    editDistance(query, word),
+    editDistance(query, word.slice(0, query.length))
+  );
+  return distance <= allowed ? 0.8 - (0.3 * distance) / query.length : 0;
+}
+
+// Whether the characters of `query` appear in order in `text`
+function isSubsequence(query: string, text: string): boolean {
+  let position = 0;
+  for (const char of text) {
+    if (char === query[position]) position++;
+    if (position === query.length) return true;
+  }
+  return false;
+}
+
+/**
+ * Score how well `query` matches `text`, from 0 (no match) to 1 (equal,
+ * ignoring case and accents). Whole-text prefix and substring matches
+ * score highest, then word-by-word matches in any order (tolerating
+ * typos), then abbreviations whose letters appear in order.
+ */
+export function fuzzyScore(query: string, text: string): number {
+  const q = fold(query);
+  const t = fold(text);
+  if (!q || !t) return 0;
+  if (q === t) return 1;
+  if (t.startsWith(q)) return 0.9 + 0.05 * (q.length / t.length);
+  const at = t.indexOf(q);
+  if (at !== -1) {
+    const wordStart = at === 0 || /[^\p{L}\p{N}]/u.test(t[at - 1]);
+    return (wordStart ? 0.8 : 0.7) + 0.05 * (q.length / t.length);
+  }
+
+  const queryWords = words(q);
+  const textWords = words(t);
+  if (queryWords.length > 0 && textWords.length > 0) {
+    const similarities = queryWords.map((queryWord) =>
+      Math.max(...textWords.map((word) => wordSimilarity(queryWord, word)))
+    );
+    if (similarities.every((similarity) => similarity > 0)) {
+      const average =
+        similarities.reduce((sum, similarity) => sum + similarity, 0) /
+        similarities.length;
+      return 0.75 * average;
+    }
+  }
+
+  const compact = q.replace(/\s+/g, "");
+  if (compact.length >= 2 && isSubsequence(compact, t)) {
+    return 0.3 + 0.3 * (compact.length / t.length);
+  }
+  return 0;
+}
+
+/**
+ * Rank notes by how well `query` matches their best field, best first.
+ * Ties go to the shorter, then alphabetically first path.
+ */
+export function rankNotes(
+  query: string,
+  notes: NoteCandidate[],
+  options: { limit?: number; minScore?: number } = {}
+): NoteMatch[] {
+  const minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+  const matches: NoteMatch[] = [];
+  for (const note of notes) {
+    const fields: Array<[NoteMatchField, string]> = [
+      ["name", noteName(note.path)],
+      ...(note.aliases ?? []).map((alias): [NoteMatchField, string] => [
+        "alias",
+        alias,
+      ]),
+      ...(note.heading
+        ? [["heading", note.heading] as [NoteMatchField, string]]
+        : []),
+      ["path", note.path.replace(/\.md$/i, "")],
+    ];
+    let best: NoteMatch | undefined;
+    for (const [field, value] of fields) {
+      const score = fuzzyScore(query, value) * FIELD_WEIGHTS[field];
+      if (score > (best?.score ?? 0)) {
+        best = { path: note.path, score, field, value };
+      }
+    }
+    if (best && best.score >= minScore) matches.push(best);
+  }
+  matches.sort(
+    (a, b) =>
+      b.score - a.score ||
+      a.path.length - b.path.length ||
+      a.path.localeCompare(b.path)
+  );
+  return options.limit === undefined
+    ? matches
+    : matches.slice(0, options.limit);
+}
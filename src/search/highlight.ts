@@ -0,0 +1,70 @@
+// Start (inclusive) and end (exclusive) offset of a match within a text
+export type Range = [number, number];
+
+export interface Highlight {
+  text: string;
+  ranges: Range[];
+}
+
+// Sort ranges and merge the ones that overlap or touch
+function mergeRanges(ranges: Range[]): Range[] {
+  const merged: Range[] = [];
+  for (const [start, end] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Cut `text` to at most `maxLength` characters around its first match,
+ * marking cut ends with "…" and shifting the ranges to match. A
+ * `maxLength` of 0 or less keeps the whole text.
+ */
+export function clipHighlight(
+  text: string,
+  ranges: Range[],
+  maxLength: number
+): Highlight {
+  const sorted = mergeRanges(
+    ranges.filter(([start, end]) => start < end && start < text.length)
+  );
+  if (maxLength <= 0 || text.length <= maxLength) {
+    return { text, ranges: sorted };
+  }
+  const first = sorted[0]?.[0] ?? 0;
+  // Keep a little context before the first match
+  const start = Math.max(
+    0,
+    Math.min(first - Math.floor(maxLength / 4), text.length - maxLength)
+  );
+  const end = start + maxLength;
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  return {
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    ranges: sorted
+      .filter(([rangeStart, rangeEnd]) => rangeEnd > start && rangeStart < end)
+      .map(([rangeStart, rangeEnd]) => [
+        Math.max(rangeStart, start) - start + prefix.length,
+        Math.min(rangeEnd, end) - start + prefix.length,
+      ]),
+  };
+}
+
+/**
+ * Render a highlight as markdown, wrapping each match in **bold**.
+ */
+export function renderHighlight({ text, ranges }: Highlight): string {
+  let rendered = "";
+  let position = 0;
+  for (const [start, end] of mergeRanges(ranges)) {
+    rendered += `${text.slice(position, start)}**${text.slice(start, end)}**`;
+    position = end;
+  }
+  return rendered + text.slice(position);
+}
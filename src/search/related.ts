@@ -0,0 +1,194 @@
+/**
+ * Related-note recommendations computed locally: notes score by direct
+ * links, links they share with the target (both link to, or are linked
+ * from, the same notes), shared tags and TF-IDF cosine similarity of
+ * their content.
+ */
+
+import { tokenize } from "./fulltext.js";
+
+export interface RelatedInput {
+  // Resolved paths of the notes and files this note links to
+  links: string[];
+  tags: string[];
+  text: string;
+}
+
+export interface RelatedNote {
+  path: string;
+  // 0 to 1, higher is more related
+  score: number;
+  // Whether the target links to this note, this note to the target, or both
+  direct?: "outgoing" | "incoming" | "mutual";
+  // Notes and files both link to
+  sharedLinks: string[];
+  // Notes linking to both
+  sharedBacklinks: string[];
+  sharedTags: string[];
+  // TF-IDF cosine similarity of the content
+  similarity: number;
+  // Terms contributing most to the similarity
+  terms: string[];
+}
+
+// Share of the score that links, tags and content can each contribute
+const WEIGHTS = { links: 0.4, tags: 0.2, content: 0.4 };
+const MAX_TERMS = 5;
+// Frequent words that carry no topic; IDF discounts the rest
+const STOP_WORDS = new Set(
+  (
+    "a about after all also an and any are as at be been but by can could " +
+    "did do does for from had has have he her his how i if in into is it " +
+    "its just more my no not of on or our out she so some than that the " +
+    "their them then there these they this to up was we were what when " +
+    "which who will with would you your"
+  ).split(" ")
+);
+
+// Weighted term vector of a text: sublinear term frequency times IDF
+type TermVector = Map<string, number>;
+
+function termCounts(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const term of tokenize(text)) {
+    if (term.length < 2 || STOP_WORDS.has(term) || /^\d+$/.test(term)) {
+      continue;
+    }
+    counts.set(term, (counts.get(term) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function norm(vector: TermVector): number {
+  let sum = 0;
+  for (const weight of vector.values()) sum += weight * weight;
+  return Math.sqrt(sum);
+}
+
+// Cosine similarity of two sets, compared case-insensitively
+function setCosine(
+  a: string[],
+  b: string[]
+): { score: number; shared: string[] } {
+  if (a.length === 0 || b.length === 0) return { score: 0, shared: [] };
+  const lower = new Set(b.map((item) => item.toLowerCase()));
+  const shared = [...new Set(a)].filter((item) =>
+    lower.has(item.toLowerCase())
+  );
+  return {
+    score: shared.length / Math.sqrt(new Set(a).size * lower.size),
+    shared,
+  };
+}
+
+/**
+ * Rank every other note by how related it is to `targetPath`, best first.
+ * Notes with nothing in common are left out.
+ */
+export function findRelatedNotes(
+  targetPath: string,
+  notes: Map<string, RelatedInput>,
+  options: { limit?: number } = {}
+): RelatedNote[] {
+  const target = notes.get(targetPath);
+  if (!target) return [];
+
+  // Incoming links of every note
+  const backlinks = new Map<string, string[]>();
+  for (const [path, note] of notes) {
+    for (const link of new Set(note.links)) {
+      if (link === path) continue;
+      const list = backlinks.get(link) ?? [];
+      list.push(path);
+      backlinks.set(link, list);
+    }
+  }
+
+  // Document frequencies, then weighted vectors
+  const counts = new Map<string, Map<string, number>>();
+  const documentFrequency = new Map<string, number>();
+  for (const [path, note] of notes) {
+    const noteCounts = termCounts(note.text);
+    counts.set(path, noteCounts);
+    for (const term of noteCounts.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+  const vector = (path: string): TermVector => {
+    const weights: TermVector = new Map();
+    for (const [term, count] of counts.get(path) ?? []) {
+      const idf = Math.log(notes.size / (documentFrequency.get(term) ?? 1));
+      if (idf > 0) weights.set(term, (1 + Math.log(count)) * idf);
+    }
+    return weights;
+  };
+  const targetVector = vector(targetPath);
+  const targetNorm = norm(targetVector);
+  const targetLinks = target.links.filter((link) => link !== targetPath);
+  const targetBacklinks = backlinks.get(targetPath) ?? [];
+
+  const related: RelatedNote[] = [];
+  for (const [path, note] of notes) {
+    if (path === targetPath) continue;
+    const outgoing = targetLinks.includes(path);
+    const incoming = note.links.includes(targetPath);
+    const directScore =
+      outgoing && incoming ? 1 : outgoing || incoming ? 0.75 : 0;
+    const links = setCosine(
+      targetLinks.filter((link) => link !== path),
+      note.links.filter((link) => link !== path && link !== targetPath)
+    );
+    const linkedFrom = setCosine(
+      targetBacklinks.filter((source) => source !== path),
+      (backlinks.get(path) ?? []).filter((source) => source !== targetPath)
+    );
+    const tags = setCosine(target.tags, note.tags);
+
+    const noteVector = vector(path);
+    let dot = 0;
+    const contributions: Array<[string, number]> = [];
+    for (const [term, weight] of noteVector) {
+      const targetWeight = targetVector.get(term);
+      if (targetWeight === undefined) continue;
+      dot += weight * targetWeight;
+      contributions.push([term, weight * targetWeight]);
+    }
+    const denominator = targetNorm * norm(noteVector);
+    const similarity = denominator > 0 ? dot / denominator : 0;
+
+    const linkScore =
+      0.5 * directScore + 0.25 * links.score + 0.25 * linkedFrom.score;
+    const score =
+      WEIGHTS.links * linkScore +
+      WEIGHTS.tags * tags.score +
+      WEIGHTS.content * similarity;
+    if (score <= 0) continue;
+    related.push({
+      path,
+      score,
+      ...(directScore > 0
+        ? {
+            direct:
+              outgoing && incoming
+                ? "mutual"
+                : outgoing
+                  ? "outgoing"
+                  : "incoming",
+          }
+        : {}),
+      sharedLinks: links.shared.sort(),
+      sharedBacklinks: linkedFrom.shared.sort(),
+      sharedTags: tags.shared,
+      similarity,
+      terms: contributions
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, MAX_TERMS)
+        .map(([term]) => term),
+    });
+  }
+
+  related.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+  return options.limit === undefined
+    ? related
+    : related.slice(0, options.limit);
+}
@@ -0,0 +1,103 @@
+import { gunzipSync } from "node:zlib";
+
+export interface TarEntry {
+  path: string;
+  content: Buffer;
+}
+
+const BLOCK_SIZE = 512;
+
+// NUL-terminated string field of a header block
+function readString(block: Buffer, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? field.length : end).toString("utf8");
+}
+
+// Numeric field: octal text, or big-endian base-256 when the high bit is set
+function readNumber(block: Buffer, offset: number, length: number): number {
+  const field = block.subarray(offset, offset + length);
+  if (field[0] & 0x80) {
+    let value = field[0] & 0x7f;
+    for (let i = 1; i < field.length; i++) value = value * 256 + field[i];
+    return value;
+  }
+  const text = readString(block, offset, length).trim();
+  return text ? Number.parseInt(text, 8) : 0;
+}
+
+// Records of a pax extended header: "<length> <key>=<value>\n"
+function parsePaxRecords(data: Buffer): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    if (space === -1) break;
+    const length = Number.parseInt(data.toString("utf8", offset, space), 10);
+    if (!length) break;
+    const record = data.toString("utf8", space + 1, offset + length - 1);
+    const equals = record.indexOf("=");
+    if (equals !== -1) {
+      records[record.slice(0, equals)] = record.slice(equals + 1);
+    }
+    offset += length;
+  }
+  return records;
+}
+
+/**
+ * Read the regular files of a (gzipped) tar archive, such as the tarballs
+ * GitHub serves for a ref. Long names from pax and GNU headers are
+ * supported; links, folders and special files are skipped.
+ * `stripComponents` drops leading folders, like `tar --strip-components`.
+ */
+export function readTarball(
+  archive: Buffer,
+  options: { stripComponents?: number } = {}
+): TarEntry[] {
+  const data =
+    archive[0] === 0x1f && archive[1] === 0x8b ? gunzipSync(archive) : archive;
+  const strip = options.stripComponents ?? 0;
+  const entries: TarEntry[] = [];
+  let nextPax: Record<string, string> = {};
+  let longName: string | undefined;
+  let offset = 0;
+
+  while (offset + BLOCK_SIZE <= data.length) {
+    const header = data.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) break;
+    const size = readNumber(header, 124, 12);
+    const type = String.fromCharCode(header[156] || 0x30);
+    const body = data.subarray(offset + BLOCK_SIZE, offset + BLOCK_SIZE + size);
+    offset += BLOCK_SIZE + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    // Global headers only carry metadata such as GitHub's commit comment
+    if (type === "g") continue;
+    if (type === "x") {
+      nextPax = parsePaxRecords(body);
+      continue;
+    }
+    if (type === "L") {
+      longName = readString(body, 0, body.length);
+      continue;
+    }
+
+    const isUstar = readString(header, 257, 6).startsWith("ustar");
+    const prefix = isUstar ? readString(header, 345, 155) : "";
+    const name = readString(header, 0, 100);
+    const path =
+      nextPax.path ?? longName ?? (prefix ? `${prefix}/${name}` : name);
+    nextPax = {};
+    longName = undefined;
+
+    if (type !== "0" && type !== "7") continue;
+    const parts = path.split("/").filter(Boolean);
+    if (parts.length <= strip) continue;
+    entries.push({
+      path: parts.slice(strip).join("/"),
+      content: Buffer.from(body),
+    });
+  }
+
+  return entries;
+}
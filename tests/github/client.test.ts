@@ -1,9 +1,15 @@
 /// <reference types="vitest" />
 
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import { readFileSync } from "node:fs";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { GithubClient } from "../../src/github/client";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { GithubConfig } from "../../src/github/types";
+import { gitBlobSha } from "../../src/search/engine";
+import { readTarball } from "../../src/search/tar";
 
 // Mock the McpServer
 const mockTool = vi.fn();
@@ -24,6 +30,23 @@ const mockReposGet = vi.fn();
 const mockReposListCommits = vi.fn();
 const mockReposGetCommit = vi.fn();
 const mockReposGetContent = vi.fn();
+const mockReposCompareCommitsWithBasehead = vi.fn();
+const mockReposCreateOrUpdateFileContents = vi.fn();
+const mockReposDownloadTarballArchive = vi.fn();
+const mockGitGetTree = vi.fn();
+const mockGitGetBlob = vi.fn();
+const mockGitGetRef = vi.fn();
+const mockGitGetCommit = vi.fn();
+const mockGitCreateTree = vi.fn();
+const mockGitCreateCommit = vi.fn();
+const mockGitUpdateRef = vi.fn();
+const mockGitCreateRef = vi.fn();
+const mockGitDeleteRef = vi.fn();
+const mockPullsList = vi.fn();
+const mockPullsCreate = vi.fn();
+const mockPullsUpdate = vi.fn();
+const mockPullsGet = vi.fn();
+const mockPullsListFiles = vi.fn();
 
 vi.mock("@octokit/rest", () => {
   const Octokit = vi.fn().mockImplementation(() => {
@@ -37,12 +60,95 @@ vi.mock("@octokit/rest", () => {
         listCommits: mockReposListCommits,
         getCommit: mockReposGetCommit,
         getContent: mockReposGetContent,
+        compareCommitsWithBasehead: mockReposCompareCommitsWithBasehead,
+        createOrUpdateFileContents: mockReposCreateOrUpdateFileContents,
+        downloadTarballArchive: mockReposDownloadTarballArchive,
+      },
+      git: {
+        getTree: mockGitGetTree,
+        getBlob: mockGitGetBlob,
+        getRef: mockGitGetRef,
+        getCommit: mockGitGetCommit,
+        createTree: mockGitCreateTree,
+        createCommit: mockGitCreateCommit,
+        updateRef: mockGitUpdateRef,
+        createRef: mockGitCreateRef,
+        deleteRef: mockGitDeleteRef,
+      },
+      pulls: {
+        list: mockPullsList,
+        create: mockPullsCreate,
+        update: mockPullsUpdate,
+        get: mockPullsGet,
+        listFiles: mockPullsListFiles,
       },
     };
   });
   return { Octokit };
 });
 
+// Contents API response for a file, as returned without a media type
+const fileData = (text: string, sha = "blob-sha") => ({
+  data: {
+    type: "file",
+    encoding: "base64",
+    content: Buffer.from(text).toString("base64"),
+    sha,
+  },
+});
+
+// What a tool handler returns
+interface ToolResult {
+  content: Array<{ type: string; text: string }>;
+  structuredContent: Record<string, unknown>;
+}
+type ToolHandler = (args: Record<string, unknown>) => Promise<ToolResult>;
+
+const vaultConfig: GithubConfig = {
+  owner: "test-owner",
+  repo: "test-repo",
+  githubToken: "test-token",
+};
+
+// Serve `files` as the repository tree, using each path as its blob SHA,
+// and register the tools of a client reading it
+function setupVault(
+  files: Record<string, string>,
+  config: Partial<GithubConfig> = {}
+): void {
+  mockGitGetTree.mockResolvedValue({
+    data: {
+      truncated: false,
+      tree: Object.keys(files).map((path) => ({
+        path,
+        type: "blob",
+        sha: path,
+      })),
+    },
+  });
+  mockGitGetBlob.mockImplementation(({ file_sha }) =>
+    Promise.resolve({
+      data: {
+        content: Buffer.from(files[file_sha]).toString("base64"),
+        encoding: "base64",
+      },
+    })
+  );
+  const server = new McpServer({ name: "test-server", version: "1.0.0" });
+  new GithubClient({ ...vaultConfig, ...config }).registerGithubTools(server);
+}
+
+// Handler of the most recently registered tool called `name`
+function getTool(name: string): ToolHandler {
+  const call = [...mockTool.mock.calls]
+    .reverse()
+    .find((candidate) => candidate[0] === name);
+  if (!call) {
+    throw new Error(`${name} tool not registered`);
+  }
+  return call[4];
+}
+
 describe("GithubClient searchFiles", () => {
   const config: GithubConfig = {
     owner: "test-owner",
@@ -70,7 +176,7 @@ describe("GithubClient searchFiles", () => {
     if (!searchFilesCall) {
       throw new Error("searchFiles tool not registered");
     }
-    searchFilesImpl = searchFilesCall[3];
+    searchFilesImpl = searchFilesCall[4];
     mockSearchCode.mockResolvedValue({
       data: { total_count: 0, items: [] },
     });
@@ -120,6 +226,50 @@ describe("GithubClient searchFiles", () => {
       })
     );
   });
+
+  it("should render highlighted text-match fragments", async () => {
+    mockSearchCode.mockResolvedValue({
+      data: {
+        total_count: 1,
+        items: [
+          {
+            name: "Weekly Review.md",
+            path: "Notes/Weekly Review.md",
+            text_matches: [
+              {
+                property: "content",
+                fragment: "  Every Friday I do a weekly review.\nNext line",
+                matches: [{ text: "weekly", indices: [22, 28] }],
+              },
+              { property: "path", fragment: "Notes/Weekly Review.md" },
+            ],
+          },
+        ],
+      },
+    });
+
+    const result = await searchFilesImpl({
+      query: "weekly",
+      searchIn: "content",
+    });
+    expect(mockSearchCode).toHaveBeenCalledWith(
+      expect.objectContaining({ mediaType: { format: "text-match" } })
+    );
+    expect(result.content[0].text).toContain(
+      "- **Weekly Review.md** (Notes/Weekly Review.md) 📄 content match\n  > Every Friday I do a **weekly** review.\n  > Next line"
+    );
+  });
+
+  it("should leave snippets out when snippetLength is 0", async () => {
+    await searchFilesImpl({
+      query: "weekly",
+      searchIn: "content",
+      snippetLength: 0,
+    });
+    expect(mockSearchCode).toHaveBeenCalledWith(
+      expect.not.objectContaining({ mediaType: expect.anything() })
+    );
+  });
 });
 
 describe("GithubClient diagnoseSearch", () => {
@@ -146,7 +296,7 @@ describe("GithubClient diagnoseSearch", () => {
     if (!diagnoseSearchCall) {
       throw new Error("diagnoseSearch tool not registered");
     }
-    diagnoseSearchImpl = diagnoseSearchCall[3];
+    diagnoseSearchImpl = diagnoseSearchCall[4];
   });
 
   it("should diagnose a healthy public repository", async () => {
@@ -322,7 +472,7 @@ describe("GithubClient searchFiles enhanced features", () => {
     if (!searchFilesCall) {
       throw new Error("searchFiles tool not registered");
     }
-    searchFilesImpl = searchFilesCall[3];
+    searchFilesImpl = searchFilesCall[4];
   });
 
   it("should provide enhanced error message for validation failures", async () => {
@@ -502,3 +652,2734 @@ describe("GithubClient searchFiles enhanced features", () => {
     expect(text).toContain("Large repositories (60.00 GB exceeds 50 GB limit)");
   });
 });
+
+describe("GithubClient note metadata", () => {
+  const config: GithubConfig = {
+    owner: "test-owner",
+    repo: "test-repo",
+    githubToken: "test-token",
+  };
+
+  const getToolImpl = (name: string) => {
+    const call = mockTool.mock.calls.find((c) => c[0] === name);
+    if (!call) {
+      throw new Error(`${name} tool not registered`);
+    }
+    return call[4];
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    const server = new McpServer({
+      name: "test-server",
+      version: "1.0.0",
+    });
+    const client = new GithubClient(config);
+    client.registerGithubTools(server);
+  });
+
+  it("should return the text and blob SHA by default", async () => {
+    mockReposGetContent.mockResolvedValue(
+      fileData("---\ntags: [a]\n---\nBody", "abc123")
+    );
+
+    const result = await getToolImpl("getFileContents")({
+      filePath: "note.md",
+    });
+
+    expect(result.content[0].text).toBe("---\ntags: [a]\n---\nBody");
+    expect(result.content[1].text).toContain("File SHA: abc123");
+    expect(result.structuredContent).toEqual({ path: "note.md", sha: "abc123" });
+  });
+
+  it("should fall back to raw content for files over 1 MB", async () => {
+    mockReposGetContent
+      .mockResolvedValueOnce({
+        data: { type: "file", encoding: "none", content: "", sha: "big" },
+      })
+      .mockResolvedValueOnce({ data: "large text" });
+
+    const result = await getToolImpl("getFileContents")({
+      filePath: "big.md",
+    });
+
+    expect(result.content[0].text).toBe("large text");
+    expect(mockReposGetContent).toHaveBeenLastCalledWith(
+      expect.objectContaining({ mediaType: { format: "raw" } })
+    );
+  });
+
+  it("should reject directories", async () => {
+    mockReposGetContent.mockResolvedValue({ data: [] });
+
+    await expect(
+      getToolImpl("getFileContents")({ filePath: "Projects" })
+    ).rejects.toThrow('"Projects" is not a file.');
+  });
+
+  it("should parse frontmatter when requested", async () => {
+    mockReposGetContent.mockResolvedValue(
+      fileData("---\ntags: [a]\nstatus: active\n---\nBody")
+    );
+
+    const result = await getToolImpl("getFileContents")({
+      filePath: "note.md",
+      parseFrontmatter: true,
+    });
+
+    expect(result.structuredContent.path).toBe("note.md");
+    expect(result.structuredContent.frontmatter.tags).toEqual(["a"]);
+    expect(result.structuredContent.frontmatter.properties.status).toBe(
+      "active"
+    );
+  });
+
+  it("should summarize metadata with getNoteMetadata", async () => {
+    mockReposGetContent.mockResolvedValue({
+      data: "---\ntags: [project]\naliases: [Plan]\ndue: 2025-01-31\n---\n",
+    });
+
+    const result = await getToolImpl("getNoteMetadata")({
+      filePath: "Projects/Plan.md",
+    });
+    const text = result.content[0].text;
+
+    expect(text).toContain("# Metadata for Projects/Plan.md");
+    expect(text).toContain("**Tags**: #project");
+    expect(text).toContain("**Aliases**: Plan");
+    expect(text).toContain('**due** (date): "2025-01-31"');
+    expect(result.structuredContent.propertyTypes.due).toBe("date");
+  });
+
+  it("should report malformed frontmatter as an error", async () => {
+    mockReposGetContent.mockResolvedValue({
+      data: "---\ntags: [broken\n---\nBody",
+    });
+
+    await expect(
+      getToolImpl("getNoteMetadata")({ filePath: "bad.md" })
+    ).rejects.toThrow('Malformed frontmatter in "bad.md"');
+  });
+});
+
+describe("GithubClient link resolution", () => {
+  const config: GithubConfig = {
+    owner: "test-owner",
+    repo: "test-repo",
+    githubToken: "test-token",
+  };
+
+  const getToolImpl = (name: string) => {
+    const call = mockTool.mock.calls.find((c) => c[0] === name);
+    if (!call) {
+      throw new Error(`${name} tool not registered`);
+    }
+    return call[4];
+  };
+
+  const blobs: Record<string, string> = {
+    "sha-alpha": "# Alpha\n\n## Goals\n\nText ^key-point",
+    "sha-zettel": "---\naliases: [Slip Box]\n---\nBody",
+    "sha-old": "Old alpha",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    const server = new McpServer({
+      name: "test-server",
+      version: "1.0.0",
+    });
+    const client = new GithubClient(config);
+    client.registerGithubTools(server);
+
+    mockGitGetTree.mockResolvedValue({
+      data: {
+        truncated: false,
+        tree: [
+          { path: "Projects", type: "tree", sha: "sha-projects" },
+          { path: "Projects/Alpha.md", type: "blob", sha: "sha-alpha" },
+          { path: "Archive/Alpha.md", type: "blob", sha: "sha-old" },
+          { path: "Ideas/Zettel.md", type: "blob", sha: "sha-zettel" },
+        ],
+      },
+    });
+    mockGitGetBlob.mockImplementation(async ({ file_sha }) => ({
+      data: {
+        content: Buffer.from(blobs[file_sha]).toString("base64"),
+        encoding: "base64",
+      },
+    }));
+  });
+
+  it("should resolve a wikilink with a heading and verify the anchor", async () => {
+    mockReposGetContent.mockResolvedValue({ data: blobs["sha-alpha"] });
+
+    const result = await getToolImpl("resolveLink")({
+      link: "[[Alpha#Goals|our goals]]",
+      sourcePath: "Projects/Roadmap.md",
+    });
+
+    expect(result.structuredContent).toMatchObject({
+      status: "resolved",
+      path: "Projects/Alpha.md",
+      heading: "Goals",
+      anchorFound: true,
+    });
+    expect(result.content[0].text).toContain("→ Projects/Alpha.md#Goals");
+    expect(mockGitGetBlob).not.toHaveBeenCalled();
+  });
+
+  it("should flag missing block anchors", async () => {
+    mockReposGetContent.mockResolvedValue({ data: blobs["sha-alpha"] });
+
+    const result = await getToolImpl("resolveLink")({
+      link: "Projects/Alpha#^missing",
+    });
+
+    expect(result.structuredContent.anchorFound).toBe(false);
+    expect(result.content[0].text).toContain("anchor not found");
+  });
+
+  it("should report ambiguous names", async () => {
+    const result = await getToolImpl("resolveLink")({ link: "[[Alpha]]" });
+
+    expect(result.structuredContent.status).toBe("ambiguous");
+    expect(result.content[0].text).toContain(
+      "ambiguous: Archive/Alpha.md, Projects/Alpha.md"
+    );
+  });
+
+  it("should fall back to frontmatter aliases", async () => {
+    const result = await getToolImpl("resolveLink")({ link: "[[Slip Box]]" });
+
+    expect(result.structuredContent).toMatchObject({
+      status: "resolved",
+      path: "Ideas/Zettel.md",
+      via: "alias",
+    });
+  });
+
+  it("should resolve every link when reading a note with resolveLinks", async () => {
+    mockReposGetContent.mockResolvedValue(
+      fileData("Links: [[Zettel]] and [[Nowhere]]")
+    );
+
+    const result = await getToolImpl("getFileContents")({
+      filePath: "Projects/Roadmap.md",
+      resolveLinks: true,
+    });
+
+    expect(result.content).toHaveLength(3);
+    expect(result.content[2].text).toContain("## Resolved links (2)");
+    expect(result.content[2].text).toContain("→ Ideas/Zettel.md");
+    expect(result.content[2].text).toContain("❌ broken");
+    expect(
+      result.structuredContent.links.map((link: { status: string }) => link.status)
+    ).toEqual(["resolved", "broken"]);
+  });
+
+  it("should inline embedded notes and blocks with expandEmbeds", async () => {
+    mockReposGetContent.mockResolvedValue(
+      fileData("Intro\n![[Projects/Alpha#^key-point]]\n![[Zettel]] ![[Nowhere]]")
+    );
+
+    const result = await getToolImpl("getFileContents")({
+      filePath: "Projects/Roadmap.md",
+      expandEmbeds: true,
+    });
+
+    expect(result.content[0].text).toBe(
+      [
+        "Intro",
+        "<!-- embed: Projects/Alpha.md#^key-point -->",
+        "Text",
+        "<!-- /embed -->",
+        "<!-- embed: Ideas/Zettel.md -->",
+        "Body",
+        "<!-- /embed -->",
+        "![[Nowhere]]",
+      ].join("\n")
+    );
+    expect(result.content[2].text).toBe(
+      [
+        "## Embeds (3)",
+        "",
+        "- `![[Projects/Alpha#^key-point]]` in Projects/Roadmap.md L2 → Projects/Alpha.md: expanded",
+        "- `![[Zettel]]` in Projects/Roadmap.md L3 → Ideas/Zettel.md: expanded",
+        "- `![[Nowhere]]` in Projects/Roadmap.md L3: broken",
+      ].join("\n")
+    );
+    expect(result.structuredContent.embeds).toHaveLength(3);
+  });
+});
+
+describe("GithubClient getBacklinks", () => {
+  const config: GithubConfig = {
+    owner: "test-owner",
+    repo: "test-repo",
+    githubToken: "test-token",
+  };
+
+  let getBacklinksImpl: (args: {
+    filePath: string;
+    includeUnlinked?: boolean;
+  }) => Promise<{
+    content: Array<{ type: string; text: string }>;
+    structuredContent: Record<string, unknown>;
+  }>;
+
+  const blobs: Record<string, string> = {
+    "sha-alpha": "---\naliases: [Project A]\n---\n# Alpha",
+    "sha-daily": "Met about [[Alpha]].\n![[Alpha#Goals]]\nProject A is late.",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    const server = new McpServer({
+      name: "test-server",
+      version: "1.0.0",
+    });
+    const client = new GithubClient(config);
+    client.registerGithubTools(server);
+
+    const call = mockTool.mock.calls.find((c) => c[0] === "getBacklinks");
+    if (!call) {
+      throw new Error("getBacklinks tool not registered");
+    }
+    getBacklinksImpl = call[4];
+
+    mockGitGetTree.mockResolvedValue({
+      data: {
+        truncated: false,
+        tree: [
+          { path: "Projects/Alpha.md", type: "blob", sha: "sha-alpha" },
+          { path: "Daily/2025-01-01.md", type: "blob", sha: "sha-daily" },
+        ],
+      },
+    });
+    mockGitGetBlob.mockImplementation(async ({ file_sha }) => ({
+      data: {
+        content: Buffer.from(blobs[file_sha]).toString("base64"),
+        encoding: "base64",
+      },
+    }));
+  });
+
+  it("should list linked and unlinked mentions", async () => {
+    const result = await getBacklinksImpl({ filePath: "Projects/Alpha.md" });
+    const text = result.content[0].text;
+
+    expect(text).toContain("## Linked mentions (2 in 1 notes)");
+    expect(text).toContain("- L1 (wikilink) `[[Alpha]]`: Met about [[Alpha]].");
+    expect(text).toContain("- L2 (embed) `![[Alpha#Goals]]`");
+    expect(text).toContain("## Unlinked mentions (1 in 1 notes)");
+    expect(text).toContain('- L3 ("Project A"): Project A is late.');
+  });
+
+  it("should skip unlinked mentions when disabled", async () => {
+    const result = await getBacklinksImpl({
+      filePath: "Projects/Alpha.md",
+      includeUnlinked: false,
+    });
+
+    expect(result.content[0].text).not.toContain("Unlinked mentions");
+    expect(result.structuredContent.unlinked).toBeUndefined();
+  });
+
+  it("should reject paths that are not in the repository", async () => {
+    await expect(
+      getBacklinksImpl({ filePath: "Missing.md" })
+    ).rejects.toThrow("File not found in repository: Missing.md");
+  });
+});
+
+describe("GithubClient getVaultTree", () => {
+  const config: GithubConfig = {
+    owner: "test-owner",
+    repo: "test-repo",
+    githubToken: "test-token",
+  };
+
+  let getVaultTreeImpl: (args: Record<string, unknown>) => Promise<{
+    content: Array<{ type: string; text: string }>;
+    structuredContent: Record<string, unknown>;
+  }>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    const server = new McpServer({
+      name: "test-server",
+      version: "1.0.0",
+    });
+    const client = new GithubClient(config);
+    client.registerGithubTools(server);
+
+    const call = mockTool.mock.calls.find((c) => c[0] === "getVaultTree");
+    if (!call) {
+      throw new Error("getVaultTree tool not registered");
+    }
+    getVaultTreeImpl = call[4];
+
+    mockGitGetTree.mockResolvedValue({
+      data: {
+        truncated: false,
+        tree: [
+          { path: ".obsidian", type: "tree", sha: "t1" },
+          { path: ".obsidian/app.json", type: "blob", sha: "app", size: 40 },
+          { path: "Notes", type: "tree", sha: "t2" },
+          { path: "Notes/Idea.md", type: "blob", sha: "b1", size: 1536 },
+          { path: "Archive", type: "tree", sha: "t3" },
+          { path: "Archive/Old.md", type: "blob", sha: "b2", size: 10 },
+        ],
+      },
+    });
+    mockGitGetBlob.mockResolvedValue({
+      data: {
+        content: Buffer.from('{"userIgnoreFilters":["Archive/"]}').toString(
+          "base64"
+        ),
+        encoding: "base64",
+      },
+    });
+  });
+
+  it("should list the vault and honour Obsidian ignore filters", async () => {
+    const result = await getVaultTreeImpl({});
+    const text = result.content[0].text;
+
+    expect(mockGitGetTree).toHaveBeenCalledWith(
+      expect.objectContaining({ recursive: "true" })
+    );
+    expect(text).toContain("1 folders, 1 files (1.5 KB)");
+    expect(text).toContain("Excluded by Obsidian settings: Archive/");
+    expect(text).toContain("📁 Notes/\n  📄 Idea.md (1.5 KB)");
+    expect(text).not.toContain("Old.md");
+  });
+
+  it("should skip the ignore filters when asked", async () => {
+    const result = await getVaultTreeImpl({ respectObsidianIgnore: false });
+
+    expect(result.content[0].text).toContain("Old.md");
+    expect(mockGitGetBlob).not.toHaveBeenCalled();
+  });
+
+  it("should reject unknown folders", async () => {
+    await expect(getVaultTreeImpl({ path: "Missing/" })).rejects.toThrow(
+      "Folder not found in repository: Missing"
+    );
+  });
+
+  it("should list a truncated tree one folder at a time", async () => {
+    const trees: Record<string, unknown> = {
+      HEAD: { sha: "root", truncated: true, tree: [] },
+      root: {
+        sha: "root",
+        truncated: false,
+        tree: [
+          { path: "Notes", type: "tree", sha: "t2" },
+          { path: "Home.md", type: "blob", sha: "b0", size: 10 },
+        ],
+      },
+      t2: {
+        sha: "t2",
+        truncated: false,
+        tree: [{ path: "Idea.md", type: "blob", sha: "b1", size: 1536 }],
+      },
+    };
+    mockGitGetTree.mockImplementation(async ({ tree_sha }) => ({
+      data: trees[tree_sha],
+    }));
+
+    const result = await getVaultTreeImpl({ respectObsidianIgnore: false });
+
+    expect(result.content[0].text).toContain("📁 Notes/\n  📄 Idea.md");
+    expect(result.content[0].text).toContain("📄 Home.md");
+    expect(mockGitGetTree).toHaveBeenCalledWith(
+      expect.not.objectContaining({ recursive: "true" })
+    );
+  });
+});
+
+describe("GithubClient refs", () => {
+  const config: GithubConfig = {
+    owner: "test-owner",
+    repo: "test-repo",
+    githubToken: "test-token",
+  };
+
+  const registerTools = (clientConfig: GithubConfig) => {
+    vi.clearAllMocks();
+    mockReposGet.mockResolvedValue({ data: { default_branch: "main" } });
+    const server = new McpServer({
+      name: "test-server",
+      version: "1.0.0",
+    });
+    new GithubClient(clientConfig).registerGithubTools(server);
+    return (name: string) => {
+      const call = mockTool.mock.calls.find((c) => c[0] === name);
+      if (!call) {
+        throw new Error(`${name} tool not registered`);
+      }
+      return call[4];
+    };
+  };
+
+  it("should read files from the default branch when no ref is set", async () => {
+    const getTool = registerTools(config);
+    mockReposGetContent.mockResolvedValue(fileData("text"));
+
+    await getTool("getFileContents")({ filePath: "a.md" });
+
+    expect(mockReposGetContent.mock.calls[0][0]).not.toHaveProperty("ref");
+  });
+
+  it("should pass an explicit ref to the contents API", async () => {
+    const getTool = registerTools(config);
+    mockReposGetContent.mockResolvedValue(fileData("draft"));
+
+    await getTool("getFileContents")({ filePath: "a.md", ref: "drafts" });
+
+    expect(mockReposGetContent).toHaveBeenCalledWith(
+      expect.objectContaining({ path: "a.md", ref: "drafts" })
+    );
+  });
+
+  it("should fall back to the configured default ref", async () => {
+    const getTool = registerTools({ ...config, defaultRef: "vault-2025-q1" });
+    mockReposGetContent.mockResolvedValue(fileData("snapshot"));
+    mockGitGetTree.mockResolvedValue({ data: { truncated: false, tree: [] } });
+
+    await getTool("getFileContents")({ filePath: "a.md" });
+    await getTool("getVaultTree")({});
+
+    expect(mockReposGetContent).toHaveBeenCalledWith(
+      expect.objectContaining({ ref: "vault-2025-q1" })
+    );
+    expect(mockGitGetTree).toHaveBeenCalledWith(
+      expect.objectContaining({ tree_sha: "vault-2025-q1" })
+    );
+  });
+
+  it("should match paths against the tree when searching another ref", async () => {
+    const getTool = registerTools(config);
+    mockGitGetTree.mockResolvedValue({
+      data: {
+        truncated: false,
+        tree: [
+          { path: "Drafts", type: "tree", sha: "t" },
+          { path: "Drafts/OKR 2025.md", type: "blob", sha: "a" },
+          { path: "Notes/Other.md", type: "blob", sha: "b" },
+        ],
+      },
+    });
+
+    const result = await getTool("searchFiles")({
+      query: "okr",
+      searchIn: "filename",
+      ref: "drafts",
+    });
+
+    expect(mockSearchCode).not.toHaveBeenCalled();
+    expect(result.content[0].text).toContain(
+      "Found 1 files at ref drafts searching in filename"
+    );
+    expect(result.content[0].text).toContain("Drafts/OKR 2025.md");
+  });
+
+  it("should refuse content search on another ref", async () => {
+    const getTool = registerTools(config);
+
+    await expect(
+      getTool("searchFiles")({ query: "x", searchIn: "content", ref: "drafts" })
+    ).rejects.toThrow('Content search is not available for ref "drafts"');
+  });
+
+  it("should read a file as of the last commit before a date", async () => {
+    const getTool = registerTools(config);
+    mockReposListCommits.mockResolvedValue({
+      data: [
+        {
+          sha: "abcdef1234567",
+          commit: {
+            message: "Quarterly review\n\nDetails",
+            author: { date: "2025-03-30T10:00:00Z" },
+          },
+        },
+      ],
+    });
+    mockReposGetContent.mockResolvedValue({ data: "old text" });
+
+    const result = await getTool("getFileAtDate")({
+      filePath: "OKR.md",
+      date: "2025-03-31",
+    });
+
+    expect(mockReposListCommits).toHaveBeenCalledWith(
+      expect.objectContaining({
+        path: "OKR.md",
+        until: "2025-03-31T23:59:59.000Z",
+        per_page: 1,
+      })
+    );
+    expect(mockReposGetContent).toHaveBeenCalledWith(
+      expect.objectContaining({ path: "OKR.md", ref: "abcdef1234567" })
+    );
+    expect(result.content[0].text).toContain(
+      "Version of OKR.md at commit abcdef1"
+    );
+    expect(result.content[0].text).toContain("old text");
+  });
+
+  it("should report when a file did not exist yet", async () => {
+    const getTool = registerTools(config);
+    mockReposListCommits.mockResolvedValue({ data: [] });
+
+    await expect(
+      getTool("getFileAtDate")({ filePath: "New.md", date: "2020-01-01" })
+    ).rejects.toThrow('No version of "New.md" exists on or before');
+  });
+
+  it("should reject invalid dates", async () => {
+    const getTool = registerTools(config);
+
+    await expect(
+      getTool("getFileAtDate")({ filePath: "a.md", date: "last tuesday" })
+    ).rejects.toThrow('Invalid date "last tuesday"');
+  });
+
+  it("should report a file deleted by the last commit before the date", async () => {
+    const getTool = registerTools(config);
+    mockReposListCommits.mockResolvedValue({
+      data: [
+        {
+          sha: "abcdef1234567",
+          commit: {
+            message: "Move OKR to archive",
+            author: { date: "2025-03-30T10:00:00Z" },
+          },
+        },
+      ],
+    });
+    mockReposGetContent.mockRejectedValue(
+      Object.assign(new Error("Not Found"), { status: 404 })
+    );
+
+    await expect(
+      getTool("getFileAtDate")({ filePath: "OKR.md", date: "2025-03-31" })
+    ).rejects.toThrow(
+      '"OKR.md" did not exist on 2025-03-31T23:59:59.000Z: it was deleted or renamed by commit abcdef1'
+    );
+  });
+
+  it("should search the tree of the configured default ref", async () => {
+    const getTool = registerTools({ ...config, defaultRef: "vault-2025-q1" });
+    mockGitGetTree.mockResolvedValue({
+      data: {
+        truncated: false,
+        tree: [{ path: "Notes/OKR.md", type: "blob", sha: "a" }],
+      },
+    });
+
+    const result = await getTool("searchFiles")({ query: "okr" });
+
+    expect(mockSearchCode).not.toHaveBeenCalled();
+    const text = result.content[0].text;
+    expect(text).toContain("Found 1 files at ref vault-2025-q1");
+    expect(text).toContain(
+      "file contents at ref vault-2025-q1 were not searched"
+    );
+  });
+
+  it("should use code search when the default ref is the default branch", async () => {
+    const getTool = registerTools({ ...config, defaultRef: "main" });
+    mockSearchCode.mockResolvedValue({
+      data: {
+        total_count: 1,
+        incomplete_results: false,
+        items: [
+          {
+            name: "OKR.md",
+            path: "Notes/OKR.md",
+            sha: "a",
+            html_url: "https://github.com/test-owner/test-repo/blob/main/Notes/OKR.md",
+            repository: { full_name: "test-owner/test-repo" },
+            score: 1,
+          },
+        ],
+      },
+    });
+
+    await getTool("searchFiles")({ query: "okr", searchIn: "content" });
+    await getTool("searchCode")({ query: "okr" });
+    await getTool("searchFiles")({ query: "okr", ref: "heads/main" });
+
+    expect(mockSearchCode).toHaveBeenCalledTimes(3);
+    expect(mockGitGetTree).not.toHaveBeenCalled();
+  });
+
+  it("should not run GitHub code search against another ref", async () => {
+    const getTool = registerTools(config);
+
+    await expect(
+      getTool("searchCode")({ query: "x", ref: "drafts" })
+    ).rejects.toThrow(
+      'GitHub code search only indexes the default branch and cannot search ref "drafts"'
+    );
+    expect(mockSearchCode).not.toHaveBeenCalled();
+  });
+});
+
+describe("GithubClient history tools", () => {
+  const config: GithubConfig = {
+    owner: "test-owner",
+    repo: "test-repo",
+    githubToken: "test-token",
+  };
+
+  const getToolImpl = (name: string) => {
+    const call = mockTool.mock.calls.find((c) => c[0] === name);
+    if (!call) {
+      throw new Error(`${name} tool not registered`);
+    }
+    return call[4];
+  };
+
+  const commit = (sha: string, message: string) => ({
+    sha,
+    commit: {
+      message,
+      author: { name: "Ada", email: "ada@example.com", date: "2025-01-01" },
+    },
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    const server = new McpServer({
+      name: "test-server",
+      version: "1.0.0",
+    });
+    new GithubClient(config).registerGithubTools(server);
+  });
+
+  it("should filter getCommitHistory by author", async () => {
+    mockReposListCommits.mockResolvedValue({ data: [] });
+
+    await getToolImpl("getCommitHistory")({
+      days: 7,
+      author: "ada",
+      includeDiffs: false,
+    });
+
+    expect(mockReposListCommits).toHaveBeenCalledWith(
+      expect.objectContaining({ author: "ada" })
+    );
+  });
+
+  it("should follow renames in getFileHistory", async () => {
+    mockReposListCommits
+      .mockResolvedValueOnce({
+        data: [commit("c3333333", "Edit idea"), commit("c2222222", "Move idea")],
+      })
+      .mockResolvedValueOnce({ data: [commit("c1111111", "Create idea")] });
+    mockReposGetCommit.mockImplementation(async ({ ref }) => ({
+      data:
+        ref === "c2222222"
+          ? {
+              sha: "c2222222",
+              parents: [{ sha: "c1111111" }],
+              files: [
+                {
+                  filename: "Ideas/Idea.md",
+                  previous_filename: "Inbox/Idea.md",
+                  status: "renamed",
+                },
+              ],
+            }
+          : {
+              sha: ref,
+              parents: [],
+              files: [{ filename: "Inbox/Idea.md", status: "added" }],
+            },
+    }));
+
+    const result = await getToolImpl("getFileHistory")({
+      filePath: "Ideas/Idea.md",
+      maxCommits: 10,
+    });
+    const text = result.content[0].text;
+
+    expect(mockReposListCommits).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        path: "Inbox/Idea.md",
+        sha: "c1111111",
+        per_page: 8,
+      })
+    );
+    expect(text).toContain("Found 3 commits across 1 rename:");
+    expect(text).toContain(
+      "- Renamed from Inbox/Idea.md to Ideas/Idea.md in c222222"
+    );
+    expect(text).toContain("Path at the time: Inbox/Idea.md");
+    expect(result.structuredContent.commits).toHaveLength(3);
+  });
+
+  it("should stop at maxCommits without looking for renames", async () => {
+    mockReposListCommits.mockResolvedValue({
+      data: [commit("c3333333", "Edit idea")],
+    });
+
+    await getToolImpl("getFileHistory")({
+      filePath: "Ideas/Idea.md",
+      maxCommits: 1,
+    });
+
+    expect(mockReposListCommits).toHaveBeenCalledTimes(1);
+    expect(mockReposGetCommit).not.toHaveBeenCalled();
+  });
+
+  it("should report files with no history", async () => {
+    mockReposListCommits.mockResolvedValue({ data: [] });
+
+    await expect(
+      getToolImpl("getFileHistory")({ filePath: "Nope.md" })
+    ).rejects.toThrow('No commits found touching "Nope.md".');
+  });
+
+  it("should compare revisions with status and scope filters", async () => {
+    mockReposCompareCommitsWithBasehead.mockResolvedValue({
+      data: {
+        status: "ahead",
+        ahead_by: 2,
+        behind_by: 0,
+        total_commits: 2,
+        files: [
+          {
+            filename: "Projects/New.md",
+            status: "added",
+            additions: 3,
+            deletions: 0,
+            patch: "@@ +1,3 @@\n+hello",
+          },
+          {
+            filename: "Projects/Moved.md",
+            previous_filename: "Inbox/Moved.md",
+            status: "renamed",
+            additions: 0,
+            deletions: 0,
+          },
+          {
+            filename: "Projects/diagram.png",
+            status: "modified",
+            additions: 0,
+            deletions: 0,
+          },
+          { filename: "Other/Note.md", status: "removed", deletions: 4 },
+        ],
+      },
+    });
+
+    const result = await getToolImpl("compareRevisions")({
+      base: "v1",
+      head: "main",
+      path: "Projects/",
+      markdownOnly: true,
+    });
+    const text = result.content[0].text;
+
+    expect(mockReposCompareCommitsWithBasehead).toHaveBeenCalledWith(
+      expect.objectContaining({ basehead: "v1...main" })
+    );
+    expect(text).toContain("Status: ahead (2 ahead, 0 behind, 2 commits)");
+    expect(text).toContain("Summary: 1 added, 0 modified, 1 renamed, 0 removed");
+    expect(text).toContain("- Projects/New.md **added** (+3, -0)");
+    expect(text).toContain(
+      "- Projects/Moved.md **renamed** from Inbox/Moved.md (+0, -0)"
+    );
+    expect(text).toContain("```diff\n@@ +1,3 @@\n+hello\n```");
+    expect(text).not.toContain("diagram.png");
+    expect(text).not.toContain("Other/Note.md");
+  });
+});
+
+describe("GithubClient writeNote", () => {
+  const config: GithubConfig = {
+    owner: "test-owner",
+    repo: "test-repo",
+    githubToken: "test-token",
+  };
+
+  let writeNoteImpl: (args: Record<string, unknown>) => Promise<{
+    content: Array<{ type: string; text: string }>;
+    structuredContent: Record<string, unknown>;
+  }>;
+
+  // Octokit request errors carry the HTTP status
+  const httpError = (status: number, message: string) =>
+    Object.assign(new Error(message), { status });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    const server = new McpServer({
+      name: "test-server",
+      version: "1.0.0",
+    });
+    new GithubClient(config).registerGithubTools(server);
+
+    const call = mockTool.mock.calls.find((c) => c[0] === "writeNote");
+    if (!call) {
+      throw new Error("writeNote tool not registered");
+    }
+    writeNoteImpl = call[4];
+  });
+
+  it("should be annotated as a destructive write", () => {
+    const call = mockTool.mock.calls.find((c) => c[0] === "writeNote");
+    expect(call?.[3]).toEqual({
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: true,
+    });
+  });
+
+  it("should update a note with the SHA it last read", async () => {
+    mockReposCreateOrUpdateFileContents.mockResolvedValue({
+      data: {
+        content: { sha: "new-sha" },
+        commit: { sha: "commit123456", html_url: "https://example.com/c" },
+      },
+    });
+
+    const result = await writeNoteImpl({
+      filePath: "Notes/Idea.md",
+      content: "Updated ✓",
+      sha: "old-sha",
+    });
+
+    expect(mockReposCreateOrUpdateFileContents).toHaveBeenCalledWith({
+      owner: "test-owner",
+      repo: "test-repo",
+      path: "Notes/Idea.md",
+      message: "Update Notes/Idea.md",
+      content: Buffer.from("Updated ✓").toString("base64"),
+      sha: "old-sha",
+    });
+    expect(result.content[0].text).toContain(
+      "Updated Notes/Idea.md in commit commit1."
+    );
+    expect(result.structuredContent).toMatchObject({
+      created: false,
+      sha: "new-sha",
+      commitSha: "commit123456",
+    });
+  });
+
+  it("should create a note on a branch with a custom message", async () => {
+    mockReposCreateOrUpdateFileContents.mockResolvedValue({
+      data: {
+        content: { sha: "new-sha" },
+        commit: { sha: "c1", html_url: "https://example.com/c" },
+      },
+    });
+
+    await writeNoteImpl({
+      filePath: "New.md",
+      content: "Hi",
+      message: "Add note",
+      branch: "drafts",
+    });
+
+    expect(mockReposCreateOrUpdateFileContents).toHaveBeenCalledWith(
+      expect.objectContaining({ message: "Add note", branch: "drafts" })
+    );
+    expect(mockReposCreateOrUpdateFileContents.mock.calls[0][0]).not.toHaveProperty(
+      "sha"
+    );
+  });
+
+  it("should report stale SHAs as a conflict", async () => {
+    mockReposCreateOrUpdateFileContents.mockRejectedValue(
+      httpError(409, "is at abc but expected old-sha")
+    );
+
+    await expect(
+      writeNoteImpl({ filePath: "Idea.md", content: "x", sha: "old-sha" })
+    ).rejects.toThrow(
+      'Conflict: "Idea.md" has changed since SHA old-sha was read.'
+    );
+  });
+
+  it("should refuse to create a note that already exists", async () => {
+    mockReposCreateOrUpdateFileContents.mockRejectedValue(
+      httpError(422, '"sha" wasn\'t supplied.')
+    );
+
+    await expect(
+      writeNoteImpl({ filePath: "Idea.md", content: "x" })
+    ).rejects.toThrow('"Idea.md" already exists.');
+  });
+
+  it("should wrap other API errors", async () => {
+    mockReposCreateOrUpdateFileContents.mockRejectedValue(
+      httpError(500, "Server Error")
+    );
+
+    await expect(
+      writeNoteImpl({ filePath: "Idea.md", content: "x", sha: "s" })
+    ).rejects.toThrow("GitHub API error: Server Error");
+  });
+});
+
+describe("GithubClient commitChanges", () => {
+  const config: GithubConfig = {
+    owner: "test-owner",
+    repo: "test-repo",
+    githubToken: "test-token",
+  };
+
+  let commitChangesImpl: (args: Record<string, unknown>) => Promise<{
+    content: Array<{ type: string; text: string }>;
+    structuredContent: Record<string, unknown>;
+  }>;
+
+  const httpError = (status: number, message: string) =>
+    Object.assign(new Error(message), { status });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    const server = new McpServer({
+      name: "test-server",
+      version: "1.0.0",
+    });
+    new GithubClient(config).registerGithubTools(server);
+
+    const call = mockTool.mock.calls.find((c) => c[0] === "commitChanges");
+    if (!call) {
+      throw new Error("commitChanges tool not registered");
+    }
+    commitChangesImpl = call[4];
+
+    mockReposGet.mockResolvedValue({ data: { default_branch: "main" } });
+    mockGitGetRef.mockResolvedValue({ data: { object: { sha: "head-sha" } } });
+    mockGitGetCommit.mockResolvedValue({ data: { tree: { sha: "base-tree" } } });
+    mockGitGetTree.mockResolvedValue({
+      data: {
+        truncated: false,
+        tree: [
+          { path: "Old.md", type: "blob", sha: "old-blob", mode: "100644" },
+          { path: "Stale.md", type: "blob", sha: "stale-blob", mode: "100644" },
+          { path: "Idea.md", type: "blob", sha: "idea-blob", mode: "100644" },
+        ],
+      },
+    });
+    mockGitCreateTree.mockResolvedValue({ data: { sha: "new-tree" } });
+    mockGitCreateCommit.mockResolvedValue({ data: { sha: "commit123456" } });
+    mockGitUpdateRef.mockResolvedValue({ data: {} });
+  });
+
+  it("should build one commit from every change and fast-forward the branch", async () => {
+    const result = await commitChangesImpl({
+      changes: [
+        { action: "create", path: "New.md", content: "Hello" },
+        { action: "update", path: "Idea.md", content: "v2", sha: "idea-blob" },
+        { action: "delete", path: "Stale.md" },
+        { action: "rename", path: "Old.md", newPath: "Archive/Old.md" },
+      ],
+      message: "Reorganise notes",
+    });
+
+    expect(mockGitGetRef).toHaveBeenCalledWith(
+      expect.objectContaining({ ref: "heads/main" })
+    );
+    expect(mockGitCreateTree).toHaveBeenCalledWith({
+      owner: "test-owner",
+      repo: "test-repo",
+      base_tree: "base-tree",
+      tree: [
+        { path: "New.md", mode: "100644", type: "blob", content: "Hello" },
+        { path: "Idea.md", mode: "100644", type: "blob", content: "v2" },
+        { path: "Stale.md", mode: "100644", type: "blob", sha: null },
+        { path: "Old.md", mode: "100644", type: "blob", sha: null },
+        {
+          path: "Archive/Old.md",
+          mode: "100644",
+          type: "blob",
+          sha: "old-blob",
+        },
+      ],
+    });
+    expect(mockGitCreateCommit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: "Reorganise notes",
+        tree: "new-tree",
+        parents: ["head-sha"],
+      })
+    );
+    expect(mockGitUpdateRef).toHaveBeenCalledWith(
+      expect.objectContaining({
+        ref: "heads/main",
+        sha: "commit123456",
+        force: false,
+      })
+    );
+    expect(result.content[0].text).toContain(
+      "Committed 4 changes to main in commit1"
+    );
+    expect(result.content[0].text).toContain(
+      "- rename Old.md → Archive/Old.md"
+    );
+  });
+
+  it("should reject stale file SHAs before writing anything", async () => {
+    await expect(
+      commitChangesImpl({
+        changes: [{ action: "delete", path: "Idea.md", sha: "older" }],
+        message: "Remove",
+      })
+    ).rejects.toThrow('Conflict: "Idea.md" has changed since SHA older');
+    expect(mockGitCreateTree).not.toHaveBeenCalled();
+  });
+
+  it("should refuse to create files that already exist", async () => {
+    await expect(
+      commitChangesImpl({
+        changes: [{ action: "create", path: "Idea.md", content: "x" }],
+        message: "Add",
+      })
+    ).rejects.toThrow('Cannot create "Idea.md": file already exists.');
+  });
+
+  it("should apply each change to the files earlier changes produced", async () => {
+    await commitChangesImpl({
+      changes: [
+        { action: "rename", path: "Old.md", newPath: "Archive/Old.md" },
+        {
+          action: "update",
+          path: "Archive/Old.md",
+          content: "moved and edited",
+          sha: "old-blob",
+        },
+        { action: "delete", path: "Stale.md" },
+        { action: "create", path: "Stale.md", content: "fresh" },
+      ],
+      message: "Chain",
+    });
+
+    expect(mockGitCreateTree).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tree: [
+          { path: "Old.md", mode: "100644", type: "blob", sha: null },
+          {
+            path: "Archive/Old.md",
+            mode: "100644",
+            type: "blob",
+            content: "moved and edited",
+          },
+          { path: "Stale.md", mode: "100644", type: "blob", content: "fresh" },
+        ],
+      })
+    );
+  });
+
+  it("should reject a batch that repeats a change to the same path", async () => {
+    await expect(
+      commitChangesImpl({
+        changes: [
+          { action: "update", path: "Idea.md", content: "a" },
+          { action: "update", path: "Idea.md", content: "b" },
+        ],
+        message: "Twice",
+      })
+    ).rejects.toThrow(
+      'Duplicate change: "Idea.md" is given more than one update.'
+    );
+    await expect(
+      commitChangesImpl({
+        changes: [
+          { action: "delete", path: "Idea.md" },
+          { action: "update", path: "Idea.md", content: "b" },
+        ],
+        message: "Gone",
+      })
+    ).rejects.toThrow('Cannot change "Idea.md": file does not exist.');
+    expect(mockGitCreateTree).not.toHaveBeenCalled();
+  });
+
+  it("should reject the commit when the branch head is not the expected one", async () => {
+    await expect(
+      commitChangesImpl({
+        changes: [{ action: "create", path: "New.md", content: "x" }],
+        message: "Add",
+        branch: "drafts",
+        expectedHeadSha: "other-sha",
+      })
+    ).rejects.toThrow('Conflict: branch "drafts" is at head-sh');
+    expect(mockReposGet).not.toHaveBeenCalled();
+  });
+
+  it("should fail cleanly when the branch moves during the commit", async () => {
+    mockGitUpdateRef.mockRejectedValue(
+      httpError(422, "Update is not a fast forward")
+    );
+
+    await expect(
+      commitChangesImpl({
+        changes: [{ action: "create", path: "New.md", content: "x" }],
+        message: "Add",
+      })
+    ).rejects.toThrow(
+      'Conflict: branch "main" moved while committing, so nothing was changed.'
+    );
+  });
+});
+
+describe("GithubClient moveNote", () => {
+  const config: GithubConfig = {
+    owner: "test-owner",
+    repo: "test-repo",
+    githubToken: "test-token",
+  };
+
+  let moveNoteImpl: (args: Record<string, unknown>) => Promise<{
+    content: Array<{ type: string; text: string }>;
+    structuredContent: Record<string, unknown>;
+  }>;
+
+  const blobs: Record<string, string> = {
+    "alpha-sha": "# Alpha",
+    "index-sha": "See [[Alpha#Goals|goals]]",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    const server = new McpServer({
+      name: "test-server",
+      version: "1.0.0",
+    });
+    new GithubClient(config).registerGithubTools(server);
+
+    const call = mockTool.mock.calls.find((c) => c[0] === "moveNote");
+    if (!call) {
+      throw new Error("moveNote tool not registered");
+    }
+    moveNoteImpl = call[4];
+
+    mockGitGetTree.mockResolvedValue({
+      data: {
+        truncated: false,
+        tree: [
+          { path: "Alpha.md", type: "blob", sha: "alpha-sha", mode: "100644" },
+          { path: "Index.md", type: "blob", sha: "index-sha", mode: "100644" },
+        ],
+      },
+    });
+    mockGitGetBlob.mockImplementation(({ file_sha }) =>
+      Promise.resolve({
+        data: {
+          content: Buffer.from(blobs[file_sha]).toString("base64"),
+          encoding: "base64",
+        },
+      })
+    );
+    mockReposGet.mockResolvedValue({ data: { default_branch: "main" } });
+    mockGitGetRef.mockResolvedValue({ data: { object: { sha: "head-sha" } } });
+    mockGitGetCommit.mockResolvedValue({ data: { tree: { sha: "base-tree" } } });
+    mockGitCreateTree.mockResolvedValue({ data: { sha: "new-tree" } });
+    mockGitCreateCommit.mockResolvedValue({ data: { sha: "commit123456" } });
+    mockGitUpdateRef.mockResolvedValue({ data: {} });
+  });
+
+  it("should preview link changes without committing in dry-run mode", async () => {
+    const result = await moveNoteImpl({
+      filePath: "Alpha.md",
+      newPath: "Projects/Beta.md",
+      dryRun: true,
+    });
+
+    expect(result.content[0].text).toContain(
+      "Dry run: moving Alpha.md to Projects/Beta.md would update 1 line in 1 file."
+    );
+    expect(result.content[0].text).toContain("+ `See [[Beta#Goals|goals]]`");
+    expect(mockGitCreateTree).not.toHaveBeenCalled();
+  });
+
+  it("should move the note and rewrite links in a single commit", async () => {
+    const result = await moveNoteImpl({
+      filePath: "Alpha.md",
+      newPath: "Projects/Beta.md",
+    });
+
+    expect(mockGitCreateTree).toHaveBeenCalledTimes(1);
+    expect(mockGitCreateTree.mock.calls[0][0].tree).toEqual([
+      { path: "Alpha.md", mode: "100644", type: "blob", sha: null },
+      {
+        path: "Projects/Beta.md",
+        mode: "100644",
+        type: "blob",
+        sha: "alpha-sha",
+      },
+      {
+        path: "Index.md",
+        mode: "100644",
+        type: "blob",
+        content: "See [[Beta#Goals|goals]]",
+      },
+    ]);
+    expect(mockGitCreateCommit).toHaveBeenCalledWith(
+      expect.objectContaining({ message: "Move Alpha.md to Projects/Beta.md" })
+    );
+    expect(result.content[0].text).toContain(
+      "Moved Alpha.md to Projects/Beta.md and updated 1 line in 1 file"
+    );
+  });
+
+  it("should refuse to overwrite an existing file", async () => {
+    await expect(
+      moveNoteImpl({ filePath: "Alpha.md", newPath: "Index.md" })
+    ).rejects.toThrow('Cannot move to "Index.md": file already exists.');
+  });
+});
+
+describe("GithubClient daily notes", () => {
+  const config: GithubConfig = {
+    owner: "test-owner",
+    repo: "test-repo",
+    githubToken: "test-token",
+  };
+
+  let getDailyNoteImpl: (args: Record<string, unknown>) => Promise<{
+    content: Array<{ type: string; text: string }>;
+    structuredContent: Record<string, unknown>;
+  }>;
+  let appendToDailyNoteImpl: typeof getDailyNoteImpl;
+
+  const blobs: Record<string, string> = {
+    "config-sha": JSON.stringify({
+      folder: "Journal",
+      format: "YYYY/YYYY-MM-DD",
+      template: "Templates/Daily",
+    }),
+    "template-sha": "# {{title}}\n{{date:dddd}}\n\n## Meetings\n",
+    "day-sha": "# 2025-01-02\n\n## Meetings\n- Standup\n\n## Tasks\n",
+  };
+  const tree = [
+    { path: ".obsidian/daily-notes.json", type: "blob", sha: "config-sha" },
+    { path: "Templates/Daily.md", type: "blob", sha: "template-sha" },
+    { path: "Journal/2025/2025-01-02.md", type: "blob", sha: "day-sha" },
+  ];
+
+  const httpError = (status: number, message: string) =>
+    Object.assign(new Error(message), { status });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    const server = new McpServer({
+      name: "test-server",
+      version: "1.0.0",
+    });
+    new GithubClient(config).registerGithubTools(server);
+
+    const handler = (name: string) => {
+      const call = mockTool.mock.calls.find((c) => c[0] === name);
+      if (!call) {
+        throw new Error(`${name} tool not registered`);
+      }
+      return call[4];
+    };
+    getDailyNoteImpl = handler("getDailyNote");
+    appendToDailyNoteImpl = handler("appendToDailyNote");
+
+    mockGitGetTree.mockResolvedValue({ data: { truncated: false, tree } });
+    mockGitGetBlob.mockImplementation(({ file_sha }) =>
+      Promise.resolve({
+        data: {
+          content: Buffer.from(blobs[file_sha]).toString("base64"),
+          encoding: "base64",
+        },
+      })
+    );
+    mockReposCreateOrUpdateFileContents.mockResolvedValue({
+      data: {
+        content: { sha: "new-sha" },
+        commit: { sha: "commit123456", html_url: "https://example.com/c" },
+      },
+    });
+  });
+
+  it("should read the daily note from the configured folder and format", async () => {
+    const result = await getDailyNoteImpl({ date: "2025-01-02" });
+
+    expect(result.content[0].text).toBe(blobs["day-sha"]);
+    expect(result.structuredContent).toMatchObject({
+      path: "Journal/2025/2025-01-02.md",
+      exists: true,
+      sha: "day-sha",
+    });
+  });
+
+  it("should report where a missing daily note is expected", async () => {
+    const result = await getDailyNoteImpl({ date: "2025-01-03" });
+    expect(result.content[0].text).toContain(
+      "expected at Journal/2025/2025-01-03.md"
+    );
+    expect(result.structuredContent.exists).toBe(false);
+  });
+
+  it("should append under a heading of an existing daily note", async () => {
+    await appendToDailyNoteImpl({
+      date: "2025-01-02",
+      heading: "Meetings",
+      content: "- Design review",
+    });
+
+    const args = mockReposCreateOrUpdateFileContents.mock.calls[0][0];
+    expect(args).toMatchObject({
+      path: "Journal/2025/2025-01-02.md",
+      sha: "day-sha",
+      message: "Append to Journal/2025/2025-01-02.md",
+    });
+    expect(Buffer.from(args.content, "base64").toString()).toBe(
+      "# 2025-01-02\n\n## Meetings\n- Standup\n- Design review\n\n## Tasks\n"
+    );
+  });
+
+  it("should create a missing daily note from the template", async () => {
+    const result = await appendToDailyNoteImpl({
+      date: "2025-01-03",
+      heading: "Meetings",
+      content: "- Kickoff",
+    });
+
+    const args = mockReposCreateOrUpdateFileContents.mock.calls[0][0];
+    expect(args).not.toHaveProperty("sha");
+    expect(Buffer.from(args.content, "base64").toString()).toBe(
+      "# 2025-01-03\nFriday\n\n## Meetings\n- Kickoff\n"
+    );
+    expect(result.structuredContent.created).toBe(true);
+  });
+
+  it("should retry on the latest version after a conflict", async () => {
+    mockReposCreateOrUpdateFileContents
+      .mockRejectedValueOnce(httpError(409, "sha mismatch"))
+      .mockResolvedValueOnce({
+        data: {
+          content: { sha: "new-sha" },
+          commit: { sha: "commit123456", html_url: "https://example.com/c" },
+        },
+      });
+
+    await appendToDailyNoteImpl({ date: "2025-01-02", content: "- Later" });
+
+    expect(mockReposCreateOrUpdateFileContents).toHaveBeenCalledTimes(2);
+    expect(mockGitGetTree).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not create a note when asked not to", async () => {
+    await expect(
+      appendToDailyNoteImpl({
+        date: "2025-01-03",
+        content: "x",
+        createIfMissing: false,
+      })
+    ).rejects.toThrow("No daily note exists for 2025-01-03");
+  });
+});
+
+describe("GithubClient templates", () => {
+  const config: GithubConfig = {
+    owner: "test-owner",
+    repo: "test-repo",
+    githubToken: "test-token",
+  };
+
+  let listTemplatesImpl: (args: Record<string, unknown>) => Promise<{
+    content: Array<{ type: string; text: string }>;
+    structuredContent: Record<string, unknown>;
+  }>;
+  let createNoteFromTemplateImpl: typeof listTemplatesImpl;
+
+  const blobs: Record<string, string> = {
+    "config-sha": JSON.stringify({ folder: "Templates" }),
+    "meeting-sha": "# {{title}}\nProject: {{project}}\n<% tp.file.folder() %>",
+    "existing-sha": "Existing",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    const server = new McpServer({
+      name: "test-server",
+      version: "1.0.0",
+    });
+    new GithubClient(config).registerGithubTools(server);
+
+    const handler = (name: string) => {
+      const call = mockTool.mock.calls.find((c) => c[0] === name);
+      if (!call) {
+        throw new Error(`${name} tool not registered`);
+      }
+      return call[4];
+    };
+    listTemplatesImpl = handler("listTemplates");
+    createNoteFromTemplateImpl = handler("createNoteFromTemplate");
+
+    mockGitGetTree.mockResolvedValue({
+      data: {
+        truncated: false,
+        tree: [
+          { path: ".obsidian/templates.json", type: "blob", sha: "config-sha" },
+          { path: "Templates", type: "tree", sha: "t" },
+          { path: "Templates/Meeting.md", type: "blob", sha: "meeting-sha" },
+          { path: "Projects/Existing.md", type: "blob", sha: "existing-sha" },
+        ],
+      },
+    });
+    mockGitGetBlob.mockImplementation(({ file_sha }) =>
+      Promise.resolve({
+        data: {
+          content: Buffer.from(blobs[file_sha]).toString("base64"),
+          encoding: "base64",
+        },
+      })
+    );
+    mockReposCreateOrUpdateFileContents.mockResolvedValue({
+      data: {
+        content: { sha: "new-sha" },
+        commit: { sha: "commit123456", html_url: "https://example.com/c" },
+      },
+    });
+  });
+
+  it("should list templates with the variables they expect", async () => {
+    const result = await listTemplatesImpl({});
+    expect(result.content[0].text).toContain(
+      "- **Meeting** (Templates/Meeting.md) — variables: project"
+    );
+    expect(result.structuredContent.templates).toEqual([
+      {
+        path: "Templates/Meeting.md",
+        name: "Meeting",
+        source: "templates",
+        variables: ["project"],
+      },
+    ]);
+  });
+
+  it("should create a note from a template by name", async () => {
+    const result = await createNoteFromTemplateImpl({
+      template: "meeting",
+      targetPath: "Projects/Kickoff",
+      variables: { project: "Apollo" },
+    });
+
+    const args = mockReposCreateOrUpdateFileContents.mock.calls[0][0];
+    expect(args).toMatchObject({
+      path: "Projects/Kickoff.md",
+      message: "Create Projects/Kickoff.md from Meeting",
+    });
+    expect(args).not.toHaveProperty("sha");
+    expect(Buffer.from(args.content, "base64").toString()).toBe(
+      "# Kickoff\nProject: Apollo\nProjects"
+    );
+    expect(result.structuredContent.created).toBe(true);
+  });
+
+  it("should refuse to overwrite an existing note unless asked", async () => {
+    await expect(
+      createNoteFromTemplateImpl({
+        template: "Templates/Meeting.md",
+        targetPath: "Projects/Existing.md",
+      })
+    ).rejects.toThrow('"Projects/Existing.md" already exists.');
+
+    await createNoteFromTemplateImpl({
+      template: "Templates/Meeting.md",
+      targetPath: "Projects/Existing.md",
+      overwrite: true,
+    });
+    expect(mockReposCreateOrUpdateFileContents).toHaveBeenCalledWith(
+      expect.objectContaining({ sha: "existing-sha" })
+    );
+  });
+
+  it("should report unknown templates", async () => {
+    await expect(
+      createNoteFromTemplateImpl({ template: "Nope", targetPath: "A.md" })
+    ).rejects.toThrow("Template not found: Nope.");
+  });
+});
+
+describe("GithubClient path policy", () => {
+  const config: GithubConfig = {
+    owner: "test-owner",
+    repo: "test-repo",
+    githubToken: "test-token",
+    readDeny: ["Private/**"],
+    writeDeny: [".obsidian/**"],
+  };
+
+  type Handler = (args: Record<string, unknown>) => Promise<{
+    content: Array<{ type: string; text: string }>;
+    structuredContent?: Record<string, unknown>;
+  }>;
+  let handlers: Record<string, Handler>;
+
+  const register = (policyConfig: GithubConfig) => {
+    mockTool.mockClear();
+    const server = new McpServer({
+      name: "test-server",
+      version: "1.0.0",
+    });
+    new GithubClient(policyConfig).registerGithubTools(server);
+    handlers = Object.fromEntries(
+      mockTool.mock.calls.map((call) => [call[0], call[4]])
+    );
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    register(config);
+  });
+
+  it("should refuse to read denied paths without calling GitHub", async () => {
+    await expect(
+      handlers.getFileContents({ filePath: "Private/Journal.md" })
+    ).rejects.toThrow(
+      'Access denied: "Private/Journal.md" cannot be read because it matches the readDeny pattern "Private/**".'
+    );
+    expect(mockReposGetContent).not.toHaveBeenCalled();
+  });
+
+  it("should filter denied paths out of search results", async () => {
+    mockSearchCode.mockResolvedValue({
+      data: {
+        total_count: 2,
+        items: [
+          { name: "Plan.md", path: "Projects/Plan.md" },
+          { name: "Diary.md", path: "Private/Diary.md" },
+        ],
+      },
+    });
+
+    const result = await handlers.searchFiles({ query: "plan" });
+    expect(result.content[0].text).toContain("Projects/Plan.md");
+    expect(result.content[0].text).not.toContain("Private/Diary.md");
+    expect(result.content[0].text).toContain(
+      "1 result hidden by the path policy"
+    );
+  });
+
+  it("should hide denied folders from the vault tree", async () => {
+    mockGitGetTree.mockResolvedValue({
+      data: {
+        truncated: false,
+        tree: [
+          { path: "Private", type: "tree", sha: "1" },
+          { path: "Private/Diary.md", type: "blob", sha: "2", size: 1 },
+          { path: "Notes.md", type: "blob", sha: "3", size: 1 },
+        ],
+      },
+    });
+
+    const result = await handlers.getVaultTree({});
+    expect(result.content[0].text).toContain("Notes.md");
+    expect(result.content[0].text).not.toContain("Private");
+    await expect(handlers.getVaultTree({ path: "Private" })).rejects.toThrow(
+      'Access denied: "Private/" cannot be read'
+    );
+  });
+
+  it("should block writes to denied paths before reaching GitHub", async () => {
+    await expect(
+      handlers.writeNote({ filePath: ".obsidian/app.json", content: "{}" })
+    ).rejects.toThrow(
+      'Write denied: ".obsidian/app.json" cannot be changed because it matches the writeDeny pattern ".obsidian/**".'
+    );
+    await expect(
+      handlers.commitChanges({
+        changes: [
+          { action: "rename", path: "Notes.md", newPath: "Private/Notes.md" },
+        ],
+        message: "Hide",
+      })
+    ).rejects.toThrow('Write denied: "Private/Notes.md"');
+    expect(mockReposCreateOrUpdateFileContents).not.toHaveBeenCalled();
+    expect(mockGitGetRef).not.toHaveBeenCalled();
+  });
+
+  it("should refuse every write in read-only mode", async () => {
+    register({ ...config, readOnly: true });
+
+    await expect(
+      handlers.writeNote({ filePath: "Notes.md", content: "x" })
+    ).rejects.toThrow("the server is configured as read-only");
+    await expect(
+      handlers.appendToDailyNote({ content: "x" })
+    ).rejects.toThrow("Write denied: the server is configured as read-only.");
+    expect(mockGitGetTree).not.toHaveBeenCalled();
+  });
+});
+
+describe("GithubClient pull requests", () => {
+  const config: GithubConfig = {
+    owner: "test-owner",
+    repo: "test-repo",
+    githubToken: "test-token",
+  };
+
+  type Handler = (args: Record<string, unknown>) => Promise<{
+    content: Array<{ type: string; text: string }>;
+    structuredContent?: Record<string, unknown>;
+  }>;
+  let handlers: Record<string, Handler>;
+
+  const notFound = Object.assign(new Error("Not Found"), { status: 404 });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    const server = new McpServer({
+      name: "test-server",
+      version: "1.0.0",
+    });
+    new GithubClient(config).registerGithubTools(server);
+    handlers = Object.fromEntries(
+      mockTool.mock.calls.map((call) => [call[0], call[4]])
+    );
+
+    mockReposGet.mockResolvedValue({ data: { default_branch: "main" } });
+    const branches = new Set(["refs/heads/main"]);
+    mockGitGetRef.mockImplementation(({ ref }) =>
+      branches.has(`refs/${ref}`)
+        ? Promise.resolve({ data: { object: { sha: "main-sha" } } })
+        : Promise.reject(notFound)
+    );
+    mockGitCreateRef.mockImplementation(({ ref }) => {
+      branches.add(ref);
+      return Promise.resolve({ data: {} });
+    });
+    mockReposGetCommit.mockResolvedValue({ data: { sha: "main-sha" } });
+    mockGitDeleteRef.mockResolvedValue({ data: {} });
+    mockGitGetCommit.mockResolvedValue({ data: { tree: { sha: "base-tree" } } });
+    mockGitGetTree.mockResolvedValue({
+      data: {
+        truncated: false,
+        tree: [{ path: "Idea.md", type: "blob", sha: "idea-sha" }],
+      },
+    });
+    mockGitCreateTree.mockResolvedValue({ data: { sha: "new-tree" } });
+    mockGitCreateCommit.mockResolvedValue({ data: { sha: "commit123456" } });
+    mockGitUpdateRef.mockResolvedValue({ data: {} });
+    mockReposCompareCommitsWithBasehead.mockResolvedValue({
+      data: {
+        total_commits: 1,
+        files: [
+          {
+            filename: "Idea.md",
+            status: "modified",
+            additions: 2,
+            deletions: 1,
+          },
+        ],
+      },
+    });
+    mockPullsList.mockResolvedValue({ data: [] });
+    mockPullsCreate.mockResolvedValue({
+      data: { number: 7, html_url: "https://example.com/pull/7" },
+    });
+    mockPullsUpdate.mockResolvedValue({
+      data: { number: 7, html_url: "https://example.com/pull/7" },
+    });
+  });
+
+  it("should commit to a session branch and open a pull request", async () => {
+    const result = await handlers.proposeNoteChanges({
+      changes: [{ action: "update", path: "Idea.md", content: "v2" }],
+      description: "Tidy up the idea note.",
+    });
+
+    const branch = mockGitCreateRef.mock.calls[0][0].ref.replace(
+      "refs/heads/",
+      ""
+    );
+    expect(branch).toMatch(/^vault-edits\/\d{14}-[a-z0-9]+$/);
+    expect(mockGitCreateRef).toHaveBeenCalledWith(
+      expect.objectContaining({ sha: "main-sha" })
+    );
+    expect(mockGitUpdateRef).toHaveBeenCalledWith(
+      expect.objectContaining({ ref: `heads/${branch}`, force: false })
+    );
+    const pr = mockPullsCreate.mock.calls[0][0];
+    expect(pr).toMatchObject({
+      title: "Update Idea.md",
+      head: branch,
+      base: "main",
+    });
+    expect(pr.body).toContain("Tidy up the idea note.");
+    expect(pr.body).toContain("- `Idea.md` — modified (+2, -1)");
+    expect(result.content[0].text).toContain("Opened pull request #7");
+  });
+
+  it("should not name read-denied origins of renamed files", async () => {
+    vi.clearAllMocks();
+    const server = new McpServer({ name: "test-server", version: "1.0.0" });
+    new GithubClient({
+      ...config,
+      readDeny: ["Private/**"],
+    }).registerGithubTools(server);
+    mockReposCompareCommitsWithBasehead.mockResolvedValue({
+      data: {
+        total_commits: 1,
+        files: [
+          {
+            filename: "Idea.md",
+            previous_filename: "Private/Idea.md",
+            status: "renamed",
+            additions: 0,
+            deletions: 0,
+          },
+        ],
+      },
+    });
+
+    await getTool("proposeNoteChanges")({
+      changes: [{ action: "update", path: "Idea.md", content: "v2" }],
+    });
+
+    const { body } = mockPullsCreate.mock.calls[0][0];
+    expect(body).toContain("- `Idea.md` — renamed (+0, -0)");
+    expect(body).not.toContain("Private");
+  });
+
+  it("should branch from a tag or commit and delete the branch when the commit fails", async () => {
+    mockReposGetCommit.mockResolvedValue({ data: { sha: "tag-sha" } });
+    mockGitCreateTree.mockRejectedValue(new Error("tree too large"));
+
+    await expect(
+      handlers.proposeNoteChanges({
+        changes: [{ action: "update", path: "Idea.md", content: "v2" }],
+        branch: "proposal",
+        base: "v1.0",
+      })
+    ).rejects.toThrow("tree too large");
+
+    expect(mockReposGetCommit).toHaveBeenCalledWith(
+      expect.objectContaining({ ref: "v1.0" })
+    );
+    expect(mockGitCreateRef).toHaveBeenCalledWith(
+      expect.objectContaining({ ref: "refs/heads/proposal", sha: "tag-sha" })
+    );
+    expect(mockGitDeleteRef).toHaveBeenCalledWith(
+      expect.objectContaining({ ref: "heads/proposal" })
+    );
+    expect(mockPullsCreate).not.toHaveBeenCalled();
+  });
+
+  it("should reuse the session branch and update the open pull request", async () => {
+    await handlers.proposeNoteChanges({
+      changes: [{ action: "update", path: "Idea.md", content: "v2" }],
+    });
+    const branch = mockGitCreateRef.mock.calls[0][0].ref.replace(
+      "refs/heads/",
+      ""
+    );
+    mockPullsList.mockResolvedValue({ data: [{ number: 7 }] });
+
+    const result = await handlers.proposeNoteChanges({
+      changes: [{ action: "create", path: "New.md", content: "x" }],
+    });
+
+    expect(mockGitCreateRef).toHaveBeenCalledTimes(1);
+    expect(mockPullsList).toHaveBeenLastCalledWith(
+      expect.objectContaining({ head: `test-owner:${branch}`, base: "main" })
+    );
+    expect(mockPullsUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ pull_number: 7 })
+    );
+    expect(mockPullsUpdate.mock.calls[0][0]).not.toHaveProperty("title");
+    expect(result.content[0].text).toContain("Updated pull request #7");
+  });
+
+  it("should list vault pull requests", async () => {
+    mockPullsList.mockResolvedValue({
+      data: [
+        {
+          number: 7,
+          title: "Update Idea.md",
+          state: "open",
+          draft: false,
+          merged_at: null,
+          head: { ref: "vault-edits/1" },
+          base: { ref: "main" },
+          user: { login: "octo" },
+          updated_at: "2025-01-02T00:00:00Z",
+          html_url: "https://example.com/pull/7",
+        },
+      ],
+    });
+
+    const result = await handlers.listVaultPullRequests({});
+    expect(result.content[0].text).toContain(
+      "- #7 **Update Idea.md** (open) — vault-edits/1 → main, by octo"
+    );
+  });
+
+  it("should render a pull request's note changes like commits", async () => {
+    mockPullsGet.mockResolvedValue({
+      data: {
+        number: 7,
+        title: "Update Idea.md",
+        state: "open",
+        merged: false,
+        draft: false,
+        commits: 2,
+        head: { ref: "vault-edits/1" },
+        base: { ref: "main" },
+        user: { login: "octo" },
+        updated_at: "2025-01-02T00:00:00Z",
+        html_url: "https://example.com/pull/7",
+        body: "Summary",
+      },
+    });
+    mockPullsListFiles.mockResolvedValue({
+      data: [
+        {
+          filename: "Idea.md",
+          status: "modified",
+          additions: 2,
+          deletions: 1,
+          patch: "@@ -1 +1 @@\n-v1\n+v2",
+        },
+      ],
+    });
+
+    const result = await handlers.getPullRequestChanges({ pullNumber: 7 });
+    const text = result.content[0].text;
+    expect(text).toContain("## Pull Request #7: Update Idea.md");
+    expect(text).toContain("Status: open (vault-edits/1 → main, 2 commits)");
+    expect(text).toContain("- Idea.md **modified** (+2, -1)");
+    expect(text).toContain("```diff\n@@ -1 +1 @@");
+  });
+});
+
+describe("GithubClient local search backend", () => {
+  const config: GithubConfig = {
+    owner: "test-owner",
+    repo: "test-repo",
+    githubToken: "test-token",
+  };
+  const fixture = readFileSync(
+    new URL("../fixtures/vault.tar.gz", import.meta.url)
+  );
+  const treeEntries = readTarball(fixture, { stripComponents: 1 }).map(
+    (file) => ({
+      path: file.path,
+      type: "blob",
+      sha: gitBlobSha(file.content),
+      size: file.content.length,
+    })
+  );
+  let tools: Record<string, ToolHandler>;
+
+  function register(extra: Partial<GithubConfig> = {}) {
+    const server = new McpServer({ name: "test-server", version: "1.0.0" });
+    new GithubClient({ ...config, ...extra }).registerGithubTools(server);
+    tools = Object.fromEntries(
+      mockTool.mock.calls.map((call) => [call[0], call[4]])
+    );
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGitGetTree.mockResolvedValue({
+      data: { sha: "tree-sha", truncated: false, tree: treeEntries },
+    });
+    mockReposDownloadTarballArchive.mockResolvedValue({
+      data: fixture.buffer.slice(
+        fixture.byteOffset,
+        fixture.byteOffset + fixture.byteLength
+      ),
+    });
+  });
+
+  it("should search contents of any ref without code search", async () => {
+    register();
+    const result = await tools.searchFiles({
+      query: '"weekly review"',
+      searchIn: "content",
+      ref: "draft",
+      backend: "local",
+    });
+
+    expect(mockSearchCode).not.toHaveBeenCalled();
+    expect(mockGitGetTree).toHaveBeenCalledWith(
+      expect.objectContaining({ tree_sha: "draft" })
+    );
+    expect(mockReposDownloadTarballArchive).toHaveBeenCalledWith({
+      owner: "test-owner",
+      repo: "test-repo",
+      ref: "draft",
+    });
+    const text = result.content[0].text;
+    expect(text).toContain(
+      "Found 1 files in the local index of ref draft searching in content:"
+    );
+    expect(text).toContain(
+      "- **Weekly Review.md** (Notes/Weekly Review.md) 📄 content match\n  > Line 1: # **Weekly Review**"
+    );
+    expect(text).toContain("_Indexed 6 files from the repository tarball._");
+  });
+
+  it("should list filename matches before content matches", async () => {
+    register();
+    const result = await tools.searchFiles({
+      query: "alpha",
+      searchIn: "all",
+      backend: "local",
+    });
+    expect(result.content[0].text).toContain(
+      "- **Alpha.md** (Projects/Alpha.md) 📝 filename match"
+    );
+  });
+
+  it("should use the configured backend for searchCode", async () => {
+    register({ searchBackend: "local", readDeny: ["Projects/**"] });
+    const result = await tools.searchCode({
+      query: "friday",
+      language: "markdown",
+    });
+
+    expect(mockSearchCode).not.toHaveBeenCalled();
+    const text = result.content[0].text;
+    expect(text).toContain(
+      'Found 1 code matches for "friday" in markdown files in the local index:'
+    );
+    expect(text).toContain("- **Path**: `Notes/Weekly Review.md`");
+    expect(text).toContain(
+      "- **URL**: https://github.com/test-owner/test-repo/blob/HEAD/Notes/Weekly%20Review.md#L3"
+    );
+    expect(text).not.toContain("Projects/Alpha.md");
+
+    // The index is reused while it is fresh
+    await tools.searchCode({ query: "meet*" });
+    expect(mockReposDownloadTarballArchive).toHaveBeenCalledTimes(1);
+    expect(mockGitGetTree).toHaveBeenCalledTimes(1);
+  });
+
+  it("should drop denied paths from a persisted index", async () => {
+    const searchIndexDir = await mkdtemp(join(tmpdir(), "search-index-"));
+    try {
+      register({ searchIndexDir });
+      const before = await tools.searchCode({
+        query: "friday",
+        backend: "local",
+      });
+      expect(before.content[0].text).toContain("Projects/Alpha.md");
+
+      // Same tree SHA, but a stricter policy on the next run
+      register({ searchIndexDir, readDeny: ["Projects/**"] });
+      const files = await tools.searchFiles({
+        query: "alpha",
+        searchIn: "all",
+        backend: "local",
+      });
+      const code = await tools.searchCode({
+        query: "friday",
+        backend: "local",
+      });
+      expect(mockReposDownloadTarballArchive).toHaveBeenCalledTimes(1);
+      expect(files.content[0].text).not.toContain("Projects/Alpha.md");
+      expect(code.content[0].text).toContain("Notes/Weekly Review.md");
+      expect(code.content[0].text).not.toContain("Projects/Alpha.md");
+    } finally {
+      await rm(searchIndexDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("GithubClient tags", () => {
+  const notes: Record<string, string> = {
+    "Projects/Alpha.md":
+      "---\ntags: [project/alpha, status/active]\n---\n# Alpha\n#meeting notes",
+    "Projects/Beta.md": "# Beta\n#project/beta #status/done",
+    "Journal.md": "Nothing here but `#code` and\n```\n#fenced\n```",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setupVault(notes);
+  });
+
+  it("should list the tag hierarchy with note counts", async () => {
+    const result = await getTool("listTags")({});
+    expect(result.content[0].text).toBe(
+      [
+        "Found 7 tags in 2 notes:",
+        "",
+        "- #meeting (1 note)",
+        "- #project (2 notes)",
+        "  - #project/alpha (1 note)",
+        "  - #project/beta (1 note)",
+        "- #status (2 notes)",
+        "  - #status/active (1 note)",
+        "  - #status/done (1 note)",
+      ].join("\n")
+    );
+
+    const scoped = await getTool("listTags")({
+      prefix: "#status",
+      sort: "count",
+    });
+    expect(scoped.structuredContent.tags).toHaveLength(1);
+    expect(scoped.structuredContent.tags[0].tag).toBe("status");
+    await expect(getTool("listTags")({ prefix: "missing" })).rejects.toThrow(
+      "Tag not found in the vault: #missing"
+    );
+  });
+
+  it("should find notes with AND, OR and NOT", async () => {
+    const result = await getTool("findNotesByTag")({
+      all: ["project"],
+      none: ["status/done"],
+    });
+    expect(result.content[0].text).toBe(
+      "Found 1 note tagged #project NOT #status/done:\n\n- **Alpha** (Projects/Alpha.md) — #project/alpha\n"
+    );
+
+    const either = await getTool("findNotesByTag")({
+      any: ["meeting", "status/done"],
+    });
+    expect(
+      either.structuredContent.notes.map((note: { path: string }) => note.path)
+    ).toEqual(["Projects/Alpha.md", "Projects/Beta.md"]);
+
+    await expect(getTool("findNotesByTag")({ none: ["x"] })).rejects.toThrow(
+      "Give at least one tag"
+    );
+  });
+});
+
+describe("GithubClient queryNotes", () => {
+  const notes: Record<string, string> = {
+    "Projects/Alpha.md":
+      "---\ntype: project\nstatus: active\ndue: 2099-01-10\ntags: [work]\n---\nowner:: [[Me]]",
+    "Projects/Beta.md":
+      "---\ntype: project\nstatus: active\ndue: 2099-01-05\n---\nowner:: Sam | Lee",
+    "Projects/Gamma.md": "---\ntype: project\nstatus: done\n---\n#work",
+    "Inbox/Idea.md": "type:: idea\nstatus:: active",
+  };
+  let queryNotes: ToolHandler;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setupVault(notes);
+    queryNotes = getTool("queryNotes");
+  });
+
+  it("should render the matching notes as a sorted table", async () => {
+    const result = await queryNotes({
+      where: "type = project AND status = active",
+      sort: "due asc",
+      fields: ["status", "due", "owner"],
+    });
+    expect(result.content[0].text).toBe(
+      [
+        "Found 2 notes:",
+        "",
+        "| File | status | due | owner |",
+        "| --- | --- | --- | --- |",
+        "| Projects/Beta.md | active | 2099-01-05 | Sam \\| Lee |",
+        "| Projects/Alpha.md | active | 2099-01-10 | [[Me]] |",
+        "",
+      ].join("\n")
+    );
+    expect(result.structuredContent.rows[1]).toEqual({
+      path: "Projects/Alpha.md",
+      values: { status: "active", due: "2099-01-10", owner: "[[Me]]" },
+    });
+  });
+
+  it("should scope by folder and tag and default the columns", async () => {
+    const result = await queryNotes({
+      where: "due > today",
+      folder: "Projects",
+      tag: "work",
+      limit: 1,
+    });
+    expect(result.content[0].text).toBe(
+      [
+        "Found 1 note in Projects tagged #work:",
+        "",
+        "| File | due |",
+        "| --- | --- |",
+        "| Projects/Alpha.md | 2099-01-10 |",
+        "",
+      ].join("\n")
+    );
+    expect(mockGitGetBlob).toHaveBeenCalledTimes(3);
+  });
+
+  it("should explain invalid filters", async () => {
+    await expect(queryNotes({ where: "status = " })).rejects.toThrow(
+      'Invalid query: Expected a value after "status =" but found the end of the filter'
+    );
+  });
+});
+
+describe("GithubClient tasks", () => {
+  const notes: Record<string, string> = {
+    "Daily/2024-06-01.md":
+      "# Today\n- [ ] Pay rent #home 📅 2024-06-05\n- [x] Laundry ✅ 2024-06-01",
+    "Projects/Alpha.md":
+      "- [/] Draft spec #work 📅 2024-06-20 ⏫\n- [-] Old idea\n- [ ] Someday",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setupVault(notes);
+  });
+
+  it("should list open tasks grouped by file", async () => {
+    const result = await getTool("listTasks")({});
+    expect(result.content[0].text).toBe(
+      [
+        "Found 3 tasks:",
+        "",
+        "**Daily/2024-06-01.md**",
+        "- [ ] Pay rent #home 📅 2024-06-05 (line 2)",
+        "",
+        "**Projects/Alpha.md**",
+        "- [/] Draft spec #work 📅 2024-06-20 ⏫ (line 1)",
+        "- [ ] Someday (line 3)",
+        "",
+      ].join("\n")
+    );
+    expect(result.structuredContent.tasks[1]).toMatchObject({
+      path: "Projects/Alpha.md",
+      sha: "Projects/Alpha.md",
+      line: 1,
+      status: "in-progress",
+      priority: "high",
+      dates: { due: "2024-06-20" },
+    });
+  });
+
+  it("should filter by date range, path and tag", async () => {
+    const byDate = await getTool("listTasks")({
+      from: "2024-06-01",
+      to: "2024-06-10",
+    });
+    expect(
+      byDate.structuredContent.tasks.map((task: { text: string }) => task.text)
+    ).toEqual(["Pay rent #home 📅 2024-06-05"]);
+
+    const byPath = await getTool("listTasks")({
+      path: "Projects",
+      status: ["cancelled"],
+    });
+    expect(byPath.structuredContent.total).toBe(1);
+
+    const byTag = await getTool("listTasks")({ tag: "work" });
+    expect(byTag.structuredContent.tasks[0].line).toBe(1);
+
+    await expect(getTool("listTasks")({ from: "soon" })).rejects.toThrow(
+      'Invalid from date "soon"'
+    );
+  });
+
+  it("should toggle a task in place with its file SHA", async () => {
+    mockReposGetContent.mockResolvedValue(
+      fileData(notes["Daily/2024-06-01.md"], "daily-sha")
+    );
+    mockReposCreateOrUpdateFileContents.mockResolvedValue({
+      data: {
+        content: { sha: "new-sha" },
+        commit: { sha: "commit123456", html_url: "https://example.com/c" },
+      },
+    });
+
+    const result = await getTool("toggleTask")({
+      filePath: "Daily/2024-06-01.md",
+      line: 3,
+      sha: "daily-sha",
+    });
+
+    const call = mockReposCreateOrUpdateFileContents.mock.calls[0][0];
+    expect(call.sha).toBe("daily-sha");
+    expect(call.message).toBe("Toggle task in Daily/2024-06-01.md");
+    expect(Buffer.from(call.content, "base64").toString("utf8")).toBe(
+      "# Today\n- [ ] Pay rent #home 📅 2024-06-05\n- [ ] Laundry"
+    );
+    expect(result.content[0].text).toContain(
+      "Changed the task on line 3 of Daily/2024-06-01.md from [x] to [ ]"
+    );
+  });
+
+  it("should reject a stale SHA or a line without a task", async () => {
+    mockReposGetContent.mockResolvedValue(
+      fileData(notes["Daily/2024-06-01.md"], "newer-sha")
+    );
+
+    await expect(
+      getTool("toggleTask")({
+        filePath: "Daily/2024-06-01.md",
+        line: 2,
+        sha: "daily-sha",
+      })
+    ).rejects.toThrow("has changed since SHA daily-sha was read");
+    await expect(
+      getTool("toggleTask")({ filePath: "Daily/2024-06-01.md", line: 1 })
+    ).rejects.toThrow("Line 1 is not a task.");
+    expect(mockReposCreateOrUpdateFileContents).not.toHaveBeenCalled();
+  });
+});
+
+describe("GithubClient findNote", () => {
+  const notes: Record<string, string> = {
+    "Goals/Objectives 2025.md": "---\naliases: [OKR 2025]\n---\n# Goals",
+    "Archive/OKR 2024.md": "# Last year",
+    "Notes/Weekly Review.md": "# Friday planning",
+  };
+  let findNote: ToolHandler;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setupVault(notes);
+    findNote = getTool("findNote");
+  });
+
+  it("should rank notes by aliases and names without code search", async () => {
+    const result = await findNote({
+      query: "OKR 2025",
+      limit: 2,
+      readNotes: true,
+    });
+
+    expect(mockSearchCode).not.toHaveBeenCalled();
+    const text = result.content[0].text;
+    expect(text).toContain(
+      '1. **Objectives 2025** (Goals/Objectives 2025.md) — score 0.95, alias "OKR 2025"'
+    );
+    expect(text).toContain("2. **OKR 2024** (Archive/OKR 2024.md)");
+    expect(result.structuredContent.notes).toHaveLength(2);
+  });
+
+  it("should match from the tree alone by default", async () => {
+    const result = await findNote({ query: "weekly reveiw" });
+
+    expect(mockGitGetBlob).not.toHaveBeenCalled();
+    expect(result.structuredContent.notes[0]).toMatchObject({
+      path: "Notes/Weekly Review.md",
+      field: "name",
+    });
+
+    const none = await findNote({ query: "zzz" });
+    expect(none.content[0].text).toContain('No notes match "zzz"');
+  });
+});
+
+describe("GithubClient findRelatedNotes", () => {
+  const notes: Record<string, string> = {
+    "Review.md":
+      "---\ntags: [review]\n---\nWeekly review of the [[Roadmap]] and budget.",
+    "Roadmap.md": "Roadmap for the budget. Back to [[Review]].",
+    "Planning.md": "#review planning of the budget, see [[Roadmap]]",
+    "Recipes.md": "Pancakes.",
+  };
+  let findRelated: ToolHandler;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setupVault(notes);
+    findRelated = getTool("findRelatedNotes");
+  });
+
+  it("should rank related notes with the reasons for each", async () => {
+    const result = await findRelated({ filePath: "Review.md" });
+    const text = result.content[0].text;
+
+    expect(text).toBe(
+      [
+        "Notes related to Review.md:",
+        "",
+        "1. **Planning** (Planning.md) — score 0.33",
+        "   both link to Roadmap; shared tags #review; similar content (0.08): budget, review, roadmap",
+        "2. **Roadmap** (Roadmap.md) — score 0.25",
+        "   links to and from this note; similar content (0.11): budget, review, roadmap",
+        "",
+      ].join("\n")
+    );
+    expect(result.structuredContent.related[0]).toMatchObject({
+      path: "Planning.md",
+      sharedLinks: ["Roadmap.md"],
+      sharedTags: ["review"],
+    });
+  });
+
+  it("should reject notes missing from the vault", async () => {
+    await expect(findRelated({ filePath: "Nope.md" })).rejects.toThrow(
+      "File not found in repository: Nope.md"
+    );
+  });
+});
+
+describe("GithubClient link graph", () => {
+  const notes: Record<string, string> = {
+    "Home.md": "[[Alpha]] and [[Gone]]",
+    "Projects/Alpha.md": "[[Beta]]",
+    "Projects/Beta.md": "",
+    "Projects/Solo.md": "",
+  };
+  let getLinkGraph: ToolHandler;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setupVault(notes);
+    getLinkGraph = getTool("getLinkGraph");
+  });
+
+  it("should report stats and export the graph", async () => {
+    const result = await getLinkGraph({ format: "mermaid" });
+    const text = result.content[0].text;
+
+    expect(text).toContain(
+      "# Link graph of the vault\n\n4 notes, 2 links, 2 connected components (sizes 3, 1)."
+    );
+    expect(text).toContain(
+      "## Hubs (most linked-to)\n\n- **Alpha** (Projects/Alpha.md) ← 1 note\n- **Beta** (Projects/Beta.md) ← 1 note"
+    );
+    expect(text).toContain("## Orphans (1)\n\n- Projects/Solo.md");
+    expect(text).toContain("## Dead ends (1)\n\n- Projects/Beta.md");
+    expect(text).toContain("## Broken links (1)\n\n- Home.md L1 `[[Gone]]`");
+    expect(text).toContain('```mermaid\ngraph LR\n  n0["Home"]');
+    expect(result.structuredContent.adjacency["Home.md"]).toEqual([
+      "Projects/Alpha.md",
+    ]);
+  });
+
+  it("should graph one folder, resolving links against the vault", async () => {
+    const result = await getLinkGraph({ folder: "Projects", format: "graphml" });
+
+    expect(result.structuredContent.stats).toMatchObject({
+      notes: 3,
+      links: 1,
+      orphans: ["Projects/Solo.md"],
+      broken: [],
+    });
+    expect(result.content[0].text).toContain("```xml\n<?xml");
+  });
+
+  it("should ground the explore-vault prompt in the file tree", async () => {
+    const prompt = vi.fn();
+    new GithubClient(vaultConfig).registerGithubPrompts({
+      prompt,
+    } as unknown as McpServer);
+    const explore = prompt.mock.calls.find(
+      (call) => call[0] === "explore-vault"
+    )?.[3];
+
+    const result = await explore({});
+    const text = result.messages[0].content.text;
+    expect(text).toContain("- 4 notes, 0 canvases and 0 other files");
+    expect(text).toContain(
+      "- Top-level folders by number of notes: Projects (3), (vault root) (1)"
+    );
+    // No note is downloaded for the prompt
+    expect(mockGitGetBlob).not.toHaveBeenCalled();
+  });
+});
+
+describe("GithubClient lintVault", () => {
+  const files: Record<string, string> = {
+    "Home.md": "[[Gone]] and ![[Assets/used.png]]",
+    "Notes/Empty.md": "",
+    "Assets/used.png": "png",
+    "Assets/unused.png": "png",
+  };
+  let lint: ToolHandler;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setupVault(files);
+    lint = getTool("lintVault");
+  });
+
+  it("should group issues by rule with their locations", async () => {
+    const result = await lint({});
+    expect(result.content[0].text).toBe(
+      [
+        "# Vault lint report",
+        "",
+        "Found 3 issues in 3 files.",
+        "",
+        "## Broken links (1)",
+        "",
+        '- Home.md L1: Broken link `[[Gone]]`: no file matches "Gone"',
+        "",
+        "## Unreferenced attachments (1)",
+        "",
+        "- Assets/unused.png: Attachment is not linked or embedded by any note or canvas",
+        "",
+        "## Empty notes (1)",
+        "",
+        "- Notes/Empty.md: Note is empty",
+        "",
+      ].join("\n")
+    );
+    expect(result.structuredContent.counts).toEqual({
+      "broken-links": 1,
+      "unreferenced-attachments": 1,
+      "duplicate-names": 0,
+      frontmatter: 0,
+      "empty-notes": 1,
+      "forbidden-characters": 0,
+    });
+  });
+
+  it("should emit JSON for selected rules within a folder", async () => {
+    const result = await lint({
+      rules: ["unreferenced-attachments", "empty-notes"],
+      folder: "Assets",
+      format: "json",
+    });
+    expect(JSON.parse(result.content[0].text)).toEqual({
+      folder: "Assets",
+      total: 1,
+      files: 1,
+      counts: { "unreferenced-attachments": 1, "empty-notes": 0 },
+      issues: [
+        {
+          rule: "unreferenced-attachments",
+          path: "Assets/unused.png",
+          message: "Attachment is not linked or embedded by any note or canvas",
+        },
+      ],
+    });
+  });
+
+  it("should lint readable files without revealing hidden ones", async () => {
+    setupVault(
+      {
+        "Home.md": "[[Secret]] and [[Gone]]",
+        "Boards/Plan.canvas": JSON.stringify({
+          nodes: [{ id: "a", type: "file", file: "Assets/board.png" }],
+        }),
+        "Private/Secret.md": "![[Assets/secret.png]]",
+        "Assets/board.png": "png",
+        "Assets/secret.png": "png",
+      },
+      { readDeny: ["Private/**"] }
+    );
+
+    const result = await getTool("lintVault")({ format: "json" });
+    const report = JSON.parse(result.content[0].text);
+    // A link to a hidden note reads exactly like a link to a missing one
+    expect(report.issues).toEqual([
+      {
+        rule: "broken-links",
+        path: "Home.md",
+        line: 1,
+        message: 'Broken link `[[Secret]]`: no file matches "Secret"',
+      },
+      {
+        rule: "broken-links",
+        path: "Home.md",
+        line: 1,
+        message: 'Broken link `[[Gone]]`: no file matches "Gone"',
+      },
+      {
+        rule: "unreferenced-attachments",
+        path: "Assets/secret.png",
+        message: "Attachment is not linked or embedded by any note or canvas",
+      },
+    ]);
+    expect(report.note).toContain(
+      "Only files the read policy allows were checked"
+    );
+    expect(mockGitGetBlob).not.toHaveBeenCalledWith(
+      expect.objectContaining({ file_sha: "Private/Secret.md" })
+    );
+  });
+});
+
+describe("GithubClient getCanvas", () => {
+  const files: Record<string, string> = {
+    "Boards/Plan.canvas": JSON.stringify({
+      nodes: [
+        { id: "t", type: "text", x: 0, y: 0, text: "Start here" },
+        {
+          id: "f",
+          type: "file",
+          x: 0,
+          y: 200,
+          file: "Notes/Alpha.md",
+          subpath: "#Goals",
+        },
+        { id: "m", type: "file", x: 0, y: 400, file: "Notes/Gone.md" },
+      ],
+      edges: [{ id: "e", fromNode: "t", toNode: "f", label: "then" }],
+    }),
+    "Notes/Alpha.md": "# Alpha\n\n## Goals\n\nShip it\n\n## Later\n\nMore",
+    "Boards/Block.canvas": JSON.stringify({
+      nodes: [
+        { id: "b", type: "file", file: "Notes/Beta.md", subpath: "#^plan" },
+      ],
+    }),
+    "Notes/Beta.md": "Intro\n\n- Plan the week ^plan\n  - Book rooms\n\nAfter",
+    "Broken.canvas": "{",
+  };
+  let getCanvas: ToolHandler;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setupVault(files);
+    getCanvas = getTool("getCanvas");
+  });
+
+  it("should render an outline with resolved and inlined file nodes", async () => {
+    const result = await getCanvas({
+      filePath: "Boards/Plan.canvas",
+      inlineFiles: true,
+    });
+    expect(result.content[0].text).toBe(
+      [
+        "# Canvas Boards/Plan.canvas",
+        "",
+        "- Start here",
+        "- 📄 [[Notes/Alpha.md#Goals]]",
+        "  > ## Goals",
+        "  >",
+        "  > Ship it",
+        "- 📄 Notes/Gone.md _(missing)_",
+        "",
+        "## Connections",
+        "",
+        "- Start here → Alpha#Goals (then)",
+        "",
+      ].join("\n")
+    );
+    expect(result.structuredContent.nodes[1]).toMatchObject({
+      id: "f",
+      path: "Notes/Alpha.md",
+    });
+    expect(result.structuredContent.nodes[2].path).toBeUndefined();
+  });
+
+  it("should render a Mermaid flowchart", async () => {
+    const result = await getCanvas({
+      filePath: "Boards/Plan.canvas",
+      format: "mermaid",
+    });
+    expect(result.content[0].text).toContain(
+      '```mermaid\nflowchart LR\n  n0["Start here"]'
+    );
+    expect(result.content[0].text).toContain('n0 -->|"then"| n1');
+    expect(result.content[0].text).toContain(
+      '  n1[["Notes/Alpha.md#Goals"]]\n  n2[["Notes/Gone.md (missing)"]]'
+    );
+  });
+
+  it("should inline the whole block a file node references", async () => {
+    const result = await getCanvas({
+      filePath: "Boards/Block.canvas",
+      inlineFiles: true,
+    });
+    expect(result.content[0].text).toContain(
+      "- 📄 [[Notes/Beta.md#^plan]]\n  > - Plan the week ^plan\n  >   - Book rooms\n"
+    );
+  });
+
+  it("should report missing and malformed canvases", async () => {
+    await expect(getCanvas({ filePath: "Nope.canvas" })).rejects.toThrow(
+      "File not found in repository: Nope.canvas"
+    );
+    await expect(getCanvas({ filePath: "Broken.canvas" })).rejects.toThrow(
+      "Cannot read canvas Broken.canvas: Invalid canvas JSON"
+    );
+  });
+});
+
+describe("GithubClient note sections", () => {
+  const note = [
+    "# Meeting log",
+    "",
+    "## 2025-01-06",
+    "Budget approved ^budget",
+    "### Actions",
+    "- [ ] Send minutes",
+    "",
+    "## 2025-01-13",
+    "Nothing new",
+  ].join("\n");
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setupVault({ "Log.md": note });
+    mockReposGetContent.mockResolvedValue(fileData(note, "log-sha"));
+  });
+
+  it("should outline headings with line ranges and block IDs", async () => {
+    const result = await getTool("getNoteOutline")({ filePath: "Log.md" });
+    expect(result.content[0].text).toBe(
+      [
+        "# Outline of Log.md",
+        "",
+        "9 lines.",
+        "",
+        "- # Meeting log (lines 1–9)",
+        "  - ## 2025-01-06 (lines 3–7) — blocks: ^budget (line 4)",
+        "    - ### Actions (lines 5–7)",
+        "  - ## 2025-01-13 (lines 8–9)",
+        "",
+      ].join("\n")
+    );
+    expect(result.structuredContent.sha).toBe("log-sha");
+  });
+
+  it("should read a section, a block or a line range", async () => {
+    const section = await getTool("getNoteSection")({
+      filePath: "Log.md",
+      heading: "## 2025-01-06",
+    });
+    expect(section.content[0].text).toBe(
+      "## 2025-01-06\nBudget approved ^budget\n### Actions\n- [ ] Send minutes\n"
+    );
+    expect(section.content[1].text).toBe(
+      "_Lines 3–7 of 9 in Log.md (file SHA: log-sha)_"
+    );
+
+    const block = await getTool("getNoteSection")({
+      filePath: "Log.md",
+      blockId: "^budget",
+    });
+    expect(block.content[0].text).toBe("Budget approved ^budget");
+    expect(block.structuredContent).toMatchObject({
+      blockId: "budget",
+      startLine: 4,
+      endLine: 4,
+    });
+
+    const range = await getTool("getNoteSection")({
+      filePath: "Log.md",
+      startLine: 8,
+      endLine: 20,
+    });
+    expect(range.content[0].text).toBe("## 2025-01-13\nNothing new");
+  });
+
+  it("should explain missing headings and invalid selectors", async () => {
+    await expect(
+      getTool("getNoteSection")({ filePath: "Log.md", heading: "Missing" })
+    ).rejects.toThrow(
+      'Heading "Missing" not found in Log.md. Use getNoteOutline to list its headings.'
+    );
+    await expect(
+      getTool("getNoteSection")({
+        filePath: "Log.md",
+        heading: "A",
+        startLine: 1,
+      })
+    ).rejects.toThrow("Pass exactly one of heading, blockId or startLine");
+    await expect(
+      getTool("getNoteSection")({ filePath: "Log.md", startLine: 12 })
+    ).rejects.toThrow("Line 12 is past the end of Log.md, which has 9 lines.");
+  });
+});
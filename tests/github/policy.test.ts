@@ -0,0 +1,57 @@
+/// <reference types="vitest" />
+
+import { describe, it, expect } from "vitest";
+import { PathPolicy, PolicyError } from "../../src/github/policy";
+
+describe("PathPolicy", () => {
+  const policy = new PathPolicy({
+    readDeny: ["Private/**", "*.secret.md"],
+    writeDeny: [".obsidian/**"],
+    writeAllow: ["Inbox/**", ".obsidian/**"],
+  });
+
+  it("should deny reads matching readDeny, including traversal tricks", () => {
+    expect(policy.canRead("Notes/Idea.md")).toBe(true);
+    expect(policy.canRead("Private/Journal/2025.md")).toBe(false);
+    expect(policy.canRead("Notes/../Private/Journal.md")).toBe(false);
+    expect(policy.canRead("Notes/keys.secret.md")).toBe(false);
+    expect(policy.readDenial("Private/a.md")).toBe(
+      'it matches the readDeny pattern "Private/**"'
+    );
+  });
+
+  it("should only read allowed paths when readAllow is set", () => {
+    const allowList = new PathPolicy({ readAllow: ["Public/**"] });
+    expect(allowList.canRead("Public/Post.md")).toBe(true);
+    expect(allowList.canRead("Drafts/Post.md")).toBe(false);
+  });
+
+  it("should let deny lists win over allow lists for writes", () => {
+    expect(policy.canWrite("Inbox/Task.md")).toBe(true);
+    expect(policy.canWrite("Notes/Idea.md")).toBe(false);
+    expect(policy.writeDenial(".obsidian/app.json")).toBe(
+      'it matches the writeDeny pattern ".obsidian/**"'
+    );
+    expect(() => policy.assertWritable("Private/a.md")).toThrow(
+      'Write denied: "Private/a.md" cannot be changed because it matches the readDeny pattern "Private/**".'
+    );
+  });
+
+  it("should refuse every write in read-only mode", () => {
+    const readOnly = new PathPolicy({ readOnly: true });
+    expect(readOnly.canRead("Notes/Idea.md")).toBe(true);
+    expect(readOnly.canWrite("Notes/Idea.md")).toBe(false);
+    expect(() => readOnly.assertWritesEnabled()).toThrow(PolicyError);
+  });
+
+  it("should drop unreadable files and folders from a tree", () => {
+    const tree = policy.filterTree([
+      { path: "Private", type: "tree", sha: "1" },
+      { path: "Private/a.md", type: "blob", sha: "2" },
+      { path: "Notes", type: "tree", sha: "3" },
+      { path: "Notes/b.md", type: "blob", sha: "4" },
+      { path: "Notes/c.secret.md", type: "blob", sha: "5" },
+    ]);
+    expect(tree.map((entry) => entry.path)).toEqual(["Notes", "Notes/b.md"]);
+  });
+});
@@ -0,0 +1,82 @@
+/// <reference types="vitest" />
+
+import { describe, it, expect } from "vitest";
+import {
+  findBacklinks,
+  findUnlinkedMentions,
+} from "../../src/obsidian/backlinks";
+import { buildLinkIndex } from "../../src/obsidian/links";
+
+const notes = new Map([
+  ["Projects/Alpha.md", "---\naliases: [Project A]\n---\n# Alpha\n[[Alpha]]"],
+  [
+    "Daily/2025-01-01.md",
+    [
+      "Worked on [[Alpha]] today.",
+      "See ![[Alpha#Goals]] and [[Project A|the project]].",
+      "Also [notes](../Projects/Alpha.md).",
+      "Talked about alpha testing with the team.",
+      "`Alpha` in code does not count.",
+    ].join("\n"),
+  ],
+  ["Ideas/Other.md", "---\ntitle: Alpha\n---\nNothing about it here."],
+]);
+
+const index = buildLinkIndex(
+  notes.keys(),
+  new Map([["Projects/Alpha.md", ["Project A"]]])
+);
+
+describe("findBacklinks", () => {
+  it("should find wikilinks, embeds, alias links and markdown links", () => {
+    const backlinks = findBacklinks("Projects/Alpha.md", notes, index);
+
+    expect(backlinks.map((link) => [link.kind, link.line])).toEqual([
+      ["wikilink", 1],
+      ["embed", 2],
+      ["wikilink", 2],
+      ["markdown", 3],
+    ]);
+    expect(backlinks[1].heading).toBe("Goals");
+    expect(backlinks[0].context).toBe("Worked on [[Alpha]] today.");
+  });
+
+  it("should ignore links from the note to itself", () => {
+    const backlinks = findBacklinks("Projects/Alpha.md", notes, index);
+    expect(backlinks.every((link) => link.sourcePath !== "Projects/Alpha.md"))
+      .toBe(true);
+  });
+});
+
+describe("findUnlinkedMentions", () => {
+  it("should report plain mentions outside links, code and frontmatter", () => {
+    const mentions = findUnlinkedMentions(
+      "Projects/Alpha.md",
+      ["Alpha", "Project A"],
+      notes
+    );
+
+    expect(mentions).toEqual([
+      {
+        sourcePath: "Daily/2025-01-01.md",
+        term: "Alpha",
+        line: 4,
+        context: "Talked about alpha testing with the team.",
+      },
+    ]);
+  });
+
+  it("should match whole words only", () => {
+    const mentions = findUnlinkedMentions(
+      "x.md",
+      ["Alp"],
+      new Map([["a.md", "Alpha is not Alp."]])
+    );
+    expect(mentions.map((mention) => mention.context)).toEqual([
+      "Alpha is not Alp.",
+    ]);
+    expect(
+      findUnlinkedMentions("x.md", ["Alp"], new Map([["a.md", "Alphabet"]]))
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,232 @@
+/// <reference types="vitest" />
+
+import { describe, it, expect } from "vitest";
+import {
+  CanvasError,
+  canvasNodeLabel,
+  parseCanvas,
+  renderCanvasMermaid,
+  renderCanvasOutline,
+} from "../../src/obsidian/canvas";
+
+const json = JSON.stringify({
+  nodes: [
+    {
+      id: "g1",
+      type: "group",
+      x: 0,
+      y: 0,
+      width: 600,
+      height: 400,
+      label: "Plan",
+    },
+    {
+      id: "t1",
+      type: "text",
+      x: 20,
+      y: 40,
+      width: 200,
+      height: 100,
+      text: "# Kickoff\nAgree on scope",
+    },
+    {
+      id: "f1",
+      type: "file",
+      x: 300,
+      y: 40,
+      width: 200,
+      height: 100,
+      file: "Projects/Alpha.md",
+      subpath: "#Goals",
+    },
+    {
+      id: "l1",
+      type: "link",
+      x: 800,
+      y: 0,
+      width: 200,
+      height: 100,
+      url: "https://example.com",
+    },
+    { id: "x1", type: "widget", x: 0, y: 0, width: 1, height: 1 },
+  ],
+  edges: [
+    { id: "e1", fromNode: "t1", toNode: "f1", label: "leads to" },
+    { id: "e2", fromNode: "f1", toNode: "l1", toEnd: "none" },
+    { id: "e3", fromNode: "l1", toNode: "x1" },
+  ],
+});
+
+describe("parseCanvas", () => {
+  it("should parse nodes and edges with default arrowheads", () => {
+    const canvas = parseCanvas(json);
+    expect(canvas.nodes.map((node) => node.id)).toEqual([
+      "g1",
+      "t1",
+      "f1",
+      "l1",
+    ]);
+    expect(canvas.nodes[2]).toMatchObject({
+      type: "file",
+      file: "Projects/Alpha.md",
+      subpath: "#Goals",
+    });
+    expect(canvas.edges).toEqual([
+      {
+        id: "e1",
+        fromNode: "t1",
+        toNode: "f1",
+        fromEnd: "none",
+        toEnd: "arrow",
+        label: "leads to",
+      },
+      { id: "e2", fromNode: "f1", toNode: "l1", fromEnd: "none", toEnd: "none" },
+    ]);
+  });
+
+  it("should treat an empty file as an empty canvas", () => {
+    expect(parseCanvas("")).toEqual({ nodes: [], edges: [] });
+  });
+
+  it("should reject malformed JSON", () => {
+    expect(() => parseCanvas("{nodes:")).toThrow(CanvasError);
+    expect(() => parseCanvas("[]")).toThrow("A canvas must be a JSON object");
+    expect(() => parseCanvas('{"nodes":{}}')).toThrow(
+      "Canvas nodes and edges must be arrays"
+    );
+  });
+});
+
+describe("canvasNodeLabel", () => {
+  it("should name nodes by their first line, file or URL", () => {
+    const [group, text, file, link] = parseCanvas(json).nodes;
+    expect(canvasNodeLabel(group)).toBe("Plan");
+    expect(canvasNodeLabel(text)).toBe("Kickoff");
+    expect(canvasNodeLabel(file)).toBe("Alpha#Goals");
+    expect(canvasNodeLabel(link)).toBe("https://example.com");
+  });
+});
+
+describe("renderCanvasOutline", () => {
+  it("should nest nodes under their groups and list connections", () => {
+    const canvas = parseCanvas(json);
+    expect(
+      renderCanvasOutline(canvas, {
+        files: new Map([["f1", "Projects/Alpha.md"]]),
+        contents: new Map([["f1", "## Goals\nShip it"]]),
+      })
+    ).toBe(
+      [
+        "- 🔗 https://example.com",
+        "",
+        "## Plan",
+        "",
+        "- # Kickoff",
+        "  Agree on scope",
+        "- 📄 [[Projects/Alpha.md#Goals]]",
+        "  > ## Goals",
+        "  > Ship it",
+        "",
+        "## Connections",
+        "",
+        "- Kickoff → Alpha#Goals (leads to)",
+        "- Alpha#Goals — https://example.com",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should flag file nodes that did not resolve", () => {
+    const canvas = parseCanvas(
+      JSON.stringify({
+        nodes: [{ id: "f", type: "file", file: "Gone.md" }],
+      })
+    );
+    expect(renderCanvasOutline(canvas)).toBe("- 📄 Gone.md _(missing)_\n");
+  });
+
+  it("should nest groups inside groups", () => {
+    const canvas = parseCanvas(
+      JSON.stringify({
+        nodes: [
+          { id: "a", type: "group", x: 0, y: 0, width: 100, height: 100 },
+          {
+            id: "b",
+            type: "group",
+            x: 10,
+            y: 10,
+            width: 50,
+            height: 50,
+            label: "Inner",
+          },
+        ],
+      })
+    );
+    expect(renderCanvasOutline(canvas)).toBe(
+      "## Group\n\n### Inner\n\n_Empty group._\n"
+    );
+  });
+});
+
+describe("renderCanvasMermaid", () => {
+  it("should render groups as subgraphs and edges with labels", () => {
+    expect(renderCanvasMermaid(parseCanvas(json))).toBe(
+      [
+        "flowchart LR",
+        '  subgraph n0["Plan"]',
+        '    n1["Kickoff"]',
+        '    n2[["Alpha#Goals"]]',
+        "  end",
+        '  n3(["https://example.com"])',
+        '  n1 -->|"leads to"| n2',
+        "  n2 --- n3",
+      ].join("\n")
+    );
+  });
+
+  it("should label file nodes with their resolved paths", () => {
+    const canvas = parseCanvas(
+      JSON.stringify({
+        nodes: [
+          { id: "a", type: "file", file: "Alpha", subpath: "#Goals" },
+          { id: "b", type: "file", x: 10, file: "Gone.md" },
+        ],
+      })
+    );
+    expect(
+      renderCanvasMermaid(canvas, {
+        files: new Map([["a", "Projects/Alpha.md"]]),
+      })
+    ).toBe(
+      [
+        "flowchart LR",
+        '  n0[["Projects/Alpha.md#Goals"]]',
+        '  n1[["Gone.md (missing)"]]',
+      ].join("\n")
+    );
+  });
+
+  it("should point reversed edges the right way", () => {
+    const canvas = parseCanvas(
+      JSON.stringify({
+        nodes: [
+          { id: "a", type: "text", text: 'Say "hi"' },
+          { id: "b", type: "text", x: 10, text: "B" },
+        ],
+        edges: [
+          { fromNode: "a", toNode: "b", fromEnd: "arrow", toEnd: "none" },
+          { fromNode: "a", toNode: "b", fromEnd: "arrow" },
+        ],
+      })
+    );
+    expect(renderCanvasMermaid(canvas)).toBe(
+      [
+        "flowchart LR",
+        '  n0["Say #quot;hi#quot;"]',
+        '  n1["B"]',
+        "  n1 --> n0",
+        "  n0 <--> n1",
+      ].join("\n")
+    );
+  });
+});
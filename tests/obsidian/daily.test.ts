@@ -0,0 +1,69 @@
+/// <reference types="vitest" />
+
+import { describe, it, expect } from "vitest";
+import {
+  dailyNotePath,
+  parseDailyNoteSettings,
+  templatePath,
+} from "../../src/obsidian/daily";
+
+describe("parseDailyNoteSettings", () => {
+  it("should read the core Daily Notes settings", () => {
+    expect(
+      parseDailyNoteSettings({
+        dailyNotes: JSON.stringify({
+          folder: "/Journal/",
+          format: "YYYY/MM/YYYY-MM-DD",
+          template: "Templates/Daily",
+        }),
+      })
+    ).toEqual({
+      folder: "Journal",
+      format: "YYYY/MM/YYYY-MM-DD",
+      template: "Templates/Daily",
+      source: "daily-notes",
+    });
+  });
+
+  it("should prefer an enabled Periodic Notes configuration", () => {
+    const settings = parseDailyNoteSettings({
+      dailyNotes: JSON.stringify({ folder: "Daily" }),
+      periodicNotes: JSON.stringify({
+        daily: { enabled: true, folder: "Periodic", format: "" },
+      }),
+    });
+    expect(settings).toMatchObject({
+      folder: "Periodic",
+      format: "YYYY-MM-DD",
+      source: "periodic-notes",
+    });
+
+    expect(
+      parseDailyNoteSettings({
+        dailyNotes: JSON.stringify({ folder: "Daily" }),
+        periodicNotes: JSON.stringify({ daily: { enabled: false } }),
+      }).source
+    ).toBe("daily-notes");
+  });
+
+  it("should fall back to Obsidian's defaults", () => {
+    expect(parseDailyNoteSettings({ dailyNotes: "not json" })).toEqual({
+      folder: "",
+      format: "YYYY-MM-DD",
+      template: "",
+      source: "default",
+    });
+  });
+});
+
+describe("dailyNotePath", () => {
+  it("should build the note path from the folder and format", () => {
+    const settings = parseDailyNoteSettings({
+      dailyNotes: JSON.stringify({ folder: "Journal", format: "YYYY/MMMM/D" }),
+    });
+    expect(dailyNotePath(settings, new Date(2025, 4, 7))).toBe(
+      "Journal/2025/May/7.md"
+    );
+    expect(templatePath("Templates/Daily")).toBe("Templates/Daily.md");
+  });
+});
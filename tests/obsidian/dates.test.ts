@@ -0,0 +1,45 @@
+/// <reference types="vitest" />
+
+import { describe, it, expect } from "vitest";
+import { formatMomentDate, parseCalendarDate } from "../../src/obsidian/dates";
+
+describe("formatMomentDate", () => {
+  const date = new Date(2025, 0, 3, 14, 5, 9);
+
+  it("should format common daily note patterns", () => {
+    expect(formatMomentDate(date, "YYYY-MM-DD")).toBe("2025-01-03");
+    expect(formatMomentDate(date, "YYYY/MM/DD dddd")).toBe(
+      "2025/01/03 Friday"
+    );
+    expect(formatMomentDate(date, "ddd, MMM Do YY")).toBe("Fri, Jan 3rd 25");
+    expect(formatMomentDate(date, "h:mm A")).toBe("2:05 PM");
+  });
+
+  it("should keep bracketed text literally", () => {
+    expect(formatMomentDate(date, "[Week] W [of] GGGG")).toBe("Week 1 of 2025");
+  });
+
+  it("should use ISO weeks across year boundaries", () => {
+    expect(formatMomentDate(new Date(2024, 11, 30), "GGGG-[W]WW")).toBe(
+      "2025-W01"
+    );
+    expect(formatMomentDate(new Date(2021, 0, 1), "GGGG-[W]WW")).toBe(
+      "2020-W53"
+    );
+  });
+});
+
+describe("parseCalendarDate", () => {
+  const now = new Date(2025, 2, 1, 9, 30);
+
+  it("should resolve relative days", () => {
+    expect(parseCalendarDate("today", now)).toEqual(new Date(2025, 2, 1));
+    expect(parseCalendarDate("Yesterday", now)).toEqual(new Date(2025, 1, 28));
+  });
+
+  it("should parse and validate ISO dates", () => {
+    expect(parseCalendarDate("2024-02-29")).toEqual(new Date(2024, 1, 29));
+    expect(parseCalendarDate("2025-02-29")).toBeNull();
+    expect(parseCalendarDate("next week")).toBeNull();
+  });
+});
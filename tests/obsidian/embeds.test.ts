@@ -0,0 +1,116 @@
+/// <reference types="vitest" />
+
+import { describe, it, expect } from "vitest";
+import { expandEmbeds } from "../../src/obsidian/embeds";
+import { buildLinkIndex } from "../../src/obsidian/links";
+
+const files: Record<string, string> = {
+  "Home.md": "Intro\n![[Summary]]\nSee ![[diagram.png]] and ![[paper.pdf#page=3]]",
+  "Summary.md": "---\ntags: [a]\n---\n\nSummary body\n![[Details#Goals]]",
+  "Details.md": "# Details\n\n## Goals\nShip it\n\n## Quote\nWise words ^q",
+  "Loop.md": "Loop start\n![[Loop]]",
+  "A.md": "A embeds ![[B]]",
+  "B.md": "B embeds ![[A]]",
+};
+const index = buildLinkIndex([
+  ...Object.keys(files),
+  "Assets/diagram.png",
+  "paper.pdf",
+]);
+const options = {
+  index,
+  readNote: async (path: string) => files[path],
+};
+
+describe("expandEmbeds", () => {
+  it("should inline nested notes and sections and reference attachments", async () => {
+    const result = await expandEmbeds(files["Home.md"], "Home.md", options);
+    expect(result.content).toBe(
+      [
+        "Intro",
+        "<!-- embed: Summary.md -->",
+        "Summary body",
+        "<!-- embed: Details.md#Goals -->",
+        "## Goals",
+        "Ship it",
+        "<!-- /embed -->",
+        "<!-- /embed -->",
+        "See [image: Assets/diagram.png] and [PDF: paper.pdf#page=3]",
+      ].join("\n")
+    );
+    expect(result.embeds).toEqual([
+      {
+        source: "Home.md",
+        line: 2,
+        raw: "![[Summary]]",
+        path: "Summary.md",
+        status: "expanded",
+        depth: 1,
+      },
+      {
+        source: "Summary.md",
+        line: 6,
+        raw: "![[Details#Goals]]",
+        path: "Details.md",
+        status: "expanded",
+        depth: 2,
+      },
+      {
+        source: "Home.md",
+        line: 3,
+        raw: "![[diagram.png]]",
+        path: "Assets/diagram.png",
+        status: "attachment",
+        depth: 1,
+      },
+      {
+        source: "Home.md",
+        line: 3,
+        raw: "![[paper.pdf#page=3]]",
+        path: "paper.pdf",
+        status: "attachment",
+        depth: 1,
+      },
+    ]);
+  });
+
+  it("should inline blocks without their ID", async () => {
+    const result = await expandEmbeds("![[Details#^q]]", "Note.md", options);
+    expect(result.content).toBe(
+      "<!-- embed: Details.md#^q -->\nWise words\n<!-- /embed -->"
+    );
+  });
+
+  it("should stop at cycles, the depth limit and broken embeds", async () => {
+    const loop = await expandEmbeds(files["Loop.md"], "Loop.md", options);
+    expect(loop.content).toBe(files["Loop.md"]);
+    expect(loop.embeds[0].status).toBe("cycle");
+
+    const mutual = await expandEmbeds(files["A.md"], "A.md", options);
+    expect(mutual.content).toBe(
+      "A embeds\n<!-- embed: B.md -->\nB embeds ![[A]]\n<!-- /embed -->"
+    );
+    expect(mutual.embeds.map((embed) => embed.status)).toEqual([
+      "expanded",
+      "cycle",
+    ]);
+
+    const shallow = await expandEmbeds(files["Home.md"], "Home.md", {
+      ...options,
+      maxDepth: 1,
+    });
+    expect(shallow.content).toContain("Summary body\n![[Details#Goals]]");
+    expect(shallow.embeds[1].status).toBe("depth-limit");
+
+    const broken = await expandEmbeds(
+      "![[Nowhere]] ![[Details#Nope]]",
+      "Note.md",
+      options
+    );
+    expect(broken.content).toBe("![[Nowhere]] ![[Details#Nope]]");
+    expect(broken.embeds.map((embed) => embed.status)).toEqual([
+      "broken",
+      "missing-anchor",
+    ]);
+  });
+});
@@ -0,0 +1,128 @@
+/// <reference types="vitest" />
+
+import { describe, it, expect } from "vitest";
+import {
+  FrontmatterError,
+  inferPropertyType,
+  parseFrontmatter,
+  splitFrontmatter,
+} from "../../src/obsidian/frontmatter";
+
+describe("splitFrontmatter", () => {
+  it("should return the whole note as body when there is no frontmatter", () => {
+    const result = splitFrontmatter("# Title\n\nBody");
+    expect(result.raw).toBeNull();
+    expect(result.body).toBe("# Title\n\nBody");
+    expect(result.bodyStartLine).toBe(1);
+  });
+
+  it("should split frontmatter from the body", () => {
+    const result = splitFrontmatter("---\ntitle: Test\n---\n# Title\r\n");
+    expect(result.raw).toBe("title: Test");
+    expect(result.body).toBe("# Title\n");
+    expect(result.bodyStartLine).toBe(4);
+  });
+
+  it("should throw when the frontmatter block is never closed", () => {
+    expect(() => splitFrontmatter("---\ntitle: Test\n# Title")).toThrow(
+      FrontmatterError
+    );
+  });
+});
+
+describe("parseFrontmatter", () => {
+  it("should report notes without frontmatter", () => {
+    const metadata = parseFrontmatter("Just a note");
+    expect(metadata.hasFrontmatter).toBe(false);
+    expect(metadata.tags).toEqual([]);
+    expect(metadata.properties).toEqual({});
+  });
+
+  it("should parse tags, aliases and cssclasses in list form", () => {
+    const metadata = parseFrontmatter(
+      [
+        "---",
+        "tags:",
+        "  - project/alpha",
+        "  - '#meeting'",
+        "aliases: [OKR, Objectives]",
+        "cssclasses:",
+        "  - wide",
+        "---",
+        "Body",
+      ].join("\n")
+    );
+    expect(metadata.tags).toEqual(["project/alpha", "meeting"]);
+    expect(metadata.aliases).toEqual(["OKR", "Objectives"]);
+    expect(metadata.cssclasses).toEqual(["wide"]);
+    expect(metadata.bodyStartLine).toBe(9);
+  });
+
+  it("should accept string forms and legacy singular keys", () => {
+    const metadata = parseFrontmatter(
+      "---\ntags: one, two three\nalias: Old Name\ncssclass: a b\n---\n"
+    );
+    expect(metadata.tags).toEqual(["one", "two", "three"]);
+    expect(metadata.aliases).toEqual(["Old Name"]);
+    expect(metadata.cssclasses).toEqual(["a", "b"]);
+  });
+
+  it("should infer property types", () => {
+    const metadata = parseFrontmatter(
+      [
+        "---",
+        "status: active",
+        "priority: 2",
+        "done: false",
+        "due: 2025-03-01",
+        "updated: 2025-03-01T10:30:00",
+        "owners: [alice, bob]",
+        "extra:",
+        "  nested: true",
+        "empty:",
+        "---",
+      ].join("\n")
+    );
+    expect(metadata.propertyTypes).toEqual({
+      status: "text",
+      priority: "number",
+      done: "checkbox",
+      due: "date",
+      updated: "datetime",
+      owners: "list",
+      extra: "object",
+      empty: "null",
+    });
+    expect(metadata.properties.due).toBe("2025-03-01");
+    expect(metadata.properties.owners).toEqual(["alice", "bob"]);
+  });
+
+  it("should treat an empty frontmatter block as no properties", () => {
+    const metadata = parseFrontmatter("---\n---\nBody");
+    expect(metadata.hasFrontmatter).toBe(true);
+    expect(metadata.properties).toEqual({});
+  });
+
+  it("should report invalid YAML with a line number", () => {
+    try {
+      parseFrontmatter("---\ntitle: ok\ntags: [unclosed\n---\nBody");
+      expect.unreachable("parseFrontmatter should have thrown");
+    } catch (error) {
+      expect(error).toBeInstanceOf(FrontmatterError);
+      expect((error as FrontmatterError).message).toContain("Invalid YAML");
+      expect((error as FrontmatterError).line).toBeGreaterThan(1);
+    }
+  });
+
+  it("should reject frontmatter that is not a mapping", () => {
+    expect(() => parseFrontmatter("---\n- a\n- b\n---\n")).toThrow(
+      "Frontmatter must be a set of key: value properties"
+    );
+  });
+});
+
+describe("inferPropertyType", () => {
+  it("should not treat impossible dates as dates", () => {
+    expect(inferPropertyType("2025-13-45")).toBe("text");
+  });
+});
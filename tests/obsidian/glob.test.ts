@@ -0,0 +1,46 @@
+/// <reference types="vitest" />
+
+import { describe, it, expect } from "vitest";
+import { matchesAnyGlob, matchesGlob } from "../../src/obsidian/glob";
+
+describe("matchesGlob", () => {
+  it("should match double-star folder patterns", () => {
+    expect(matchesGlob("Private/journal/2025.md", "Private/**")).toBe(true);
+    expect(matchesGlob("Public/Private/x.md", "Private/**")).toBe(false);
+    expect(matchesGlob("a/b/c/note.md", "**/c/*.md")).toBe(true);
+    expect(matchesGlob("c/note.md", "**/c/*.md")).toBe(true);
+  });
+
+  it("should keep single stars within one folder", () => {
+    expect(matchesGlob("Projects/Alpha.md", "Projects/*.md")).toBe(true);
+    expect(matchesGlob("Projects/sub/Alpha.md", "Projects/*.md")).toBe(false);
+  });
+
+  it("should match basename-only patterns anywhere", () => {
+    expect(matchesGlob("deep/folder/image.png", "*.png")).toBe(true);
+    expect(matchesGlob("deep/folder/image.png", "*.jpg")).toBe(false);
+  });
+
+  it("should treat trailing slashes as whole folders", () => {
+    expect(matchesGlob(".obsidian/app.json", ".obsidian/")).toBe(true);
+    expect(matchesGlob(".obsidian", ".obsidian/")).toBe(false);
+  });
+
+  it("should support alternatives, classes and single characters", () => {
+    expect(matchesGlob("a.canvas", "*.{md,canvas}")).toBe(true);
+    expect(matchesGlob("2025-01.md", "202[0-9]-0?.md")).toBe(true);
+    expect(matchesGlob("note.markdown", "*.{md,canvas}")).toBe(false);
+  });
+
+  it("should escape regular expression characters", () => {
+    expect(matchesGlob("notes/a+b (1).md", "notes/a+b (1).md")).toBe(true);
+    expect(matchesGlob("notes/aab (1).md", "notes/a+b (1).md")).toBe(false);
+  });
+});
+
+describe("matchesAnyGlob", () => {
+  it("should match when any glob matches", () => {
+    expect(matchesAnyGlob("x/y.md", ["*.png", "x/**"])).toBe(true);
+    expect(matchesAnyGlob("x/y.md", [])).toBe(false);
+  });
+});
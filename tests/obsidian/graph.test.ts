@@ -0,0 +1,81 @@
+/// <reference types="vitest" />
+
+import { describe, it, expect } from "vitest";
+import {
+  buildLinkGraph,
+  graphStats,
+  toAdjacency,
+  toGraphML,
+  toMermaid,
+} from "../../src/obsidian/graph";
+import { buildLinkIndex } from "../../src/obsidian/links";
+
+const notes = new Map([
+  ["Home.md", "[[Projects/Alpha]] and [[Beta]] and [[Alpha]] again"],
+  ["Projects/Alpha.md", "Back [[Home]], image ![[diagram.png]]"],
+  ["Beta.md", "No links, [[Missing note]] is broken"],
+  ["Solo.md", "Nothing here, [[#Heading]] points to itself"],
+  ["A & B.md", '[["Quoted"]] and [[C]]'],
+  ["C.md", ""],
+]);
+const index = buildLinkIndex([...notes.keys(), "diagram.png"]);
+
+describe("buildLinkGraph", () => {
+  it("should count note-to-note links and report broken ones", () => {
+    const graph = buildLinkGraph(notes, index);
+    expect(graph.edges).toEqual([
+      { source: "A & B.md", target: "C.md", count: 1 },
+      { source: "Home.md", target: "Beta.md", count: 1 },
+      { source: "Home.md", target: "Projects/Alpha.md", count: 2 },
+      { source: "Projects/Alpha.md", target: "Home.md", count: 1 },
+    ]);
+    expect(graph.broken).toEqual([
+      { source: "A & B.md", raw: '[["Quoted"]]', line: 1 },
+      { source: "Beta.md", raw: "[[Missing note]]", line: 1 },
+    ]);
+  });
+});
+
+describe("graphStats", () => {
+  it("should find orphans, dead ends, hubs and components", () => {
+    const stats = graphStats(buildLinkGraph(notes, index), 2);
+    expect(stats).toMatchObject({
+      notes: 6,
+      links: 5,
+      orphans: ["Solo.md"],
+      deadEnds: ["Beta.md", "C.md"],
+      hubs: [
+        { path: "Beta.md", incoming: 1 },
+        { path: "C.md", incoming: 1 },
+      ],
+      components: [
+        ["Beta.md", "Home.md", "Projects/Alpha.md"],
+        ["A & B.md", "C.md"],
+        ["Solo.md"],
+      ],
+    });
+  });
+});
+
+describe("graph exports", () => {
+  const graph = buildLinkGraph(
+    new Map([
+      ["A & B.md", '[[C]] "quoted"'],
+      ["C.md", ""],
+    ]),
+    index
+  );
+
+  it("should export adjacency lists, GraphML and Mermaid", () => {
+    expect(toAdjacency(graph)).toEqual({ "A & B.md": ["C.md"], "C.md": [] });
+    expect(toGraphML(graph)).toContain(
+      '<node id="A &amp; B.md"><data key="name">A &amp; B</data></node>'
+    );
+    expect(toGraphML(graph)).toContain(
+      '<edge source="A &amp; B.md" target="C.md"><data key="weight">1</data></edge>'
+    );
+    expect(toMermaid(graph)).toBe(
+      ['graph LR', '  n0["A & B"]', '  n1["C"]', "  n0 --> n1"].join("\n")
+    );
+  });
+});
@@ -0,0 +1,166 @@
+/// <reference types="vitest" />
+
+import { describe, it, expect } from "vitest";
+import {
+  buildLinkIndex,
+  extractLinks,
+  linkKind,
+  normalizePath,
+  parseLinkTarget,
+  relativePath,
+  resolveLinkTarget,
+} from "../../src/obsidian/links";
+
+describe("parseLinkTarget", () => {
+  it("should split headings and block references", () => {
+    expect(parseLinkTarget("Note#Heading")).toEqual({
+      target: "Note",
+      heading: "Heading",
+    });
+    expect(parseLinkTarget("Note#^abc-1")).toEqual({
+      target: "Note",
+      blockId: "abc-1",
+    });
+    expect(parseLinkTarget("#Local")).toEqual({ target: "", heading: "Local" });
+    expect(parseLinkTarget("Folder/Note")).toEqual({ target: "Folder/Note" });
+  });
+});
+
+describe("extractLinks", () => {
+  it("should extract wikilinks, embeds and markdown links", () => {
+    const links = extractLinks(
+      [
+        "See [[Note A]] and [[Folder/Note B#Intro|the intro]].",
+        "![[diagram.png]] and ![[Note C#^quote]]",
+        "[Docs](Docs/Guide%20One.md#Setup) and [web](https://example.com)",
+      ].join("\n")
+    );
+
+    expect(links.map((link) => [linkKind(link), link.target])).toEqual([
+      ["wikilink", "Note A"],
+      ["wikilink", "Folder/Note B"],
+      ["embed", "diagram.png"],
+      ["embed", "Note C"],
+      ["markdown", "Docs/Guide One.md"],
+    ]);
+    expect(links[1]).toMatchObject({
+      heading: "Intro",
+      alias: "the intro",
+      line: 1,
+    });
+    expect(links[3].blockId).toBe("quote");
+    expect(links[4]).toMatchObject({ heading: "Setup", alias: "Docs", line: 3 });
+  });
+
+  it("should ignore links inside code", () => {
+    const links = extractLinks(
+      ["```", "[[Inside Fence]]", "```", "`[[Inline]]` [[Real]]"].join("\n")
+    );
+    expect(links.map((link) => link.target)).toEqual(["Real"]);
+    expect(links[0].column).toBe(13);
+  });
+
+  it("should handle escaped pipes in tables", () => {
+    const [link] = extractLinks("| [[Note\\|Alias]] |");
+    expect(link.target).toBe("Note");
+    expect(link.alias).toBe("Alias");
+  });
+});
+
+describe("resolveLinkTarget", () => {
+  const index = buildLinkIndex(
+    [
+      "Projects/Alpha.md",
+      "Archive/Alpha.md",
+      "Daily/2025-01-01.md",
+      "Ideas/Zettel.md",
+      "assets/diagram.png",
+    ],
+    new Map([["Ideas/Zettel.md", ["Slip Box"]]])
+  );
+
+  it("should resolve unique note names", () => {
+    expect(resolveLinkTarget("2025-01-01", index)).toMatchObject({
+      status: "resolved",
+      path: "Daily/2025-01-01.md",
+      via: "name",
+    });
+    expect(resolveLinkTarget("diagram.png", index).path).toBe(
+      "assets/diagram.png"
+    );
+  });
+
+  it("should match names case-insensitively", () => {
+    expect(resolveLinkTarget("zettel", index).path).toBe("Ideas/Zettel.md");
+  });
+
+  it("should flag ambiguous names", () => {
+    expect(resolveLinkTarget("Alpha", index)).toEqual({
+      status: "ambiguous",
+      candidates: ["Archive/Alpha.md", "Projects/Alpha.md"],
+      via: "name",
+    });
+  });
+
+  it("should prefer a match next to the source note", () => {
+    expect(
+      resolveLinkTarget("Alpha", index, "Projects/Roadmap.md").path
+    ).toBe("Projects/Alpha.md");
+  });
+
+  it("should resolve full and partial paths", () => {
+    expect(resolveLinkTarget("Archive/Alpha", index).path).toBe(
+      "Archive/Alpha.md"
+    );
+    expect(resolveLinkTarget("Projects/Alpha.md", index).via).toBe("path");
+  });
+
+  it("should resolve relative markdown links", () => {
+    expect(
+      resolveLinkTarget(
+        "../Ideas/Zettel.md",
+        index,
+        "Projects/Roadmap.md",
+        "markdown"
+      ).path
+    ).toBe("Ideas/Zettel.md");
+  });
+
+  it("should fall back to aliases", () => {
+    expect(resolveLinkTarget("slip box", index)).toMatchObject({
+      status: "resolved",
+      path: "Ideas/Zettel.md",
+      via: "alias",
+    });
+  });
+
+  it("should resolve same-note links to the source", () => {
+    expect(resolveLinkTarget("", index, "Ideas/Zettel.md")).toMatchObject({
+      status: "resolved",
+      via: "self",
+    });
+  });
+
+  it("should report broken links", () => {
+    expect(resolveLinkTarget("Missing", index)).toEqual({
+      status: "broken",
+      candidates: [],
+    });
+  });
+});
+
+describe("normalizePath", () => {
+  it("should collapse dot segments", () => {
+    expect(normalizePath("a/./b/../c.md")).toBe("a/c.md");
+  });
+});
+
+describe("relativePath", () => {
+  it("should walk up to the common folder", () => {
+    expect(relativePath("Projects/2024", "Ideas/Zettel.md")).toBe(
+      "../../Ideas/Zettel.md"
+    );
+    expect(relativePath("Projects", "Projects/Alpha.md")).toBe("Alpha.md");
+    expect(relativePath("", "Ideas/Zettel.md")).toBe("Ideas/Zettel.md");
+  });
+});
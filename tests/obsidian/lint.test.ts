@@ -0,0 +1,68 @@
+/// <reference types="vitest" />
+
+import { describe, it, expect } from "vitest";
+import { buildLinkIndex } from "../../src/obsidian/links";
+import { lintVault } from "../../src/obsidian/lint";
+
+const notes = new Map([
+  ["Home.md", "---\ntags: [home]\n---\n![[diagram.png]] and [[Missing]]\n[[Idea]]"],
+  ["Inbox/Idea.md", "---\ntags: [a\n---\nBody"],
+  ["Archive/Idea.md", "---\ntags: []\n---\n"],
+  ["What? #1.md", "Text"],
+]);
+const files = [
+  ...notes.keys(),
+  "diagram.png",
+  "photo.jpg",
+  ".obsidian/icon.png",
+  "scripts/build.js",
+];
+const index = buildLinkIndex(files);
+
+describe("lintVault", () => {
+  it("should report every rule's issues sorted by rule and path", () => {
+    const issues = lintVault(files, notes, index, {
+      requiredProperties: ["tags"],
+    });
+    expect(
+      issues.map((issue) => [issue.rule, issue.path, issue.line])
+    ).toEqual([
+      ["broken-links", "Home.md", 4],
+      ["unreferenced-attachments", "photo.jpg", undefined],
+      ["duplicate-names", "Archive/Idea.md", undefined],
+      ["duplicate-names", "Inbox/Idea.md", undefined],
+      ["frontmatter", "Inbox/Idea.md", 2],
+      ["frontmatter", "What? #1.md", 1],
+      ["empty-notes", "Archive/Idea.md", undefined],
+      ["forbidden-characters", "What? #1.md", undefined],
+    ]);
+    expect(issues[0].message).toBe(
+      'Broken link `[[Missing]]`: no file matches "Missing"'
+    );
+    expect(issues[5].message).toBe("Missing required property: tags");
+    expect(issues[7].message).toContain('contains "?", "#"');
+  });
+
+  it("should run only the selected rules", () => {
+    const issues = lintVault(files, notes, index, { rules: ["empty-notes"] });
+    expect(issues).toEqual([
+      { rule: "empty-notes", path: "Archive/Idea.md", message: "Note is empty" },
+    ]);
+  });
+
+  it("should count canvas file nodes as references", () => {
+    const canvases = new Map([
+      [
+        "Board.canvas",
+        JSON.stringify({
+          nodes: [{ id: "p", type: "file", file: "photo.jpg" }],
+        }),
+      ],
+    ]);
+    const issues = lintVault(files, notes, index, {
+      rules: ["unreferenced-attachments"],
+      canvases,
+    });
+    expect(issues).toEqual([]);
+  });
+});
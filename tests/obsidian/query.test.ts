@@ -0,0 +1,147 @@
+/// <reference types="vitest" />
+
+import { describe, it, expect } from "vitest";
+import {
+  QuerySyntaxError,
+  extractInlineFields,
+  matchesFilter,
+  noteFields,
+  parseFilter,
+  parseSort,
+  relativeDate,
+  runQuery,
+} from "../../src/obsidian/query";
+
+// Wednesday 12 June 2024, local time
+const now = new Date(2024, 5, 12, 15, 30);
+
+describe("extractInlineFields", () => {
+  it("should read line and bracketed fields outside code", () => {
+    const note = [
+      "---",
+      "status:: not a field inside frontmatter",
+      "---",
+      "owner:: [[Me]]",
+      "- Due Date:: 2024-06-20",
+      "Estimate [hours:: 3] and (reviewed:: true) inline.",
+      "```",
+      "ignored:: value",
+      "```",
+      "owner:: Sam",
+    ].join("\n");
+    expect(extractInlineFields(note)).toEqual({
+      owner: ["[[Me]]", "Sam"],
+      "Due Date": "2024-06-20",
+      hours: 3,
+      reviewed: true,
+    });
+  });
+});
+
+describe("noteFields", () => {
+  it("should merge frontmatter, inline and file fields", () => {
+    const fields = noteFields(
+      "Projects/Alpha.md",
+      "---\nstatus: active\ntags: [project]\n---\nstatus:: blocked\n#urgent"
+    );
+    expect(fields).toMatchObject({
+      status: ["active", "blocked"],
+      "file.name": "Alpha",
+      "file.folder": "Projects",
+      "file.tags": ["project", "urgent"],
+    });
+  });
+});
+
+describe("relativeDate", () => {
+  it("should resolve Dataview-style relative dates", () => {
+    expect(relativeDate("today", now)).toEqual(new Date(2024, 5, 12));
+    expect(relativeDate("sow", now)).toEqual(new Date(2024, 5, 10));
+    expect(relativeDate("eow", now)).toEqual(new Date(2024, 5, 16));
+    expect(relativeDate("eom", now)).toEqual(new Date(2024, 5, 30));
+    expect(relativeDate("som-1m", now)).toEqual(new Date(2024, 4, 1));
+    expect(relativeDate("today+2w", now)).toEqual(new Date(2024, 5, 26));
+    expect(relativeDate("someday", now)).toBeNull();
+  });
+});
+
+describe("parseFilter", () => {
+  const fields = {
+    status: "active",
+    owner: "[[People/Me|me]]",
+    due: "2024-06-20",
+    priority: 2,
+    done: false,
+    tags: ["project/alpha", "urgent"],
+  };
+  const matches = (filter: string) =>
+    matchesFilter(parseFilter(filter, now), fields);
+
+  it("should compare typed values", () => {
+    expect(matches("status = Active")).toBe(true);
+    expect(matches('owner = "me"')).toBe(true);
+    expect(matches("due >= som AND due <= eom")).toBe(true);
+    expect(matches("due < today")).toBe(false);
+    expect(matches("priority > 1 AND priority <= 2")).toBe(true);
+    expect(matches("done = false")).toBe(true);
+    expect(matches("status contains tiv")).toBe(true);
+  });
+
+  it("should look for dates in text as YYYY-MM-DD", () => {
+    expect(matches("due contains 2024-06-20")).toBe(true);
+    expect(matches("due contains 2024-01-01")).toBe(false);
+    expect(matches("status contains 2024-06-20")).toBe(false);
+    expect(
+      matchesFilter(parseFilter("created contains 2024-01-01", now), {
+        created: "2024-01-01T09:30",
+      })
+    ).toBe(true);
+  });
+
+  it("should match lists by any item", () => {
+    expect(matches("tags = urgent")).toBe(true);
+    expect(matches("tags contains urgent")).toBe(true);
+    expect(matches("tags != urgent")).toBe(false);
+  });
+
+  it("should combine conditions with AND, OR, NOT and parentheses", () => {
+    expect(matches("status = paused OR (priority = 2 AND NOT done)")).toBe(
+      true
+    );
+    expect(matches("!status OR missing")).toBe(false);
+    expect(matches("missing = null AND missing != x")).toBe(true);
+  });
+
+  it("should report syntax errors", () => {
+    expect(() => parseFilter("status =")).toThrow(QuerySyntaxError);
+    expect(() => parseFilter("(status = a")).toThrow('Expected ")"');
+    expect(() => parseFilter("status = a b")).toThrow(
+      "join conditions with AND or OR"
+    );
+  });
+});
+
+describe("runQuery", () => {
+  const notes = new Map([
+    ["a.md", "---\ndue: 2024-07-01\npriority: 1\n---\n"],
+    ["b.md", "due:: 2024-06-15\npriority:: 3"],
+    ["c.md", "priority:: 2"],
+  ]);
+
+  it("should sort with missing values last and apply the limit", () => {
+    const { rows, total } = runQuery(notes, {
+      filter: parseFilter("priority >= 1", now),
+      sort: parseSort("due asc"),
+      limit: 2,
+    });
+    expect(total).toBe(3);
+    expect(rows.map((row) => row.path)).toEqual(["b.md", "a.md"]);
+
+    const byPriority = runQuery(notes, { sort: parseSort("priority desc") });
+    expect(byPriority.rows.map((row) => row.path)).toEqual([
+      "b.md",
+      "c.md",
+      "a.md",
+    ]);
+  });
+});
@@ -0,0 +1,84 @@
+/// <reference types="vitest" />
+
+import { describe, it, expect } from "vitest";
+import { buildLinkIndex } from "../../src/obsidian/links";
+import { planNoteMove } from "../../src/obsidian/rename";
+
+describe("planNoteMove", () => {
+  const notes = new Map([
+    [
+      "Projects/Alpha.md",
+      [
+        "# Alpha",
+        "See [Roadmap](../Plans/Roadmap.md) and [[Beta]].",
+        "Back to [self](Alpha.md#Alpha)",
+      ].join("\n"),
+    ],
+    [
+      "Index.md",
+      [
+        "- [[Alpha]] and [[Alpha#Goals|our goals]]",
+        "- ![[Projects/Alpha#^quote]]",
+        "- [link](Projects/Alpha.md) and [[The Alpha]]",
+        "- `[[Alpha]]` stays in code",
+      ].join("\n"),
+    ],
+    ["Plans/Roadmap.md", "| [[Alpha\\|A]] | [Alpha](<../Projects/Alpha.md>) |"],
+    ["Beta.md", "No links here"],
+  ]);
+  const index = buildLinkIndex(
+    [...notes.keys()],
+    new Map([["Projects/Alpha.md", ["The Alpha"]]])
+  );
+
+  it("should rewrite links to the moved note and keep anchors and aliases", () => {
+    const rewrites = planNoteMove(
+      "Projects/Alpha.md",
+      "Archive/Alpha Old.md",
+      notes,
+      index
+    );
+    expect(rewrites.map((rewrite) => rewrite.path)).toEqual([
+      "Index.md",
+      "Plans/Roadmap.md",
+      "Projects/Alpha.md",
+    ]);
+
+    const indexNote = rewrites[0];
+    expect(indexNote.content.split("\n")).toEqual([
+      "- [[Alpha Old]] and [[Alpha Old#Goals|our goals]]",
+      "- ![[Archive/Alpha Old#^quote]]",
+      "- [link](Archive/Alpha%20Old.md) and [[The Alpha]]",
+      "- `[[Alpha]]` stays in code",
+    ]);
+    expect(indexNote.edits.map((edit) => edit.line)).toEqual([1, 2, 3]);
+    expect(indexNote.edits[0].before).toBe(
+      "- [[Alpha]] and [[Alpha#Goals|our goals]]"
+    );
+
+    expect(rewrites[1].content).toBe(
+      "| [[Alpha Old\\|A]] | [Alpha](<../Archive/Alpha Old.md>) |"
+    );
+  });
+
+  it("should update relative links inside the moved note", () => {
+    const moved = planNoteMove(
+      "Projects/Alpha.md",
+      "Archive/2024/Alpha.md",
+      notes,
+      index
+    ).find((rewrite) => rewrite.path === "Projects/Alpha.md");
+
+    expect(moved?.content.split("\n").slice(1)).toEqual([
+      "See [Roadmap](../../Plans/Roadmap.md) and [[Beta]].",
+      "Back to [self](Alpha.md#Alpha)",
+    ]);
+  });
+
+  it("should spell out the path when the new name is ambiguous", () => {
+    const rewrites = planNoteMove("Projects/Alpha.md", "Old/Beta.md", notes, index);
+    expect(rewrites[0].content.split("\n")[0]).toBe(
+      "- [[Old/Beta]] and [[Old/Beta#Goals|our goals]]"
+    );
+  });
+});
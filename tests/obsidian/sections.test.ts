@@ -0,0 +1,125 @@
+/// <reference types="vitest" />
+
+import { describe, it, expect } from "vitest";
+import {
+  appendToSection,
+  findBlock,
+  findSection,
+  noteOutline,
+} from "../../src/obsidian/sections";
+
+const note = [
+  "# 2025-01-03",
+  "",
+  "## Meetings",
+  "- Standup",
+  "### Notes",
+  "- detail",
+  "",
+  "## Tasks",
+  "- [ ] Ship it",
+  "",
+].join("\n");
+
+describe("findSection", () => {
+  it("should include nested subheadings in a section", () => {
+    expect(findSection(note, "Meetings")).toMatchObject({
+      startLine: 3,
+      endLine: 7,
+    });
+    expect(findSection(note, "## tasks")?.endLine).toBe(10);
+    expect(findSection(note, "### Meetings")).toBeNull();
+  });
+});
+
+describe("noteOutline", () => {
+  it("should nest headings with their ranges and block IDs", () => {
+    const outline = noteOutline(
+      "Intro ^top\n# Title\n## A\ntext ^a\n### A1\n```\n# not ^code\n```\n## B\n"
+    );
+    expect(outline.lineCount).toBe(10);
+    expect(outline.blocks).toEqual([{ id: "top", line: 1 }]);
+    expect(outline.headings).toHaveLength(1);
+    const [title] = outline.headings;
+    expect(title).toMatchObject({ startLine: 2, endLine: 10, blocks: [] });
+    expect(
+      title.children.map((node) => [
+        node.heading.text,
+        node.startLine,
+        node.endLine,
+        node.blocks.map((block) => block.id),
+        node.children.length,
+      ])
+    ).toEqual([
+      ["A", 3, 8, ["a"], 1],
+      ["B", 9, 10, [], 0],
+    ]);
+  });
+});
+
+describe("findBlock", () => {
+  const blocks = [
+    "# Log",
+    "First line",
+    "second line ^para",
+    "- item ^item",
+    "  - child",
+    "- sibling",
+    "",
+    "| a | b |",
+    "| - | - |",
+    "",
+    "^table",
+  ].join("\n");
+
+  it("should delimit paragraphs, list items and standalone IDs", () => {
+    expect(findBlock(blocks, "para")).toEqual({
+      blockId: "para",
+      startLine: 2,
+      endLine: 3,
+    });
+    expect(findBlock(blocks, "item")).toMatchObject({
+      startLine: 4,
+      endLine: 5,
+    });
+    expect(findBlock(blocks, "table")).toMatchObject({
+      startLine: 8,
+      endLine: 9,
+    });
+    expect(findBlock(blocks, "missing")).toBeNull();
+  });
+});
+
+describe("appendToSection", () => {
+  it("should append after the last line of the section", () => {
+    expect(appendToSection(note, "- Retro", "Meetings").split("\n")).toEqual([
+      "# 2025-01-03",
+      "",
+      "## Meetings",
+      "- Standup",
+      "### Notes",
+      "- detail",
+      "- Retro",
+      "",
+      "## Tasks",
+      "- [ ] Ship it",
+      "",
+    ]);
+  });
+
+  it("should add a missing heading at the end of the note", () => {
+    expect(appendToSection("# Day\n", "Idea", "### Inbox")).toBe(
+      "# Day\n\n### Inbox\nIdea\n"
+    );
+    expect(appendToSection("", "Idea", "Inbox")).toBe("## Inbox\nIdea\n");
+  });
+
+  it("should append to the end of the note without a heading", () => {
+    expect(appendToSection("# Day\n- one\n", "- two")).toBe(
+      "# Day\n- one\n\n- two\n"
+    );
+    expect(appendToSection("## Log\n- one", "- two", "Log")).toBe(
+      "## Log\n- one\n- two\n"
+    );
+  });
+});
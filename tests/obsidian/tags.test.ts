@@ -0,0 +1,97 @@
+/// <reference types="vitest" />
+
+import { describe, it, expect } from "vitest";
+import {
+  buildTagTree,
+  extractTags,
+  matchesTagQuery,
+  noteTags,
+} from "../../src/obsidian/tags";
+
+describe("extractTags", () => {
+  it("should read frontmatter and inline tags but skip code", () => {
+    const note = [
+      "---",
+      "tags: [project/alpha, '#meeting']",
+      "---",
+      "# Heading is not a tag",
+      "Discussed #Idea and #project/alpha/ui, see [[Note#Section]].",
+      "Issue #123 and url https://example.com/#anchor are not tags.",
+      "`#inline-code` stays out",
+      "```",
+      "#in-code-block",
+      "```",
+      "#todo/later",
+    ].join("\n");
+
+    expect(extractTags(note)).toEqual([
+      { tag: "project/alpha" },
+      { tag: "meeting" },
+      { tag: "Idea", line: 5 },
+      { tag: "project/alpha/ui", line: 5 },
+      { tag: "todo/later", line: 11 },
+    ]);
+  });
+
+  it("should ignore malformed frontmatter but still skip its lines", () => {
+    const note = "---\ntags: [oops\n---\n#real";
+    expect(noteTags(note)).toEqual(["real"]);
+  });
+
+  it("should deduplicate tags case-insensitively", () => {
+    expect(noteTags("#Work and #work and #work/deep")).toEqual([
+      "Work",
+      "work/deep",
+    ]);
+  });
+});
+
+describe("matchesTagQuery", () => {
+  const tags = ["project/alpha", "status/active"];
+
+  it("should combine AND, OR and NOT", () => {
+    expect(matchesTagQuery(tags, { all: ["project", "status"] })).toBe(true);
+    expect(matchesTagQuery(tags, { any: ["meeting", "#status/active"] })).toBe(
+      true
+    );
+    expect(
+      matchesTagQuery(tags, { all: ["project"], none: ["status/active"] })
+    ).toBe(false);
+    expect(matchesTagQuery(tags, { all: ["project"], any: ["meeting"] })).toBe(
+      false
+    );
+    expect(matchesTagQuery(tags, { none: ["meeting"] })).toBe(false);
+  });
+
+  it("should match nested tags only when asked to", () => {
+    expect(matchesTagQuery(tags, { all: ["project"] })).toBe(true);
+    expect(
+      matchesTagQuery(tags, { all: ["project"], includeNested: false })
+    ).toBe(false);
+    expect(matchesTagQuery(tags, { all: ["proj"] })).toBe(false);
+  });
+});
+
+describe("buildTagTree", () => {
+  it("should nest tags and count notes at every level", () => {
+    const tree = buildTagTree(
+      new Map([
+        ["a.md", ["project/alpha", "meeting"]],
+        ["b.md", ["project/beta"]],
+        ["c.md", ["project", "project/alpha"]],
+      ])
+    );
+    expect(tree).toEqual([
+      { tag: "meeting", direct: 1, notes: 1, children: [] },
+      {
+        tag: "project",
+        direct: 1,
+        notes: 3,
+        children: [
+          { tag: "project/alpha", direct: 2, notes: 2, children: [] },
+          { tag: "project/beta", direct: 1, notes: 1, children: [] },
+        ],
+      },
+    ]);
+  });
+});
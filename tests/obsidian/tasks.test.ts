@@ -0,0 +1,95 @@
+/// <reference types="vitest" />
+
+import { describe, it, expect } from "vitest";
+import {
+  extractTasks,
+  matchesTaskFilter,
+  setTaskStatus,
+} from "../../src/obsidian/tasks";
+
+describe("extractTasks", () => {
+  it("should parse statuses and Tasks plugin metadata", () => {
+    const note = [
+      "---",
+      "- [ ] not a task in frontmatter",
+      "---",
+      "- [ ] Write report #work 📅 2024-06-10 ⏳ 2024-06-08 ⏫",
+      "  * [/] Draft outline 🔁 every week on Monday 📅 2024-06-03 ^draft",
+      "1. [x] Send invite ✅ 2024-06-01",
+      "> - [-] Cancelled idea",
+      "- [?] Question",
+      "- plain item",
+      "```",
+      "- [ ] in code",
+      "```",
+    ].join("\n");
+
+    const tasks = extractTasks(note);
+    expect(tasks.map((task) => [task.line, task.status])).toEqual([
+      [4, "todo"],
+      [5, "in-progress"],
+      [6, "done"],
+      [7, "cancelled"],
+      [8, "other"],
+    ]);
+    expect(tasks[0]).toMatchObject({
+      symbol: " ",
+      description: "Write report #work",
+      priority: "high",
+      dates: { due: "2024-06-10", scheduled: "2024-06-08" },
+      tags: ["work"],
+    });
+    expect(tasks[1]).toMatchObject({
+      description: "Draft outline",
+      recurrence: "every week on Monday",
+      dates: { due: "2024-06-03" },
+      blockId: "draft",
+    });
+    expect(tasks[2].dates).toEqual({ done: "2024-06-01" });
+  });
+});
+
+describe("matchesTaskFilter", () => {
+  const [task] = extractTasks("- [ ] Pay rent #home/bills 📅 2024-06-10");
+
+  it("should filter by status, date range and tag", () => {
+    expect(matchesTaskFilter(task, { status: ["todo"] })).toBe(true);
+    expect(matchesTaskFilter(task, { status: ["done"] })).toBe(false);
+    expect(
+      matchesTaskFilter(task, { from: "2024-06-01", to: "2024-06-10" })
+    ).toBe(true);
+    expect(matchesTaskFilter(task, { from: "2024-06-11" })).toBe(false);
+    expect(
+      matchesTaskFilter(task, { dateField: "scheduled", to: "2024-12-31" })
+    ).toBe(false);
+    expect(matchesTaskFilter(task, { tag: "#home" })).toBe(true);
+    expect(matchesTaskFilter(task, { tag: "work" })).toBe(false);
+  });
+});
+
+describe("setTaskStatus", () => {
+  it("should complete a task with a done date before its block ID", () => {
+    const note = "# Today\r\n- [ ] Call Sam 📅 2024-06-10 ^call\r\n";
+    const result = setTaskStatus(note, 2, { today: "2024-06-09" });
+    expect(result.content).toBe(
+      "# Today\r\n- [x] Call Sam 📅 2024-06-10 ✅ 2024-06-09 ^call\r\n"
+    );
+    expect(result.before.status).toBe("todo");
+    expect(result.after.dates.done).toBe("2024-06-09");
+  });
+
+  it("should reopen a done task and drop its done date", () => {
+    const note = "- [x] Call Sam ✅ 2024-06-09";
+    expect(setTaskStatus(note, 1).content).toBe("- [ ] Call Sam");
+    expect(setTaskStatus(note, 1, { symbol: "/" }).content).toBe(
+      "- [/] Call Sam"
+    );
+  });
+
+  it("should reject lines that are not tasks", () => {
+    expect(() => setTaskStatus("# Heading\n- item", 2)).toThrow(
+      "Line 2 is not a task."
+    );
+    expect(() => setTaskStatus("- [ ] a", 5)).toThrow("Line 5 is not a task.");
+  });
+});
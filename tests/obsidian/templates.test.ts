@@ -0,0 +1,81 @@
+/// <reference types="vitest" />
+
+import { describe, it, expect } from "vitest";
+import {
+  parseTemplateSettings,
+  renderTemplate,
+  templateVariables,
+  unresolvedTemplaterCommands,
+} from "../../src/obsidian/templates";
+
+describe("parseTemplateSettings", () => {
+  it("should combine the Templates and Templater folders", () => {
+    expect(
+      parseTemplateSettings({
+        templates: JSON.stringify({
+          folder: "Templates/",
+          dateFormat: "DD.MM.YYYY",
+        }),
+        templater: JSON.stringify({ templates_folder: "Templater" }),
+      })
+    ).toEqual({
+      folders: [
+        { path: "Templates", source: "templates" },
+        { path: "Templater", source: "templater" },
+      ],
+      dateFormat: "DD.MM.YYYY",
+      timeFormat: "HH:mm",
+    });
+    expect(parseTemplateSettings({}).folders).toEqual([]);
+  });
+});
+
+describe("renderTemplate", () => {
+  const context = {
+    title: "Kickoff",
+    date: new Date(2025, 0, 3, 9, 15),
+    dateFormat: "YYYY-MM-DD",
+    path: "Meetings/2025/Kickoff.md",
+  };
+
+  it("should fill in core placeholders and caller variables", () => {
+    expect(
+      renderTemplate(
+        "# {{title}}\n{{date}} {{time}} ({{date:dddd}})\nWith {{ attendees }}, {{missing}}",
+        { ...context, variables: { attendees: "Ana, Bo" } }
+      )
+    ).toBe(
+      "# Kickoff\n2025-01-03 09:15 (Friday)\nWith Ana, Bo, {{missing}}"
+    );
+  });
+
+  it("should evaluate Templater file and date commands", () => {
+    expect(
+      renderTemplate(
+        [
+          '<% tp.file.title %> in <% tp.file.folder(true) %>',
+          '<% tp.date.now("YYYY-MM-DD", 7) %> <%- tp.date.tomorrow("DD") -%>',
+          "<%* tR += 'script' %> <% tp.system.prompt() %>",
+        ].join("\n"),
+        context
+      )
+    ).toBe(
+      [
+        "Kickoff in Meetings/2025",
+        "2025-01-10 04",
+        "<%* tR += 'script' %> <% tp.system.prompt() %>",
+      ].join("\n")
+    );
+  });
+});
+
+describe("template helpers", () => {
+  it("should list custom variables and leftover Templater commands", () => {
+    expect(templateVariables("{{title}} {{project}} {{date:YYYY}} {{owner}}")).toEqual(
+      ["project", "owner"]
+    );
+    expect(unresolvedTemplaterCommands("a <% tp.system.prompt() %> b")).toEqual([
+      "<% tp.system.prompt() %>",
+    ]);
+  });
+});
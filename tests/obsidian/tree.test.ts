@@ -0,0 +1,100 @@
+/// <reference types="vitest" />
+
+import { describe, it, expect } from "vitest";
+import type { RepoTreeEntry } from "../../src/github/types";
+import {
+  filterVaultTree,
+  isIgnoredByObsidian,
+  parseUserIgnoreFilters,
+  renderVaultTree,
+} from "../../src/obsidian/tree";
+
+const tree: RepoTreeEntry[] = [
+  { path: ".obsidian", type: "tree", sha: "1" },
+  { path: ".obsidian/app.json", type: "blob", sha: "2", size: 40 },
+  { path: "Projects", type: "tree", sha: "3" },
+  { path: "Projects/Alpha.md", type: "blob", sha: "4", size: 2048 },
+  { path: "Projects/Board.canvas", type: "blob", sha: "5", size: 300 },
+  { path: "Projects/Old", type: "tree", sha: "6" },
+  { path: "Projects/Old/Beta.md", type: "blob", sha: "7", size: 10 },
+  { path: "Archive", type: "tree", sha: "8" },
+  { path: "Archive/Gamma.md", type: "blob", sha: "9", size: 10 },
+  { path: "README.md", type: "blob", sha: "10", size: 5 },
+];
+
+const paths = (options: Parameters<typeof filterVaultTree>[1]) =>
+  filterVaultTree(tree, options).map((entry) => entry.path);
+
+describe("filterVaultTree", () => {
+  it("should hide dot-folders by default", () => {
+    expect(paths({})).not.toContain(".obsidian/app.json");
+    expect(paths({ includeHidden: true })).toContain(".obsidian/app.json");
+  });
+
+  it("should list a folder up to a maximum depth", () => {
+    expect(paths({ path: "Projects", maxDepth: 1 })).toEqual([
+      "Projects/Alpha.md",
+      "Projects/Board.canvas",
+      "Projects/Old",
+    ]);
+  });
+
+  it("should filter by extension and keep only folders leading to files", () => {
+    expect(paths({ extensions: [".canvas"] })).toEqual([
+      "Projects",
+      "Projects/Board.canvas",
+    ]);
+  });
+
+  it("should apply include and exclude globs", () => {
+    expect(paths({ include: ["*.md"], exclude: ["Projects/Old/**"] })).toEqual(
+      ["Archive", "Archive/Gamma.md", "Projects", "Projects/Alpha.md", "README.md"]
+    );
+  });
+
+  it("should honour Obsidian ignore filters", () => {
+    expect(paths({ ignoreFilters: ["Archive/", "/Old/"] })).toEqual([
+      "Projects",
+      "Projects/Alpha.md",
+      "Projects/Board.canvas",
+      "README.md",
+    ]);
+  });
+
+  it("should report depth relative to the listed folder", () => {
+    const entries = filterVaultTree(tree, { path: "Projects" });
+    expect(entries.find((e) => e.path === "Projects/Old/Beta.md")?.depth).toBe(
+      2
+    );
+  });
+});
+
+describe("parseUserIgnoreFilters", () => {
+  it("should read string filters and tolerate bad JSON", () => {
+    expect(
+      parseUserIgnoreFilters('{"userIgnoreFilters": ["Archive/", 3]}')
+    ).toEqual(["Archive/"]);
+    expect(parseUserIgnoreFilters("not json")).toEqual([]);
+    expect(parseUserIgnoreFilters("{}")).toEqual([]);
+  });
+});
+
+describe("isIgnoredByObsidian", () => {
+  it("should ignore invalid regular expressions", () => {
+    expect(isIgnoredByObsidian("a.md", ["/[/"])).toBe(false);
+  });
+});
+
+describe("renderVaultTree", () => {
+  it("should render folders before files with sizes", () => {
+    const entries = filterVaultTree(tree, { path: "Projects" });
+    expect(renderVaultTree(entries, "Projects")).toBe(
+      [
+        "📁 Old/",
+        "  📄 Beta.md (10 B)",
+        "📄 Alpha.md (2.0 KB)",
+        "📄 Board.canvas (300 B)",
+      ].join("\n")
+    );
+  });
+});
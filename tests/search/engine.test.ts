@@ -0,0 +1,167 @@
+/// <reference types="vitest" />
+
+import { readFileSync } from "node:fs";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { RepoTreeEntry } from "../../src/github/types";
+import {
+  LocalSearchEngine,
+  type SearchSource,
+  gitBlobSha,
+} from "../../src/search/engine";
+import { readTarball } from "../../src/search/tar";
+
+const fixture = readFileSync(
+  new URL("../fixtures/vault.tar.gz", import.meta.url)
+);
+const fixtureFiles = readTarball(fixture, { stripComponents: 1 });
+
+// A source serving the fixture, with the tree computed from its contents
+function fixtureSource() {
+  const blobs = new Map<string, Buffer>(
+    fixtureFiles.map((file) => [gitBlobSha(file.content), file.content])
+  );
+  let tree: { sha: string; entries: RepoTreeEntry[] } = {
+    sha: "tree-1",
+    entries: fixtureFiles.map((file) => ({
+      path: file.path,
+      type: "blob" as const,
+      sha: gitBlobSha(file.content),
+      size: file.content.length,
+    })),
+  };
+  const source = {
+    getTree: vi.fn(async () => tree),
+    downloadTarball: vi.fn(async () => fixture),
+    getBlob: vi.fn(async (sha: string) => {
+      const blob = blobs.get(sha);
+      if (!blob) throw new Error(`No blob ${sha}`);
+      return blob;
+    }),
+  } satisfies SearchSource;
+  const commit = (
+    sha: string,
+    files: Record<string, string | null>
+  ): void => {
+    const entries = tree.entries.filter((entry) => !(entry.path in files));
+    for (const [path, text] of Object.entries(files)) {
+      if (text === null) continue;
+      const content = Buffer.from(text);
+      blobs.set(gitBlobSha(content), content);
+      entries.push({
+        path,
+        type: "blob",
+        sha: gitBlobSha(content),
+        size: content.length,
+      });
+    }
+    tree = { sha, entries };
+  };
+  return { source, commit };
+}
+
+describe("LocalSearchEngine", () => {
+  let cacheDir: string | undefined;
+
+  afterEach(async () => {
+    if (cacheDir) await rm(cacheDir, { recursive: true, force: true });
+    cacheDir = undefined;
+  });
+
+  it("should build the index from the tarball", async () => {
+    const { source } = fixtureSource();
+    const engine = new LocalSearchEngine(source, { cacheKey: "octo/vault" });
+
+    const { index, treeSha, refresh } = await engine.getIndex("main");
+    expect(source.getTree).toHaveBeenCalledWith("main");
+    expect(source.downloadTarball).toHaveBeenCalledWith("main");
+    expect(source.getBlob).not.toHaveBeenCalled();
+    expect(treeSha).toBe("tree-1");
+    expect(refresh).toEqual({
+      mode: "built",
+      added: 6,
+      updated: 0,
+      removed: 0,
+    });
+    expect(index.search("review").map((hit) => hit.path)).toEqual([
+      "Archive/2023/A very long folder name that keeps on going/and another deeply nested folder name/Old Review Notes.md",
+      "Notes/Weekly Review.md",
+      "Projects/Alpha.md",
+    ]);
+    // Attachments are listed without content
+    expect(index.text("Attachments/diagram.png")).toBe("");
+
+    // Within the refresh interval the tree is not checked again
+    await engine.getIndex("main");
+    expect(source.getTree).toHaveBeenCalledTimes(1);
+  });
+
+  it("should refresh only the files whose blob SHA changed", async () => {
+    const { source, commit } = fixtureSource();
+    const engine = new LocalSearchEngine(source, {
+      cacheKey: "octo/vault",
+      refreshIntervalMs: 0,
+    });
+    await engine.getIndex();
+
+    expect((await engine.getIndex()).refresh.mode).toBe("unchanged");
+
+    commit("tree-2", {
+      "Projects/Alpha.md": "# Alpha\n\nPostponed indefinitely.",
+      "Projects/Beta.md": "# Beta\n\nBeta kickoff on Friday.",
+      "README.md": null,
+    });
+    const { index, treeSha, refresh } = await engine.getIndex();
+    expect(treeSha).toBe("tree-2");
+    expect(refresh).toEqual({
+      mode: "updated",
+      added: 1,
+      updated: 1,
+      removed: 1,
+    });
+    expect(source.downloadTarball).toHaveBeenCalledTimes(1);
+    expect(source.getBlob).toHaveBeenCalledTimes(2);
+    expect(index.search("friday").map((hit) => hit.path).sort()).toEqual([
+      "Notes/Weekly Review.md",
+      "Projects/Beta.md",
+    ]);
+    expect(index.search("knowledge")).toEqual([]);
+  });
+
+  it("should download a new tarball when too many files changed", async () => {
+    const { source, commit } = fixtureSource();
+    const engine = new LocalSearchEngine(source, {
+      cacheKey: "octo/vault",
+      refreshIntervalMs: 0,
+      maxIncrementalFiles: 0,
+    });
+    await engine.getIndex();
+    commit("tree-2", { "Projects/Beta.md": "Beta" });
+
+    const { refresh } = await engine.getIndex();
+    expect(refresh.mode).toBe("built");
+    expect(source.downloadTarball).toHaveBeenCalledTimes(2);
+  });
+
+  it("should persist the index between runs", async () => {
+    cacheDir = await mkdtemp(join(tmpdir(), "search-index-"));
+    const first = fixtureSource();
+    await new LocalSearchEngine(first.source, {
+      cacheDir,
+      cacheKey: "octo/vault",
+    }).getIndex("main");
+
+    const second = fixtureSource();
+    const { index, refresh } = await new LocalSearchEngine(second.source, {
+      cacheDir,
+      cacheKey: "octo/vault",
+    }).getIndex("main");
+    expect(refresh.mode).toBe("unchanged");
+    expect(second.source.downloadTarball).not.toHaveBeenCalled();
+    expect(index.search('"design team"').map((hit) => hit.path)).toEqual([
+      "Notes/Meetings.md",
+    ]);
+  });
+});
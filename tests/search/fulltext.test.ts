@@ -0,0 +1,120 @@
+/// <reference types="vitest" />
+
+import { describe, it, expect } from "vitest";
+import { FullTextIndex, tokenize } from "../../src/search/fulltext";
+
+function buildIndex(): FullTextIndex {
+  const index = new FullTextIndex();
+  index.add(
+    "Notes/Weekly Review.md",
+    "sha-1",
+    "# Weekly Review\n\nEvery Friday I do a weekly review of my projects.\nReview, review, review."
+  );
+  index.add(
+    "Notes/Meetings.md",
+    "sha-2",
+    "# Meetings\n\nMeeting with the design team about the café redesign.\nMeetings happen weekly."
+  );
+  index.add(
+    "Projects/Alpha.md",
+    "sha-3",
+    "# Alpha\n\nThe alpha project review is scheduled for Friday."
+  );
+  return index;
+}
+
+describe("tokenize", () => {
+  it("should lowercase and fold accents", () => {
+    expect(tokenize("Café re-design_2024 ÉTÉ")).toEqual([
+      "cafe",
+      "re",
+      "design_2024",
+      "ete",
+    ]);
+  });
+});
+
+describe("FullTextIndex", () => {
+  it("should rank documents by BM25 and require every term", () => {
+    const index = buildIndex();
+    const hits = index.search("review");
+    expect(hits.map((hit) => hit.path)).toEqual([
+      "Notes/Weekly Review.md",
+      "Projects/Alpha.md",
+    ]);
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+
+    expect(index.search("review friday alpha").map((hit) => hit.path)).toEqual(
+      ["Projects/Alpha.md"]
+    );
+    expect(index.search("review nothing")).toEqual([]);
+  });
+
+  it("should match phrases and prefixes", () => {
+    const index = buildIndex();
+    expect(index.search('"weekly review"').map((hit) => hit.path)).toEqual([
+      "Notes/Weekly Review.md",
+    ]);
+    expect(index.search('"review weekly"')).toEqual([]);
+    expect(index.search("meet*").map((hit) => hit.path)).toEqual([
+      "Notes/Meetings.md",
+    ]);
+    expect(index.search("cafe").map((hit) => hit.path)).toEqual([
+      "Notes/Meetings.md",
+    ]);
+  });
+
+  it("should apply a path filter", () => {
+    const index = buildIndex();
+    const hits = index.search("friday", (path) => path.startsWith("Projects/"));
+    expect(hits.map((hit) => hit.path)).toEqual(["Projects/Alpha.md"]);
+  });
+
+  it("should update and remove documents", () => {
+    const index = buildIndex();
+    index.add("Projects/Alpha.md", "sha-4", "Nothing scheduled anymore.");
+    expect(index.sha("Projects/Alpha.md")).toBe("sha-4");
+    expect(index.search("friday").map((hit) => hit.path)).toEqual([
+      "Notes/Weekly Review.md",
+    ]);
+
+    index.remove("Notes/Weekly Review.md");
+    expect(index.size).toBe(2);
+    expect(index.search("friday")).toEqual([]);
+    expect(index.search("week*").map((hit) => hit.path)).toEqual([
+      "Notes/Meetings.md",
+    ]);
+  });
+
+  it("should return the line that matches most of the query", () => {
+    const index = buildIndex();
+    expect(index.snippet("Notes/Weekly Review.md", "friday review")).toEqual({
+      line: 3,
+      text: "Every Friday I do a weekly review of my projects.",
+      ranges: [
+        [6, 12],
+        [27, 33],
+      ],
+    });
+
+    const long = `${"filler ".repeat(60)}needle ${"tail ".repeat(60)}`;
+    index.add("Long.md", "sha-5", long);
+    const snippet = index.snippet("Long.md", "needle");
+    expect(snippet?.text).toMatch(/^….*needle.*…$/);
+    expect(snippet?.text.length).toBeLessThanOrEqual(202);
+  });
+
+  it("should round-trip through JSON", () => {
+    const index = buildIndex();
+    const restored = FullTextIndex.fromJSON(
+      JSON.parse(JSON.stringify(index.toJSON()))
+    );
+    expect(restored.search('"design team"')).toEqual(
+      index.search('"design team"')
+    );
+    expect(restored.sha("Notes/Meetings.md")).toBe("sha-2");
+    expect(() =>
+      FullTextIndex.fromJSON({ version: 2 } as unknown as never)
+    ).toThrow("Unsupported search index format");
+  });
+});
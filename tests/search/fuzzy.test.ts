@@ -0,0 +1,57 @@
+/// <reference types="vitest" />
+
+import { describe, it, expect } from "vitest";
+import { fuzzyScore, rankNotes } from "../../src/search/fuzzy";
+
+describe("fuzzyScore", () => {
+  it("should rank exact, prefix, substring and word matches in order", () => {
+    const exact = fuzzyScore("okr 2025", "OKR 2025");
+    const prefix = fuzzyScore("okr", "OKR 2025");
+    const substring = fuzzyScore("2025", "OKR 2025");
+    const reordered = fuzzyScore("2025 okr", "OKR 2025");
+    expect(exact).toBe(1);
+    expect(prefix).toBeLessThan(exact);
+    expect(substring).toBeLessThan(prefix);
+    expect(reordered).toBeLessThan(substring);
+    expect(reordered).toBeGreaterThan(0);
+  });
+
+  it("should tolerate typos, accents and abbreviations", () => {
+    expect(fuzzyScore("weekly reveiw", "Weekly Review")).toBeGreaterThan(0.5);
+    expect(fuzzyScore("reunion", "Réunion équipe")).toBeGreaterThan(0.9);
+    expect(fuzzyScore("wkrv", "Weekly Review")).toBeGreaterThan(0);
+    expect(fuzzyScore("xyz", "Weekly Review")).toBe(0);
+    // Short words must match exactly or as a prefix
+    expect(fuzzyScore("oks", "OKR")).toBe(0);
+  });
+});
+
+describe("rankNotes", () => {
+  const notes = [
+    { path: "Goals/Objectives 2025.md", aliases: ["OKR 2025"] },
+    { path: "Archive/OKR 2024.md" },
+    { path: "Notes/Weekly Review.md", heading: "Friday planning" },
+    { path: "Projects/Alpha.md" },
+  ];
+
+  it("should match names, aliases, headings and paths", () => {
+    expect(rankNotes("okr 2025", notes)[0]).toMatchObject({
+      path: "Goals/Objectives 2025.md",
+      field: "alias",
+      value: "OKR 2025",
+    });
+    expect(rankNotes("friday planing", notes)[0]).toMatchObject({
+      path: "Notes/Weekly Review.md",
+      field: "heading",
+    });
+    expect(rankNotes("projects alpha", notes)[0]).toMatchObject({
+      path: "Projects/Alpha.md",
+      field: "path",
+    });
+  });
+
+  it("should drop weak matches and apply the limit", () => {
+    expect(rankNotes("zzz", notes)).toEqual([]);
+    expect(rankNotes("okr", notes, { limit: 1 })).toHaveLength(1);
+  });
+});
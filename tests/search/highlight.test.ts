@@ -0,0 +1,46 @@
+/// <reference types="vitest" />
+
+import { describe, it, expect } from "vitest";
+import { clipHighlight, renderHighlight } from "../../src/search/highlight";
+
+describe("clipHighlight", () => {
+  it("should keep short texts whole with merged ranges", () => {
+    expect(
+      clipHighlight(
+        "weekly review",
+        [
+          [7, 13],
+          [0, 6],
+          [3, 7],
+        ],
+        200
+      )
+    ).toEqual({ text: "weekly review", ranges: [[0, 13]] });
+  });
+
+  it("should cut around the first match and shift the ranges", () => {
+    const text = `${"a".repeat(50)}match${"b".repeat(50)}`;
+    const clipped = clipHighlight(text, [[50, 55]], 20);
+    expect(clipped.text).toBe(`…${"a".repeat(5)}match${"b".repeat(10)}…`);
+    expect(clipped.ranges).toEqual([[6, 11]]);
+  });
+
+  it("should keep everything when maxLength is 0", () => {
+    const text = "x".repeat(500);
+    expect(clipHighlight(text, [], 0).text).toBe(text);
+  });
+});
+
+describe("renderHighlight", () => {
+  it("should wrap every match in bold", () => {
+    expect(
+      renderHighlight({
+        text: "a weekly review",
+        ranges: [
+          [2, 8],
+          [9, 15],
+        ],
+      })
+    ).toBe("a **weekly** **review**");
+  });
+});
@@ -0,0 +1,58 @@
+/// <reference types="vitest" />
+
+import { describe, it, expect } from "vitest";
+import { type RelatedInput, findRelatedNotes } from "../../src/search/related";
+
+describe("findRelatedNotes", () => {
+  const notes = new Map<string, RelatedInput>([
+    [
+      "Review.md",
+      {
+        links: ["Alpha.md", "Goals.md"],
+        tags: ["review"],
+        text: "Weekly review of the roadmap and the quarterly budget.",
+      },
+    ],
+    [
+      "Planning.md",
+      {
+        links: ["Goals.md"],
+        tags: ["Review", "planning"],
+        text: "Roadmap planning for the quarterly budget.",
+      },
+    ],
+    [
+      "Alpha.md",
+      { links: ["Review.md"], tags: [], text: "Alpha project kickoff." },
+    ],
+    ["Goals.md", { links: [], tags: [], text: "Goals for the year." }],
+    ["Recipes.md", { links: [], tags: [], text: "Pancakes and syrup." }],
+  ]);
+
+  it("should explain links, tags and content in common", () => {
+    const related = findRelatedNotes("Review.md", notes);
+    expect(related.map((note) => note.path)).toEqual([
+      "Planning.md",
+      "Alpha.md",
+      "Goals.md",
+    ]);
+    expect(related[0]).toMatchObject({
+      sharedLinks: ["Goals.md"],
+      sharedTags: ["review"],
+      terms: ["budget", "quarterly", "roadmap"],
+    });
+    expect(related[0].direct).toBeUndefined();
+    expect(related[1].direct).toBe("mutual");
+    expect(related[2].direct).toBe("outgoing");
+    expect(related[2].sharedBacklinks).toEqual([]);
+  });
+
+  it("should count notes linking to both and apply the limit", () => {
+    const related = findRelatedNotes("Goals.md", notes);
+    expect(related.find((note) => note.path === "Alpha.md")).toMatchObject({
+      sharedBacklinks: ["Review.md"],
+    });
+    expect(findRelatedNotes("Goals.md", notes, { limit: 1 })).toHaveLength(1);
+    expect(findRelatedNotes("Missing.md", notes)).toEqual([]);
+  });
+});
@@ -0,0 +1,48 @@
+/// <reference types="vitest" />
+
+import { readFileSync } from "node:fs";
+import { describe, it, expect } from "vitest";
+import { readTarball } from "../../src/search/tar";
+
+const fixture = readFileSync(
+  new URL("../fixtures/vault.tar.gz", import.meta.url)
+);
+
+describe("readTarball", () => {
+  it("should read the files of a GitHub-style tarball", () => {
+    const entries = readTarball(fixture, { stripComponents: 1 });
+    expect(entries.map((entry) => entry.path)).toEqual([
+      "Archive/2023/A very long folder name that keeps on going/and another deeply nested folder name/Old Review Notes.md",
+      "Attachments/diagram.png",
+      "Notes/Meetings.md",
+      "Notes/Weekly Review.md",
+      "Projects/Alpha.md",
+      "README.md",
+    ]);
+    const meetings = entries.find((entry) => entry.path === "Notes/Meetings.md");
+    expect(meetings?.content.toString("utf8")).toContain("café redesign");
+  });
+
+  it("should keep the top-level folder unless stripped", () => {
+    const entries = readTarball(fixture);
+    expect(entries[0].path.startsWith("octo-vault-abc1234/Archive/")).toBe(true);
+  });
+
+  it("should read uncompressed archives with ustar name prefixes", () => {
+    const header = Buffer.alloc(512);
+    header.write("note.md", 0);
+    header.write("0000644\0", 100);
+    header.write("00000000005\0", 124);
+    header.write("0", 156);
+    header.write("ustar\0", 257);
+    header.write("00", 263);
+    header.write("folder/sub", 345);
+    const body = Buffer.alloc(512);
+    body.write("hello");
+    const archive = Buffer.concat([header, body, Buffer.alloc(1024)]);
+
+    expect(readTarball(archive)).toEqual([
+      { path: "folder/sub/note.md", content: Buffer.from("hello") },
+    ]);
+  });
+});